@@ -64,14 +64,22 @@ drop policy if exists "anon_all_settings" on public.settings;
 drop policy if exists "anon_all_equipment" on public.equipment;
 drop policy if exists "anon_all_temperature_records" on public.temperature_records;
 drop policy if exists "anon_all_oil_change_records" on public.oil_change_records;
+drop policy if exists "anon_all_corrective_actions" on public.corrective_actions;
+drop policy if exists "anon_all_process_temperature_logs" on public.process_temperature_logs;
 drop policy if exists "anon_all_tasks" on public.tasks;
 drop policy if exists "anon_all_orders" on public.orders;
+drop policy if exists "anon_all_suppliers" on public.suppliers;
+drop policy if exists "anon_all_standing_orders" on public.standing_orders;
+drop policy if exists "anon_all_supplier_non_conformities" on public.supplier_non_conformities;
 drop policy if exists "anon_all_product_traces" on public.product_traces;
 drop policy if exists "anon_all_invoices" on public.invoices;
 drop policy if exists "anon_all_price_history" on public.price_history;
 drop policy if exists "anon_all_ingredients" on public.ingredients;
 drop policy if exists "anon_all_recipes" on public.recipes;
 drop policy if exists "anon_all_recipe_ingredients" on public.recipe_ingredients;
+drop policy if exists "anon_all_recipe_outputs" on public.recipe_outputs;
+drop policy if exists "anon_all_stock_counts" on public.stock_counts;
+drop policy if exists "anon_all_pos_dish_mappings" on public.pos_dish_mappings;
 
 drop policy if exists "auth_workspace_settings" on public.settings;
 create policy "auth_workspace_settings"
@@ -97,6 +105,18 @@ on public.oil_change_records for all to authenticated
 using (public.is_workspace_member(workspace_id))
 with check (public.is_workspace_member(workspace_id));
 
+drop policy if exists "auth_workspace_corrective_actions" on public.corrective_actions;
+create policy "auth_workspace_corrective_actions"
+on public.corrective_actions for all to authenticated
+using (public.is_workspace_member(workspace_id))
+with check (public.is_workspace_member(workspace_id));
+
+drop policy if exists "auth_workspace_process_temperature_logs" on public.process_temperature_logs;
+create policy "auth_workspace_process_temperature_logs"
+on public.process_temperature_logs for all to authenticated
+using (public.is_workspace_member(workspace_id))
+with check (public.is_workspace_member(workspace_id));
+
 drop policy if exists "auth_workspace_tasks" on public.tasks;
 create policy "auth_workspace_tasks"
 on public.tasks for all to authenticated
@@ -109,6 +129,24 @@ on public.orders for all to authenticated
 using (public.is_workspace_member(workspace_id))
 with check (public.is_workspace_member(workspace_id));
 
+drop policy if exists "auth_workspace_suppliers" on public.suppliers;
+create policy "auth_workspace_suppliers"
+on public.suppliers for all to authenticated
+using (public.is_workspace_member(workspace_id))
+with check (public.is_workspace_member(workspace_id));
+
+drop policy if exists "auth_workspace_standing_orders" on public.standing_orders;
+create policy "auth_workspace_standing_orders"
+on public.standing_orders for all to authenticated
+using (public.is_workspace_member(workspace_id))
+with check (public.is_workspace_member(workspace_id));
+
+drop policy if exists "auth_workspace_supplier_non_conformities" on public.supplier_non_conformities;
+create policy "auth_workspace_supplier_non_conformities"
+on public.supplier_non_conformities for all to authenticated
+using (public.is_workspace_member(workspace_id))
+with check (public.is_workspace_member(workspace_id));
+
 drop policy if exists "auth_workspace_product_traces" on public.product_traces;
 create policy "auth_workspace_product_traces"
 on public.product_traces for all to authenticated
@@ -145,6 +183,24 @@ on public.recipe_ingredients for all to authenticated
 using (public.is_workspace_member(workspace_id))
 with check (public.is_workspace_member(workspace_id));
 
+drop policy if exists "auth_workspace_recipe_outputs" on public.recipe_outputs;
+create policy "auth_workspace_recipe_outputs"
+on public.recipe_outputs for all to authenticated
+using (public.is_workspace_member(workspace_id))
+with check (public.is_workspace_member(workspace_id));
+
+drop policy if exists "auth_workspace_stock_counts" on public.stock_counts;
+create policy "auth_workspace_stock_counts"
+on public.stock_counts for all to authenticated
+using (public.is_workspace_member(workspace_id))
+with check (public.is_workspace_member(workspace_id));
+
+drop policy if exists "auth_workspace_pos_dish_mappings" on public.pos_dish_mappings;
+create policy "auth_workspace_pos_dish_mappings"
+on public.pos_dish_mappings for all to authenticated
+using (public.is_workspace_member(workspace_id))
+with check (public.is_workspace_member(workspace_id));
+
 -- Harden storage policies with workspace folder enforcement.
 drop policy if exists "public_read_cuisine_media" on storage.objects;
 drop policy if exists "anon_insert_cuisine_media" on storage.objects;
@@ -11,8 +11,26 @@ create table if not exists public.settings (
   onboarding_done boolean not null default false,
   price_alert_threshold numeric not null default 10,
   gemini_api_key text null,
+  target_food_cost_rate numeric null,
+  category_food_cost_targets jsonb not null default '{}'::jsonb,
+  menu_vat_rate numeric null,
+  price_rounding text null,
+  accounting_journal_code text null,
+  purchase_account text null,
+  vat_deductible_account text null,
+  supplier_account text null,
+  account_mappings jsonb not null default '[]'::jsonb,
   primary key (workspace_id, id)
 );
+alter table public.settings add column if not exists target_food_cost_rate numeric null;
+alter table public.settings add column if not exists category_food_cost_targets jsonb not null default '{}'::jsonb;
+alter table public.settings add column if not exists menu_vat_rate numeric null;
+alter table public.settings add column if not exists price_rounding text null;
+alter table public.settings add column if not exists accounting_journal_code text null;
+alter table public.settings add column if not exists purchase_account text null;
+alter table public.settings add column if not exists vat_deductible_account text null;
+alter table public.settings add column if not exists supplier_account text null;
+alter table public.settings add column if not exists account_mappings jsonb not null default '[]'::jsonb;
 
 create table if not exists public.equipment (
   workspace_id text not null default 'default',
@@ -22,8 +40,10 @@ create table if not exists public.equipment (
   min_temp numeric not null,
   max_temp numeric not null,
   sort_order integer not null default 0,
+  check_schedule jsonb null,
   primary key (workspace_id, id)
 );
+alter table public.equipment add column if not exists check_schedule jsonb null;
 create index if not exists idx_equipment_workspace_order on public.equipment (workspace_id, sort_order);
 
 create table if not exists public.temperature_records (
@@ -50,6 +70,40 @@ create table if not exists public.oil_change_records (
 );
 create index if not exists idx_oil_workspace_changed on public.oil_change_records (workspace_id, changed_at desc);
 
+create table if not exists public.corrective_actions (
+  workspace_id text not null default 'default',
+  id text not null,
+  temperature_record_id text not null,
+  equipment_id text not null,
+  action text not null check (action in ('product_moved', 'discarded', 'technician_called', 'recheck_scheduled')),
+  notes text null,
+  operator text null,
+  created_at timestamptz not null,
+  recheck_due_at timestamptz not null,
+  resolved_at timestamptz null,
+  resolved_by_record_id text null,
+  primary key (workspace_id, id)
+);
+alter table public.corrective_actions add column if not exists automatic boolean not null default false;
+create index if not exists idx_corrective_workspace_created on public.corrective_actions (workspace_id, created_at desc);
+create index if not exists idx_corrective_workspace_equipment on public.corrective_actions (workspace_id, equipment_id);
+
+create table if not exists public.process_temperature_logs (
+  workspace_id text not null default 'default',
+  id text not null,
+  process_type text not null check (process_type in ('cooling', 'hot_holding', 'reheating')),
+  product_name text not null,
+  started_at timestamptz not null,
+  start_temperature numeric not null,
+  ended_at timestamptz null,
+  end_temperature numeric null,
+  is_compliant boolean null,
+  operator text null,
+  notes text null,
+  primary key (workspace_id, id)
+);
+create index if not exists idx_process_temp_workspace_started on public.process_temperature_logs (workspace_id, started_at desc);
+
 create table if not exists public.tasks (
   workspace_id text not null default 'default',
   id text not null,
@@ -73,7 +127,7 @@ create table if not exists public.orders (
   id text not null,
   order_number text not null,
   supplier text not null,
-  status text not null check (status in ('draft', 'sent', 'received', 'invoiced')),
+  status text not null check (status in ('draft', 'sent', 'partially_received', 'received', 'invoiced')),
   items jsonb not null default '[]'::jsonb,
   order_date timestamptz not null,
   expected_delivery_date timestamptz null,
@@ -81,14 +135,83 @@ create table if not exists public.orders (
   total_ht numeric not null default 0,
   notes text null,
   invoice_id text null,
+  reception jsonb null,
+  send_log jsonb not null default '[]'::jsonb,
+  backorder jsonb null,
+  backorder_of jsonb null,
+  standing_order jsonb null,
   created_at timestamptz not null,
   updated_at timestamptz not null,
   primary key (workspace_id, id)
 );
+alter table public.orders add column if not exists reception jsonb null;
+alter table public.orders add column if not exists send_log jsonb not null default '[]'::jsonb;
+alter table public.orders add column if not exists backorder jsonb null;
+alter table public.orders add column if not exists backorder_of jsonb null;
+alter table public.orders add column if not exists standing_order jsonb null;
+alter table public.orders drop constraint if exists orders_status_check;
+alter table public.orders add constraint orders_status_check
+  check (status in ('draft', 'sent', 'partially_received', 'received', 'invoiced'));
 create index if not exists idx_orders_workspace_created on public.orders (workspace_id, created_at desc);
 create index if not exists idx_orders_workspace_supplier on public.orders (workspace_id, supplier);
 create index if not exists idx_orders_workspace_status on public.orders (workspace_id, status);
 
+create table if not exists public.suppliers (
+  workspace_id text not null default 'default',
+  id text not null,
+  name text not null,
+  contact_name text null,
+  email text null,
+  phone text null,
+  customer_account_number text null,
+  delivery_days jsonb not null default '[]'::jsonb,
+  order_cutoff_time text null,
+  lead_time_days integer null,
+  minimum_order_ht numeric null,
+  franco_ht numeric null,
+  notes text null,
+  par_levels jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null,
+  updated_at timestamptz not null,
+  primary key (workspace_id, id)
+);
+alter table public.suppliers add column if not exists par_levels jsonb not null default '[]'::jsonb;
+create index if not exists idx_suppliers_workspace_name on public.suppliers (workspace_id, name);
+
+create table if not exists public.standing_orders (
+  workspace_id text not null default 'default',
+  id text not null,
+  name text not null,
+  supplier text not null,
+  items jsonb not null default '[]'::jsonb,
+  weekdays jsonb not null default '[]'::jsonb,
+  cutoff_time text not null,
+  active boolean not null default true,
+  last_generated_for timestamptz null,
+  created_at timestamptz not null,
+  updated_at timestamptz not null,
+  primary key (workspace_id, id)
+);
+create index if not exists idx_standing_orders_workspace_supplier on public.standing_orders (workspace_id, supplier);
+
+create table if not exists public.supplier_non_conformities (
+  workspace_id text not null default 'default',
+  id text not null,
+  supplier text not null,
+  order_id text not null,
+  order_number text not null,
+  order_item_id text not null,
+  product_name text not null,
+  type text not null check (type in ('quantity_gap', 'rejected')),
+  ordered_quantity numeric not null,
+  received_quantity numeric not null,
+  unit text not null,
+  reason text null,
+  created_at timestamptz not null,
+  primary key (workspace_id, id)
+);
+create index if not exists idx_non_conformities_workspace_supplier on public.supplier_non_conformities (workspace_id, supplier);
+
 create table if not exists public.product_traces (
   workspace_id text not null default 'default',
   id text not null,
@@ -121,8 +244,14 @@ create table if not exists public.invoices (
   ocr_text text not null default '',
   tags jsonb not null default '[]'::jsonb,
   scanned_at timestamptz not null,
+  price_impact jsonb null,
+  image_hash text null,
+  vat_breakdown jsonb null,
   primary key (workspace_id, id)
 );
+alter table public.invoices add column if not exists price_impact jsonb null;
+alter table public.invoices add column if not exists image_hash text null;
+alter table public.invoices add column if not exists vat_breakdown jsonb null;
 create index if not exists idx_invoices_workspace_scanned on public.invoices (workspace_id, scanned_at desc);
 
 create table if not exists public.price_history (
@@ -146,21 +275,41 @@ create table if not exists public.ingredients (
   unit_price numeric not null default 0,
   conditioning_quantity numeric null,
   supplier_id text null,
+  piece_weight_grams numeric null,
+  density_grams_per_ml numeric null,
+  usable_yield_percent numeric null,
   primary key (workspace_id, id)
 );
+alter table public.ingredients add column if not exists piece_weight_grams numeric null;
+alter table public.ingredients add column if not exists density_grams_per_ml numeric null;
+alter table public.ingredients add column if not exists usable_yield_percent numeric null;
 create index if not exists idx_ingredients_workspace_name on public.ingredients (workspace_id, name);
 
 create table if not exists public.recipes (
   workspace_id text not null default 'default',
   id text not null,
   title text not null,
+  category text null,
   portions numeric not null default 1,
   sale_price_ht numeric not null default 0,
+  yield_quantity numeric null,
+  yield_unit text null,
   created_at timestamptz not null,
   updated_at timestamptz not null,
   allergens jsonb not null default '[]'::jsonb,
+  steps jsonb not null default '[]'::jsonb,
+  photo_url text null,
+  plating_notes text null,
+  storage_notes text null,
   primary key (workspace_id, id)
 );
+alter table public.recipes add column if not exists yield_quantity numeric null;
+alter table public.recipes add column if not exists yield_unit text null;
+alter table public.recipes add column if not exists steps jsonb not null default '[]'::jsonb;
+alter table public.recipes add column if not exists photo_url text null;
+alter table public.recipes add column if not exists plating_notes text null;
+alter table public.recipes add column if not exists storage_notes text null;
+alter table public.recipes add column if not exists category text null;
 create index if not exists idx_recipes_workspace_updated on public.recipes (workspace_id, updated_at desc);
 
 create table if not exists public.recipe_ingredients (
@@ -168,12 +317,50 @@ create table if not exists public.recipe_ingredients (
   id text not null,
   recipe_id text not null,
   ingredient_id text not null,
+  sub_recipe_id text null,
   required_quantity numeric not null default 0,
   required_unit text not null check (required_unit in ('kg', 'g', 'l', 'ml', 'unite')),
+  usable_yield_percent numeric null,
   primary key (workspace_id, id)
 );
+alter table public.recipe_ingredients add column if not exists sub_recipe_id text null;
+alter table public.recipe_ingredients add column if not exists usable_yield_percent numeric null;
 create index if not exists idx_recipe_ingredients_workspace_recipe on public.recipe_ingredients (workspace_id, recipe_id);
 
+create table if not exists public.recipe_outputs (
+  workspace_id text not null default 'default',
+  id text not null,
+  recipe_id text not null,
+  recipe_title text not null,
+  kind text not null check (kind in ('production', 'sale')),
+  portions numeric not null,
+  date timestamptz not null,
+  notes text null,
+  created_at timestamptz not null,
+  primary key (workspace_id, id)
+);
+create index if not exists idx_recipe_outputs_workspace_date on public.recipe_outputs (workspace_id, date desc);
+
+create table if not exists public.stock_counts (
+  workspace_id text not null default 'default',
+  id text not null,
+  counted_at timestamptz not null,
+  operator text null,
+  notes text null,
+  lines jsonb not null default '[]'::jsonb,
+  primary key (workspace_id, id)
+);
+create index if not exists idx_stock_counts_workspace_counted on public.stock_counts (workspace_id, counted_at desc);
+
+create table if not exists public.pos_dish_mappings (
+  workspace_id text not null default 'default',
+  id text not null,
+  dish_label text not null,
+  recipe_id text not null,
+  updated_at timestamptz not null,
+  primary key (workspace_id, id)
+);
+
 -- Legacy migration: convert old "commandes" tasks into orders.
 with legacy_commands as (
   select
@@ -246,14 +433,22 @@ alter table public.settings enable row level security;
 alter table public.equipment enable row level security;
 alter table public.temperature_records enable row level security;
 alter table public.oil_change_records enable row level security;
+alter table public.corrective_actions enable row level security;
+alter table public.process_temperature_logs enable row level security;
 alter table public.tasks enable row level security;
 alter table public.orders enable row level security;
+alter table public.suppliers enable row level security;
+alter table public.standing_orders enable row level security;
+alter table public.supplier_non_conformities enable row level security;
 alter table public.product_traces enable row level security;
 alter table public.invoices enable row level security;
 alter table public.price_history enable row level security;
 alter table public.ingredients enable row level security;
 alter table public.recipes enable row level security;
 alter table public.recipe_ingredients enable row level security;
+alter table public.recipe_outputs enable row level security;
+alter table public.stock_counts enable row level security;
+alter table public.pos_dish_mappings enable row level security;
 
 drop policy if exists "anon_all_settings" on public.settings;
 create policy "anon_all_settings" on public.settings for all to anon using (true) with check (true);
@@ -263,10 +458,20 @@ drop policy if exists "anon_all_temperature_records" on public.temperature_recor
 create policy "anon_all_temperature_records" on public.temperature_records for all to anon using (true) with check (true);
 drop policy if exists "anon_all_oil_change_records" on public.oil_change_records;
 create policy "anon_all_oil_change_records" on public.oil_change_records for all to anon using (true) with check (true);
+drop policy if exists "anon_all_corrective_actions" on public.corrective_actions;
+create policy "anon_all_corrective_actions" on public.corrective_actions for all to anon using (true) with check (true);
+drop policy if exists "anon_all_process_temperature_logs" on public.process_temperature_logs;
+create policy "anon_all_process_temperature_logs" on public.process_temperature_logs for all to anon using (true) with check (true);
 drop policy if exists "anon_all_tasks" on public.tasks;
 create policy "anon_all_tasks" on public.tasks for all to anon using (true) with check (true);
 drop policy if exists "anon_all_orders" on public.orders;
 create policy "anon_all_orders" on public.orders for all to anon using (true) with check (true);
+drop policy if exists "anon_all_suppliers" on public.suppliers;
+create policy "anon_all_suppliers" on public.suppliers for all to anon using (true) with check (true);
+drop policy if exists "anon_all_standing_orders" on public.standing_orders;
+create policy "anon_all_standing_orders" on public.standing_orders for all to anon using (true) with check (true);
+drop policy if exists "anon_all_supplier_non_conformities" on public.supplier_non_conformities;
+create policy "anon_all_supplier_non_conformities" on public.supplier_non_conformities for all to anon using (true) with check (true);
 drop policy if exists "anon_all_product_traces" on public.product_traces;
 create policy "anon_all_product_traces" on public.product_traces for all to anon using (true) with check (true);
 drop policy if exists "anon_all_invoices" on public.invoices;
@@ -279,6 +484,12 @@ drop policy if exists "anon_all_recipes" on public.recipes;
 create policy "anon_all_recipes" on public.recipes for all to anon using (true) with check (true);
 drop policy if exists "anon_all_recipe_ingredients" on public.recipe_ingredients;
 create policy "anon_all_recipe_ingredients" on public.recipe_ingredients for all to anon using (true) with check (true);
+drop policy if exists "anon_all_recipe_outputs" on public.recipe_outputs;
+create policy "anon_all_recipe_outputs" on public.recipe_outputs for all to anon using (true) with check (true);
+drop policy if exists "anon_all_stock_counts" on public.stock_counts;
+create policy "anon_all_stock_counts" on public.stock_counts for all to anon using (true) with check (true);
+drop policy if exists "anon_all_pos_dish_mappings" on public.pos_dish_mappings;
+create policy "anon_all_pos_dish_mappings" on public.pos_dish_mappings for all to anon using (true) with check (true);
 
 -- Storage bucket for invoice/product images.
 insert into storage.buckets (id, name, public)
@@ -14,9 +14,11 @@ const TasksPage = lazy(() => import("./pages/Tasks"));
 const InvoicesPage = lazy(() => import("./pages/Invoices"));
 const RecipesPage = lazy(() => import("./pages/Recipes"));
 const OrdersPage = lazy(() => import("./pages/Orders"));
+const InventoryPage = lazy(() => import("./pages/Inventory"));
 const AssistantPage = lazy(() => import("./pages/Assistant"));
 const Dashboard = lazy(() => import("./pages/Dashboard"));
 const AnalyticsPage = lazy(() => import("./pages/Analytics"));
+const SuppliersPage = lazy(() => import("./pages/Suppliers"));
 const SettingsPage = lazy(() => import("./pages/Settings"));
 
 function LoadingSpinner() {
@@ -121,10 +123,12 @@ export default function App() {
               <Route path="/tasks" element={withSection('Taches', <TasksPage />)} />
               <Route path="/recipes" element={withSection('Fiches techniques', <RecipesPage />)} />
               <Route path="/orders" element={withSection('Commandes', <OrdersPage />)} />
+              <Route path="/inventory" element={withSection('Stock', <InventoryPage />)} />
               <Route path="/invoices" element={withSection('Factures', <InvoicesPage />)} />
               <Route path="/assistant" element={withSection('Agent IA', <AssistantPage />)} />
               <Route path="/dashboard" element={withSection('Dashboard', <Dashboard />)} />
               <Route path="/analytics" element={withSection('Analytics', <AnalyticsPage />)} />
+              <Route path="/suppliers" element={withSection('Fournisseurs', <SuppliersPage />)} />
               <Route path="/settings" element={withSection('Parametres', <SettingsPage />)} />
             </Routes>
           </Suspense>
@@ -0,0 +1,215 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { useAppStore } from '../../stores/appStore';
+import { showError } from '../../stores/toastStore';
+import type { Ingredient, Invoice, Recipe, RecipeIngredient, RecipeOutput } from '../../types';
+import AnalyticsKpiRow, { type AnalyticsKpiItem } from './AnalyticsKpiRow';
+import SalesImportModal from './SalesImportModal';
+import { computeAllRecipeCosts, computeFoodCostComparison } from '../../services/analyticsEngine';
+import { buildStockMovements } from '../../services/stock';
+import { getEffectiveUnitPrice } from '../../services/recipeCost';
+
+function formatEuro(value: number): string {
+  return new Intl.NumberFormat('fr-FR', {
+    style: 'currency',
+    currency: 'EUR',
+    maximumFractionDigits: value >= 1000 ? 0 : 2,
+  }).format(value);
+}
+
+function formatRate(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+const TOP_CONSUMPTION = 8;
+
+export default function FoodCostSection() {
+  const settings = useAppStore((s) => s.settings);
+  const getRecipes = useAppStore((s) => s.getRecipes);
+  const getIngredients = useAppStore((s) => s.getIngredients);
+  const getRecipeIngredients = useAppStore((s) => s.getRecipeIngredients);
+  const getInvoices = useAppStore((s) => s.getInvoices);
+  const getRecipeOutputs = useAppStore((s) => s.getRecipeOutputs);
+
+  const [loading, setLoading] = useState(true);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [links, setLinks] = useState<RecipeIngredient[]>([]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [sales, setSales] = useState<RecipeOutput[]>([]);
+  const [showImport, setShowImport] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const [recipeRows, ingredientRows, invoiceRows, outputRows] = await Promise.all([
+        getRecipes(),
+        getIngredients(),
+        getInvoices(),
+        getRecipeOutputs(),
+      ]);
+      const ingredientLinks = await Promise.all(recipeRows.map((recipe) => getRecipeIngredients(recipe.id)));
+      setRecipes(recipeRows);
+      setIngredients(ingredientRows);
+      setLinks(ingredientLinks.flat());
+      setInvoices(invoiceRows);
+      setSales(outputRows.filter((output) => output.kind === 'sale'));
+    } catch {
+      showError('Impossible de charger le food cost reel');
+    } finally {
+      setLoading(false);
+    }
+  }, [getRecipes, getIngredients, getRecipeIngredients, getInvoices, getRecipeOutputs]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const costRows = useMemo(
+    () => computeAllRecipeCosts(recipes, links, ingredients, settings),
+    [recipes, links, ingredients, settings],
+  );
+  const comparison = useMemo(
+    () => computeFoodCostComparison(sales, recipes, costRows, invoices, 6),
+    [sales, recipes, costRows, invoices],
+  );
+  const current = comparison[comparison.length - 1];
+  const previous = comparison[comparison.length - 2];
+  const reference = current && current.salesRevenue > 0 ? current : previous;
+
+  const consumption = useMemo(() => {
+    if (!reference) return [];
+    const periodSales = sales.filter((sale) => format(new Date(sale.date), 'MM/yy') === reference.month);
+    const movements = buildStockMovements({
+      invoices: [],
+      outputs: periodSales,
+      recipes,
+      recipeLines: links,
+      ingredients,
+    });
+    const ingredientMap = new Map(ingredients.map((ingredient) => [ingredient.id, ingredient]));
+    const totals = new Map<string, number>();
+    for (const movement of movements) {
+      totals.set(movement.ingredientId, (totals.get(movement.ingredientId) ?? 0) - movement.quantity);
+    }
+    return Array.from(totals.entries())
+      .map(([ingredientId, quantity]) => {
+        const ingredient = ingredientMap.get(ingredientId)!;
+        return { ingredient, quantity, value: quantity * getEffectiveUnitPrice(ingredient) };
+      })
+      .sort((a, b) => b.value - a.value)
+      .slice(0, TOP_CONSUMPTION);
+  }, [reference, sales, recipes, links, ingredients]);
+
+  const kpiItems: AnalyticsKpiItem[] = reference
+    ? [
+        { label: `CA ventes ${reference.month}`, value: formatEuro(reference.salesRevenue) },
+        {
+          label: 'Food cost theorique',
+          value: formatRate(reference.theoreticalRate),
+          sub: formatEuro(reference.theoreticalCost),
+        },
+        {
+          label: 'Food cost reel',
+          value: formatRate(reference.actualRate),
+          sub: `Achats ${formatEuro(reference.actualSpend)}`,
+          color: reference.actualRate > reference.theoreticalRate ? 'var(--app-danger)' : 'var(--app-success)',
+        },
+        {
+          label: 'Ecart',
+          value: formatEuro(reference.actualSpend - reference.theoreticalCost),
+          sub: 'Achats - consommation theorique',
+        },
+      ]
+    : [];
+
+  const chartData = comparison.map((point) => ({
+    month: point.month,
+    theorique: Math.round(point.theoreticalRate * 1000) / 10,
+    reel: Math.round(point.actualRate * 1000) / 10,
+  }));
+
+  return (
+    <section className="glass-card glass-panel space-y-4 animate-fade-in-up">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h2 className="ios-title3 app-text">Food cost reel</h2>
+          <p className="ios-caption app-muted">Ventes caisse x fiches techniques comparees aux achats factures.</p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setShowImport(true)}
+          className="shrink-0 px-3 py-2 rounded-xl app-accent-bg text-xs font-semibold active:opacity-70"
+        >
+          Importer ventes
+        </button>
+      </div>
+
+      {!loading && sales.length === 0 ? (
+        <p className="dash-empty-inline">
+          Aucune vente enregistree. Importez un export CSV de votre caisse pour calculer le food cost reel.
+        </p>
+      ) : (
+        <>
+          {kpiItems.length > 0 && <AnalyticsKpiRow items={kpiItems} />}
+
+          <div className="app-card p-3 sm:p-4">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="ios-caption-upper">Food cost theorique vs reel (6 mois)</h3>
+              {loading && <span className="ios-small app-muted">Chargement...</span>}
+            </div>
+            <ResponsiveContainer width="100%" height={220}>
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="var(--app-border)" />
+                <XAxis dataKey="month" tick={{ fontSize: 11, fill: 'var(--app-muted)' }} />
+                <YAxis tick={{ fontSize: 11, fill: 'var(--app-muted)' }} tickFormatter={(value: number) => `${value}%`} />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'var(--app-surface)',
+                    border: '1px solid var(--app-border)',
+                    borderRadius: '10px',
+                    fontSize: '13px',
+                    color: 'var(--app-text)',
+                  }}
+                  formatter={(value: number | undefined, name: string | undefined) => [
+                    `${value ?? 0}%`,
+                    name === 'reel' ? 'Reel' : 'Theorique',
+                  ]}
+                />
+                <Legend formatter={(value: string) => (value === 'reel' ? 'Reel' : 'Theorique')} />
+                <Bar dataKey="theorique" fill="var(--app-accent)" radius={[8, 8, 0, 0]} />
+                <Bar dataKey="reel" fill="var(--app-warning)" radius={[8, 8, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          {consumption.length > 0 && reference && (
+            <div className="space-y-2">
+              <h3 className="ios-caption-upper">Consommation theorique {reference.month}</h3>
+              {consumption.map((row) => (
+                <div key={row.ingredient.id} className="rounded-2xl app-card px-3 py-2.5 flex items-center gap-3">
+                  <p className="min-w-0 flex-1 text-[14px] font-semibold app-text truncate">{row.ingredient.name}</p>
+                  <span className="ios-small app-muted shrink-0">
+                    {Math.round(row.quantity * 100) / 100} {row.ingredient.unit}
+                  </span>
+                  <span className="text-[13px] font-semibold app-text shrink-0">{formatEuro(row.value)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      {showImport && (
+        <SalesImportModal
+          recipes={recipes}
+          onClose={() => setShowImport(false)}
+          onImported={() => {
+            setShowImport(false);
+            void load();
+          }}
+        />
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,332 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { addMonths, endOfMonth, format, startOfMonth, subMonths } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import {
+  CartesianGrid,
+  Cell,
+  ReferenceLine,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { useAppStore } from '../../stores/appStore';
+import { showError, showSuccess } from '../../stores/toastStore';
+import type { Ingredient, Recipe, RecipeIngredient, RecipeOutput } from '../../types';
+import { cn } from '../../utils';
+import AnalyticsKpiRow, { type AnalyticsKpiItem } from './AnalyticsKpiRow';
+import {
+  buildMenuSuggestions,
+  computeAllRecipeCosts,
+  computeMenuEngineering,
+  type MenuEngineeringRow,
+  type MenuQuadrant,
+} from '../../services/analyticsEngine';
+
+const QUADRANT_LABELS: Record<MenuQuadrant, string> = {
+  star: 'Star',
+  plowhorse: 'Vache a lait',
+  puzzle: 'Enigme',
+  dog: 'Poids mort',
+};
+
+const QUADRANT_COLORS: Record<MenuQuadrant, string> = {
+  star: 'var(--app-success)',
+  plowhorse: 'var(--app-warning)',
+  puzzle: 'var(--app-accent)',
+  dog: 'var(--app-danger)',
+};
+
+const PERIOD_MONTHS = 6;
+const MANUAL_PREFIX = 'manual';
+
+function formatEuro(value: number): string {
+  return new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR' }).format(value);
+}
+
+function manualOutputId(monthKey: string, recipeId: string): string {
+  return `${MANUAL_PREFIX}-${monthKey}-${recipeId}`;
+}
+
+export default function MenuEngineeringSection() {
+  const settings = useAppStore((s) => s.settings);
+  const getRecipes = useAppStore((s) => s.getRecipes);
+  const getIngredients = useAppStore((s) => s.getIngredients);
+  const getRecipeIngredients = useAppStore((s) => s.getRecipeIngredients);
+  const getRecipeOutputs = useAppStore((s) => s.getRecipeOutputs);
+  const addRecipeOutputs = useAppStore((s) => s.addRecipeOutputs);
+  const deleteRecipeOutput = useAppStore((s) => s.deleteRecipeOutput);
+
+  const [loading, setLoading] = useState(true);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [links, setLinks] = useState<RecipeIngredient[]>([]);
+  const [sales, setSales] = useState<RecipeOutput[]>([]);
+  const [monthStart, setMonthStart] = useState(() => startOfMonth(new Date()));
+  const [showManualEntry, setShowManualEntry] = useState(false);
+  const [manualDraft, setManualDraft] = useState<Record<string, string>>({});
+  const [savingManual, setSavingManual] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const [recipeRows, ingredientRows, outputRows] = await Promise.all([
+        getRecipes(),
+        getIngredients(),
+        getRecipeOutputs(),
+      ]);
+      const ingredientLinks = await Promise.all(recipeRows.map((recipe) => getRecipeIngredients(recipe.id)));
+      setRecipes(recipeRows);
+      setIngredients(ingredientRows);
+      setLinks(ingredientLinks.flat());
+      setSales(outputRows.filter((output) => output.kind === 'sale'));
+    } catch {
+      showError("Impossible de charger l'ingenierie de menu");
+    } finally {
+      setLoading(false);
+    }
+  }, [getRecipes, getIngredients, getRecipeIngredients, getRecipeOutputs]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const monthKey = format(monthStart, 'yyyy-MM');
+  const periodOptions = useMemo(
+    () => Array.from({ length: PERIOD_MONTHS }, (_, index) => startOfMonth(subMonths(new Date(), index))),
+    [],
+  );
+  const pricedRecipes = useMemo(
+    () => recipes.filter((recipe) => (recipe.salePriceHT ?? 0) > 0).sort((a, b) => a.title.localeCompare(b.title)),
+    [recipes],
+  );
+
+  const costRows = useMemo(
+    () => computeAllRecipeCosts(recipes, links, ingredients, settings),
+    [recipes, links, ingredients, settings],
+  );
+  const result = useMemo(
+    () => computeMenuEngineering(sales, recipes, costRows, monthStart, addMonths(monthStart, 1)),
+    [sales, recipes, costRows, monthStart],
+  );
+  const suggestions = useMemo(() => buildMenuSuggestions(result), [result]);
+  const totalUnits = result.rows.reduce((sum, row) => sum + row.unitsSold, 0);
+
+  const manualSales = useMemo(
+    () => new Map(sales.filter((sale) => sale.id.startsWith(`${MANUAL_PREFIX}-${monthKey}-`)).map((sale) => [sale.recipeId, sale])),
+    [sales, monthKey],
+  );
+
+  useEffect(() => {
+    setManualDraft(
+      Object.fromEntries(Array.from(manualSales.values()).map((sale) => [sale.recipeId, String(sale.portions)])),
+    );
+  }, [manualSales]);
+
+  const handleSaveManual = async () => {
+    setSavingManual(true);
+    try {
+      const now = new Date();
+      const monthEnd = endOfMonth(monthStart);
+      // Dated at the end of the month (or today for the current month) so stock and food cost see them in the period.
+      const date = monthEnd < now ? new Date(monthEnd.getFullYear(), monthEnd.getMonth(), monthEnd.getDate(), 12) : now;
+      const outputs: RecipeOutput[] = [];
+      for (const recipe of pricedRecipes) {
+        const units = Number.parseFloat((manualDraft[recipe.id] ?? '').replace(',', '.'));
+        const existing = manualSales.get(recipe.id);
+        if (Number.isFinite(units) && units > 0) {
+          outputs.push({
+            id: manualOutputId(monthKey, recipe.id),
+            recipeId: recipe.id,
+            recipeTitle: recipe.title,
+            kind: 'sale',
+            portions: units,
+            date: existing ? new Date(existing.date) : date,
+            notes: 'Saisie manuelle',
+            createdAt: existing ? new Date(existing.createdAt) : now,
+          });
+        } else if (existing) {
+          await deleteRecipeOutput(existing.id);
+        }
+      }
+      if (outputs.length > 0) await addRecipeOutputs(outputs);
+      showSuccess('Ventes de la periode enregistrees');
+      setShowManualEntry(false);
+      await load();
+    } catch {
+      showError("Impossible d'enregistrer les ventes");
+    } finally {
+      setSavingManual(false);
+    }
+  };
+
+  const kpiItems: AnalyticsKpiItem[] = [
+    { label: 'Portions vendues', value: totalUnits },
+    { label: 'Marge moyenne', value: formatEuro(result.averageMargin), sub: 'par portion, ponderee' },
+    {
+      label: 'Stars',
+      value: result.rows.filter((row) => row.quadrant === 'star').length,
+      color: QUADRANT_COLORS.star,
+    },
+    {
+      label: 'Poids morts',
+      value: result.rows.filter((row) => row.quadrant === 'dog').length,
+      color: QUADRANT_COLORS.dog,
+    },
+  ];
+
+  const chartData = result.rows.map((row) => ({ ...row, margin: Math.round(row.unitMargin * 100) / 100 }));
+
+  return (
+    <section className="glass-card glass-panel space-y-4 animate-fade-in-up">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h2 className="ios-title3 app-text">Ingenierie de menu</h2>
+          <p className="ios-caption app-muted">Popularite (ventes) x marge par portion de chaque plat.</p>
+        </div>
+        <select
+          value={monthKey}
+          onChange={(e) => {
+            const selected = periodOptions.find((option) => format(option, 'yyyy-MM') === e.target.value);
+            if (selected) setMonthStart(selected);
+          }}
+          className="shrink-0 px-3 py-2 rounded-xl app-surface-2 app-text text-xs font-semibold border-0 focus:outline-none"
+        >
+          {periodOptions.map((option) => (
+            <option key={option.toISOString()} value={format(option, 'yyyy-MM')}>
+              {format(option, 'MMMM yyyy', { locale: fr })}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {!loading && pricedRecipes.length === 0 ? (
+        <p className="dash-empty-inline">Renseignez un prix de vente sur vos fiches techniques pour analyser la carte.</p>
+      ) : (
+        <>
+          <AnalyticsKpiRow items={kpiItems} />
+
+          {totalUnits === 0 && !loading && (
+            <p className="dash-empty-inline">
+              Aucune vente sur la periode. Importez les ventes caisse (onglet Food cost) ou saisissez-les ci-dessous.
+            </p>
+          )}
+
+          {totalUnits > 0 && (
+            <div className="app-card p-3 sm:p-4">
+              <h3 className="ios-caption-upper mb-2">Matrice popularite / marge</h3>
+              <ResponsiveContainer width="100%" height={260}>
+                <ScatterChart margin={{ top: 8, right: 12, bottom: 8, left: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="var(--app-border)" />
+                  <XAxis
+                    type="number"
+                    dataKey="unitsSold"
+                    name="Ventes"
+                    tick={{ fontSize: 11, fill: 'var(--app-muted)' }}
+                  />
+                  <YAxis
+                    type="number"
+                    dataKey="margin"
+                    name="Marge"
+                    tick={{ fontSize: 11, fill: 'var(--app-muted)' }}
+                    tickFormatter={(value: number) => `${value} EUR`}
+                  />
+                  <ReferenceLine x={result.popularityThreshold} stroke="var(--app-muted)" strokeDasharray="4 4" />
+                  <ReferenceLine y={result.averageMargin} stroke="var(--app-muted)" strokeDasharray="4 4" />
+                  <Tooltip
+                    cursor={{ strokeDasharray: '3 3' }}
+                    content={({ payload }) => {
+                      const row = payload?.[0]?.payload as MenuEngineeringRow | undefined;
+                      if (!row) return null;
+                      return (
+                        <div className="rounded-xl app-surface border app-border px-3 py-2 text-[13px] app-text">
+                          <p className="font-semibold">{row.recipeTitle}</p>
+                          <p className="app-muted">
+                            {QUADRANT_LABELS[row.quadrant]} - {row.unitsSold} vendus - marge {formatEuro(row.unitMargin)}
+                          </p>
+                        </div>
+                      );
+                    }}
+                  />
+                  <Scatter data={chartData}>
+                    {chartData.map((row) => (
+                      <Cell key={row.recipeId} fill={QUADRANT_COLORS[row.quadrant]} />
+                    ))}
+                  </Scatter>
+                </ScatterChart>
+              </ResponsiveContainer>
+              <div className="flex flex-wrap gap-3 mt-2">
+                {(Object.keys(QUADRANT_LABELS) as MenuQuadrant[]).map((quadrant) => (
+                  <span key={quadrant} className="flex items-center gap-1.5 ios-small app-muted">
+                    <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: QUADRANT_COLORS[quadrant] }} />
+                    {QUADRANT_LABELS[quadrant]}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {totalUnits > 0 && suggestions.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="ios-caption-upper">Suggestions</h3>
+              {suggestions.map((suggestion) => (
+                <div key={suggestion.recipeId} className="rounded-2xl app-card px-3 py-2.5 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <p className="min-w-0 flex-1 text-[14px] font-semibold app-text truncate">{suggestion.recipeTitle}</p>
+                    <span
+                      className="shrink-0 px-2 py-0.5 rounded-full text-[11px] font-semibold text-white"
+                      style={{ backgroundColor: QUADRANT_COLORS[suggestion.quadrant] }}
+                    >
+                      {QUADRANT_LABELS[suggestion.quadrant]}
+                    </span>
+                  </div>
+                  <p className="ios-small app-muted">{suggestion.message}</p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="app-card p-3 sm:p-4 space-y-2">
+            <button
+              type="button"
+              onClick={() => setShowManualEntry(!showManualEntry)}
+              className="w-full flex items-center justify-between ios-caption-upper active:opacity-70"
+            >
+              <span>Saisir les ventes de {format(monthStart, 'MMMM', { locale: fr })}</span>
+              <span className="app-muted">{showManualEntry ? 'Fermer' : 'Ouvrir'}</span>
+            </button>
+            {showManualEntry && (
+              <>
+                <p className="ios-small app-muted">Portions vendues hors import caisse. Elles s'ajoutent aux ventes importees.</p>
+                {pricedRecipes.map((recipe) => (
+                  <label key={recipe.id} className="flex items-center gap-3">
+                    <span className="min-w-0 flex-1 text-[14px] app-text truncate">{recipe.title}</span>
+                    <input
+                      type="number"
+                      min="0"
+                      value={manualDraft[recipe.id] ?? ''}
+                      onChange={(e) => setManualDraft((prev) => ({ ...prev, [recipe.id]: e.target.value }))}
+                      className="w-24 px-2 py-1.5 rounded-lg app-surface-2 app-text text-[14px] text-right border-0 focus:outline-none"
+                    />
+                  </label>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => { void handleSaveManual(); }}
+                  disabled={savingManual}
+                  className={cn(
+                    'w-full py-2.5 rounded-xl text-[14px] font-semibold active:opacity-70',
+                    savingManual ? 'app-surface-2 app-muted' : 'app-accent-bg',
+                  )}
+                >
+                  {savingManual ? 'Enregistrement...' : 'Enregistrer'}
+                </button>
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
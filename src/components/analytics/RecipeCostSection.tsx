@@ -4,6 +4,7 @@ import { showError } from '../../stores/toastStore';
 import type { Ingredient, Recipe, RecipeIngredient } from '../../types';
 import AnalyticsKpiRow, { type AnalyticsKpiItem } from './AnalyticsKpiRow';
 import { computeAllRecipeCosts, computeTopExpensiveIngredients } from '../../services/analyticsEngine';
+import { getFoodCostWarningLevel, getTargetFoodCostRate } from '../../services/recipeCost';
 import { cn } from '../../utils';
 
 function formatEuro(value: number): string {
@@ -15,6 +16,7 @@ function formatEuro(value: number): string {
 }
 
 export default function RecipeCostSection() {
+  const settings = useAppStore((s) => s.settings);
   const getRecipes = useAppStore((s) => s.getRecipes);
   const getIngredients = useAppStore((s) => s.getIngredients);
   const getRecipeIngredients = useAppStore((s) => s.getRecipeIngredients);
@@ -50,7 +52,10 @@ export default function RecipeCostSection() {
     };
   }, [getRecipes, getIngredients, getRecipeIngredients]);
 
-  const costRows = useMemo(() => computeAllRecipeCosts(recipes, links, ingredients), [recipes, links, ingredients]);
+  const costRows = useMemo(
+    () => computeAllRecipeCosts(recipes, links, ingredients, settings),
+    [recipes, links, ingredients, settings],
+  );
   const rowsWithSalePrice = useMemo(
     () => costRows.filter((row) => Number.isFinite(row.salePriceHT) && (row.salePriceHT ?? 0) > 0),
     [costRows],
@@ -65,7 +70,10 @@ export default function RecipeCostSection() {
     rowsWithSalePrice.length > 0
       ? rowsWithSalePrice.reduce((sum, row) => sum + row.foodCostRate, 0) / rowsWithSalePrice.length
       : 0;
-  const recipesInDanger = rowsWithSalePrice.filter((row) => row.foodCostRate > 0.3).length;
+  const recipesWithYieldLoss = costRows.filter((row) => row.yieldLossCost >= 0.01);
+  const recipesWithUnconvertible = costRows.filter((row) => row.unconvertibleLines.length > 0);
+  const recipesInDanger = rowsWithSalePrice.filter((row) => row.warningLevel === 'danger').length;
+  const avgWarningLevel = getFoodCostWarningLevel(avgFoodCostRate, getTargetFoodCostRate(settings));
   const bestMarginRow = costRows.reduce((best, row) => (row.grossMargin > best.grossMargin ? row : best), {
     recipeId: '',
     recipeTitle: 'Aucune',
@@ -74,6 +82,8 @@ export default function RecipeCostSection() {
     grossMargin: -Infinity,
     foodCostRate: 0,
     warningLevel: 'ok' as const,
+    yieldLossCost: 0,
+    unconvertibleLines: [],
     ingredientCosts: [],
   });
 
@@ -83,9 +93,9 @@ export default function RecipeCostSection() {
       label: 'Food cost moyen',
       value: `${Math.round(avgFoodCostRate * 100)}%`,
       color:
-        avgFoodCostRate > 0.3
+        avgWarningLevel === 'danger'
           ? 'var(--app-danger)'
-          : avgFoodCostRate > 0.25
+          : avgWarningLevel === 'warning'
             ? 'var(--app-warning)'
             : 'var(--app-success)',
     },
@@ -112,6 +122,17 @@ export default function RecipeCostSection() {
           <h3 className="ios-caption-upper">Classement par food cost</h3>
           {loading && <span className="ios-small app-muted">Chargement...</span>}
         </div>
+        {recipesWithYieldLoss.length > 0 && (
+          <p className="ios-caption app-muted">
+            {recipesWithYieldLoss.length} recette(s) integrent des pertes de parage (rendement utile sous 100%).
+          </p>
+        )}
+        {recipesWithUnconvertible.length > 0 && (
+          <p className="ios-caption font-semibold text-[color:var(--app-warning)]">
+            {recipesWithUnconvertible.length} recette(s) sous-estimee(s): des lignes ne peuvent pas etre converties
+            dans l'unite d'achat.
+          </p>
+        )}
         {sortedByFoodCost.length === 0 ? (
           <p className="dash-empty-inline">Aucune recette disponible.</p>
         ) : (
@@ -131,6 +152,7 @@ export default function RecipeCostSection() {
                     ? 'text-[color:var(--app-warning)]'
                     : 'text-[color:var(--app-success)]';
               const barWidth = Math.min(100, Math.max(0, ratePct));
+              const yieldLossShare = row.totalCost > 0 ? row.yieldLossCost / row.totalCost : 0;
 
               return (
                 <div key={row.recipeId} className="rounded-2xl app-card px-3 py-2.5 space-y-2">
@@ -144,6 +166,16 @@ export default function RecipeCostSection() {
                   <div className="h-2 rounded-full app-surface-3 overflow-hidden">
                     <div className={cn('h-full rounded-full transition-[width] duration-300', toneClass)} style={{ width: `${barWidth}%` }} />
                   </div>
+                  {row.unconvertibleLines.length > 0 && (
+                    <p className="ios-small font-semibold text-[color:var(--app-warning)]">
+                      Hors calcul: {row.unconvertibleLines.join(', ')}
+                    </p>
+                  )}
+                  {row.yieldLossCost >= 0.01 && (
+                    <p className="ios-small text-[color:var(--app-warning)]">
+                      Dont pertes de parage {formatEuro(row.yieldLossCost)} ({Math.round(yieldLossShare * 100)}% du cout matiere)
+                    </p>
+                  )}
                 </div>
               );
             })}
@@ -0,0 +1,168 @@
+import { useMemo, useRef, useState, type ChangeEvent } from 'react';
+import Modal from '../common/Modal';
+import { normalizeName } from '../../services/ingredientMatch';
+import {
+  buildSalesOutputs,
+  parseSalesCsv,
+  buildDishMappings,
+  resolveDishMappings,
+  type DishMappingResolution,
+  type PosSaleLine,
+} from '../../services/salesImport';
+import { useAppStore } from '../../stores/appStore';
+import { showError, showSuccess } from '../../stores/toastStore';
+import type { Recipe } from '../../types';
+import { cn } from '../../utils';
+
+interface SalesImportModalProps {
+  recipes: Recipe[];
+  onClose: () => void;
+  onImported: () => void;
+}
+
+interface DishRow {
+  key: string;
+  dishName: string;
+  quantity: number;
+}
+
+export default function SalesImportModal({ recipes, onClose, onImported }: SalesImportModalProps) {
+  const addRecipeOutputs = useAppStore((s) => s.addRecipeOutputs);
+  const getPosDishMappings = useAppStore((s) => s.getPosDishMappings);
+  const savePosDishMappings = useAppStore((s) => s.savePosDishMappings);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const [lines, setLines] = useState<PosSaleLine[]>([]);
+  const [skipped, setSkipped] = useState(0);
+  const [resolutions, setResolutions] = useState<Map<string, DishMappingResolution>>(new Map());
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [importing, setImporting] = useState(false);
+
+  const dishes = useMemo<DishRow[]>(() => {
+    const byKey = new Map<string, DishRow>();
+    for (const line of lines) {
+      const key = normalizeName(line.dishName);
+      const existing = byKey.get(key);
+      if (existing) existing.quantity += line.quantity;
+      else byKey.set(key, { key, dishName: line.dishName, quantity: line.quantity });
+    }
+    return Array.from(byKey.values()).sort((a, b) => b.quantity - a.quantity);
+  }, [lines]);
+
+  const mappedCount = dishes.filter((dish) => mapping[dish.key]).length;
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const parsed = parseSalesCsv(await file.text());
+      if (parsed.lines.length === 0) {
+        showError('Aucune vente exploitable (colonnes attendues : date, plat, quantite)');
+        return;
+      }
+      const resolved = resolveDishMappings(
+        parsed.lines.map((line) => line.dishName),
+        recipes,
+        await getPosDishMappings(),
+      );
+      setLines(parsed.lines);
+      setSkipped(parsed.skipped);
+      setResolutions(resolved);
+      setMapping(Object.fromEntries(Array.from(resolved.entries()).map(([key, value]) => [key, value.recipeId])));
+    } catch {
+      showError('Impossible de lire le fichier');
+    } finally {
+      e.target.value = '';
+    }
+  };
+
+  const handleImport = async () => {
+    if (importing) return;
+    setImporting(true);
+    try {
+      const mapped = dishes.filter((dish) => mapping[dish.key]);
+      await savePosDishMappings(
+        buildDishMappings(mapped.map((dish) => ({ dishName: dish.dishName, recipeId: mapping[dish.key] }))),
+      );
+      const outputs = buildSalesOutputs(lines, new Map(Object.entries(mapping)), recipes);
+      await addRecipeOutputs(outputs);
+      showSuccess(`${outputs.length} journee(s) de ventes importee(s)`);
+      onImported();
+    } catch {
+      showError("Impossible d'importer les ventes");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title="Importer les ventes caisse" size="lg">
+      <div className="space-y-3">
+        <p className="ios-caption app-muted">
+          Export CSV de la caisse avec une ligne par plat vendu : date, plat, quantite. Les correspondances
+          plat / fiche technique sont memorisees pour les prochains imports.
+        </p>
+        <input ref={fileRef} type="file" accept=".csv,.txt" onChange={(e) => { void handleFile(e); }} className="hidden" />
+        <button
+          type="button"
+          onClick={() => fileRef.current?.click()}
+          className="w-full min-h-[44px] rounded-xl app-surface-2 app-text text-sm font-semibold active:opacity-70"
+        >
+          Choisir un fichier CSV
+        </button>
+
+        {dishes.length > 0 && (
+          <>
+            <p className="ios-caption app-muted">
+              {lines.length} ligne(s) lue(s){skipped > 0 ? `, ${skipped} ignoree(s)` : ''} &middot; {mappedCount}/
+              {dishes.length} plat(s) associe(s)
+            </p>
+            <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+              {dishes.map((dish) => {
+                const source = resolutions.get(dish.key)?.source;
+                const unchanged = source && mapping[dish.key] === resolutions.get(dish.key)?.recipeId;
+                return (
+                  <div key={dish.key} className="app-surface-2 rounded-xl p-3 space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="font-semibold app-text truncate">{dish.dishName}</p>
+                      <span className="text-[11px] app-muted shrink-0">{dish.quantity} vendu(s)</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={mapping[dish.key] ?? ''}
+                        onChange={(e) => setMapping((prev) => ({ ...prev, [dish.key]: e.target.value }))}
+                        className={cn('app-input w-full', !mapping[dish.key] && 'ring-1 ring-[color:var(--app-warning)]')}
+                      >
+                        <option value="">Ignorer ce plat</option>
+                        {recipes.map((recipe) => (
+                          <option key={recipe.id} value={recipe.id}>
+                            {recipe.title}
+                          </option>
+                        ))}
+                      </select>
+                      {unchanged && (
+                        <span className="app-chip text-[10px] shrink-0">
+                          {source === 'remembered' ? 'Memorise' : 'Suggere'}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <button
+              type="button"
+              onClick={() => {
+                void handleImport();
+              }}
+              disabled={importing || mappedCount === 0}
+              className="w-full min-h-[44px] rounded-xl app-accent-bg text-sm font-semibold disabled:opacity-60"
+            >
+              {importing ? 'Import...' : 'Importer les ventes'}
+            </button>
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -40,6 +40,8 @@ const QUICK_ACTIONS: CommandItem[] = [
   { id: 'quick-scan-invoice', kind: 'action', title: 'Scanner une facture', subtitle: 'Lancer OCR facture', route: '/invoices?quick=scan' },
   { id: 'quick-dashboard', kind: 'action', title: 'Dashboard', subtitle: 'Vue principale', route: '/dashboard' },
   { id: 'quick-analytics', kind: 'action', title: 'Analytics', subtitle: 'Statistiques', route: '/analytics' },
+  { id: 'quick-suppliers', kind: 'action', title: 'Fournisseurs', subtitle: 'Performance et comparatif', route: '/suppliers' },
+  { id: 'quick-inventory', kind: 'action', title: 'Stock', subtitle: 'Stock theorique et inventaires', route: '/inventory' },
   { id: 'quick-settings', kind: 'action', title: 'Parametres', subtitle: 'Configuration', route: '/settings' },
   { id: 'quick-assistant', kind: 'action', title: 'Agent IA', subtitle: 'Assistant conversationnel', route: '/assistant' },
 ];
@@ -81,6 +81,28 @@ const tabs: TabDef[] = [
       </svg>
     ),
   },
+  {
+    path: "/suppliers",
+    label: "Fournisseurs",
+    color: "#f59e0b",
+    icon: (
+      <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.7" strokeLinecap="round" strokeLinejoin="round" aria-hidden="true">
+        <path d="M3 7h11v9H3zM14 10h4l3 3v3h-7" />
+        <circle cx="7" cy="18" r="1.5" />
+        <circle cx="17" cy="18" r="1.5" />
+      </svg>
+    ),
+  },
+  {
+    path: "/inventory",
+    label: "Stock",
+    color: "#a78bfa",
+    icon: (
+      <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.7" strokeLinecap="round" strokeLinejoin="round" aria-hidden="true">
+        <path d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10" />
+      </svg>
+    ),
+  },
   {
     path: "/invoices",
     label: "Factures",
@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { RECIPE_OUTPUT_LABELS } from '../../types';
+import type { Recipe, RecipeOutput, RecipeOutputKind } from '../../types';
+import { cn, sanitizeInput } from '../../utils';
+
+const OUTPUT_KINDS = Object.keys(RECIPE_OUTPUT_LABELS) as RecipeOutputKind[];
+const MAX_VISIBLE_OUTPUTS = 30;
+
+interface RecipeOutputPanelProps {
+  recipes: Recipe[];
+  outputs: RecipeOutput[];
+  onAdd: (output: RecipeOutput) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+export default function RecipeOutputPanel({ recipes, outputs, onAdd, onDelete }: RecipeOutputPanelProps) {
+  const [recipeId, setRecipeId] = useState('');
+  const [kind, setKind] = useState<RecipeOutputKind>('sale');
+  const [portions, setPortions] = useState('');
+  const [date, setDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async () => {
+    const recipe = recipes.find((item) => item.id === recipeId);
+    const parsedPortions = Number.parseFloat(portions.replace(',', '.'));
+    if (!recipe) {
+      setError('Choisissez une fiche technique');
+      return;
+    }
+    if (!Number.isFinite(parsedPortions) || parsedPortions <= 0) {
+      setError('Nombre de portions invalide');
+      return;
+    }
+    setError(null);
+    setSaving(true);
+    try {
+      await onAdd({
+        id: crypto.randomUUID(),
+        recipeId: recipe.id,
+        recipeTitle: recipe.title,
+        kind,
+        portions: parsedPortions,
+        date: new Date(`${date}T12:00:00`),
+        notes: notes.trim() || undefined,
+        createdAt: new Date(),
+      });
+      setPortions('');
+      setNotes('');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="app-card rounded-2xl p-4 space-y-3">
+        <div className="pill-toggle">
+          {OUTPUT_KINDS.map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setKind(value)}
+              className={cn('pill-toggle-btn', kind === value && 'active')}
+            >
+              {RECIPE_OUTPUT_LABELS[value]}
+            </button>
+          ))}
+        </div>
+        <div>
+          <label className="block ios-caption font-medium app-muted mb-1">Fiche technique</label>
+          <select value={recipeId} onChange={(e) => setRecipeId(e.target.value)} className="app-input w-full">
+            <option value="">Selectionner...</option>
+            {recipes.map((recipe) => (
+              <option key={recipe.id} value={recipe.id}>
+                {recipe.title} ({recipe.portions} portions)
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block ios-caption font-medium app-muted mb-1">Portions</label>
+            <input
+              type="number"
+              inputMode="decimal"
+              min={0}
+              step="1"
+              value={portions}
+              onChange={(e) => setPortions(e.target.value)}
+              className="app-input w-full"
+            />
+          </div>
+          <div>
+            <label className="block ios-caption font-medium app-muted mb-1">Date</label>
+            <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="app-input w-full" />
+          </div>
+        </div>
+        <input
+          type="text"
+          value={notes}
+          onChange={(e) => setNotes(sanitizeInput(e.target.value))}
+          placeholder="Commentaire (optionnel)"
+          className="app-input w-full"
+        />
+        {error && <p className="text-sm text-[color:var(--app-danger)]">{error}</p>}
+        <button
+          type="button"
+          onClick={() => {
+            void handleSubmit();
+          }}
+          disabled={saving}
+          className="w-full min-h-[44px] rounded-xl app-accent-bg text-sm font-semibold disabled:opacity-60"
+        >
+          Enregistrer la sortie
+        </button>
+      </div>
+
+      <div className="app-card rounded-2xl p-4 space-y-2">
+        <h2 className="ios-title3 app-text">Dernieres sorties</h2>
+        {outputs.length === 0 ? (
+          <p className="ios-caption app-muted">Aucune production ni vente enregistree.</p>
+        ) : (
+          outputs.slice(0, MAX_VISIBLE_OUTPUTS).map((output) => (
+            <div key={output.id} className="app-surface-2 rounded-xl p-3 flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="font-semibold app-text truncate">{output.recipeTitle}</p>
+                <p className="text-[11px] app-muted">
+                  {RECIPE_OUTPUT_LABELS[output.kind]} &middot; {output.portions} portions &middot;{' '}
+                  {format(new Date(output.date), 'dd/MM/yyyy')}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => {
+                  void onDelete(output.id);
+                }}
+                className="text-xs text-[color:var(--app-danger)] shrink-0"
+              >
+                Supprimer
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import type { StockCount } from '../../types';
+import { createStockCountLine, summarizeStockCount, type StockLevel } from '../../services/stock';
+import { cn, sanitizeInput } from '../../utils';
+
+function money(value: number): string {
+  return new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR' }).format(value || 0);
+}
+
+function quantity(value: number): string {
+  return new Intl.NumberFormat('fr-FR', { maximumFractionDigits: 3 }).format(value);
+}
+
+interface StockCountPanelProps {
+  levels: StockLevel[];
+  counts: StockCount[];
+  onSave: (count: StockCount) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+export default function StockCountPanel({ levels, counts, onSave, onDelete }: StockCountPanelProps) {
+  const [editing, setEditing] = useState(false);
+  const [inputs, setInputs] = useState<Record<string, string>>({});
+  const [search, setSearch] = useState('');
+  const [operator, setOperator] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const visibleLevels = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return levels
+      .filter((level) => !query || level.ingredient.name.toLowerCase().includes(query))
+      .sort((a, b) => a.ingredient.name.localeCompare(b.ingredient.name));
+  }, [levels, search]);
+
+  const filledCount = Object.values(inputs).filter((value) => value.trim() !== '').length;
+
+  const resetEditor = () => {
+    setEditing(false);
+    setInputs({});
+    setSearch('');
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    const lines = [];
+    for (const level of levels) {
+      const raw = inputs[level.ingredient.id]?.trim();
+      if (!raw) continue;
+      const counted = Number.parseFloat(raw.replace(',', '.'));
+      if (!Number.isFinite(counted) || counted < 0) {
+        setError(`${level.ingredient.name} : quantite invalide`);
+        return;
+      }
+      lines.push(createStockCountLine(level, counted));
+    }
+    if (lines.length === 0) {
+      setError('Saisissez au moins une quantite comptee');
+      return;
+    }
+    setSaving(true);
+    try {
+      const count: StockCount = {
+        id: crypto.randomUUID(),
+        countedAt: new Date(),
+        operator: operator.trim() || undefined,
+        lines,
+      };
+      await onSave(count);
+      resetEditor();
+      setExpandedId(count.id);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (editing) {
+    return (
+      <div className="app-card rounded-2xl p-4 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <h2 className="ios-title3 app-text">Nouvel inventaire</h2>
+          <span className="ios-caption app-muted">{filledCount} saisi(s)</span>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Rechercher"
+            className="app-input w-full"
+          />
+          <input
+            type="text"
+            value={operator}
+            onChange={(e) => setOperator(sanitizeInput(e.target.value))}
+            placeholder="Compte par (initiales)"
+            className="app-input w-full"
+          />
+        </div>
+        <p className="ios-caption app-muted">
+          Laissez vide les ingredients non comptes : leur stock theorique reste inchange.
+        </p>
+
+        <div className="space-y-2">
+          {visibleLevels.map((level) => (
+            <div key={level.ingredient.id} className="app-surface-2 rounded-xl p-3 flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="font-semibold app-text truncate">{level.ingredient.name}</p>
+                <p className="text-[11px] app-muted">
+                  Theorique : {quantity(level.theoreticalQuantity)} {level.ingredient.unit}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  min={0}
+                  step="0.001"
+                  value={inputs[level.ingredient.id] ?? ''}
+                  onChange={(e) => setInputs((prev) => ({ ...prev, [level.ingredient.id]: e.target.value }))}
+                  className="app-input w-24 text-right"
+                  aria-label={`Quantite comptee ${level.ingredient.name}`}
+                />
+                <span className="text-[11px] app-muted w-8">{level.ingredient.unit}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {error && <p className="text-sm text-[color:var(--app-danger)]">{error}</p>}
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            type="button"
+            onClick={resetEditor}
+            className="min-h-[44px] rounded-xl app-surface-2 app-text text-sm font-semibold"
+          >
+            Annuler
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              void handleSave();
+            }}
+            disabled={saving}
+            className="min-h-[44px] rounded-xl app-accent-bg text-sm font-semibold disabled:opacity-60"
+          >
+            Valider l'inventaire
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <button
+        type="button"
+        onClick={() => setEditing(true)}
+        disabled={levels.length === 0}
+        className="w-full min-h-[48px] rounded-xl app-accent-bg text-[15px] font-bold active:opacity-70 disabled:opacity-40"
+      >
+        Demarrer un inventaire
+      </button>
+
+      {counts.length === 0 ? (
+        <p className="ios-caption app-muted text-center py-6">Aucun inventaire enregistre.</p>
+      ) : (
+        counts.map((count) => {
+          const summary = summarizeStockCount(count);
+          const expanded = expandedId === count.id;
+          return (
+            <div key={count.id} className="app-card rounded-2xl p-4 space-y-2">
+              <button
+                type="button"
+                onClick={() => setExpandedId(expanded ? null : count.id)}
+                className="w-full flex items-start justify-between gap-3 text-left"
+              >
+                <div>
+                  <p className="font-semibold app-text">
+                    Inventaire du {format(new Date(count.countedAt), 'dd/MM/yyyy HH:mm')}
+                  </p>
+                  <p className="text-[11px] app-muted">
+                    {count.lines.length} ingredient(s){count.operator ? ` · ${count.operator}` : ''}
+                  </p>
+                </div>
+                <div className="text-right shrink-0">
+                  <p
+                    className={cn(
+                      'font-bold',
+                      summary.lossValue < 0 ? 'text-[color:var(--app-danger)]' : 'text-[color:var(--app-success)]',
+                    )}
+                  >
+                    {money(summary.lossValue)}
+                  </p>
+                  <p className="text-[11px] app-muted">Ecart net {money(summary.totalGapValue)}</p>
+                </div>
+              </button>
+
+              {expanded && (
+                <div className="space-y-1 pt-1">
+                  {summary.lines.map((line) => (
+                    <div key={line.ingredientId} className="flex items-center justify-between gap-3 text-[12px]">
+                      <span className="app-text truncate">{line.ingredientName}</span>
+                      <span className="app-muted shrink-0">
+                        {quantity(line.countedQuantity)} / {quantity(line.theoreticalQuantity)} {line.unit}
+                      </span>
+                      <span
+                        className={cn(
+                          'w-20 text-right font-semibold shrink-0',
+                          line.gapValue < 0
+                            ? 'text-[color:var(--app-danger)]'
+                            : line.gapValue > 0
+                              ? 'text-[color:var(--app-success)]'
+                              : 'app-muted',
+                        )}
+                      >
+                        {money(line.gapValue)}
+                      </span>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => {
+                      void onDelete(count.id);
+                    }}
+                    className="text-xs text-[color:var(--app-danger)] pt-1"
+                  >
+                    Supprimer cet inventaire
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import type { StockLevel } from '../../services/stock';
+import { cn } from '../../utils';
+
+function money(value: number): string {
+  return new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR' }).format(value || 0);
+}
+
+function quantity(value: number): string {
+  return new Intl.NumberFormat('fr-FR', { maximumFractionDigits: 3 }).format(value);
+}
+
+interface StockLevelTableProps {
+  levels: StockLevel[];
+}
+
+export default function StockLevelTable({ levels }: StockLevelTableProps) {
+  const [search, setSearch] = useState('');
+
+  const rows = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return levels
+      .filter((level) => !query || level.ingredient.name.toLowerCase().includes(query))
+      .sort((a, b) => b.stockValue - a.stockValue || a.ingredient.name.localeCompare(b.ingredient.name));
+  }, [levels, search]);
+
+  return (
+    <div className="app-card rounded-2xl p-4 space-y-3">
+      <input
+        type="search"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder="Rechercher un ingredient"
+        className="app-input w-full"
+      />
+
+      {rows.length === 0 ? (
+        <p className="ios-caption app-muted text-center py-6">Aucun ingredient.</p>
+      ) : (
+        <div className="space-y-2">
+          {rows.map((level) => {
+            const { ingredient, lastCount } = level;
+            const negative = level.theoreticalQuantity < 0;
+            const lastGap = lastCount ? lastCount.countedQuantity - lastCount.theoreticalQuantity : 0;
+            return (
+              <div key={ingredient.id} className="app-surface-2 rounded-xl p-3 flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="font-semibold app-text truncate">{ingredient.name}</p>
+                  <p className="text-[11px] app-muted">
+                    +{quantity(level.inputQuantity)} achats &middot; -{quantity(level.outputQuantity)} sorties
+                    {lastCount
+                      ? ` depuis l'inventaire du ${format(lastCount.countedAt, 'dd/MM/yyyy')}`
+                      : ' (aucun inventaire)'}
+                  </p>
+                  {lastCount && Math.abs(lastGap) > 0.0005 && (
+                    <p
+                      className={cn(
+                        'text-[11px]',
+                        lastGap < 0 ? 'text-[color:var(--app-danger)]' : 'text-[color:var(--app-success)]',
+                      )}
+                    >
+                      Ecart dernier inventaire : {lastGap > 0 ? '+' : ''}
+                      {quantity(lastGap)} {ingredient.unit} ({money(lastGap * level.unitPrice)})
+                    </p>
+                  )}
+                </div>
+                <div className="text-right shrink-0">
+                  <p
+                    className={cn(
+                      'font-bold',
+                      negative ? 'text-[color:var(--app-warning)]' : 'app-text',
+                    )}
+                  >
+                    {quantity(level.theoreticalQuantity)} {ingredient.unit}
+                  </p>
+                  <p className="text-[11px] app-muted">{money(level.stockValue)}</p>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useEffect, useMemo, useState } from 'react';
+import { endOfMonth, format, startOfMonth, subMonths } from 'date-fns';
+import { useAppStore } from '../../stores/appStore';
+import type { Invoice } from '../../types';
+import { buildPurchaseJournal } from '../../services/accountingExport';
+import { showError } from '../../stores/toastStore';
+
+export default function AccountingExportPanel() {
+  const [from, setFrom] = useState(() => format(startOfMonth(subMonths(new Date(), 1)), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(() => format(endOfMonth(subMonths(new Date(), 1)), 'yyyy-MM-dd'));
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const getInvoices = useAppStore((s) => s.getInvoices);
+  const settings = useAppStore((s) => s.settings);
+
+  useEffect(() => {
+    getInvoices()
+      .then(setInvoices)
+      .catch(() => showError('Impossible de charger les factures'))
+      .finally(() => setLoading(false));
+  }, [getInvoices]);
+
+  const journal = useMemo(() => {
+    const fromDate = new Date(`${from}T00:00:00`);
+    const toDate = new Date(`${to}T00:00:00`);
+    if (!Number.isFinite(fromDate.getTime()) || !Number.isFinite(toDate.getTime())) return null;
+    return buildPurchaseJournal(invoices, settings, { from: fromDate, to: toDate });
+  }, [invoices, settings, from, to]);
+
+  const handleExport = async (kind: 'csv' | 'fec') => {
+    if (!journal) return;
+    try {
+      const { generatePurchaseJournalCSV, generateFECExport, downloadCSV, downloadText } = await import('../../services/pdf');
+      if (kind === 'csv') {
+        downloadCSV(generatePurchaseJournalCSV(journal), `journal_achats_${from}_${to}.csv`);
+      } else {
+        downloadText(generateFECExport(journal), `FEC_achats_${to.replace(/-/g, '')}.txt`);
+      }
+    } catch {
+      showError("Impossible d'exporter le journal des achats");
+    }
+  };
+
+  const disabled = loading || !journal || journal.lines.length === 0;
+
+  return (
+    <div className="glass-card glass-panel space-y-3">
+      <div>
+        <h3 className="text-sm font-semibold app-text">Journal des achats</h3>
+        <p className="text-xs app-muted">
+          {loading || !journal
+            ? 'Chargement...'
+            : `${journal.invoiceCount} facture(s) - journal ${journal.journalCode}`}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs app-muted space-y-1">
+          <span>Du</span>
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="w-full px-2 py-1.5 rounded-lg border app-border app-surface app-text text-sm"
+          />
+        </label>
+        <label className="text-xs app-muted space-y-1">
+          <span>Au</span>
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="w-full px-2 py-1.5 rounded-lg border app-border app-surface app-text text-sm"
+          />
+        </label>
+      </div>
+
+      {journal && journal.lines.length > 0 && (
+        <div className="rounded-xl app-surface-2 p-2 text-sm space-y-1">
+          <div className="flex justify-between gap-2">
+            <span className="app-muted">Total debit</span>
+            <span className="app-text font-medium">{journal.totalDebit.toFixed(2)} EUR</span>
+          </div>
+          <div className="flex justify-between gap-2">
+            <span className="app-muted">Total credit</span>
+            <span className="app-text font-medium">{journal.totalCredit.toFixed(2)} EUR</span>
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => {
+            void handleExport('csv');
+          }}
+          disabled={disabled}
+          className="flex-1 px-3 py-2 rounded-xl app-accent-bg text-sm font-semibold disabled:opacity-60"
+        >
+          Journal CSV
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            void handleExport('fec');
+          }}
+          disabled={disabled}
+          className="flex-1 px-3 py-2 rounded-xl app-surface-2 app-text text-sm font-semibold disabled:opacity-60"
+        >
+          Format FEC
+        </button>
+      </div>
+      <p className="text-[11px] app-muted">Comptes et regles de ventilation dans Parametres &gt; Export comptable.</p>
+    </div>
+  );
+}
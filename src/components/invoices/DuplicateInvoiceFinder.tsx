@@ -0,0 +1,155 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAppStore } from '../../stores/appStore';
+import { INVOICE_DUPLICATE_REASON_LABELS, type InvoiceDuplicateGroup } from '../../types';
+import { showError, showSuccess } from '../../stores/toastStore';
+import { cn, formatDateShort } from '../../utils';
+
+interface DuplicateInvoiceFinderProps {
+  onResolved: () => void;
+}
+
+function groupKey(group: InvoiceDuplicateGroup): string {
+  return group.invoices.map((invoice) => invoice.id).join('|');
+}
+
+export default function DuplicateInvoiceFinder({ onResolved }: DuplicateInvoiceFinderProps) {
+  const [groups, setGroups] = useState<InvoiceDuplicateGroup[]>([]);
+  const [keptIds, setKeptIds] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const findDuplicateInvoiceGroups = useAppStore((s) => s.findDuplicateInvoiceGroups);
+  const mergeInvoices = useAppStore((s) => s.mergeInvoices);
+  const deleteInvoice = useAppStore((s) => s.deleteInvoice);
+  const rebuildPriceHistory = useAppStore((s) => s.rebuildPriceHistory);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      setGroups(await findDuplicateInvoiceGroups());
+    } catch {
+      showError('Impossible de rechercher les doublons');
+    } finally {
+      setLoading(false);
+    }
+  }, [findDuplicateInvoiceGroups]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const dismissGroup = (key: string) => {
+    setGroups((prev) => prev.filter((group) => groupKey(group) !== key));
+  };
+
+  const resolveGroup = async (group: InvoiceDuplicateGroup, action: 'merge' | 'delete') => {
+    const key = groupKey(group);
+    const keptId = keptIds[key] ?? group.invoices[0].id;
+    const others = group.invoices.filter((invoice) => invoice.id !== keptId);
+    setBusyKey(key);
+    try {
+      for (const invoice of others) {
+        if (action === 'merge') {
+          await mergeInvoices(keptId, invoice);
+        } else {
+          await deleteInvoice(invoice.id);
+        }
+      }
+      await rebuildPriceHistory();
+      showSuccess(action === 'merge' ? 'Factures fusionnees' : `${others.length} doublon(s) supprime(s)`);
+      dismissGroup(key);
+      onResolved();
+    } catch {
+      showError('Impossible de traiter ces doublons');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-6">
+        <div className="w-6 h-6 border-3 border-[color:var(--app-accent)] border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (groups.length === 0) {
+    return (
+      <div className="glass-card glass-panel p-4">
+        <p className="text-sm app-text font-semibold">Aucun doublon detecte</p>
+        <p className="text-xs app-muted">Numero, date et montant, et photo ont ete compares pour toutes les factures.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {groups.map((group) => {
+        const key = groupKey(group);
+        const keptId = keptIds[key] ?? group.invoices[0].id;
+        const busy = busyKey === key;
+        return (
+          <div key={key} className="glass-card glass-panel p-3 space-y-2">
+            <div className="flex flex-wrap gap-1.5">
+              {group.reasons.map((reason) => (
+                <span key={reason} className="px-2 py-0.5 rounded-full text-[11px] font-semibold app-warning-bg">
+                  {INVOICE_DUPLICATE_REASON_LABELS[reason]}
+                </span>
+              ))}
+            </div>
+
+            {group.invoices.map((invoice) => (
+              <label
+                key={invoice.id}
+                className={cn(
+                  'flex items-center gap-2 rounded-xl p-2 text-xs cursor-pointer',
+                  invoice.id === keptId ? 'app-surface-2' : 'app-muted',
+                )}
+              >
+                <input
+                  type="radio"
+                  name={`kept-${key}`}
+                  checked={invoice.id === keptId}
+                  onChange={() => setKeptIds((prev) => ({ ...prev, [key]: invoice.id }))}
+                />
+                <span className="min-w-0 flex-1 truncate app-text">
+                  {invoice.supplier} - {invoice.invoiceNumber || 'sans numero'} - {formatDateShort(invoice.invoiceDate)}
+                </span>
+                <span className="shrink-0 font-semibold app-text">{invoice.totalTTC.toFixed(2)} EUR</span>
+              </label>
+            ))}
+
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => dismissGroup(key)}
+                disabled={busy}
+                className="flex-1 py-2 rounded-xl app-surface-2 app-text text-[13px] font-semibold active:opacity-70 disabled:opacity-50"
+              >
+                Garder tout
+              </button>
+              <button
+                type="button"
+                onClick={() => { void resolveGroup(group, 'delete'); }}
+                disabled={busy}
+                className="flex-1 py-2 rounded-xl app-surface-2 text-[13px] font-semibold text-[color:var(--app-danger)] active:opacity-70 disabled:opacity-50"
+              >
+                Supprimer
+              </button>
+              <button
+                type="button"
+                onClick={() => { void resolveGroup(group, 'merge'); }}
+                disabled={busy}
+                className="flex-1 py-2 rounded-xl app-accent-bg text-[13px] font-semibold active:opacity-70 disabled:opacity-50"
+              >
+                Fusionner
+              </button>
+            </div>
+          </div>
+        );
+      })}
+      <p className="text-xs app-muted px-1">La facture cochee est conservee ; les autres y sont fusionnees ou supprimees.</p>
+    </div>
+  );
+}
@@ -2,9 +2,10 @@
 import { useAppStore } from '../../stores/appStore';
 import { showError } from '../../stores/toastStore';
 import type { Invoice } from '../../types';
-import { formatDateShort, blobToUrl, generateSupplierColor } from '../../utils';
+import { cn, formatDateShort, blobToUrl, generateSupplierColor } from '../../utils';
 import InvoiceForm from './InvoiceForm';
 import type { OCRResult } from '../../services/ocr';
+import { formatVatRate, getInvoiceVatBreakdown } from '../../services/invoiceVat';
 
 interface InvoiceDetailProps {
   invoice: Invoice;
@@ -45,6 +46,7 @@ export default function InvoiceDetail({ invoice, onClose }: InvoiceDetailProps)
       totalHT: invoice.totalHT,
       totalTVA: invoice.totalTVA,
       totalTTC: invoice.totalTTC,
+      vatBreakdown: invoice.vatBreakdown,
     };
     return (
       <InvoiceForm
@@ -172,16 +174,57 @@ export default function InvoiceDetail({ invoice, onClose }: InvoiceDetailProps)
             <span className="app-muted">Total HT</span>
             <span className="app-text">{invoice.totalHT.toFixed(2)} EUR</span>
           </div>
-          <div className="flex justify-between text-sm">
-            <span className="app-muted">TVA</span>
-            <span className="app-text">{invoice.totalTVA.toFixed(2)} EUR</span>
-          </div>
+          {getInvoiceVatBreakdown(invoice).map((line) => (
+            <div key={line.rate} className="flex justify-between text-sm">
+              <span className="app-muted">
+                TVA {formatVatRate(line.rate)} sur {line.baseHT.toFixed(2)} EUR
+              </span>
+              <span className="app-text">{line.vat.toFixed(2)} EUR</span>
+            </div>
+          ))}
           <div className="flex justify-between text-sm font-bold border-t app-border pt-2">
             <span className="app-text">Total TTC</span>
             <span className="text-[color:var(--app-accent)]">{invoice.totalTTC.toFixed(2)} EUR</span>
           </div>
         </div>
 
+        {invoice.priceImpact && invoice.priceImpact.length > 0 && (
+          <div className="glass-card glass-panel overflow-hidden">
+            <div className="p-3 border-b app-border">
+              <h4 className="text-sm font-semibold app-text">Impact sur les recettes ({invoice.priceImpact.length})</h4>
+              <p className="text-xs app-muted">Couts recalcules avec les prix de cette facture.</p>
+            </div>
+            <div className="divide-y divide-[color:var(--app-border)]">
+              {invoice.priceImpact.map((impact) => {
+                const delta = impact.newCost - impact.oldCost;
+                return (
+                  <div key={impact.recipeId} className="p-3 space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-sm font-medium app-text truncate">{impact.recipeTitle}</p>
+                      {impact.crossedThreshold && (
+                        <span className="shrink-0 px-2 py-0.5 rounded-full text-[11px] font-semibold bg-[color:var(--app-danger)] text-white">
+                          Seuil depasse
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs app-muted">
+                      Cout {impact.newCost.toFixed(2)} EUR (avant {impact.oldCost.toFixed(2)} EUR,{' '}
+                      <span className={cn('font-semibold', delta > 0 ? 'text-[color:var(--app-danger)]' : 'text-[color:var(--app-success)]')}>
+                        {delta > 0 ? '+' : ''}{delta.toFixed(2)} EUR
+                      </span>)
+                    </p>
+                    {impact.newFoodCostRate > 0 && (
+                      <p className="text-xs app-muted">
+                        Food cost {(impact.newFoodCostRate * 100).toFixed(1)}% (avant {(impact.oldFoodCostRate * 100).toFixed(1)}%)
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {invoice.tags.length > 0 && (
           <div className="flex flex-wrap gap-2">
             {invoice.tags.map((tag) => (
@@ -2,11 +2,19 @@ import { useState, useMemo, useCallback, useEffect } from 'react';
 import { z } from 'zod';
 import { useAppStore } from '../../stores/appStore';
 import type { OCRResult } from '../../services/ocr';
-import type { Invoice, InvoiceItem } from '../../types';
-import { cn, sanitizeInput, vibrate } from '../../utils';
+import { INVOICE_DUPLICATE_REASON_LABELS, type Invoice, type InvoiceDuplicateMatch, type InvoiceItem } from '../../types';
+import { cn, formatDateShort, sanitizeInput, vibrate } from '../../utils';
 import { logger } from '../../services/logger';
+import { showWarning } from '../../stores/toastStore';
 import { buildSupplierQuickPicks, canonicalizeSupplierName, isNewSupplier } from '../../services/suppliers';
 import { syncInvoiceToIngredients } from '../../services/invoiceIngredientSync';
+import {
+  checkInvoiceTotals,
+  computeInvoiceTotals,
+  DEFAULT_INVOICE_VAT_RATE,
+  formatVatRate,
+  INVOICE_VAT_RATES,
+} from '../../services/invoiceVat';
 
 interface InvoiceFormProps {
   initialData: OCRResult;
@@ -16,7 +24,12 @@ interface InvoiceFormProps {
   existingInvoice?: Invoice;
 }
 
-const INVOICE_VAT_RATE = 0.055;
+type DuplicateAction = 'merge' | 'replace';
+
+interface DuplicateCheck {
+  invoice: Invoice;
+  matches: InvoiceDuplicateMatch[];
+}
 
 const invoiceItemSchema = z.object({
   designation: z.string().trim().min(1, 'La designation est requise'),
@@ -88,7 +101,7 @@ export default function InvoiceForm({
           ...item,
           designation: sanitizeInput(item.designation),
         }))
-      : [{ designation: '', quantity: 1, unitPriceHT: 0, totalPriceHT: 0 }]
+      : [{ designation: '', quantity: 1, unitPriceHT: 0, totalPriceHT: 0, vatRate: DEFAULT_INVOICE_VAT_RATE }]
   );
   const [tagsInput, setTagsInput] = useState(
     sanitizeInput(existingInvoice?.tags?.join(', ') ?? '')
@@ -97,12 +110,16 @@ export default function InvoiceForm({
   const [error, setError] = useState<string | null>(null);
   const [fieldErrors, setFieldErrors] = useState<Partial<Record<InvoiceFieldErrorKey, string>>>({});
   const [knownSuppliers, setKnownSuppliers] = useState<string[]>([]);
+  const [duplicateCheck, setDuplicateCheck] = useState<DuplicateCheck | null>(null);
 
   const addInvoice = useAppStore((s) => s.addInvoice);
   const updateInvoice = useAppStore((s) => s.updateInvoice);
+  const findInvoiceDuplicates = useAppStore((s) => s.findInvoiceDuplicates);
+  const mergeInvoices = useAppStore((s) => s.mergeInvoices);
   const rebuildPriceHistory = useAppStore((s) => s.rebuildPriceHistory);
   const getInvoices = useAppStore((s) => s.getInvoices);
   const getPriceHistory = useAppStore((s) => s.getPriceHistory);
+  const updateIngredient = useAppStore((s) => s.updateIngredient);
   const supplierFieldId = 'invoice-supplier';
   const numberFieldId = 'invoice-number';
   const dateFieldId = 'invoice-date';
@@ -139,16 +156,17 @@ export default function InvoiceForm({
     [existingInvoice, canonicalSupplier, knownSuppliers],
   );
 
-  const totals = useMemo(() => {
-    const totalHT = items.reduce((sum, item) => sum + (item.totalPriceHT || 0), 0);
-    const totalTVA = Math.round(totalHT * INVOICE_VAT_RATE * 100) / 100;
-    const totalTTC = Math.round((totalHT + totalTVA) * 100) / 100;
-    return {
-      totalHT: Math.round(totalHT * 100) / 100,
-      totalTVA,
-      totalTTC,
-    };
-  }, [items]);
+  const totals = useMemo(() => computeInvoiceTotals(items), [items]);
+  const totalIssues = useMemo(
+    () =>
+      checkInvoiceTotals(totals, {
+        totalHT: initialData.totalHT,
+        totalTVA: initialData.totalTVA,
+        totalTTC: initialData.totalTTC,
+        vatBreakdown: initialData.vatBreakdown,
+      }),
+    [totals, initialData.totalHT, initialData.totalTVA, initialData.totalTTC, initialData.vatBreakdown],
+  );
 
   const handleItemChange = useCallback(
     (index: number, field: keyof InvoiceItem, value: string | number) => {
@@ -158,6 +176,8 @@ export default function InvoiceForm({
 
         if (field === 'designation') {
           item.designation = sanitizeInput(String(value));
+        } else if (field === 'vatRate') {
+          item.vatRate = Number(value);
         } else if (field === 'conditioningQuantity') {
           const numVal = typeof value === 'string' ? parseFloat(value) || 0 : (value as number);
           item.conditioningQuantity = numVal > 1 ? numVal : undefined;
@@ -185,7 +205,7 @@ export default function InvoiceForm({
     vibrate();
     setItems((prev) => [
       ...prev,
-      { designation: '', quantity: 1, unitPriceHT: 0, totalPriceHT: 0 },
+      { designation: '', quantity: 1, unitPriceHT: 0, totalPriceHT: 0, vatRate: DEFAULT_INVOICE_VAT_RATE },
     ]);
   }, []);
 
@@ -197,9 +217,60 @@ export default function InvoiceForm({
     });
   }, []);
 
+  const persistInvoice = useCallback(
+    async (invoice: Invoice, duplicate?: { action: DuplicateAction; target: Invoice }) => {
+      setSaving(true);
+      setError(null);
+      setDuplicateCheck(null);
+
+      try {
+        let saved = invoice;
+        if (duplicate?.action === 'merge') {
+          const merged = await mergeInvoices(duplicate.target.id, invoice);
+          if (!merged) throw new Error('Duplicate invoice no longer exists');
+          saved = merged;
+        } else if (duplicate?.action === 'replace') {
+          saved = { ...invoice, id: duplicate.target.id, scannedAt: duplicate.target.scannedAt };
+          await updateInvoice(saved);
+        } else if (existingInvoice) {
+          await updateInvoice(invoice);
+        } else {
+          await addInvoice(invoice);
+        }
+
+        // Auto-sync invoice items → ingredients (price + conditioning)
+        try {
+          const syncResult = await syncInvoiceToIngredients(saved, updateIngredient);
+          if (syncResult.updated > 0) {
+            logger.info(`Auto-synced ${syncResult.updated} ingredient(s) from invoice`, { invoiceId: saved.id });
+          }
+          if (syncResult.queued > 0) {
+            showWarning(`${syncResult.queued} mise(s) a jour de prix a valider (Factures > A valider)`);
+          }
+          if (syncResult.impact.length > 0) {
+            await updateInvoice({ ...saved, priceImpact: syncResult.impact });
+          }
+        } catch (err) {
+          logger.warn('Invoice→ingredient sync failed (non-blocking)', { err });
+        }
+
+        await rebuildPriceHistory();
+        onSave();
+      } catch (err) {
+        logger.error('Invoice save error', { err });
+        setError('Erreur lors de la sauvegarde. Veuillez reessayer.');
+      } finally {
+        setSaving(false);
+      }
+    },
+    [existingInvoice, addInvoice, updateInvoice, mergeInvoices, rebuildPriceHistory, updateIngredient, onSave],
+  );
+
   const handleSave = useCallback(async () => {
     const supplierValue = canonicalizeSupplierName(supplier.trim());
-    const filteredItems = items.filter((item) => item.designation.trim().length > 0);
+    const filteredItems = items
+      .filter((item) => item.designation.trim().length > 0)
+      .map((item) => ({ ...item, vatRate: item.vatRate ?? DEFAULT_INVOICE_VAT_RATE }));
     const nextFieldErrors: Partial<Record<InvoiceFieldErrorKey, string>> = {};
     const validationResult = invoiceFormSchema.safeParse({
       supplier: supplierValue,
@@ -224,6 +295,12 @@ export default function InvoiceForm({
       return;
     }
     setFieldErrors({});
+    if (totalIssues.length > 0) {
+      const confirmed = window.confirm(
+        `Les lignes ne correspondent pas aux totaux de la facture (${totalIssues.map((issue) => issue.label).join(', ')}).\nSauvegarder quand meme ?`,
+      );
+      if (!confirmed) return;
+    }
     if (!existingInvoice && isNewSupplier(supplierValue, knownSuppliers)) {
       const confirmed = window.confirm(
         `Nouveau fournisseur detecte: "${supplierValue}".\nVoulez-vous le sauvegarder ?`,
@@ -231,55 +308,46 @@ export default function InvoiceForm({
       if (!confirmed) return;
     }
 
-    setSaving(true);
-    setError(null);
-
-    try {
-      const tags = tagsInput
-        .split(',')
-        .map((t) => sanitizeInput(t).trim())
-        .filter(Boolean);
-
-      const invoice: Invoice = {
-        id: existingInvoice?.id ?? crypto.randomUUID(),
-        images,
-        imageUrls: existingInvoice?.imageUrls,
-        supplier: supplierValue,
-        invoiceNumber: invoiceNumber.trim(),
-        invoiceDate: new Date(invoiceDate),
-        items: filteredItems,
-        totalHT: totals.totalHT,
-        totalTVA: totals.totalTVA,
-        totalTTC: totals.totalTTC,
-        ocrText: initialData.text,
-        tags,
-        scannedAt: existingInvoice?.scannedAt ?? new Date(),
-      };
-
-      if (existingInvoice) {
-        await updateInvoice(invoice);
-      } else {
-        await addInvoice(invoice);
-      }
+    const tags = tagsInput
+      .split(',')
+      .map((t) => sanitizeInput(t).trim())
+      .filter(Boolean);
 
-      // Auto-sync invoice items → ingredients (price + conditioning)
+    const invoice: Invoice = {
+      id: existingInvoice?.id ?? crypto.randomUUID(),
+      images,
+      imageUrls: existingInvoice?.imageUrls,
+      supplier: supplierValue,
+      invoiceNumber: invoiceNumber.trim(),
+      invoiceDate: new Date(invoiceDate),
+      items: filteredItems,
+      totalHT: totals.totalHT,
+      totalTVA: totals.totalTVA,
+      totalTTC: totals.totalTTC,
+      vatBreakdown: totals.vatBreakdown,
+      ocrText: initialData.text,
+      tags,
+      scannedAt: existingInvoice?.scannedAt ?? new Date(),
+      priceImpact: existingInvoice?.priceImpact,
+      imageHash: existingInvoice?.imageHash,
+    };
+
+    if (!existingInvoice) {
+      setSaving(true);
+      let matches: InvoiceDuplicateMatch[] = [];
       try {
-        const syncResult = await syncInvoiceToIngredients(invoice);
-        if (syncResult.updated > 0) {
-          logger.info(`Auto-synced ${syncResult.updated} ingredient(s) from invoice`, { invoiceId: invoice.id });
-        }
+        matches = await findInvoiceDuplicates(invoice);
       } catch (err) {
-        logger.warn('Invoice→ingredient sync failed (non-blocking)', { err });
+        logger.warn('Duplicate invoice check failed (non-blocking)', { err });
       }
-
-      await rebuildPriceHistory();
-      onSave();
-    } catch (err) {
-      logger.error('Invoice save error', { err });
-      setError('Erreur lors de la sauvegarde. Veuillez reessayer.');
-    } finally {
       setSaving(false);
+      if (matches.length > 0) {
+        setDuplicateCheck({ invoice, matches });
+        return;
+      }
     }
+
+    await persistInvoice(invoice);
   }, [
     supplier,
     invoiceNumber,
@@ -291,10 +359,9 @@ export default function InvoiceForm({
     totals,
     existingInvoice,
     knownSuppliers,
-    addInvoice,
-    updateInvoice,
-    rebuildPriceHistory,
-    onSave,
+    totalIssues,
+    findInvoiceDuplicates,
+    persistInvoice,
   ]);
 
   return (
@@ -539,6 +606,21 @@ export default function InvoiceForm({
                     placeholder="ex: 90"
                     className="w-20 px-2 py-1 rounded border app-border app-surface-2 app-text text-xs focus:ring-1 focus:ring-[color:var(--app-accent)]"
                   />
+                  <label htmlFor={`invoice-item-vat-${index}`} className="text-[10px] app-muted whitespace-nowrap">
+                    TVA
+                  </label>
+                  <select
+                    id={`invoice-item-vat-${index}`}
+                    value={item.vatRate ?? DEFAULT_INVOICE_VAT_RATE}
+                    onChange={(e) => handleItemChange(index, 'vatRate', e.target.value)}
+                    className="px-2 py-1 rounded border app-border app-surface-2 app-text text-xs focus:ring-1 focus:ring-[color:var(--app-accent)]"
+                  >
+                    {INVOICE_VAT_RATES.map((rate) => (
+                      <option key={rate} value={rate}>
+                        {formatVatRate(rate)}
+                      </option>
+                    ))}
+                  </select>
                   {item.conditioningQuantity && item.conditioningQuantity > 1 && item.unitPriceHT > 0 && (
                     <span className="text-[10px] app-accent font-medium">
                       = {(item.unitPriceHT / item.conditioningQuantity).toFixed(4)} EUR/u
@@ -559,18 +641,34 @@ export default function InvoiceForm({
             {totals.totalHT.toFixed(2)} EUR
           </span>
         </div>
-        <div className="flex justify-between text-sm">
-          <span className="app-muted">TVA (5,5%)</span>
-          <span className="font-medium app-text">
-            {totals.totalTVA.toFixed(2)} EUR
-          </span>
-        </div>
+        {totals.vatBreakdown.map((line) => (
+          <div key={line.rate} className="flex justify-between text-sm">
+            <span className="app-muted">
+              TVA {formatVatRate(line.rate)} sur {line.baseHT.toFixed(2)} EUR
+            </span>
+            <span className="font-medium app-text">
+              {line.vat.toFixed(2)} EUR
+            </span>
+          </div>
+        ))}
         <div className="flex justify-between text-sm font-bold border-t app-border pt-1.5">
           <span className="app-text">Total TTC</span>
           <span className="text-[color:var(--app-accent)]">
             {totals.totalTTC.toFixed(2)} EUR
           </span>
         </div>
+        {totalIssues.length > 0 && (
+          <div className="border-t app-border pt-1.5 space-y-0.5">
+            <p className="text-xs font-semibold text-[color:var(--app-warning)]">
+              Les lignes ne correspondent pas aux totaux de la facture
+            </p>
+            {totalIssues.map((issue) => (
+              <p key={issue.label} className="text-[11px] app-muted">
+                {issue.label}: lignes {issue.computed.toFixed(2)} EUR, facture {issue.declared.toFixed(2)} EUR
+              </p>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* OCR Raw Text (collapsible) */}
@@ -609,6 +707,60 @@ export default function InvoiceForm({
         </div>
       )}
 
+      {duplicateCheck && (
+        <div role="alert" className="p-3 rounded-lg app-warning-bg space-y-2">
+          <p className="text-sm font-semibold">Doublon probable</p>
+          <p className="text-xs">Cette facture ressemble a une facture deja enregistree.</p>
+          {duplicateCheck.matches.map((match) => (
+            <div key={match.invoice.id} className="rounded-lg app-surface p-2 space-y-1.5">
+              <p className="text-xs app-text font-medium">
+                {match.invoice.supplier} - {match.invoice.invoiceNumber || 'sans numero'} - {formatDateShort(match.invoice.invoiceDate)} -{' '}
+                {match.invoice.totalTTC.toFixed(2)} EUR TTC
+              </p>
+              <p className="text-[11px] app-muted">
+                {match.reasons.map((reason) => INVOICE_DUPLICATE_REASON_LABELS[reason]).join(', ')}
+              </p>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => { void persistInvoice(duplicateCheck.invoice, { action: 'merge', target: match.invoice }); }}
+                  disabled={saving}
+                  className="flex-1 py-1.5 rounded-lg app-accent-bg text-xs font-semibold disabled:opacity-50"
+                >
+                  Fusionner
+                </button>
+                <button
+                  type="button"
+                  onClick={() => { void persistInvoice(duplicateCheck.invoice, { action: 'replace', target: match.invoice }); }}
+                  disabled={saving}
+                  className="flex-1 py-1.5 rounded-lg app-surface-2 app-text text-xs font-semibold disabled:opacity-50"
+                >
+                  Remplacer
+                </button>
+              </div>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setDuplicateCheck(null)}
+              disabled={saving}
+              className="flex-1 py-1.5 rounded-lg app-surface-2 app-text text-xs font-semibold disabled:opacity-50"
+            >
+              Annuler
+            </button>
+            <button
+              type="button"
+              onClick={() => { void persistInvoice(duplicateCheck.invoice); }}
+              disabled={saving}
+              className="flex-1 py-1.5 rounded-lg app-surface-2 app-text text-xs font-semibold disabled:opacity-50"
+            >
+              Garder les deux
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Actions */}
       <div className="flex gap-3">
         <button
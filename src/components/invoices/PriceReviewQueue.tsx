@@ -0,0 +1,167 @@
+import { useCallback, useEffect, useState } from 'react';
+import { PRICE_REVIEW_REASON_LABELS, type IngredientPriceReview } from '../../types';
+import { approvePriceReview, getPriceReviews, rejectPriceReview } from '../../services/priceReview';
+import { useAppStore } from '../../stores/appStore';
+import { showError, showSuccess, showWarning } from '../../stores/toastStore';
+import { cn, formatDateShort } from '../../utils';
+
+interface PriceReviewQueueProps {
+  onPendingCountChange?: (count: number) => void;
+}
+
+function formatVariation(previous: number, proposed: number): string {
+  if (previous <= 0) return 'nouveau prix';
+  const variation = ((proposed - previous) / previous) * 100;
+  return `${variation >= 0 ? '+' : ''}${variation.toFixed(1)}%`;
+}
+
+export default function PriceReviewQueue({ onPendingCountChange }: PriceReviewQueueProps) {
+  const updateIngredient = useAppStore((s) => s.updateIngredient);
+  const [reviews, setReviews] = useState<IngredientPriceReview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const pending = await getPriceReviews('pending');
+      setReviews(pending);
+      onPendingCountChange?.(pending.length);
+    } catch {
+      showError('Impossible de charger les prix a valider');
+    } finally {
+      setLoading(false);
+    }
+  }, [onPendingCountChange]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const handleApprove = async (review: IngredientPriceReview) => {
+    setBusyId(review.id);
+    try {
+      const impact = await approvePriceReview(review.id, updateIngredient);
+      const crossed = impact.filter((entry) => entry.crossedThreshold);
+      if (crossed.length > 0) {
+        showWarning(`Prix applique. Seuil food cost depasse: ${crossed.map((entry) => entry.recipeTitle).join(', ')}`);
+      } else {
+        showSuccess(`Prix applique a ${review.ingredientName}`);
+      }
+      await load();
+    } catch {
+      showError('Impossible de valider ce prix');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleReject = async (review: IngredientPriceReview) => {
+    setBusyId(review.id);
+    try {
+      await rejectPriceReview(review.id);
+      showSuccess('Mise a jour refusee');
+      await load();
+    } catch {
+      showError('Impossible de refuser ce prix');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="w-8 h-8 border-3 border-[color:var(--app-accent)] border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (reviews.length === 0) {
+    return (
+      <div className="glass-card glass-panel p-4">
+        <p className="text-sm app-text font-semibold">Aucun prix a valider</p>
+        <p className="text-xs app-muted">Les correspondances incertaines et les fortes variations apparaitront ici.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 pb-4">
+      {reviews.map((review) => {
+        const busy = busyId === review.id;
+        const conditioningChanged = review.reasons.includes('conditioning_change');
+        return (
+          <div key={review.id} className="glass-card glass-panel p-3 space-y-2">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-sm font-semibold app-text truncate">{review.designation}</p>
+                <p className="text-xs app-muted truncate">
+                  {review.supplier || 'Fournisseur inconnu'} - {formatDateShort(review.createdAt)}
+                </p>
+              </div>
+              <span className="shrink-0 text-xs app-muted">Correspondance {Math.round(review.matchScore * 100)}%</span>
+            </div>
+
+            <div className="flex flex-wrap gap-1.5">
+              {review.reasons.map((reason) => (
+                <span
+                  key={reason}
+                  className={cn(
+                    'px-2 py-0.5 rounded-full text-[11px] font-semibold',
+                    reason === 'low_confidence' ? 'app-warning-bg' : 'app-surface-2 app-text',
+                  )}
+                >
+                  {PRICE_REVIEW_REASON_LABELS[reason]}
+                </span>
+              ))}
+            </div>
+
+            <div className="rounded-xl app-surface-2 p-2 text-xs space-y-1">
+              <div className="flex justify-between gap-2">
+                <span className="app-muted">Ingredient</span>
+                <span className="app-text font-medium truncate">{review.ingredientName}</span>
+              </div>
+              <div className="flex justify-between gap-2">
+                <span className="app-muted">Prix HT</span>
+                <span className="app-text">
+                  {review.previousUnitPrice.toFixed(2)} EUR puis <strong>{review.proposedUnitPrice.toFixed(2)} EUR</strong>{' '}
+                  ({formatVariation(review.previousUnitPrice, review.proposedUnitPrice)})
+                </span>
+              </div>
+              {conditioningChanged && (
+                <div className="flex justify-between gap-2">
+                  <span className="app-muted">Conditionnement</span>
+                  <span className="app-text">
+                    {review.previousConditioningQuantity ?? '-'} puis <strong>{review.proposedConditioningQuantity ?? '-'}</strong>
+                  </span>
+                </div>
+              )}
+            </div>
+
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => { void handleReject(review); }}
+                disabled={busy}
+                className="flex-1 py-2 rounded-xl app-surface-2 text-[13px] font-semibold text-[color:var(--app-danger)] active:opacity-70 disabled:opacity-50"
+              >
+                Refuser
+              </button>
+              <button
+                type="button"
+                onClick={() => { void handleApprove(review); }}
+                disabled={busy}
+                className="flex-1 py-2 rounded-xl app-accent-bg text-[13px] font-semibold active:opacity-70 disabled:opacity-50"
+              >
+                Valider
+              </button>
+            </div>
+          </div>
+        );
+      })}
+      <p className="text-xs app-muted px-1">
+        Valider ou refuser memorise la correspondance fournisseur pour les prochaines factures.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { useAppStore } from '../../stores/appStore';
+import type { Invoice } from '../../types';
+import { buildMonthlyVatReport, formatVatRate } from '../../services/invoiceVat';
+import { showError } from '../../stores/toastStore';
+
+export default function VatReportPanel() {
+  const [month, setMonth] = useState(() => format(new Date(), 'yyyy-MM'));
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const getInvoices = useAppStore((s) => s.getInvoices);
+
+  useEffect(() => {
+    getInvoices()
+      .then(setInvoices)
+      .catch(() => showError('Impossible de charger les factures'))
+      .finally(() => setLoading(false));
+  }, [getInvoices]);
+
+  const report = useMemo(() => buildMonthlyVatReport(invoices, month), [invoices, month]);
+  const invoiceCount = useMemo(() => new Set(report.rows.map((row) => row.invoiceId)).size, [report.rows]);
+
+  const handleExport = async () => {
+    try {
+      const { generateVatReportCSV, downloadCSV } = await import('../../services/pdf');
+      downloadCSV(generateVatReportCSV(report), `tva_deductible_${month}.csv`);
+    } catch {
+      showError("Impossible d'exporter le rapport TVA");
+    }
+  };
+
+  return (
+    <div className="glass-card glass-panel space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h3 className="text-sm font-semibold app-text">TVA deductible</h3>
+          <p className="text-xs app-muted">
+            {loading ? 'Chargement...' : `${invoiceCount} facture(s) sur le mois`}
+          </p>
+        </div>
+        <input
+          type="month"
+          value={month}
+          onChange={(e) => setMonth(e.target.value)}
+          aria-label="Mois du rapport TVA"
+          className="px-2 py-1.5 rounded-lg border app-border app-surface app-text text-sm"
+        />
+      </div>
+
+      <div className="rounded-xl app-surface-2 p-2 text-sm space-y-1">
+        {report.totalsByRate.length === 0 && <p className="text-xs app-muted">Aucune facture ce mois-ci.</p>}
+        {report.totalsByRate.map((line) => (
+          <div key={line.rate} className="flex justify-between gap-2">
+            <span className="app-muted">
+              {formatVatRate(line.rate)} sur {line.baseHT.toFixed(2)} EUR HT
+            </span>
+            <span className="app-text font-medium">{line.vat.toFixed(2)} EUR</span>
+          </div>
+        ))}
+        {report.totalsByRate.length > 0 && (
+          <div className="flex justify-between gap-2 border-t app-border pt-1 font-semibold">
+            <span className="app-text">Total TVA</span>
+            <span className="text-[color:var(--app-accent)]">{report.totalTVA.toFixed(2)} EUR</span>
+          </div>
+        )}
+      </div>
+
+      <button
+        type="button"
+        onClick={() => {
+          void handleExport();
+        }}
+        disabled={loading || report.rows.length === 0}
+        className="w-full px-3 py-2 rounded-xl app-accent-bg text-sm font-semibold disabled:opacity-60"
+      >
+        Exporter CSV pour le comptable
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,292 @@
+import { useMemo, useState } from 'react';
+import Modal from '../common/Modal';
+import { PACKAGING_STATE_LABELS, PRODUCT_CATEGORIES } from '../../types';
+import type { DeliveryReception, Order, PackagingState, ReceptionDecision, ReceptionLine } from '../../types';
+import { createReceptionLines, hasQuantityGap, validateReception } from '../../services/orderReception';
+import { cn, sanitizeInput } from '../../utils';
+
+interface DeliveryReceptionFormProps {
+  order: Order;
+  onCancel: () => void;
+  onSubmit: (reception: DeliveryReception) => Promise<void> | void;
+}
+
+interface FormLine {
+  line: ReceptionLine;
+  receivedInput: string;
+  temperatureInput: string;
+  expirationInput: string;
+}
+
+const PACKAGING_KEYS = Object.keys(PACKAGING_STATE_LABELS) as PackagingState[];
+
+function parseDecimal(value: string): number | undefined {
+  if (!value.trim()) return undefined;
+  const parsed = Number.parseFloat(value.replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : Number.NaN;
+}
+
+function toFormLine(line: ReceptionLine): FormLine {
+  return { line, receivedInput: String(line.receivedQuantity), temperatureInput: '', expirationInput: '' };
+}
+
+function toReceptionLine(entry: FormLine): ReceptionLine {
+  return {
+    ...entry.line,
+    receivedQuantity: parseDecimal(entry.receivedInput) ?? Number.NaN,
+    temperature: parseDecimal(entry.temperatureInput),
+    expirationDate: entry.expirationInput ? new Date(`${entry.expirationInput}T00:00:00`) : undefined,
+  };
+}
+
+export default function DeliveryReceptionForm({ order, onCancel, onSubmit }: DeliveryReceptionFormProps) {
+  const [lines, setLines] = useState<FormLine[]>(() => createReceptionLines(order).map(toFormLine));
+  const [operator, setOperator] = useState('');
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const issueCount = useMemo(
+    () =>
+      lines.filter((entry) => {
+        const line = toReceptionLine(entry);
+        return line.decision === 'rejected' || (Number.isFinite(line.receivedQuantity) && hasQuantityGap(line));
+      }).length,
+    [lines],
+  );
+
+  const updateLine = (orderItemId: string, patch: Partial<FormLine>, linePatch: Partial<ReceptionLine> = {}) => {
+    setLines((prev) =>
+      prev.map((entry) =>
+        entry.line.orderItemId === orderItemId
+          ? { ...entry, ...patch, line: { ...entry.line, ...linePatch } }
+          : entry,
+      ),
+    );
+  };
+
+  const handleSubmit = async () => {
+    if (saving) return;
+    const reception: DeliveryReception = {
+      receivedAt: new Date(),
+      operator: operator.trim() || undefined,
+      notes: notes.trim() || undefined,
+      lines: lines.map(toReceptionLine),
+    };
+    const validationError = validateReception(reception);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setError(null);
+    setSaving(true);
+    try {
+      await onSubmit(reception);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onCancel} title={`Reception ${order.orderNumber}`} size="full">
+      <div className="space-y-3">
+        <p className="ios-caption app-muted">
+          {order.supplier} &middot; controlez chaque article avant de valider la livraison.
+        </p>
+
+        {lines.map((entry) => {
+          const { line } = entry;
+          const decision = line.decision;
+          const receivedQuantity = parseDecimal(entry.receivedInput);
+          const gap =
+            receivedQuantity !== undefined &&
+            Number.isFinite(receivedQuantity) &&
+            hasQuantityGap({ ...line, receivedQuantity });
+          return (
+            <div
+              key={line.orderItemId}
+              className={cn(
+                'p-3 rounded-xl space-y-2',
+                decision === 'rejected'
+                  ? 'bg-[color:var(--app-danger)]/10 border border-[color:var(--app-danger)]/30'
+                  : 'app-surface-2',
+              )}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-semibold app-text truncate">{line.productName}</p>
+                  <p className="text-[11px] app-muted">
+                    Commande : {line.orderedQuantity} {line.unit}
+                  </p>
+                </div>
+                <div className="pill-toggle shrink-0">
+                  {(['accepted', 'rejected'] as ReceptionDecision[]).map((value) => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => updateLine(line.orderItemId, {}, { decision: value })}
+                      className={cn('pill-toggle-btn', decision === value && 'active')}
+                    >
+                      {value === 'accepted' ? 'Accepter' : 'Refuser'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                <div>
+                  <label className="block text-[10px] app-muted mb-1">Qte recue ({line.unit})</label>
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    min={0}
+                    step="0.01"
+                    value={entry.receivedInput}
+                    onChange={(e) => updateLine(line.orderItemId, { receivedInput: e.target.value })}
+                    className={cn('app-input w-full', gap && 'ring-2 ring-[color:var(--app-warning)]')}
+                  />
+                </div>
+                <div>
+                  <label className="block text-[10px] app-muted mb-1">Temp. produit (°C)</label>
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    step="0.1"
+                    value={entry.temperatureInput}
+                    onChange={(e) => updateLine(line.orderItemId, { temperatureInput: e.target.value })}
+                    className="app-input w-full"
+                    placeholder="-"
+                  />
+                </div>
+                <div>
+                  <label className="block text-[10px] app-muted mb-1">Emballage</label>
+                  <select
+                    value={line.packaging}
+                    onChange={(e) =>
+                      updateLine(line.orderItemId, {}, { packaging: e.target.value as PackagingState })
+                    }
+                    className="app-input w-full"
+                  >
+                    {PACKAGING_KEYS.map((key) => (
+                      <option key={key} value={key}>
+                        {PACKAGING_STATE_LABELS[key]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-[10px] app-muted mb-1">DLC</label>
+                  <input
+                    type="date"
+                    value={entry.expirationInput}
+                    onChange={(e) => updateLine(line.orderItemId, { expirationInput: e.target.value })}
+                    className="app-input w-full"
+                  />
+                </div>
+              </div>
+
+              {decision === 'accepted' ? (
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-[10px] app-muted mb-1">No lot</label>
+                    <input
+                      type="text"
+                      value={line.lotNumber ?? ''}
+                      onChange={(e) =>
+                        updateLine(line.orderItemId, {}, { lotNumber: sanitizeInput(e.target.value) })
+                      }
+                      className="app-input w-full"
+                      placeholder={order.orderNumber}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] app-muted mb-1">Categorie</label>
+                    <select
+                      value={line.category}
+                      onChange={(e) => updateLine(line.orderItemId, {}, { category: e.target.value })}
+                      className="app-input w-full"
+                    >
+                      {PRODUCT_CATEGORIES.map((category) => (
+                        <option key={category} value={category}>
+                          {category}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-[10px] app-muted mb-1">Motif du refus</label>
+                  <input
+                    type="text"
+                    value={line.rejectionReason ?? ''}
+                    onChange={(e) =>
+                      updateLine(line.orderItemId, {}, { rejectionReason: sanitizeInput(e.target.value) })
+                    }
+                    className="app-input w-full"
+                    placeholder="Ex: temperature trop elevee, emballage perce"
+                  />
+                </div>
+              )}
+
+              {gap && decision === 'accepted' && (
+                <p className="text-[11px] text-[color:var(--app-warning)]">
+                  Ecart de quantite : {receivedQuantity} / {line.orderedQuantity} {line.unit}
+                </p>
+              )}
+            </div>
+          );
+        })}
+
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-[11px] app-muted mb-1">Receptionne par</label>
+            <input
+              type="text"
+              value={operator}
+              onChange={(e) => setOperator(sanitizeInput(e.target.value))}
+              className="app-input w-full"
+              placeholder="Initiales"
+            />
+          </div>
+          <div>
+            <label className="block text-[11px] app-muted mb-1">Commentaire</label>
+            <input
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(sanitizeInput(e.target.value))}
+              className="app-input w-full"
+            />
+          </div>
+        </div>
+
+        {issueCount > 0 && (
+          <p className="text-sm text-[color:var(--app-warning)]">
+            {issueCount} non-conformite(s) seront enregistrees pour {order.supplier}.
+          </p>
+        )}
+        {error && <p className="text-sm text-[color:var(--app-danger)]">{error}</p>}
+
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="min-h-[44px] rounded-xl app-surface-2 app-text text-sm font-semibold"
+          >
+            Annuler
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              void handleSubmit();
+            }}
+            disabled={saving}
+            className="min-h-[44px] rounded-xl app-accent-bg text-sm font-semibold disabled:opacity-60"
+          >
+            {saving ? 'Validation...' : 'Valider la reception'}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
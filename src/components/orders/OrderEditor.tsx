@@ -1,20 +1,46 @@
 ﻿import { useEffect, useMemo, useState } from 'react';
 import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
 import { buildSupplierQuickPicks, canonicalizeSupplierName } from '../../services/suppliers';
 import { calculateOrderTotal, canTransitionStatus, getNextStatuses, orderSchema } from '../../services/orderHelpers';
-import type { IngredientUnit, Invoice, Order, OrderItem, OrderStatus } from '../../types';
+import { hasQuantityGap } from '../../services/orderReception';
+import {
+  checkOrderAgainstSupplier,
+  findSupplierByName,
+  formatDeliveryDays,
+  getNextDeliveryDate,
+} from '../../services/supplierDirectory';
+import { useAppStore } from '../../stores/appStore';
+import type {
+  DeliveryReception,
+  IngredientUnit,
+  Invoice,
+  Order,
+  OrderItem,
+  OrderStatus,
+  Supplier,
+} from '../../types';
+import DeliveryReceptionForm from './DeliveryReceptionForm';
 import OrderItemEditor from './OrderItemEditor';
+import OrderReconciliationPanel from './OrderReconciliationPanel';
+import OrderSendPanel from './OrderSendPanel';
+import OrderSuggestionPanel from './OrderSuggestionPanel';
 import OrderStatusBadge from './OrderStatusBadge';
 
 interface OrderEditorProps {
   order: Order | null;
   defaultOrderNumber: string;
   knownSuppliers: string[];
+  /** Supplier directory: conditions of the selected supplier are checked against the draft. */
+  suppliers: Supplier[];
   ingredientSuggestions: string[];
   invoices: Invoice[];
   onCancel: () => void;
   onSave: (order: Order) => Promise<void> | void;
   onStatusChange: (order: Order, nextStatus: OrderStatus, invoiceId?: string) => Order;
+  onReceive: (order: Order, reception: DeliveryReception) => Promise<Order | null>;
+  /** Stores an order right after it was sent, keeping the editor open. */
+  onRecordSend: (order: Order) => Promise<Order | null>;
 }
 
 function toDateInput(date?: Date): string {
@@ -140,17 +166,24 @@ export default function OrderEditor({
   order,
   defaultOrderNumber,
   knownSuppliers,
+  suppliers,
   ingredientSuggestions,
   invoices,
   onCancel,
   onSave,
   onStatusChange,
+  onReceive,
+  onRecordSend,
 }: OrderEditorProps) {
   const [draft, setDraft] = useState<Order>(() => buildDraft(order, defaultOrderNumber));
   const [selectedInvoiceId, setSelectedInvoiceId] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
   const [showDetails, setShowDetails] = useState(false);
+  const [showReception, setShowReception] = useState(false);
+  const [showReconciliation, setShowReconciliation] = useState(false);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const settings = useAppStore((s) => s.settings);
 
   useEffect(() => {
     const nextDraft = buildDraft(order, defaultOrderNumber);
@@ -158,6 +191,8 @@ export default function OrderEditor({
     setSelectedInvoiceId(nextDraft.invoiceId ?? '');
     setError(null);
     setShowDetails(false);
+    setShowReception(false);
+    setShowSuggestions(false);
   }, [order, defaultOrderNumber]);
 
   const supplierQuickPicks = useMemo(
@@ -174,6 +209,19 @@ export default function OrderEditor({
     );
   }, [draft.supplier, invoices]);
 
+  const supplierProfile = useMemo(
+    () => findSupplierByName(suppliers, draft.supplier),
+    [draft.supplier, suppliers],
+  );
+  const supplierWarnings = useMemo(
+    () => (supplierProfile ? checkOrderAgainstSupplier(draft, supplierProfile) : []),
+    [draft, supplierProfile],
+  );
+  const nextDeliveryDate = useMemo(
+    () => (supplierProfile && draft.status === 'draft' ? getNextDeliveryDate(supplierProfile, new Date()) : null),
+    [draft.status, supplierProfile],
+  );
+
   const linkedInvoice = useMemo(
     () => invoices.find((invoice) => invoice.id === draft.invoiceId),
     [draft.invoiceId, invoices],
@@ -207,6 +255,17 @@ export default function OrderEditor({
     updateItems(nextItems);
   };
 
+  /** Suggested lines replace lines of the same product; empty placeholder lines are dropped. */
+  const handleApplySuggestions = (suggested: OrderItem[]) => {
+    const suggestedNames = new Set(suggested.map((item) => item.productName.trim().toLowerCase()));
+    const kept = draft.items.filter(
+      (item) => item.productName.trim().length > 0 && !suggestedNames.has(item.productName.trim().toLowerCase()),
+    );
+    updateItems([...kept, ...suggested]);
+    setShowSuggestions(false);
+    setShowDetails(true);
+  };
+
   const handleRemoveItem = (itemId: string) => {
     if (draft.items.length <= 1) return;
     updateItems(draft.items.filter((item) => item.id !== itemId));
@@ -222,7 +281,28 @@ export default function OrderEditor({
     });
   };
 
-  const handleSave = async () => {
+  const handleReception = async (reception: DeliveryReception) => {
+    const received = await onReceive(
+      { ...draft, items: draft.items.filter((item) => item.productName.trim().length > 0) },
+      reception,
+    );
+    if (!received) return;
+    setDraft(received);
+    setShowReception(false);
+  };
+
+  const receptionSummary = useMemo(() => {
+    if (!draft.reception) return null;
+    const { lines } = draft.reception;
+    return {
+      accepted: lines.filter((line) => line.decision === 'accepted').length,
+      rejected: lines.filter((line) => line.decision === 'rejected').length,
+      gaps: lines.filter((line) => line.decision === 'accepted' && hasQuantityGap(line)).length,
+    };
+  }, [draft.reception]);
+
+  /** Order as it will be stored (note lines win over detailed lines), or null with the error shown. */
+  const prepareOrder = (): Order | null => {
     const manualItems = draft.items.filter((item) => item.productName.trim().length > 0);
     const itemsFromNotes = parseHandwrittenItems(draft.notes ?? '').filter(
       (item) => item.productName.trim().length > 0,
@@ -239,26 +319,42 @@ export default function OrderEditor({
     });
     if (!validation.success) {
       setError(validation.error.issues[0]?.message ?? 'Commande invalide');
-      return;
+      return null;
     }
 
-    setSaving(true);
     setError(null);
+    const now = new Date();
+    return {
+      ...draft,
+      supplier: canonicalizeSupplierName(draft.supplier),
+      items: finalItems,
+      totalHT: finalTotalHT,
+      // Saving or sending a standing order draft is what clears its dashboard reminder.
+      standingOrder: draft.standingOrder
+        ? { ...draft.standingOrder, reviewedAt: draft.standingOrder.reviewedAt ?? now }
+        : undefined,
+      updatedAt: now,
+    };
+  };
+
+  const handleSave = async () => {
+    const payload = prepareOrder();
+    if (!payload) return;
+    setSaving(true);
     try {
-      const canonicalSupplier = canonicalizeSupplierName(draft.supplier);
-      const payload: Order = {
-        ...draft,
-        supplier: canonicalSupplier,
-        items: finalItems,
-        totalHT: finalTotalHT,
-        updatedAt: new Date(),
-      };
       await onSave(payload);
     } finally {
       setSaving(false);
     }
   };
 
+  const handleSent = async (sent: Order): Promise<boolean> => {
+    const stored = await onRecordSend(sent);
+    if (!stored) return false;
+    setDraft(stored);
+    return true;
+  };
+
   return (
     <div className="fixed inset-0 z-50 app-bg flex flex-col">
       <header className="sticky top-0 z-10 app-header px-4 py-3 hairline-b flex items-center justify-between gap-3">
@@ -322,8 +418,86 @@ export default function OrderEditor({
               </div>
             )}
           </div>
+
+          {supplierProfile && (
+            <div className="rounded-xl app-surface-2 p-2 space-y-1 text-xs">
+              <p className="app-muted">
+                Livraisons : {formatDeliveryDays(supplierProfile.deliveryDays)}
+                {supplierProfile.orderCutoffTime ? ` - commande avant ${supplierProfile.orderCutoffTime}` : ''}
+                {supplierProfile.minimumOrderHT ? ` - minimum ${supplierProfile.minimumOrderHT.toFixed(2)} EUR HT` : ''}
+              </p>
+              {(supplierProfile.email || supplierProfile.phone || supplierProfile.customerAccountNumber) && (
+                <p className="app-muted">
+                  {[
+                    supplierProfile.email,
+                    supplierProfile.phone,
+                    supplierProfile.customerAccountNumber && `Client ${supplierProfile.customerAccountNumber}`,
+                  ]
+                    .filter(Boolean)
+                    .join(' - ')}
+                </p>
+              )}
+              {nextDeliveryDate && (
+                <button
+                  type="button"
+                  onClick={() =>
+                    setDraft((prev) => ({
+                      ...prev,
+                      expectedDeliveryDate: new Date(format(nextDeliveryDate, 'yyyy-MM-dd')),
+                      updatedAt: new Date(),
+                    }))
+                  }
+                  className="font-semibold text-[color:var(--app-accent)]"
+                >
+                  Livraison au plus tot : {format(nextDeliveryDate, 'dd/MM')}
+                </button>
+              )}
+            </div>
+          )}
+
+          {supplierProfile && draft.status === 'draft' && (supplierProfile.parLevels?.length ?? 0) > 0 && (
+            <button
+              type="button"
+              onClick={() => setShowSuggestions((prev) => !prev)}
+              className="w-full px-3 py-2 rounded-xl app-surface-2 app-text text-sm font-semibold"
+            >
+              {showSuggestions ? 'Masquer la suggestion' : 'Suggerer la commande'}
+            </button>
+          )}
+
+          {supplierWarnings.length > 0 && (
+            <div className="space-y-1">
+              {supplierWarnings.map((warning) => (
+                <p
+                  key={warning.kind}
+                  className={
+                    warning.severity === 'warning'
+                      ? 'rounded-xl app-warning-bg px-2 py-1.5 text-xs font-medium'
+                      : 'text-xs app-muted'
+                  }
+                >
+                  {warning.message}
+                </p>
+              ))}
+            </div>
+          )}
         </div>
 
+        {showSuggestions && supplierProfile && (
+          <>
+            <OrderSuggestionPanel
+              supplier={supplierProfile}
+              onApply={handleApplySuggestions}
+              onClose={() => setShowSuggestions(false)}
+            />
+            {parsedNoteItems.length > 0 && (
+              <p className="rounded-xl app-warning-bg px-2 py-1.5 text-xs font-medium">
+                La note manuscrite remplace les articles detailles a la sauvegarde : videz-la pour garder ces lignes.
+              </p>
+            )}
+          </>
+        )}
+
         <div className="glass-card glass-panel space-y-2">
           <label className="block text-[11px] app-muted">
             Note manuscrite (enregistree directement sur ce fournisseur)
@@ -427,14 +601,40 @@ export default function OrderEditor({
           {nextStatuses.includes('received') && (
             <button
               type="button"
-              onClick={() => applyStatus('received')}
+              onClick={() => setShowReception(true)}
               className="w-full px-3 py-2 rounded-xl app-surface-2 app-text text-sm font-semibold"
             >
-              Marquer recue
+              Controler la reception
             </button>
           )}
 
-          {draft.status === 'received' && (
+          {receptionSummary && (
+            <p className="text-xs app-muted">
+              Reception : {receptionSummary.accepted} accepte(s), {receptionSummary.rejected} refuse(s)
+              {receptionSummary.gaps > 0 ? `, ${receptionSummary.gaps} ecart(s) de quantite` : ''}
+              {draft.reception?.operator ? ` - ${draft.reception.operator}` : ''}
+            </p>
+          )}
+
+          {draft.backorder && (
+            <p className="text-xs app-muted">
+              Quantites manquantes recommandees : reliquat {draft.backorder.orderNumber}
+            </p>
+          )}
+
+          {draft.standingOrder && (
+            <p className="text-xs app-muted">
+              Commande recurrente {draft.standingOrder.name} - heure limite{' '}
+              {format(new Date(draft.standingOrder.cutoffAt), 'dd/MM HH:mm')}
+              {draft.standingOrder.reviewedAt ? '' : ' - a valider'}
+            </p>
+          )}
+
+          {draft.backorderOf && (
+            <p className="text-xs app-muted">Reliquat de la commande {draft.backorderOf.orderNumber}</p>
+          )}
+
+          {nextStatuses.includes('invoiced') && (
             <div className="space-y-2">
               <select
                 value={selectedInvoiceId}
@@ -467,8 +667,44 @@ export default function OrderEditor({
               Facture liee: {linkedInvoice?.invoiceNumber || draft.invoiceId}
             </Link>
           )}
+
+          {draft.status === 'invoiced' && linkedInvoice && (
+            <button
+              type="button"
+              onClick={() => setShowReconciliation((prev) => !prev)}
+              className="w-full px-3 py-2 rounded-xl app-surface-2 app-text text-sm font-semibold"
+            >
+              {showReconciliation ? 'Masquer le rapprochement' : 'Rapprochement facture'}
+            </button>
+          )}
         </div>
 
+        {(draft.status === 'draft' || draft.status === 'sent') && (
+          <OrderSendPanel
+            sendLog={draft.sendLog}
+            supplier={supplierProfile}
+            establishmentName={settings?.establishmentName || 'Mon etablissement'}
+            prepareOrder={prepareOrder}
+            onSent={handleSent}
+          />
+        )}
+
+        {showReconciliation && draft.status === 'invoiced' && linkedInvoice && (
+          <OrderReconciliationPanel
+            order={draft}
+            invoice={linkedInvoice}
+            establishmentName={settings?.establishmentName || 'Mon etablissement'}
+          />
+        )}
+
+        {showReception && (
+          <DeliveryReceptionForm
+            order={draft}
+            onCancel={() => setShowReception(false)}
+            onSubmit={handleReception}
+          />
+        )}
+
         {error && (
           <div className="glass-card glass-panel border border-[color:var(--app-danger)]/40 text-[color:var(--app-danger)] text-sm">
             {error}
@@ -1,4 +1,13 @@
-﻿import type { Order } from '../../types';
+﻿import { computeSupplierFillRates } from '../../services/orderReception';
+import type { Order } from '../../types';
+
+/** Below this share of the ordered quantities, a supplier is flagged. */
+const FILL_RATE_WARNING = 0.95;
+
+function fillRateClassName(rate: number): string {
+  if (rate >= FILL_RATE_WARNING) return 'text-[color:var(--app-success)]';
+  return rate >= 0.8 ? 'text-[color:var(--app-warning)]' : 'text-[color:var(--app-danger)]';
+}
 
 interface OrderKpiCardsProps {
   orders: Order[];
@@ -17,28 +26,50 @@ export default function OrderKpiCards({ orders }: OrderKpiCardsProps) {
   const pendingOrders = orders.filter(
     (order) => order.status === 'draft' || order.status === 'sent',
   ).length;
-  const receivedOrders = orders.filter((order) => order.status === 'received').length;
+  const receivedOrders = orders.filter(
+    (order) => order.status === 'received' || order.status === 'partially_received',
+  ).length;
   const totalHT = orders.reduce((sum, order) => sum + order.totalHT, 0);
+  const fillRates = computeSupplierFillRates(orders);
 
   return (
-    <div className="app-kpi-grid">
-      <div className="glass-card glass-kpi">
-        <p className="app-kpi-label">Du mois</p>
-        <p className="app-kpi-value">{monthlyOrders}</p>
+    <>
+      <div className="app-kpi-grid">
+        <div className="glass-card glass-kpi">
+          <p className="app-kpi-label">Du mois</p>
+          <p className="app-kpi-value">{monthlyOrders}</p>
+        </div>
+        <div className="glass-card glass-kpi">
+          <p className="app-kpi-label">En attente</p>
+          <p className="app-kpi-value">{pendingOrders}</p>
+        </div>
+        <div className="glass-card glass-kpi">
+          <p className="app-kpi-label">Recues</p>
+          <p className="app-kpi-value">{receivedOrders}</p>
+        </div>
+        <div className="glass-card glass-kpi">
+          <p className="app-kpi-label">Montant HT</p>
+          <p className="app-kpi-value text-[15px]">{totalHT.toFixed(2)} EUR</p>
+        </div>
       </div>
-      <div className="glass-card glass-kpi">
-        <p className="app-kpi-label">En attente</p>
-        <p className="app-kpi-value">{pendingOrders}</p>
-      </div>
-      <div className="glass-card glass-kpi">
-        <p className="app-kpi-label">Recues</p>
-        <p className="app-kpi-value">{receivedOrders}</p>
-      </div>
-      <div className="glass-card glass-kpi">
-        <p className="app-kpi-label">Montant HT</p>
-        <p className="app-kpi-value text-[15px]">{totalHT.toFixed(2)} EUR</p>
-      </div>
-    </div>
+
+      {fillRates.length > 0 && (
+        <div className="glass-card glass-panel space-y-1.5">
+          <h3 className="text-sm font-semibold app-text">Taux de service fournisseurs</h3>
+          {fillRates.map((rate) => (
+            <div key={rate.supplier} className="flex items-center justify-between gap-2 text-xs">
+              <span className="app-text truncate">{rate.supplier}</span>
+              <span className="app-muted shrink-0">
+                {rate.completeDeliveries}/{rate.deliveries} livraison(s) complete(s) -{' '}
+                <span className={`font-semibold ${fillRateClassName(rate.fillRate)}`}>
+                  {Math.round(rate.fillRate * 100)} %
+                </span>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </>
   );
 }
 
@@ -23,6 +23,7 @@ const STATUS_FILTERS: Array<{ key: OrderStatus | 'all'; label: string }> = [
   { key: 'all', label: 'Tous' },
   { key: 'draft', label: 'Brouillon' },
   { key: 'sent', label: 'Envoyee' },
+  { key: 'partially_received', label: 'Partielle' },
   { key: 'received', label: 'Recue' },
   { key: 'invoiced', label: 'Facturee' },
 ];
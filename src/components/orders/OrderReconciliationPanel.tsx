@@ -0,0 +1,116 @@
+import { useMemo, useState } from 'react';
+import type { Invoice, Order } from '../../types';
+import {
+  reconcileOrderWithInvoice,
+  RECONCILIATION_STATUS_LABELS,
+  type ReconciliationStatus,
+} from '../../services/orderReconciliation';
+import { showError } from '../../stores/toastStore';
+import { cn } from '../../utils';
+
+interface OrderReconciliationPanelProps {
+  order: Order;
+  invoice: Invoice;
+  establishmentName: string;
+}
+
+const STATUS_CLASSES: Record<ReconciliationStatus, string> = {
+  match: 'text-[color:var(--app-success)]',
+  price_gap: 'text-[color:var(--app-warning)]',
+  quantity_gap: 'text-[color:var(--app-warning)]',
+  price_quantity_gap: 'text-[color:var(--app-danger)]',
+  missing: 'app-muted',
+  extra: 'text-[color:var(--app-danger)]',
+};
+
+function formatQuantity(value?: number): string {
+  return value === undefined ? '-' : String(Math.round(value * 1000) / 1000);
+}
+
+function formatPrice(value?: number): string {
+  return value === undefined ? '-' : `${value.toFixed(2)} EUR`;
+}
+
+export default function OrderReconciliationPanel({ order, invoice, establishmentName }: OrderReconciliationPanelProps) {
+  const [exporting, setExporting] = useState(false);
+  const reconciliation = useMemo(() => reconcileOrderWithInvoice(order, invoice), [order, invoice]);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const { generateCreditNoteRequestPDF } = await import('../../services/pdf');
+      await generateCreditNoteRequestPDF(reconciliation, order, invoice, establishmentName);
+    } catch {
+      showError("Impossible de generer la demande d'avoir");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="glass-card glass-panel space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold app-text">Rapprochement commande / facture</h3>
+        <span className="text-xs app-muted">{reconciliation.issueCount} ecart(s)</span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div className="rounded-xl app-surface-2 p-2">
+          <p className="text-[11px] app-muted">Commande HT</p>
+          <p className="text-sm font-semibold app-text">{reconciliation.orderTotalHT.toFixed(2)} EUR</p>
+        </div>
+        <div className="rounded-xl app-surface-2 p-2">
+          <p className="text-[11px] app-muted">Facture HT</p>
+          <p className="text-sm font-semibold app-text">{reconciliation.invoiceTotalHT.toFixed(2)} EUR</p>
+        </div>
+        <div className="rounded-xl app-surface-2 p-2">
+          <p className="text-[11px] app-muted">A contester</p>
+          <p
+            className={cn(
+              'text-sm font-semibold',
+              reconciliation.disputeTotal > 0 ? 'text-[color:var(--app-danger)]' : 'text-[color:var(--app-success)]',
+            )}
+          >
+            {reconciliation.disputeTotal.toFixed(2)} EUR
+          </p>
+        </div>
+      </div>
+
+      <div className="divide-y divide-[color:var(--app-border)]">
+        {reconciliation.lines.map((line) => (
+          <div key={line.key} className="py-2 space-y-0.5">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm app-text truncate">{line.productName}</p>
+              <span className={cn('shrink-0 text-[11px] font-semibold', STATUS_CLASSES[line.status])}>
+                {RECONCILIATION_STATUS_LABELS[line.status]}
+              </span>
+            </div>
+            {line.invoiceDesignation && line.invoiceDesignation !== line.productName && (
+              <p className="text-[11px] app-muted truncate">Facture : {line.invoiceDesignation}</p>
+            )}
+            <p className="text-[11px] app-muted">
+              Qte {formatQuantity(line.expectedQuantity)} attendue / {formatQuantity(line.invoicedQuantity)} facturee - PU{' '}
+              {formatPrice(line.orderedUnitPrice)} commande / {formatPrice(line.invoicedUnitPrice)} facture
+            </p>
+            {line.disputeAmount > 0 && (
+              <p className="text-[11px] font-semibold text-[color:var(--app-danger)]">
+                A contester : {line.disputeAmount.toFixed(2)} EUR
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        onClick={() => {
+          void handleExport();
+        }}
+        disabled={exporting || reconciliation.disputeTotal <= 0}
+        className="w-full px-3 py-2 rounded-xl app-accent-bg text-sm font-semibold disabled:opacity-60"
+      >
+        {exporting ? 'Generation...' : "Demande d'avoir PDF"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import {
+  buildMailtoLink,
+  buildPurchaseOrderText,
+  buildWhatsAppLink,
+  getPurchaseOrderSubject,
+  recordOrderSend,
+} from '../../services/purchaseOrder';
+import { showError, showSuccess } from '../../stores/toastStore';
+import { ORDER_SEND_CHANNEL_LABELS, type Order, type OrderSendChannel, type Supplier } from '../../types';
+
+interface OrderSendPanelProps {
+  sendLog: Order['sendLog'];
+  supplier?: Supplier;
+  establishmentName: string;
+  /** Order as it will be stored, or null when the draft is invalid (the editor shows why). */
+  prepareOrder: () => Order | null;
+  /** Stores the order with its new log entry; resolves false when it could not be saved. */
+  onSent: (order: Order) => Promise<boolean>;
+}
+
+export default function OrderSendPanel({
+  sendLog,
+  supplier,
+  establishmentName,
+  prepareOrder,
+  onSent,
+}: OrderSendPanelProps) {
+  const [busy, setBusy] = useState<OrderSendChannel | null>(null);
+  const context = { establishmentName, supplier };
+  const canShare = typeof navigator !== 'undefined' && typeof navigator.share === 'function';
+
+  const send = async (channel: OrderSendChannel) => {
+    const order = prepareOrder();
+    if (!order) return;
+    setBusy(channel);
+    try {
+      const text = buildPurchaseOrderText(order, context);
+      const subject = getPurchaseOrderSubject(order, context);
+      let recipient: string | undefined;
+
+      if (channel === 'pdf' || channel === 'email') {
+        const { generatePurchaseOrderPDF } = await import('../../services/pdf');
+        await generatePurchaseOrderPDF(order, establishmentName, supplier);
+      }
+      if (channel === 'email') {
+        recipient = supplier?.email;
+        window.location.href = buildMailtoLink(recipient, subject, `${text}\n\nBon de commande PDF en piece jointe.`);
+      } else if (channel === 'share') {
+        const { generatePurchaseOrderPDFFile } = await import('../../services/pdf');
+        const file = await generatePurchaseOrderPDFFile(order, establishmentName, supplier);
+        const withFile = navigator.canShare?.({ files: [file] }) ?? false;
+        await navigator.share(withFile ? { title: subject, text, files: [file] } : { title: subject, text });
+      } else if (channel === 'whatsapp') {
+        recipient = supplier?.phone;
+        window.open(buildWhatsAppLink(text, recipient), '_blank', 'noopener');
+      } else if (channel === 'text') {
+        await navigator.clipboard.writeText(text);
+      }
+
+      const saved = await onSent(recordOrderSend(order, channel, recipient));
+      if (saved) showSuccess(`Commande envoyee (${ORDER_SEND_CHANNEL_LABELS[channel]})`);
+    } catch (error) {
+      // Closing the share sheet is not a failure, and nothing was sent.
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      showError("Impossible d'envoyer la commande");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const actions: { channel: OrderSendChannel; label: string; hidden?: boolean }[] = [
+    { channel: 'pdf', label: 'PDF' },
+    { channel: 'email', label: supplier?.email ? `Email ${supplier.email}` : 'Email' },
+    { channel: 'share', label: 'Partager', hidden: !canShare },
+    { channel: 'whatsapp', label: 'WhatsApp' },
+    { channel: 'text', label: 'Copier le texte' },
+  ];
+
+  return (
+    <div className="glass-card glass-panel space-y-2">
+      <h3 className="text-sm font-semibold app-text">Envoyer au fournisseur</h3>
+      <div className="flex flex-wrap gap-2">
+        {actions
+          .filter((action) => !action.hidden)
+          .map((action) => (
+            <button
+              key={action.channel}
+              type="button"
+              onClick={() => {
+                void send(action.channel);
+              }}
+              disabled={busy !== null}
+              className="px-3 py-2 rounded-xl app-surface-2 app-text text-xs font-semibold disabled:opacity-60 truncate max-w-full"
+            >
+              {busy === action.channel ? 'Envoi...' : action.label}
+            </button>
+          ))}
+      </div>
+      <p className="text-[11px] app-muted">
+        L'email ouvre votre messagerie avec le texte de la commande : joignez le PDF telecharge.
+      </p>
+
+      {sendLog && sendLog.length > 0 && (
+        <ul className="text-xs app-muted space-y-0.5">
+          {[...sendLog].reverse().map((entry) => (
+            <li key={`${entry.channel}-${new Date(entry.sentAt).getTime()}`}>
+              {format(new Date(entry.sentAt), 'dd/MM HH:mm')} - {ORDER_SEND_CHANNEL_LABELS[entry.channel]}
+              {entry.recipient ? ` (${entry.recipient})` : ''}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
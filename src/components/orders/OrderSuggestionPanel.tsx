@@ -0,0 +1,186 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { buildOrderSuggestions, suggestionToOrderItem, type OrderSuggestion } from '../../services/orderSuggestions';
+import { buildStockMovements, computeStockLevels } from '../../services/stock';
+import { useAppStore } from '../../stores/appStore';
+import { showError } from '../../stores/toastStore';
+import type { OrderItem, Supplier } from '../../types';
+
+interface OrderSuggestionPanelProps {
+  supplier: Supplier;
+  onApply: (items: OrderItem[]) => void;
+  onClose: () => void;
+}
+
+interface SuggestionRow {
+  suggestion: OrderSuggestion;
+  accepted: boolean;
+  quantity: string;
+  unitPrice: string;
+}
+
+function parsePositive(value: string): number {
+  const parsed = Number.parseFloat(value.replace(',', '.'));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+}
+
+export default function OrderSuggestionPanel({ supplier, onApply, onClose }: OrderSuggestionPanelProps) {
+  const getIngredients = useAppStore((s) => s.getIngredients);
+  const getInvoices = useAppStore((s) => s.getInvoices);
+  const getRecipes = useAppStore((s) => s.getRecipes);
+  const getRecipeIngredients = useAppStore((s) => s.getRecipeIngredients);
+  const getRecipeOutputs = useAppStore((s) => s.getRecipeOutputs);
+  const getStockCounts = useAppStore((s) => s.getStockCounts);
+  const getPriceHistory = useAppStore((s) => s.getPriceHistory);
+
+  const [rows, setRows] = useState<SuggestionRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const [ingredients, invoices, recipes, outputs, counts, priceHistory] = await Promise.all([
+          getIngredients(),
+          getInvoices(),
+          getRecipes(),
+          getRecipeOutputs(),
+          getStockCounts(),
+          getPriceHistory(),
+        ]);
+        const recipeLines = (await Promise.all(recipes.map((recipe) => getRecipeIngredients(recipe.id)))).flat();
+        const movements = buildStockMovements({ invoices, outputs, recipes, recipeLines, ingredients });
+        const stockLevels = computeStockLevels(ingredients, movements, counts);
+        const suggestions = buildOrderSuggestions({ supplier, ingredients, stockLevels, priceHistory });
+        if (cancelled) return;
+        setRows(
+          suggestions.map((suggestion) => ({
+            suggestion,
+            accepted: true,
+            quantity: String(suggestion.quantity),
+            unitPrice: suggestion.unitPriceHT > 0 ? String(suggestion.unitPriceHT) : '',
+          })),
+        );
+      } catch {
+        if (!cancelled) showError('Impossible de calculer la suggestion de commande');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    supplier,
+    getIngredients,
+    getInvoices,
+    getRecipes,
+    getRecipeIngredients,
+    getRecipeOutputs,
+    getStockCounts,
+    getPriceHistory,
+  ]);
+
+  const updateRow = (index: number, patch: Partial<SuggestionRow>) =>
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+
+  const selected = rows.filter((row) => row.accepted && parsePositive(row.quantity) > 0);
+  const selectedTotal = selected.reduce(
+    (sum, row) => sum + parsePositive(row.quantity) * parsePositive(row.unitPrice),
+    0,
+  );
+
+  const handleApply = () => {
+    onApply(
+      selected.map((row) =>
+        suggestionToOrderItem({
+          ...row.suggestion,
+          quantity: parsePositive(row.quantity),
+          unitPriceHT: parsePositive(row.unitPrice),
+        }),
+      ),
+    );
+  };
+
+  return (
+    <div className="glass-card glass-panel space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h3 className="text-sm font-semibold app-text">Suggestion de commande</h3>
+          <p className="text-xs app-muted">Stock theorique sous le mini, complete jusqu'a la cible par colis entiers.</p>
+        </div>
+        <button type="button" onClick={onClose} className="text-xs font-semibold app-muted">
+          Fermer
+        </button>
+      </div>
+
+      {loading && <p className="text-xs app-muted">Calcul du stock...</p>}
+      {!loading && rows.length === 0 && (
+        <p className="text-xs app-muted">Aucun produit de {supplier.name} sous son niveau mini.</p>
+      )}
+
+      {rows.map((row, index) => {
+        const { suggestion } = row;
+        return (
+          <div key={suggestion.ingredientId} className="rounded-xl app-surface-2 p-2 space-y-1.5">
+            <label className="flex items-center gap-2 text-sm app-text font-medium">
+              <input
+                type="checkbox"
+                checked={row.accepted}
+                onChange={(e) => updateRow(index, { accepted: e.target.checked })}
+              />
+              <span className="truncate">{suggestion.productName}</span>
+            </label>
+            <p className="text-[11px] app-muted">
+              Stock {suggestion.currentStock} {suggestion.unit} - mini {suggestion.minQuantity} - cible{' '}
+              {suggestion.targetQuantity}
+              {suggestion.packSize > 1 ? ` - colis de ${suggestion.packSize} ${suggestion.unit}` : ''}
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              <label className="text-[11px] app-muted space-y-1">
+                <span>Quantite ({suggestion.unit})</span>
+                <input
+                  inputMode="decimal"
+                  value={row.quantity}
+                  onChange={(e) => updateRow(index, { quantity: e.target.value })}
+                  disabled={!row.accepted}
+                  className="app-input w-full disabled:opacity-60"
+                />
+              </label>
+              <label className="text-[11px] app-muted space-y-1">
+                <span>
+                  Prix HT / {suggestion.unit}
+                  {suggestion.priceSource === 'history' && suggestion.lastPriceDate
+                    ? ` (facture du ${format(suggestion.lastPriceDate, 'dd/MM')})`
+                    : suggestion.priceSource === 'ingredient'
+                      ? ' (fiche ingredient)'
+                      : ''}
+                </span>
+                <input
+                  inputMode="decimal"
+                  value={row.unitPrice}
+                  onChange={(e) => updateRow(index, { unitPrice: e.target.value })}
+                  disabled={!row.accepted}
+                  placeholder="Prix inconnu"
+                  className="app-input w-full disabled:opacity-60"
+                />
+              </label>
+            </div>
+          </div>
+        );
+      })}
+
+      {rows.length > 0 && (
+        <button
+          type="button"
+          onClick={handleApply}
+          disabled={selected.length === 0}
+          className="w-full px-3 py-2 rounded-xl app-accent-bg text-sm font-semibold disabled:opacity-60"
+        >
+          Ajouter {selected.length} ligne(s) - {selectedTotal.toFixed(2)} EUR HT
+        </button>
+      )}
+    </div>
+  );
+}
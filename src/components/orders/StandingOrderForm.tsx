@@ -0,0 +1,210 @@
+import { useState } from 'react';
+import type { OrderItem, StandingOrder, Supplier } from '../../types';
+import { calculateOrderTotal } from '../../services/orderHelpers';
+import { findSupplierByName, WEEKDAY_LABELS, WEEKDAY_ORDER } from '../../services/supplierDirectory';
+import { canonicalizeSupplierName } from '../../services/suppliers';
+import OrderItemEditor from './OrderItemEditor';
+
+interface StandingOrderFormProps {
+  standingOrder: StandingOrder | null;
+  knownSuppliers: string[];
+  /** Directory entries, for the default cutoff time. */
+  suppliers: Supplier[];
+  ingredientSuggestions: string[];
+  onCancel: () => void;
+  onSave: (standingOrder: StandingOrder) => Promise<void>;
+}
+
+const DEFAULT_CUTOFF_TIME = '10:00';
+
+function createEmptyItem(): OrderItem {
+  return { id: crypto.randomUUID(), productName: '', quantity: 1, unit: 'unite', unitPriceHT: 0, totalPriceHT: 0 };
+}
+
+function buildDraft(standingOrder: StandingOrder | null): StandingOrder {
+  if (standingOrder) return standingOrder;
+  const now = new Date();
+  return {
+    id: crypto.randomUUID(),
+    name: '',
+    supplier: '',
+    items: [createEmptyItem()],
+    weekdays: [],
+    cutoffTime: DEFAULT_CUTOFF_TIME,
+    active: true,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export default function StandingOrderForm({
+  standingOrder,
+  knownSuppliers,
+  suppliers,
+  ingredientSuggestions,
+  onCancel,
+  onSave,
+}: StandingOrderFormProps) {
+  const [draft, setDraft] = useState<StandingOrder>(() => buildDraft(standingOrder));
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const update = (patch: Partial<StandingOrder>) => setDraft((prev) => ({ ...prev, ...patch }));
+
+  const handleSupplierChange = (value: string) => {
+    // A new template takes the cutoff of the supplier card, if there is one.
+    const profile = standingOrder ? undefined : findSupplierByName(suppliers, value);
+    update({ supplier: value, ...(profile?.orderCutoffTime ? { cutoffTime: profile.orderCutoffTime } : {}) });
+  };
+
+  const toggleDay = (day: number) =>
+    update({
+      weekdays: draft.weekdays.includes(day)
+        ? draft.weekdays.filter((value) => value !== day)
+        : [...draft.weekdays, day],
+    });
+
+  const handleItemChange = (itemId: string, patch: Partial<OrderItem>) =>
+    update({ items: draft.items.map((item) => (item.id === itemId ? { ...item, ...patch } : item)) });
+
+  const handleSave = async () => {
+    const supplier = canonicalizeSupplierName(draft.supplier);
+    const items = draft.items.filter((item) => item.productName.trim().length > 0 && item.quantity > 0);
+    if (!supplier) {
+      setError('Le fournisseur est requis');
+      return;
+    }
+    if (items.length === 0) {
+      setError('Au moins un article est requis');
+      return;
+    }
+    if (draft.weekdays.length === 0) {
+      setError('Choisissez au moins un jour de commande');
+      return;
+    }
+    if (!/^\d{2}:\d{2}$/.test(draft.cutoffTime)) {
+      setError('Heure limite invalide');
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave({ ...draft, name: draft.name.trim() || supplier, supplier, items });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="glass-card glass-panel space-y-3">
+      <h3 className="text-sm font-semibold app-text">
+        {standingOrder ? 'Modifier la commande recurrente' : 'Nouvelle commande recurrente'}
+      </h3>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-[11px] app-muted mb-1">Nom</label>
+          <input
+            value={draft.name}
+            onChange={(e) => update({ name: e.target.value })}
+            className="app-input w-full"
+            placeholder="Ex: Pain semaine"
+          />
+        </div>
+        <div>
+          <label className="block text-[11px] app-muted mb-1">Fournisseur</label>
+          <input
+            value={draft.supplier}
+            onChange={(e) => handleSupplierChange(e.target.value)}
+            list="standing-order-suppliers"
+            className="app-input w-full"
+          />
+          <datalist id="standing-order-suppliers">
+            {knownSuppliers.map((name) => (
+              <option key={name} value={name} />
+            ))}
+          </datalist>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-[11px] app-muted mb-1">Jours de commande</label>
+        <div className="flex flex-wrap gap-1.5">
+          {WEEKDAY_ORDER.map((day) => (
+            <button
+              key={day}
+              type="button"
+              onClick={() => toggleDay(day)}
+              className={`app-chip-btn ${draft.weekdays.includes(day) ? 'app-accent-bg' : 'app-surface-2 app-muted'}`}
+            >
+              {WEEKDAY_LABELS[day]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 items-end">
+        <div>
+          <label className="block text-[11px] app-muted mb-1">Heure limite</label>
+          <input
+            type="time"
+            value={draft.cutoffTime}
+            onChange={(e) => update({ cutoffTime: e.target.value })}
+            className="app-input w-full"
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm app-text pb-2">
+          <input type="checkbox" checked={draft.active} onChange={(e) => update({ active: e.target.checked })} />
+          Active
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <label className="text-[11px] app-muted">Articles</label>
+          <button
+            type="button"
+            onClick={() => update({ items: [...draft.items, createEmptyItem()] })}
+            className="text-[12px] font-semibold text-[color:var(--app-accent)]"
+          >
+            + Article
+          </button>
+        </div>
+        {draft.items.map((item, index) => (
+          <OrderItemEditor
+            key={item.id}
+            index={index}
+            item={item}
+            canRemove={draft.items.length > 1}
+            ingredientSuggestions={ingredientSuggestions}
+            onChange={(patch) => handleItemChange(item.id, patch)}
+            onRemove={() => update({ items: draft.items.filter((row) => row.id !== item.id) })}
+          />
+        ))}
+        <p className="text-xs app-muted text-right">Total estime : {calculateOrderTotal(draft.items).toFixed(2)} EUR HT</p>
+      </div>
+
+      {error && <p className="text-sm text-[color:var(--app-danger)]">{error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex-1 px-3 py-2 rounded-xl app-surface-2 app-text text-sm font-medium"
+        >
+          Annuler
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            void handleSave();
+          }}
+          disabled={saving}
+          className="flex-1 px-3 py-2 rounded-xl app-accent-bg text-sm font-semibold disabled:opacity-60"
+        >
+          {saving ? 'Sauvegarde...' : 'Enregistrer'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import type { StandingOrder, Supplier } from '../../types';
+import { formatStandingOrderSchedule, getNextStandingOrderCutoff } from '../../services/standingOrders';
+import StandingOrderForm from './StandingOrderForm';
+
+interface StandingOrderListProps {
+  standingOrders: StandingOrder[];
+  knownSuppliers: string[];
+  suppliers: Supplier[];
+  ingredientSuggestions: string[];
+  loading: boolean;
+  onSave: (standingOrder: StandingOrder) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+type EditingState = { standingOrder: StandingOrder | null } | null;
+
+export default function StandingOrderList({
+  standingOrders,
+  knownSuppliers,
+  suppliers,
+  ingredientSuggestions,
+  loading,
+  onSave,
+  onDelete,
+}: StandingOrderListProps) {
+  const [editing, setEditing] = useState<EditingState>(null);
+  const now = new Date();
+
+  const handleSave = async (standingOrder: StandingOrder) => {
+    await onSave(standingOrder);
+    setEditing(null);
+  };
+
+  if (editing) {
+    return (
+      <StandingOrderForm
+        standingOrder={editing.standingOrder}
+        knownSuppliers={knownSuppliers}
+        suppliers={suppliers}
+        ingredientSuggestions={ingredientSuggestions}
+        onCancel={() => setEditing(null)}
+        onSave={handleSave}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-3 pb-20">
+      <div className="glass-card glass-panel flex items-center justify-between gap-2">
+        <p className="text-xs app-muted">
+          Un brouillon est prepare pour chaque jour de commande, a ajuster avant l'heure limite.
+        </p>
+        <button
+          type="button"
+          onClick={() => setEditing({ standingOrder: null })}
+          className="shrink-0 px-3 py-2 rounded-xl app-accent-bg text-xs font-semibold"
+        >
+          Ajouter
+        </button>
+      </div>
+
+      {loading && (
+        <div className="flex justify-center py-10">
+          <div className="w-8 h-8 border-2 border-[color:var(--app-accent)] border-t-transparent rounded-full animate-spin" />
+        </div>
+      )}
+
+      {!loading && standingOrders.length === 0 && (
+        <p className="text-xs app-muted text-center py-6">Aucune commande recurrente.</p>
+      )}
+
+      {!loading &&
+        standingOrders.map((standingOrder) => {
+          const nextCutoff = standingOrder.active ? getNextStandingOrderCutoff(standingOrder, now) : null;
+          return (
+            <div key={standingOrder.id} className="app-card rounded-2xl p-3.5 space-y-1.5">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-semibold app-text truncate">{standingOrder.name}</p>
+                  <p className="text-xs app-muted truncate">
+                    {standingOrder.supplier} - {standingOrder.items.length} article(s)
+                  </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => setEditing({ standingOrder })}
+                    className="text-xs font-semibold text-[color:var(--app-accent)]"
+                  >
+                    Modifier
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      if (window.confirm(`Supprimer la commande recurrente ${standingOrder.name} ?`)) {
+                        void onDelete(standingOrder.id);
+                      }
+                    }}
+                    className="text-xs font-semibold text-[color:var(--app-danger)]"
+                  >
+                    Suppr.
+                  </button>
+                </div>
+              </div>
+              <p className="text-xs app-muted">
+                {formatStandingOrderSchedule(standingOrder)}
+                {nextCutoff ? ` - prochaine le ${format(nextCutoff, 'dd/MM HH:mm')}` : ''}
+                {standingOrder.active ? '' : ' - en pause'}
+              </p>
+            </div>
+          );
+        })}
+    </div>
+  );
+}
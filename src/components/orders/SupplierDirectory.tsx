@@ -0,0 +1,158 @@
+import { useMemo, useState } from 'react';
+import type { Ingredient, Supplier } from '../../types';
+import {
+  DEFAULT_SUPPLIER_LEAD_TIME_DAYS,
+  findSupplierByName,
+  formatDeliveryDays,
+} from '../../services/supplierDirectory';
+import { canonicalizeSupplierName } from '../../services/suppliers';
+import SupplierForm from './SupplierForm';
+
+interface SupplierDirectoryProps {
+  suppliers: Supplier[];
+  /** Supplier names seen on orders and invoices, offered as shortcuts until they get a card. */
+  knownSuppliers: string[];
+  /** Ingredients available for par levels. */
+  ingredients: Ingredient[];
+  loading: boolean;
+  onSave: (supplier: Supplier) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+type EditingState = { supplier: Supplier | null; initialName?: string } | null;
+
+function describeConditions(supplier: Supplier): string {
+  const parts = [formatDeliveryDays(supplier.deliveryDays)];
+  if (supplier.orderCutoffTime) {
+    const leadTime = supplier.leadTimeDays ?? DEFAULT_SUPPLIER_LEAD_TIME_DAYS;
+    parts.push(`commande avant ${supplier.orderCutoffTime} (J-${leadTime})`);
+  }
+  if (supplier.minimumOrderHT) parts.push(`minimum ${supplier.minimumOrderHT.toFixed(2)} EUR`);
+  if (supplier.francoHT) parts.push(`franco ${supplier.francoHT.toFixed(2)} EUR`);
+  if (supplier.parLevels?.length) parts.push(`${supplier.parLevels.length} niveau(x) de stock`);
+  return parts.join(' - ');
+}
+
+export default function SupplierDirectory({
+  suppliers,
+  knownSuppliers,
+  ingredients,
+  loading,
+  onSave,
+  onDelete,
+}: SupplierDirectoryProps) {
+  const [editing, setEditing] = useState<EditingState>(null);
+
+  const missingSuppliers = useMemo(
+    () =>
+      Array.from(new Set(knownSuppliers.map((name) => canonicalizeSupplierName(name)).filter(Boolean)))
+        .filter((name) => !findSupplierByName(suppliers, name))
+        .sort((a, b) => a.localeCompare(b)),
+    [knownSuppliers, suppliers],
+  );
+
+  const handleSave = async (supplier: Supplier) => {
+    await onSave(supplier);
+    setEditing(null);
+  };
+
+  if (editing) {
+    return (
+      <SupplierForm
+        supplier={editing.supplier}
+        initialName={editing.initialName}
+        ingredients={ingredients}
+        onCancel={() => setEditing(null)}
+        onSave={handleSave}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-3 pb-20">
+      <div className="glass-card glass-panel flex items-center justify-between gap-2">
+        <p className="text-xs app-muted">{suppliers.length} fournisseur(s) dans l'annuaire</p>
+        <button
+          type="button"
+          onClick={() => setEditing({ supplier: null })}
+          className="px-3 py-2 rounded-xl app-accent-bg text-xs font-semibold"
+        >
+          Ajouter
+        </button>
+      </div>
+
+      {missingSuppliers.length > 0 && (
+        <div className="glass-card glass-panel space-y-2">
+          <p className="text-xs app-muted">Fournisseurs sans fiche :</p>
+          <div className="flex flex-wrap gap-1.5">
+            {missingSuppliers.map((name) => (
+              <button
+                key={name}
+                type="button"
+                onClick={() => setEditing({ supplier: null, initialName: name })}
+                className="px-2 py-1 rounded-full text-[11px] font-semibold app-surface-2 app-text"
+              >
+                + {name}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {loading && (
+        <div className="flex justify-center py-10">
+          <div className="w-8 h-8 border-2 border-[color:var(--app-accent)] border-t-transparent rounded-full animate-spin" />
+        </div>
+      )}
+
+      {!loading &&
+        suppliers.map((supplier) => (
+          <div key={supplier.id} className="app-card rounded-2xl p-3.5 space-y-1.5">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-sm font-semibold app-text truncate">{supplier.name}</p>
+                <p className="text-xs app-muted truncate">
+                  {[supplier.contactName, supplier.customerAccountNumber && `Client ${supplier.customerAccountNumber}`]
+                    .filter(Boolean)
+                    .join(' - ') || 'Aucun contact'}
+                </p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  type="button"
+                  onClick={() => setEditing({ supplier })}
+                  className="text-xs font-semibold text-[color:var(--app-accent)]"
+                >
+                  Modifier
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    if (window.confirm(`Supprimer la fiche ${supplier.name} ?`)) void onDelete(supplier.id);
+                  }}
+                  className="text-xs font-semibold text-[color:var(--app-danger)]"
+                >
+                  Suppr.
+                </button>
+              </div>
+            </div>
+            <p className="text-xs app-muted">{describeConditions(supplier)}</p>
+            {(supplier.email || supplier.phone) && (
+              <div className="flex flex-wrap gap-3 text-xs">
+                {supplier.email && (
+                  <a href={`mailto:${supplier.email}`} className="text-[color:var(--app-accent)] underline underline-offset-2">
+                    {supplier.email}
+                  </a>
+                )}
+                {supplier.phone && (
+                  <a href={`tel:${supplier.phone}`} className="text-[color:var(--app-accent)] underline underline-offset-2">
+                    {supplier.phone}
+                  </a>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+import { useState } from 'react';
+import type { Ingredient, Supplier, SupplierParLevel } from '../../types';
+import { canonicalizeSupplierName } from '../../services/suppliers';
+import { WEEKDAY_LABELS, WEEKDAY_ORDER } from '../../services/supplierDirectory';
+
+interface SupplierFormProps {
+  supplier: Supplier | null;
+  initialName?: string;
+  ingredients: Ingredient[];
+  onCancel: () => void;
+  onSave: (supplier: Supplier) => Promise<void>;
+}
+
+function parseAmount(value: string): number | undefined {
+  const parsed = Number.parseFloat(value.replace(',', '.'));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+function buildDraft(supplier: Supplier | null, initialName: string): Supplier {
+  if (supplier) return supplier;
+  const now = new Date();
+  return {
+    id: crypto.randomUUID(),
+    name: initialName,
+    deliveryDays: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export default function SupplierForm({
+  supplier,
+  initialName = '',
+  ingredients,
+  onCancel,
+  onSave,
+}: SupplierFormProps) {
+  const [draft, setDraft] = useState<Supplier>(() => buildDraft(supplier, initialName));
+  const [minimum, setMinimum] = useState(() => draft.minimumOrderHT?.toString() ?? '');
+  const [franco, setFranco] = useState(() => draft.francoHT?.toString() ?? '');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const update = (patch: Partial<Supplier>) => setDraft((prev) => ({ ...prev, ...patch }));
+  const parLevels = draft.parLevels ?? [];
+  const ingredientMap = new Map(ingredients.map((ingredient) => [ingredient.id, ingredient]));
+
+  const updateParLevel = (index: number, patch: Partial<SupplierParLevel>) =>
+    update({ parLevels: parLevels.map((level, i) => (i === index ? { ...level, ...patch } : level)) });
+
+  const addParLevel = () => {
+    const used = new Set(parLevels.map((level) => level.ingredientId));
+    const next = ingredients.find((ingredient) => !used.has(ingredient.id));
+    if (!next) return;
+    update({ parLevels: [...parLevels, { ingredientId: next.id, minQuantity: 0, targetQuantity: 0 }] });
+  };
+
+  const toggleDay = (day: number) =>
+    update({
+      deliveryDays: draft.deliveryDays.includes(day)
+        ? draft.deliveryDays.filter((value) => value !== day)
+        : [...draft.deliveryDays, day],
+    });
+
+  const handleSave = async () => {
+    const name = canonicalizeSupplierName(draft.name);
+    if (!name) {
+      setError('Nom du fournisseur requis');
+      return;
+    }
+    if (draft.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(draft.email.trim())) {
+      setError('Adresse email invalide');
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave({ ...draft, name, minimumOrderHT: parseAmount(minimum), francoHT: parseAmount(franco) });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="glass-card glass-panel space-y-3">
+      <h3 className="text-sm font-semibold app-text">{supplier ? 'Modifier le fournisseur' : 'Nouveau fournisseur'}</h3>
+
+      <div>
+        <label className="block text-[11px] app-muted mb-1">Nom</label>
+        <input
+          value={draft.name}
+          onChange={(e) => update({ name: e.target.value })}
+          className="app-input w-full"
+          placeholder="Ex: Metro"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-[11px] app-muted mb-1">Contact</label>
+          <input
+            value={draft.contactName ?? ''}
+            onChange={(e) => update({ contactName: e.target.value })}
+            className="app-input w-full"
+            placeholder="Commercial"
+          />
+        </div>
+        <div>
+          <label className="block text-[11px] app-muted mb-1">Compte client</label>
+          <input
+            value={draft.customerAccountNumber ?? ''}
+            onChange={(e) => update({ customerAccountNumber: e.target.value })}
+            className="app-input w-full"
+          />
+        </div>
+        <div>
+          <label className="block text-[11px] app-muted mb-1">Email commandes</label>
+          <input
+            type="email"
+            value={draft.email ?? ''}
+            onChange={(e) => update({ email: e.target.value })}
+            className="app-input w-full"
+          />
+        </div>
+        <div>
+          <label className="block text-[11px] app-muted mb-1">Telephone</label>
+          <input
+            type="tel"
+            value={draft.phone ?? ''}
+            onChange={(e) => update({ phone: e.target.value })}
+            className="app-input w-full"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-[11px] app-muted mb-1">Jours de livraison (aucun = tous les jours)</label>
+        <div className="flex flex-wrap gap-1.5">
+          {WEEKDAY_ORDER.map((day) => (
+            <button
+              key={day}
+              type="button"
+              onClick={() => toggleDay(day)}
+              className={`app-chip-btn ${draft.deliveryDays.includes(day) ? 'app-accent-bg' : 'app-surface-2 app-muted'}`}
+            >
+              {WEEKDAY_LABELS[day]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-[11px] app-muted mb-1">Heure limite de commande</label>
+          <input
+            type="time"
+            value={draft.orderCutoffTime ?? ''}
+            onChange={(e) => update({ orderCutoffTime: e.target.value || undefined })}
+            className="app-input w-full"
+          />
+        </div>
+        <div>
+          <label className="block text-[11px] app-muted mb-1">Delai (jours avant livraison)</label>
+          <input
+            type="number"
+            min={0}
+            value={draft.leadTimeDays ?? ''}
+            onChange={(e) => update({ leadTimeDays: e.target.value === '' ? undefined : Number(e.target.value) })}
+            className="app-input w-full"
+            placeholder="1"
+          />
+        </div>
+        <div>
+          <label className="block text-[11px] app-muted mb-1">Minimum de commande (EUR HT)</label>
+          <input
+            inputMode="decimal"
+            value={minimum}
+            onChange={(e) => setMinimum(e.target.value)}
+            className="app-input w-full"
+          />
+        </div>
+        <div>
+          <label className="block text-[11px] app-muted mb-1">Franco de port (EUR HT)</label>
+          <input
+            inputMode="decimal"
+            value={franco}
+            onChange={(e) => setFranco(e.target.value)}
+            className="app-input w-full"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <label className="text-[11px] app-muted">Niveaux de stock (mini / cible)</label>
+          <button
+            type="button"
+            onClick={addParLevel}
+            disabled={ingredients.length === 0}
+            className="text-[12px] font-semibold text-[color:var(--app-accent)] disabled:opacity-50"
+          >
+            + Produit
+          </button>
+        </div>
+        {parLevels.length === 0 && (
+          <p className="text-xs app-muted">Aucun niveau : la suggestion de commande reste vide.</p>
+        )}
+        {parLevels.map((level, index) => (
+          <div key={`${level.ingredientId}-${index}`} className="grid grid-cols-[1fr,64px,64px,auto] gap-2 items-center">
+            <select
+              value={level.ingredientId}
+              onChange={(e) => updateParLevel(index, { ingredientId: e.target.value })}
+              className="app-input w-full"
+            >
+              {ingredients.map((ingredient) => (
+                <option key={ingredient.id} value={ingredient.id}>
+                  {ingredient.name} ({ingredient.unit})
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={level.minQuantity}
+              onChange={(e) => updateParLevel(index, { minQuantity: Number(e.target.value) || 0 })}
+              aria-label={`Stock mini ${ingredientMap.get(level.ingredientId)?.name ?? ''}`}
+              className="app-input w-full"
+            />
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={level.targetQuantity}
+              onChange={(e) => updateParLevel(index, { targetQuantity: Number(e.target.value) || 0 })}
+              aria-label={`Stock cible ${ingredientMap.get(level.ingredientId)?.name ?? ''}`}
+              className="app-input w-full"
+            />
+            <button
+              type="button"
+              onClick={() => update({ parLevels: parLevels.filter((_, i) => i !== index) })}
+              className="px-1 text-[12px] text-[color:var(--app-danger)]"
+            >
+              Suppr.
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <label className="block text-[11px] app-muted mb-1">Notes</label>
+        <textarea
+          value={draft.notes ?? ''}
+          onChange={(e) => update({ notes: e.target.value })}
+          className="app-input w-full min-h-16 resize-y"
+        />
+      </div>
+
+      {error && <p className="text-sm text-[color:var(--app-danger)]">{error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex-1 px-3 py-2 rounded-xl app-surface-2 app-text text-sm font-medium"
+        >
+          Annuler
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            void handleSave();
+          }}
+          disabled={saving}
+          className="flex-1 px-3 py-2 rounded-xl app-accent-bg text-sm font-semibold disabled:opacity-60"
+        >
+          {saving ? 'Sauvegarde...' : 'Enregistrer'}
+        </button>
+      </div>
+    </div>
+  );
+}
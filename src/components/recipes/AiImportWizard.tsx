@@ -14,7 +14,12 @@ import { cn } from '../../utils';
 import { useAppStore } from '../../stores/appStore';
 import { showError, showSuccess } from '../../stores/toastStore';
 import { generateRecipeTemplateFromLine } from '../../services/recipeAi';
-import { getEffectiveUnitPrice } from '../../services/recipeCost';
+import {
+  convertQuantity,
+  getEffectiveUnitPrice,
+  getFoodCostWarningLevel,
+  getTargetFoodCostRate,
+} from '../../services/recipeCost';
 import { upsertSupplierProductMapping } from '../../services/supplierMapping';
 import { buildSupplierQuickPicks, canonicalizeSupplierName } from '../../services/suppliers';
 import { nameSimilarity } from '../../services/ingredientMatch';
@@ -77,6 +82,7 @@ export default function AiImportWizard({
   recipes,
   onRecipeCreated,
 }: AiImportWizardProps) {
+  const settings = useAppStore((s) => s.settings);
   const addIngredient = useAppStore((s) => s.addIngredient);
   const updateIngredient = useAppStore((s) => s.updateIngredient);
   const saveRecipeWithIngredients = useAppStore((s) => s.saveRecipeWithIngredients);
@@ -157,15 +163,6 @@ export default function AiImportWizard({
 
   const clamp = (v: number) => Math.max(0, Math.min(1, v));
 
-  const convertQuantity = (value: number, from: RecipeUnit, to: RecipeUnit): number | null => {
-    if (from === to) return value;
-    if (from === 'g' && to === 'kg') return value / 1000;
-    if (from === 'kg' && to === 'g') return value * 1000;
-    if (from === 'ml' && to === 'l') return value / 1000;
-    if (from === 'l' && to === 'ml') return value * 1000;
-    return null;
-  };
-
   // --- Build AI draft ---
   const buildAiDraft = async (label: string, ratio: number, meta?: { supplierId?: string; supplierSku?: string }): Promise<RecipeReviewDraft | null> => {
     const generated = await generateRecipeTemplateFromLine(label, {
@@ -357,21 +354,26 @@ export default function AiImportWizard({
 
   const reviewSummary = useMemo((): RecipeCostSummary | null => {
     if (!reviewDraft) return null;
+    const unconvertibleLines: string[] = [];
     const totalCost = reviewDraft.lines.reduce((sum, line) => {
       const linked = line.ingredientId ? ingredientMap.get(line.ingredientId) : undefined;
       const priceUnit = linked?.unit || line.priceUnit || line.requiredUnit;
-      const conv = convertQuantity(line.requiredQuantity, line.requiredUnit, priceUnit);
-      if (conv === null || conv < 0 || !Number.isFinite(conv)) return sum;
+      const conv = convertQuantity(line.requiredQuantity, line.requiredUnit, priceUnit, linked);
+      if (conv === null) {
+        unconvertibleLines.push(line.ingredientName);
+        return sum;
+      }
+      if (conv < 0 || !Number.isFinite(conv)) return sum;
       const price = linked && linked.unitPrice > 0 ? getEffectiveUnitPrice(linked) : line.unitPrice;
       return sum + conv * Math.max(0, price || 0);
     }, 0);
     const sp = Number.isFinite(reviewDraft.salePriceHT) && reviewDraft.salePriceHT > 0 ? reviewDraft.salePriceHT : 0;
     if (sp <= 0) {
-      return { totalCost, grossMargin: 0, foodCostRate: 0, warningLevel: 'ok' };
+      return { totalCost, grossMargin: 0, foodCostRate: 0, warningLevel: 'ok', unconvertibleLines };
     }
     const rate = totalCost / sp;
-    return { totalCost, grossMargin: sp - totalCost, foodCostRate: rate, warningLevel: rate > 0.3 ? 'danger' : rate > 0.25 ? 'warning' : 'ok' };
-  }, [reviewDraft, ingredientMap]);
+    return { totalCost, grossMargin: sp - totalCost, foodCostRate: rate, warningLevel: getFoodCostWarningLevel(rate, getTargetFoodCostRate(settings)), unconvertibleLines };
+  }, [reviewDraft, ingredientMap, settings]);
 
   // --- Save review ---
   const materializeLines = async (sourceLines: RecipeReviewLine[]) => {
@@ -1,4 +1,5 @@
 import type { RecipeCostSummary } from '../../types';
+import { DEFAULT_TARGET_FOOD_COST_RATE } from '../../services/recipeCost';
 import { cn } from '../../utils';
 
 function money(value: number): string {
@@ -10,6 +11,7 @@ interface CostSummaryBarProps {
   portions?: number;
   salePriceHT?: number;
   lastSavedRate?: number;
+  targetFoodCostRate?: number;
   className?: string;
 }
 
@@ -18,11 +20,18 @@ export default function CostSummaryBar({
   portions,
   salePriceHT,
   lastSavedRate,
+  targetFoodCostRate = DEFAULT_TARGET_FOOD_COST_RATE,
   className,
 }: CostSummaryBarProps) {
   const hasSalePrice = Number.isFinite(salePriceHT) && (salePriceHT ?? 0) > 0;
   const safePortions = portions && portions > 0 ? portions : 1;
   const costPerPortion = summary.totalCost / safePortions;
+  const unconvertible = summary.unconvertibleLines ?? [];
+  const unconvertibleWarning = unconvertible.length > 0 && (
+    <p className="ios-caption font-semibold text-[color:var(--app-warning)] mt-2">
+      Hors calcul (unite non convertible): {unconvertible.join(', ')}. Renseigne le poids par piece ou la densite.
+    </p>
+  );
 
   if (!hasSalePrice) {
     return (
@@ -42,6 +51,7 @@ export default function CostSummaryBar({
         <p className="ios-caption app-muted mt-2">
           Ajoute un prix de vente pour afficher le food cost et la marge.
         </p>
+        {unconvertibleWarning}
       </div>
     );
   }
@@ -93,11 +103,12 @@ export default function CostSummaryBar({
         </div>
       </div>
 
-      {summary.foodCostRate > 0.3 && (
+      {summary.foodCostRate > targetFoodCostRate && (
         <p className="ios-caption font-semibold text-[color:var(--app-danger)] mt-2">
-          Alerte: le food cost depasse 30% du prix de vente.
+          Alerte: le food cost depasse l'objectif de {Math.round(targetFoodCostRate * 100)}% du prix de vente.
         </p>
       )}
+      {unconvertibleWarning}
       {lastSavedRate !== undefined && lastSavedRate > 0 && (
         <p className="ios-caption app-muted mt-1">
           Dernier calcul en base: {(lastSavedRate * 100).toFixed(1)}%
@@ -1,27 +1,54 @@
 import { useState } from 'react';
-import type { Ingredient, RecipeUnit } from '../../types';
-import { getEffectiveUnitPrice } from '../../services/recipeCost';
+import type { Ingredient, Recipe, RecipeUnit } from '../../types';
+import {
+  computeRecipeCostFromLines,
+  computeRecipeConsumption,
+  getEffectiveUnitPrice,
+  getRecipeYield,
+  getUsableYieldRate,
+  type SubRecipeContext,
+} from '../../services/recipeCost';
 import { useAppStore } from '../../stores/appStore';
 import { showSuccess } from '../../stores/toastStore';
+import { cn } from '../../utils';
 import InlineIngredientForm from './InlineIngredientForm';
 
 function money(value: number): string {
   return new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR' }).format(value || 0);
 }
 
+function quantity(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+function parsePositive(value: string): number | undefined {
+  const parsed = Number.parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+function parseYieldPercent(value: string): number | undefined {
+  const parsed = Number.parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 && parsed < 100 ? parsed : undefined;
+}
+
 const UNITS: RecipeUnit[] = ['kg', 'g', 'l', 'ml', 'unite'];
+const SUB_RECIPE_PREFIX = 'recipe:';
 
 interface LineDraft {
   id: string;
   ingredientId: string;
+  subRecipeId?: string;
   requiredQuantity: number;
   requiredUnit: RecipeUnit;
+  usableYieldPercent?: number;
 }
 
 interface IngredientLineEditorProps {
   line: LineDraft;
   ingredients: Ingredient[];
   ingredientMap: Map<string, Ingredient>;
+  subRecipes: Recipe[];
+  subRecipeContext: SubRecipeContext;
   supplierQuickPicks: string[];
   onUpdate: (lineId: string, patch: Partial<LineDraft>) => void;
   onRemove: (lineId: string) => void;
@@ -32,6 +59,8 @@ export default function IngredientLineEditor({
   line,
   ingredients,
   ingredientMap,
+  subRecipes,
+  subRecipeContext,
   supplierQuickPicks,
   onUpdate,
   onRemove,
@@ -41,22 +70,42 @@ export default function IngredientLineEditor({
   const [showEditPrice, setShowEditPrice] = useState(false);
   const [editPrice, setEditPrice] = useState('');
   const [editCond, setEditCond] = useState('');
+  const [editYield, setEditYield] = useState('');
+  const [editPieceWeight, setEditPieceWeight] = useState('');
+  const [editDensity, setEditDensity] = useState('');
   const updateIngredient = useAppStore((s) => s.updateIngredient);
 
-  const ingredient = ingredientMap.get(line.ingredientId);
-  const effectivePrice = ingredient ? getEffectiveUnitPrice(ingredient) : 0;
-  const lineCost = ingredient
-    ? line.requiredQuantity * effectivePrice
-    : 0;
+  const subRecipe = line.subRecipeId ? subRecipeContext.recipeMap.get(line.subRecipeId) : undefined;
+  const ingredient = subRecipe ? undefined : ingredientMap.get(line.ingredientId);
+  const lineSummary = computeRecipeCostFromLines([line], ingredientMap, undefined, subRecipeContext);
+  const lineCost = lineSummary.totalCost;
+  const unconvertible = (lineSummary.unconvertibleLines ?? []).length > 0;
+  const consumption = computeRecipeConsumption([line], ingredientMap, subRecipeContext);
+  // Quantities typed in the recipe are net; the raw quantity is what has to be bought.
+  const ingredientConsumption = ingredient ? consumption[0] : undefined;
+  const yieldRate = ingredient ? getUsableYieldRate(ingredient, line.usableYieldPercent) : 1;
+  const subRecipeYield = subRecipe ? getRecipeYield(subRecipe) : null;
 
   const handleSelectChange = (value: string) => {
     if (value === '__new__') {
       setShowNewIngredient(true);
       return;
     }
+    if (value.startsWith(SUB_RECIPE_PREFIX)) {
+      const selected = subRecipeContext.recipeMap.get(value.slice(SUB_RECIPE_PREFIX.length));
+      onUpdate(line.id, {
+        ingredientId: '',
+        subRecipeId: selected?.id,
+        usableYieldPercent: undefined,
+        requiredUnit: selected ? getRecipeYield(selected).unit : line.requiredUnit,
+      });
+      return;
+    }
     const ing = ingredientMap.get(value);
     onUpdate(line.id, {
       ingredientId: value,
+      subRecipeId: undefined,
+      usableYieldPercent: undefined,
       requiredUnit: ing?.unit || line.requiredUnit,
     });
   };
@@ -65,6 +114,9 @@ export default function IngredientLineEditor({
     if (!ingredient) return;
     setEditPrice(String(ingredient.unitPrice));
     setEditCond(String(ingredient.conditioningQuantity || ''));
+    setEditYield(String(ingredient.usableYieldPercent || ''));
+    setEditPieceWeight(String(ingredient.pieceWeightGrams || ''));
+    setEditDensity(String(ingredient.densityGramsPerMl || ''));
     setShowEditPrice(true);
   };
 
@@ -77,6 +129,9 @@ export default function IngredientLineEditor({
       ...ingredient,
       unitPrice: price,
       conditioningQuantity: cq > 1 ? cq : undefined,
+      usableYieldPercent: parseYieldPercent(editYield),
+      pieceWeightGrams: parsePositive(editPieceWeight),
+      densityGramsPerMl: parsePositive(editDensity),
     };
     await updateIngredient(updated);
     onIngredientCreated(); // refresh ingredients list
@@ -88,7 +143,7 @@ export default function IngredientLineEditor({
     <div className="p-3 rounded-xl app-surface-2 space-y-2">
       <div className="flex items-center gap-2">
         <select
-          value={line.ingredientId}
+          value={line.subRecipeId ? `${SUB_RECIPE_PREFIX}${line.subRecipeId}` : line.ingredientId}
           onChange={(e) => handleSelectChange(e.target.value)}
           className="flex-1 px-3 py-2.5 rounded-lg app-bg app-text text-[14px] border-0 focus:outline-none"
         >
@@ -98,6 +153,18 @@ export default function IngredientLineEditor({
               {ing.name} ({money(getEffectiveUnitPrice(ing))}/{ing.unit})
             </option>
           ))}
+          {subRecipes.length > 0 && (
+            <optgroup label="Sous-recettes">
+              {subRecipes.map((r) => (
+                <option key={r.id} value={`${SUB_RECIPE_PREFIX}${r.id}`}>
+                  {r.title} (rend. {getRecipeYield(r).quantity} {getRecipeYield(r).unit})
+                </option>
+              ))}
+            </optgroup>
+          )}
+          {subRecipe && !subRecipes.some((r) => r.id === subRecipe.id) && (
+            <option value={`${SUB_RECIPE_PREFIX}${subRecipe.id}`}>{subRecipe.title}</option>
+          )}
           <option value="__new__">+ Nouvel ingredient...</option>
         </select>
         <button
@@ -135,18 +202,60 @@ export default function IngredientLineEditor({
           className="ios-caption app-muted font-medium whitespace-nowrap active:opacity-70 underline decoration-dotted"
           title="Modifier le prix / colisage"
         >
-          {lineCost > 0 ? money(lineCost) : ingredient ? money(0) : ''}
+          {lineCost > 0 ? money(lineCost) : ingredient || subRecipe ? money(0) : ''}
           {ingredient && ingredient.conditioningQuantity && ingredient.conditioningQuantity > 1 && (
             <span className="text-[10px] ml-1 app-accent">x{ingredient.conditioningQuantity}</span>
           )}
         </button>
       </div>
 
+      {ingredient && (
+        <div className="flex items-center justify-between gap-2">
+          <p className={cn('ios-small', yieldRate < 1 ? 'text-[color:var(--app-warning)]' : 'app-muted')}>
+            {yieldRate < 1 && ingredientConsumption
+              ? `Brut ${quantity(ingredientConsumption.quantity)} ${ingredient.unit} / net ${quantity(ingredientConsumption.netQuantity)} ${ingredient.unit}`
+              : 'Rendement 100%'}
+          </p>
+          <label className="flex items-center gap-1 ios-small app-muted shrink-0">
+            Rdt %
+            <input
+              type="number"
+              min="1"
+              max="100"
+              step="1"
+              value={line.usableYieldPercent ?? ''}
+              onChange={(e) => onUpdate(line.id, { usableYieldPercent: parseYieldPercent(e.target.value) })}
+              placeholder={String(Math.round(getUsableYieldRate(ingredient) * 100))}
+              className="w-16 px-2 py-1 rounded-lg app-bg app-text text-[13px] border-0 focus:outline-none"
+            />
+          </label>
+        </div>
+      )}
+
+      {unconvertible && (
+        <button
+          type="button"
+          onClick={openEditPrice}
+          disabled={!ingredient}
+          className="w-full text-left ios-small font-semibold text-[color:var(--app-warning)] active:opacity-70"
+        >
+          {ingredient
+            ? `Conversion ${line.requiredUnit} -> ${ingredient.unit} impossible: renseigner le poids par piece ou la densite`
+            : `Conversion impossible vers le rendement de la sous-recette (${subRecipeYield?.unit ?? ''})`}
+        </button>
+      )}
+
+      {subRecipe && subRecipeYield && (
+        <p className="ios-small app-muted">
+          Sous-recette &middot; rendement {subRecipeYield.quantity} {subRecipeYield.unit}
+        </p>
+      )}
+
       {/* Edit price/conditioning inline */}
       {showEditPrice && ingredient && (
         <div className="rounded-xl border border-[color:var(--app-accent)]/30 p-3 space-y-2">
           <p className="text-[12px] font-semibold app-accent">Modifier {ingredient.name}</p>
-          <div className="grid grid-cols-2 gap-2">
+          <div className="grid grid-cols-3 gap-2">
             <div>
               <label className="text-[10px] app-muted">Prix d'achat</label>
               <input
@@ -170,6 +279,45 @@ export default function IngredientLineEditor({
                 className="w-full px-3 py-2 rounded-lg app-bg app-text text-[14px] border-0 focus:outline-none"
               />
             </div>
+            <div>
+              <label className="text-[10px] app-muted">Rendement utile %</label>
+              <input
+                type="number"
+                min="1"
+                max="100"
+                step="1"
+                value={editYield}
+                onChange={(e) => setEditYield(e.target.value)}
+                placeholder="100"
+                className="w-full px-3 py-2 rounded-lg app-bg app-text text-[14px] border-0 focus:outline-none"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-[10px] app-muted">Poids d'une piece (g)</label>
+              <input
+                type="number"
+                min="0"
+                step="1"
+                value={editPieceWeight}
+                onChange={(e) => setEditPieceWeight(e.target.value)}
+                placeholder="ex: 60 pour un oeuf"
+                className="w-full px-3 py-2 rounded-lg app-bg app-text text-[14px] border-0 focus:outline-none"
+              />
+            </div>
+            <div>
+              <label className="text-[10px] app-muted">Densite (g/ml)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={editDensity}
+                onChange={(e) => setEditDensity(e.target.value)}
+                placeholder="ex: 0.92 pour l'huile"
+                className="w-full px-3 py-2 rounded-lg app-bg app-text text-[14px] border-0 focus:outline-none"
+              />
+            </div>
           </div>
           {Number(editCond) > 1 && Number(editPrice) > 0 && (
             <p className="ios-small app-accent font-medium">
@@ -19,6 +19,7 @@ export default function InlineIngredientForm({ supplierQuickPicks, onCreated, on
   const [unit, setUnit] = useState<IngredientUnit>('kg');
   const [unitPrice, setUnitPrice] = useState('');
   const [conditioning, setConditioning] = useState('');
+  const [usableYield, setUsableYield] = useState('');
   const [supplier, setSupplier] = useState('');
 
   const handleSave = async () => {
@@ -41,6 +42,11 @@ export default function InlineIngredientForm({ supplierQuickPicks, onCreated, on
       const cqErr = validateRange(cq, 0, 99999, 'Le colisage');
       if (cqErr) { showError(cqErr); return; }
     }
+    const yieldPercent = Number.parseFloat(usableYield);
+    if (Number.isFinite(yieldPercent)) {
+      const yieldErr = validateRange(yieldPercent, 1, 100, 'Le rendement');
+      if (yieldErr) { showError(yieldErr); return; }
+    }
     const payload: Ingredient = {
       id,
       name: trimmed,
@@ -48,6 +54,7 @@ export default function InlineIngredientForm({ supplierQuickPicks, onCreated, on
       unitPrice: price,
       conditioningQuantity: cq > 1 ? cq : undefined,
       supplierId: supplier.trim() || undefined,
+      usableYieldPercent: yieldPercent > 0 && yieldPercent < 100 ? yieldPercent : undefined,
     };
 
     try {
@@ -104,6 +111,16 @@ export default function InlineIngredientForm({ supplierQuickPicks, onCreated, on
           Prix effectif: {(Number(unitPrice) / Number(conditioning)).toFixed(4)} EUR/{unit}
         </p>
       )}
+      <input
+        type="number"
+        min="1"
+        max="100"
+        step="1"
+        value={usableYield}
+        onChange={(e) => setUsableYield(e.target.value)}
+        placeholder="Rendement utile % (ex: 45 pour un poisson entier)"
+        className="w-full px-3 py-2 rounded-lg app-bg app-text text-[14px] border-0 focus:outline-none"
+      />
       <input
         type="text"
         value={supplier}
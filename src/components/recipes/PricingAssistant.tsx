@@ -0,0 +1,73 @@
+import { useMemo } from 'react';
+import type { PriceRoundingRule } from '../../types';
+import { buildPriceOptions, PRICE_ROUNDING_LABELS } from '../../services/pricing';
+import { cn } from '../../utils';
+
+function money(value: number): string {
+  return new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR' }).format(value || 0);
+}
+
+interface PricingAssistantProps {
+  costPerPortion: number;
+  targetFoodCostRate: number;
+  vatRate: number;
+  rounding: PriceRoundingRule;
+  /** Current sale price HT for one portion. */
+  currentPriceHT?: number;
+  onApply: (priceHTPerPortion: number) => void;
+}
+
+export default function PricingAssistant({
+  costPerPortion,
+  targetFoodCostRate,
+  vatRate,
+  rounding,
+  currentPriceHT,
+  onApply,
+}: PricingAssistantProps) {
+  const options = useMemo(
+    () => buildPriceOptions(costPerPortion, targetFoodCostRate, vatRate, rounding, currentPriceHT),
+    [costPerPortion, targetFoodCostRate, vatRate, rounding, currentPriceHT],
+  );
+
+  if (options.length === 0) {
+    return <p className="ios-caption app-muted">Ajoute des ingredients chiffres pour obtenir un prix conseille.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="ios-caption app-muted">
+        Objectif {Math.round(targetFoodCostRate * 100)}% - TVA {vatRate}% - {PRICE_ROUNDING_LABELS[rounding]} - cout/portion {money(costPerPortion)}
+      </p>
+      <ul className="space-y-1.5">
+        {options.map((option) => (
+          <li key={option.label} className="rounded-xl app-surface-2 px-3 py-2 flex items-center justify-between gap-2">
+            <div className="min-w-0">
+              <p className="text-[13px] font-semibold app-text">{option.label}</p>
+              <p className="text-[12px] app-muted">
+                {money(option.priceTTC)} TTC - {money(option.priceHT)} HT - food cost {(option.foodCostRate * 100).toFixed(1)}%
+              </p>
+              <p className="text-[12px] app-muted">
+                Marge {money(option.marginHT)} / portion
+                {option.marginDelta !== undefined && (
+                  <span
+                    className={cn(
+                      'ml-1 font-semibold',
+                      option.marginDelta >= 0 ? 'text-[color:var(--app-success)]' : 'text-[color:var(--app-danger)]',
+                    )}
+                  >
+                    ({option.marginDelta >= 0 ? '+' : ''}{money(option.marginDelta)} vs prix actuel)
+                  </span>
+                )}
+              </p>
+            </div>
+            <button type="button" onClick={() => onApply(option.priceHT)}
+              className="shrink-0 px-3 py-1.5 rounded-lg app-accent-bg ios-caption font-semibold active:opacity-70">
+              Appliquer
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -6,12 +6,21 @@ import {
   type Recipe,
   type RecipeCostSummary,
   type RecipeIngredient,
+  type RecipeStep,
   type RecipeUnit,
 } from '../../types';
-import { cn, validateRange } from '../../utils';
+import { blobToUrl, cn, compressImage, revokeUrl, validateRange } from '../../utils';
 import { useAppStore } from '../../stores/appStore';
 import { showError, showSuccess } from '../../stores/toastStore';
-import { computeRecipeCostFromLines, calculateRecipeCost, getEffectiveUnitPrice } from '../../services/recipeCost';
+import {
+  buildSubRecipeContext,
+  computeRecipeCostFromLines,
+  calculateRecipeCost,
+  dependsOnRecipe,
+  getEffectiveUnitPrice,
+  getTargetFoodCostRate,
+} from '../../services/recipeCost';
+import { getMenuVatRate } from '../../services/pricing';
 import {
   parseRecipeFromText,
   parseRecipeFromImage,
@@ -22,20 +31,36 @@ import {
 } from '../../services/recipeAi';
 import { normalizeName, nameSimilarity } from '../../services/ingredientMatch';
 import { computeAutoRecipeAllergens, mergeRecipeAllergens } from '../../services/recipeAllergens';
+import {
+  computeBatchWeightGrams,
+  computeScaleFactor,
+  normalizeQuantity,
+  scaleRecipeLines,
+  type ScaleTarget,
+} from '../../services/recipeScaling';
 import IngredientLineEditor from './IngredientLineEditor';
 import CostSummaryBar from './CostSummaryBar';
+import PricingAssistant from './PricingAssistant';
+import RecipeStepsEditor from './RecipeStepsEditor';
 
 interface RecipeLineDraft {
   id: string;
   ingredientId: string;
+  subRecipeId?: string;
   requiredQuantity: number;
   requiredUnit: RecipeUnit;
+  usableYieldPercent?: number;
 }
 
+const YIELD_UNITS: RecipeUnit[] = ['kg', 'g', 'l', 'ml', 'unite'];
+
+const WEIGHT_UNITS: RecipeUnit[] = ['kg', 'g'];
+
 const DEFAULT_SUMMARY: RecipeCostSummary = { totalCost: 0, grossMargin: 0, foodCostRate: 0, warningLevel: 'ok' };
 
 interface RecipeEditorProps {
   recipe: Recipe | null;
+  recipes: Recipe[];
   ingredients: Ingredient[];
   priceHistory: PriceHistory[];
   onClose: () => void;
@@ -46,6 +71,7 @@ interface RecipeEditorProps {
 
 export default function RecipeEditor({
   recipe,
+  recipes,
   ingredients,
   priceHistory,
   onClose,
@@ -55,7 +81,9 @@ export default function RecipeEditor({
   const getRecipeIngredients = useAppStore((s) => s.getRecipeIngredients);
   const saveRecipeWithIngredients = useAppStore((s) => s.saveRecipeWithIngredients);
   const deleteRecipe = useAppStore((s) => s.deleteRecipe);
+  const getParentRecipes = useAppStore((s) => s.getParentRecipes);
   const addIngredientStore = useAppStore((s) => s.addIngredient);
+  const settings = useAppStore((s) => s.settings);
 
   // Show creation wizard for new recipes
   const [showCreationWizard, setShowCreationWizard] = useState(!recipe);
@@ -64,20 +92,50 @@ export default function RecipeEditor({
   const [analyzing, setAnalyzing] = useState(false);
   const [analyzeStatus, setAnalyzeStatus] = useState('');
   const photoInputRef = useRef<HTMLInputElement>(null);
+  const dishPhotoInputRef = useRef<HTMLInputElement>(null);
 
   const [title, setTitle] = useState(recipe?.title || '');
+  const [category, setCategory] = useState(recipe?.category ?? '');
   const [portions, setPortions] = useState(String(recipe?.portions || 1));
   const [salePriceHT, setSalePriceHT] = useState(recipe?.salePriceHT ? String(recipe.salePriceHT) : '');
+  const [yieldQuantity, setYieldQuantity] = useState(recipe?.yieldQuantity ? String(recipe.yieldQuantity) : '');
+  const [yieldUnit, setYieldUnit] = useState<RecipeUnit>(recipe?.yieldUnit ?? 'kg');
   const [manualAllergens, setManualAllergens] = useState<string[]>(recipe?.allergens ?? []);
+  const [steps, setSteps] = useState<RecipeStep[]>(recipe?.steps ?? []);
+  const [photo, setPhoto] = useState<Blob | undefined>(recipe?.photo);
+  const [photoUrl, setPhotoUrl] = useState<string | undefined>(recipe?.photoUrl);
+  const [platingNotes, setPlatingNotes] = useState(recipe?.platingNotes ?? '');
+  const [storageNotes, setStorageNotes] = useState(recipe?.storageNotes ?? '');
   const [createdAt] = useState<Date>(recipe ? new Date(recipe.createdAt) : new Date());
   const [lines, setLines] = useState<RecipeLineDraft[]>([]);
+  const [allRecipeLines, setAllRecipeLines] = useState<RecipeIngredient[]>([]);
   const [lastSavedSummary, setLastSavedSummary] = useState<RecipeCostSummary>(DEFAULT_SUMMARY);
   const [showAllergens, setShowAllergens] = useState(false);
+  const [showScaling, setShowScaling] = useState(false);
+  const [showPricing, setShowPricing] = useState(false);
+  const [scaleMode, setScaleMode] = useState<ScaleTarget['mode']>('portions');
+  const [scaleTarget, setScaleTarget] = useState('');
+  const [exportingSheet, setExportingSheet] = useState(false);
   const [localIngredients, setLocalIngredients] = useState(ingredients);
   const [saving, setSaving] = useState(false);
   const [isOnline, setIsOnline] = useState(() => (typeof navigator === 'undefined' ? true : navigator.onLine));
 
+  const photoPreviewUrl = useMemo(() => (photo ? blobToUrl(photo) : photoUrl ?? null), [photo, photoUrl]);
+  useEffect(() => {
+    if (!photoPreviewUrl?.startsWith('blob:')) return;
+    return () => revokeUrl(photoPreviewUrl);
+  }, [photoPreviewUrl]);
+
   const ingredientMap = useMemo(() => new Map(localIngredients.map((i) => [i.id, i])), [localIngredients]);
+  const subRecipeContext = useMemo(() => buildSubRecipeContext(recipes, allRecipeLines), [recipes, allRecipeLines]);
+  // A recipe already using this one (directly or deeper) cannot become its sub-recipe.
+  const subRecipeCandidates = useMemo(
+    () =>
+      recipes.filter(
+        (candidate) => !recipe || !dependsOnRecipe(candidate.id, recipe.id, subRecipeContext.linesByRecipe),
+      ),
+    [recipes, recipe, subRecipeContext],
+  );
   const supplierQuickPicks = useMemo(() => {
     const names = [
       ...localIngredients.map((i) => i.supplierId || ''),
@@ -94,35 +152,92 @@ export default function RecipeEditor({
   const parsedSalePrice = Number.parseFloat(salePriceHT);
   const normalizedSalePrice = Number.isFinite(parsedSalePrice) && parsedSalePrice > 0 ? parsedSalePrice : undefined;
   const parsedPortions = Math.max(1, Number.parseInt(portions, 10) || 1);
+  const targetFoodCostRate = getTargetFoodCostRate(settings, category);
+  const categorySuggestions = useMemo(
+    () =>
+      [...new Set([
+        ...recipes.map((r) => r.category?.trim() ?? ''),
+        ...Object.keys(settings?.categoryFoodCostTargets ?? {}),
+      ])].filter(Boolean).sort((a, b) => a.localeCompare(b)),
+    [recipes, settings?.categoryFoodCostTargets],
+  );
   const autoDetectedAllergens = useMemo(() => {
     const ingredientIds = lines.map((line) => line.ingredientId).filter(Boolean);
-    return computeAutoRecipeAllergens(ingredientIds, ingredientMap);
-  }, [lines, ingredientMap]);
+    const subRecipeIds = lines.map((line) => line.subRecipeId ?? '').filter(Boolean);
+    return computeAutoRecipeAllergens(ingredientIds, ingredientMap, subRecipeIds, subRecipeContext);
+  }, [lines, ingredientMap, subRecipeContext]);
   const mergedAllergens = useMemo(
     () => mergeRecipeAllergens(autoDetectedAllergens, manualAllergens),
     [autoDetectedAllergens, manualAllergens],
   );
 
+  const costLines = useMemo(
+    () =>
+      lines
+        .filter((l) => l.ingredientId || l.subRecipeId)
+        .map((l) => ({ ...l, requiredQuantity: l.requiredQuantity || 0 })),
+    [lines],
+  );
   const liveSummary = useMemo(
     () =>
       computeRecipeCostFromLines(
-        lines.filter((l) => l.ingredientId).map((l) => ({ ingredientId: l.ingredientId, requiredQuantity: l.requiredQuantity || 0, requiredUnit: l.requiredUnit })),
+        costLines,
         ingredientMap,
         normalizedSalePrice,
+        subRecipeContext,
+        recipe?.id,
+        targetFoodCostRate,
       ),
-    [lines, ingredientMap, normalizedSalePrice],
+    [costLines, ingredientMap, normalizedSalePrice, subRecipeContext, recipe?.id, targetFoodCostRate],
+  );
+
+  const parsedYieldQuantity = Number.parseFloat(yieldQuantity);
+  const batchWeightGrams = useMemo(
+    () =>
+      computeBatchWeightGrams(
+        costLines,
+        ingredientMap,
+        parsedYieldQuantity > 0 && WEIGHT_UNITS.includes(yieldUnit)
+          ? { quantity: parsedYieldQuantity, unit: yieldUnit }
+          : undefined,
+      ),
+    [costLines, ingredientMap, parsedYieldQuantity, yieldUnit],
+  );
+  const parsedScaleTarget = Number.parseFloat(scaleTarget.replace(',', '.'));
+  const scaleFactor = computeScaleFactor(
+    scaleMode === 'portions'
+      ? { mode: 'portions', portions: parsedScaleTarget }
+      : { mode: 'weight', grams: parsedScaleTarget * 1000 },
+    parsedPortions,
+    batchWeightGrams,
+  );
+  const scaledPortions = scaleMode === 'portions' && parsedScaleTarget > 0
+    ? Math.round(parsedScaleTarget)
+    : Math.max(1, Math.round(parsedPortions * scaleFactor));
+  const scaledLines = useMemo(
+    () => (scaleFactor > 0 ? scaleRecipeLines(costLines, scaleFactor, ingredientMap, subRecipeContext, recipe?.id) : []),
+    [costLines, scaleFactor, ingredientMap, subRecipeContext, recipe?.id],
   );
 
   useEffect(() => {
     if (!recipe) return;
     (async () => {
       const linked = await getRecipeIngredients(recipe.id);
-      setLines(linked.map((l) => ({ id: l.id, ingredientId: l.ingredientId, requiredQuantity: l.requiredQuantity, requiredUnit: l.requiredUnit })));
+      setLines(linked.map((l) => ({ id: l.id, ingredientId: l.ingredientId, subRecipeId: l.subRecipeId, requiredQuantity: l.requiredQuantity, requiredUnit: l.requiredUnit, usableYieldPercent: l.usableYieldPercent })));
       const summary = await calculateRecipeCost(recipe.id);
       setLastSavedSummary(summary);
     })();
   }, [recipe, getRecipeIngredients]);
 
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const linked = await Promise.all(recipes.map((r) => getRecipeIngredients(r.id)));
+      if (!cancelled) setAllRecipeLines(linked.flat());
+    })();
+    return () => { cancelled = true; };
+  }, [recipes, getRecipeIngredients]);
+
   useEffect(() => { setLocalIngredients(ingredients); }, [ingredients]);
   useEffect(() => {
     if (typeof window === 'undefined') return;
@@ -175,6 +290,9 @@ export default function RecipeEditor({
     }
 
     setLines(newLines);
+    if (template.steps?.length) {
+      setSteps(template.steps.map((step) => ({ ...step, id: crypto.randomUUID() })));
+    }
     setLocalIngredients(currentIngredients);
     setShowCreationWizard(false);
     setCreationMode(null);
@@ -280,6 +398,62 @@ export default function RecipeEditor({
     setLines((prev) => prev.filter((l) => l.id !== lineId));
   };
 
+  const handleDishPhoto = async (file: File) => {
+    try {
+      setPhoto(await compressImage(file, 1600, 0.85));
+      setPhotoUrl(undefined);
+    } catch {
+      showError('Impossible de lire la photo');
+    }
+  };
+
+  const applyScaling = () => {
+    if (scaleFactor <= 0) return;
+    setLines((prev) =>
+      prev.map((l) => {
+        const normalized = normalizeQuantity((l.requiredQuantity || 0) * scaleFactor, l.requiredUnit);
+        return { ...l, requiredQuantity: normalized.quantity, requiredUnit: normalized.unit };
+      }),
+    );
+    setPortions(String(scaledPortions));
+    if (parsedYieldQuantity > 0) {
+      const normalizedYield = normalizeQuantity(parsedYieldQuantity * scaleFactor, yieldUnit);
+      setYieldQuantity(String(normalizedYield.quantity));
+      setYieldUnit(normalizedYield.unit);
+    }
+    setScaleTarget('');
+    showSuccess(`Quantites recalculees (x${scaleFactor.toFixed(2)})`);
+  };
+
+  const applySuggestedPrice = (priceHTPerPortion: number) => {
+    const total = Math.round(priceHTPerPortion * parsedPortions * 100) / 100;
+    setSalePriceHT(String(total));
+    showSuccess(`Prix de vente HT mis a jour: ${total.toFixed(2)} EUR`);
+  };
+
+  const handleExportProductionSheet = async () => {
+    if (scaleFactor <= 0) { showError('Indique une production cible'); return; }
+    setExportingSheet(true);
+    try {
+      const { generateProductionSheetPDF } = await import('../../services/pdf');
+      await generateProductionSheetPDF(
+        {
+          title: title.trim() || 'Fiche technique',
+          targetLabel: scaleMode === 'portions' ? `${scaledPortions} portion(s)` : `${parsedScaleTarget} kg`,
+          factor: scaleFactor,
+          portions: scaledPortions,
+          lines: scaledLines,
+          allergens: mergedAllergens,
+          totalCost: liveSummary.totalCost * scaleFactor,
+          unconvertibleLines: liveSummary.unconvertibleLines ?? [],
+        },
+        settings?.establishmentName || 'Mon etablissement',
+      );
+    } catch {
+      showError('Impossible de generer la fiche de production');
+    } finally { setExportingSheet(false); }
+  };
+
   const handleSave = async () => {
     const trimmedTitle = title.trim();
     if (!trimmedTitle) { showError('Le titre est obligatoire'); return; }
@@ -289,6 +463,12 @@ export default function RecipeEditor({
     }
     const portionsErr = validateRange(parsedPortions, 1, 9999, 'Les portions');
     if (portionsErr) { showError(portionsErr); return; }
+    const parsedYield = Number.parseFloat(yieldQuantity);
+    const normalizedYield = Number.isFinite(parsedYield) && parsedYield > 0 ? parsedYield : undefined;
+    const cyclicLine = recipe
+      ? lines.find((l) => l.subRecipeId && dependsOnRecipe(l.subRecipeId, recipe.id, subRecipeContext.linesByRecipe))
+      : undefined;
+    if (cyclicLine) { showError('Une sous-recette ne peut pas utiliser cette fiche'); return; }
 
     setSaving(true);
     try {
@@ -297,15 +477,31 @@ export default function RecipeEditor({
       const recipeData: Recipe = {
         id: recipeId,
         title: trimmedTitle,
+        category: category.trim() || undefined,
         portions: parsedPortions,
         salePriceHT: normalizedSalePrice,
+        yieldQuantity: normalizedYield,
+        yieldUnit: normalizedYield ? yieldUnit : undefined,
         createdAt,
         updatedAt: now,
         allergens: mergedAllergens,
+        steps,
+        photo,
+        photoUrl: photo ? undefined : photoUrl,
+        platingNotes,
+        storageNotes,
       };
       const linkedLines: RecipeIngredient[] = lines
-        .filter((l) => l.ingredientId && l.requiredQuantity > 0)
-        .map((l) => ({ id: l.id || crypto.randomUUID(), recipeId, ingredientId: l.ingredientId, requiredQuantity: l.requiredQuantity, requiredUnit: l.requiredUnit }));
+        .filter((l) => (l.ingredientId || l.subRecipeId) && l.requiredQuantity > 0)
+        .map((l) => ({
+          id: l.id || crypto.randomUUID(),
+          recipeId,
+          ingredientId: l.subRecipeId ? '' : l.ingredientId,
+          subRecipeId: l.subRecipeId || undefined,
+          requiredQuantity: l.requiredQuantity,
+          requiredUnit: l.requiredUnit,
+          usableYieldPercent: l.subRecipeId ? undefined : l.usableYieldPercent,
+        }));
 
       await saveRecipeWithIngredients(recipeData, linkedLines);
       showSuccess('Fiche technique enregistree');
@@ -317,7 +513,19 @@ export default function RecipeEditor({
 
   const handleDelete = async () => {
     if (!recipe) return;
-    if (!window.confirm('Supprimer cette fiche technique ?')) return;
+    let message = 'Supprimer cette fiche technique ?';
+    try {
+      const parents = await getParentRecipes(recipe.id);
+      if (parents.length > 0) {
+        message =
+          `Cette fiche est utilisee comme sous-recette dans : ${parents.map((parent) => parent.title).join(', ')}.\n` +
+          'Elle sera retiree de ces fiches, dont le cout et les allergenes changeront. Supprimer quand meme ?';
+      }
+    } catch {
+      showError('Impossible de verifier les fiches qui utilisent cette recette');
+      return;
+    }
+    if (!window.confirm(message)) return;
     try { await deleteRecipe(recipe.id); showSuccess('Fiche supprimee'); onDeleted(); } catch { showError('Impossible de supprimer la fiche'); }
   };
 
@@ -537,6 +745,18 @@ export default function RecipeEditor({
                     className="w-full px-4 py-3 rounded-xl app-surface-2 app-text text-[16px] border-0 focus:outline-none focus:ring-2 focus:ring-[color:var(--app-accent)]" />
                 </div>
                 <div className="ios-settings-separator" />
+                <div className="ios-settings-row flex-col items-stretch gap-1.5">
+                  <label className="text-[14px] app-muted">Categorie (objectif food cost {Math.round(targetFoodCostRate * 100)}%)</label>
+                  <input type="text" list="recipe-category-suggestions" value={category} onChange={(e) => setCategory(e.target.value)}
+                    placeholder="Ex: Plats, Desserts"
+                    className="w-full px-3 py-2.5 rounded-xl app-surface-2 app-text text-[16px] border-0 focus:outline-none" />
+                  <datalist id="recipe-category-suggestions">
+                    {categorySuggestions.map((entry) => (
+                      <option key={entry} value={entry} />
+                    ))}
+                  </datalist>
+                </div>
+                <div className="ios-settings-separator" />
                 <div className="ios-settings-row grid grid-cols-2 gap-3">
                   <div className="space-y-1.5">
                     <label className="text-[14px] app-muted">Portions</label>
@@ -549,6 +769,21 @@ export default function RecipeEditor({
                       className="w-full px-3 py-2.5 rounded-xl app-surface-2 app-text text-[16px] border-0 focus:outline-none" />
                   </div>
                 </div>
+                <div className="ios-settings-separator" />
+                <div className="ios-settings-row flex-col items-stretch gap-1.5">
+                  <label className="text-[14px] app-muted">Rendement (si utilisee comme sous-recette)</label>
+                  <div className="grid grid-cols-[1fr,90px] gap-2">
+                    <input type="number" min="0" step="0.01" value={yieldQuantity} onChange={(e) => setYieldQuantity(e.target.value)}
+                      placeholder={`${parsedPortions} portion(s) par defaut`}
+                      className="w-full px-3 py-2.5 rounded-xl app-surface-2 app-text text-[16px] border-0 focus:outline-none" />
+                    <select value={yieldUnit} onChange={(e) => setYieldUnit(e.target.value as RecipeUnit)}
+                      className="px-2 py-2.5 rounded-xl app-surface-2 app-text text-[16px] border-0 focus:outline-none">
+                      {YIELD_UNITS.map((u) => (
+                        <option key={u} value={u}>{u}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
               </div>
 
               {/* Allergens */}
@@ -597,6 +832,87 @@ export default function RecipeEditor({
                 )}
               </div>
 
+              {/* Pricing assistant */}
+              <div className="rounded-2xl app-card overflow-hidden">
+                <button onClick={() => setShowPricing(!showPricing)}
+                  className="w-full ios-settings-row flex items-center justify-between active:opacity-70">
+                  <span className="text-[14px] app-muted">Aide au prix de vente</span>
+                  <svg xmlns="http://www.w3.org/2000/svg" className={cn('h-4 w-4 app-muted transition-transform', showPricing && 'rotate-90')} viewBox="0 0 20 20" fill="currentColor">
+                    <path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd" />
+                  </svg>
+                </button>
+                {showPricing && (
+                  <div className="px-4 pb-3">
+                    <PricingAssistant
+                      costPerPortion={liveSummary.totalCost / parsedPortions}
+                      targetFoodCostRate={targetFoodCostRate}
+                      vatRate={getMenuVatRate(settings)}
+                      rounding={settings?.priceRounding ?? 'fifty_ninety'}
+                      currentPriceHT={normalizedSalePrice !== undefined ? normalizedSalePrice / parsedPortions : undefined}
+                      onApply={applySuggestedPrice}
+                    />
+                  </div>
+                )}
+              </div>
+
+              {/* Scaling + production sheet */}
+              <div className="rounded-2xl app-card overflow-hidden">
+                <button onClick={() => setShowScaling(!showScaling)}
+                  className="w-full ios-settings-row flex items-center justify-between active:opacity-70">
+                  <span className="text-[14px] app-muted">Mise a l'echelle & fiche de production</span>
+                  <svg xmlns="http://www.w3.org/2000/svg" className={cn('h-4 w-4 app-muted transition-transform', showScaling && 'rotate-90')} viewBox="0 0 20 20" fill="currentColor">
+                    <path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd" />
+                  </svg>
+                </button>
+                {showScaling && (
+                  <div className="px-4 pb-3 space-y-2">
+                    <div className="flex gap-1.5">
+                      {(['portions', 'weight'] as const).map((mode) => (
+                        <button key={mode} type="button" aria-pressed={scaleMode === mode}
+                          onClick={() => { setScaleMode(mode); setScaleTarget(''); }}
+                          className={cn('px-3 py-1.5 rounded-full text-[12px] font-semibold active:opacity-70', scaleMode === mode ? 'app-accent-bg' : 'app-surface-2 app-text')}>
+                          {mode === 'portions' ? 'Portions' : 'Poids du batch'}
+                        </button>
+                      ))}
+                    </div>
+                    <input type="number" min="0" step={scaleMode === 'portions' ? '1' : '0.1'} value={scaleTarget}
+                      onChange={(e) => setScaleTarget(e.target.value)}
+                      placeholder={scaleMode === 'portions' ? `Ex: 80 (base ${parsedPortions})` : `Poids cible en kg (base ${(batchWeightGrams / 1000).toFixed(2)} kg)`}
+                      className="w-full px-3 py-2.5 rounded-xl app-surface-2 app-text text-[16px] border-0 focus:outline-none" />
+                    {scaleMode === 'weight' && batchWeightGrams <= 0 && (
+                      <p className="ios-caption text-[color:var(--app-warning)]">
+                        Poids du batch inconnu: renseigne un rendement en kg/g ou des quantites en poids.
+                      </p>
+                    )}
+                    {scaleFactor > 0 && (
+                      <>
+                        <p className="ios-caption app-muted">
+                          Coefficient x{scaleFactor.toFixed(2)} - {scaledPortions} portion(s) - cout {(liveSummary.totalCost * scaleFactor).toFixed(2)} EUR
+                        </p>
+                        <ul className="rounded-xl app-surface-2 divide-y divide-[color:var(--app-border)]">
+                          {scaledLines.map((line, index) => (
+                            <li key={`${line.name}-${index}`} className="flex items-center justify-between px-3 py-1.5 text-[13px] app-text">
+                              <span className="truncate">{line.name}</span>
+                              <span className="font-semibold shrink-0 ml-2">{line.quantity} {line.unit}</span>
+                            </li>
+                          ))}
+                        </ul>
+                        <div className="flex gap-2">
+                          <button type="button" onClick={applyScaling}
+                            className="flex-1 py-2 rounded-xl app-surface-2 app-text text-[14px] font-semibold active:opacity-70">
+                            Appliquer a la fiche
+                          </button>
+                          <button type="button" onClick={() => { void handleExportProductionSheet(); }} disabled={exportingSheet}
+                            className={cn('flex-1 py-2 rounded-xl text-[14px] font-semibold active:opacity-70', exportingSheet ? 'app-surface-2 app-muted' : 'app-accent-bg')}>
+                            {exportingSheet ? 'Generation...' : 'Fiche de production PDF'}
+                          </button>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+
               {/* Ingredient lines */}
               <div className="rounded-2xl app-card p-4 space-y-3">
                 <div className="flex items-center justify-between">
@@ -607,12 +923,55 @@ export default function RecipeEditor({
                 <div className="space-y-2">
                   {lines.map((line) => (
                     <IngredientLineEditor key={line.id} line={line} ingredients={localIngredients} ingredientMap={ingredientMap}
+                      subRecipes={subRecipeCandidates} subRecipeContext={subRecipeContext}
                       supplierQuickPicks={supplierQuickPicks} onUpdate={updateLine} onRemove={removeLine}
                       onIngredientCreated={() => { void handleIngredientCreated(); }} />
                   ))}
                 </div>
               </div>
 
+              <RecipeStepsEditor steps={steps} onChange={setSteps} />
+
+              {/* Dish photo + plating and storage notes */}
+              <div className="rounded-2xl app-card p-4 space-y-3">
+                <h2 className="text-[17px] font-semibold app-text">Dressage & conservation</h2>
+                <input
+                  ref={dishPhotoInputRef}
+                  type="file"
+                  accept="image/*"
+                  onChange={(e) => { const f = e.target.files?.[0]; if (f) void handleDishPhoto(f); e.target.value = ''; }}
+                  className="hidden"
+                />
+                {photoPreviewUrl ? (
+                  <div className="space-y-2">
+                    <img src={photoPreviewUrl} alt={`Photo ${title || 'du plat'}`} className="w-full max-h-64 object-cover rounded-xl" />
+                    <div className="flex gap-2">
+                      <button type="button" onClick={() => dishPhotoInputRef.current?.click()}
+                        className="flex-1 py-2 rounded-xl app-surface-2 app-text text-[14px] font-semibold active:opacity-70">Changer</button>
+                      <button type="button" onClick={() => { setPhoto(undefined); setPhotoUrl(undefined); }}
+                        className="flex-1 py-2 rounded-xl app-surface-2 text-[color:var(--app-danger)] text-[14px] font-semibold active:opacity-70">Retirer</button>
+                    </div>
+                  </div>
+                ) : (
+                  <button type="button" onClick={() => dishPhotoInputRef.current?.click()}
+                    className="w-full py-3 rounded-xl app-surface-2 app-text text-[14px] font-semibold active:opacity-70">
+                    Ajouter une photo du plat
+                  </button>
+                )}
+                <div className="space-y-1.5">
+                  <label className="text-[14px] app-muted">Dressage</label>
+                  <textarea value={platingNotes} onChange={(e) => setPlatingNotes(e.target.value)} rows={3}
+                    placeholder="Ex: assiette creuse chaude, quenelle de puree a gauche, jus au pinceau"
+                    className="w-full px-3 py-2.5 rounded-xl app-surface-2 app-text text-[14px] border-0 focus:outline-none resize-y" />
+                </div>
+                <div className="space-y-1.5">
+                  <label className="text-[14px] app-muted">Conservation</label>
+                  <textarea value={storageNotes} onChange={(e) => setStorageNotes(e.target.value)} rows={2}
+                    placeholder="Ex: 3 jours a +3°C en bac filme, ne pas congeler"
+                    className="w-full px-3 py-2.5 rounded-xl app-surface-2 app-text text-[14px] border-0 focus:outline-none resize-y" />
+                </div>
+              </div>
+
             </>
           )}
         </div>
@@ -625,6 +984,7 @@ export default function RecipeEditor({
                 portions={parsedPortions}
                 salePriceHT={normalizedSalePrice}
                 lastSavedRate={lastSavedSummary.foodCostRate}
+                targetFoodCostRate={targetFoodCostRate}
               />
               <div className="flex gap-2">
                 <button
@@ -0,0 +1,77 @@
+import type { RecipeStep } from '../../types';
+import { cn } from '../../utils';
+
+interface RecipeStepsEditorProps {
+  steps: RecipeStep[];
+  onChange: (steps: RecipeStep[]) => void;
+}
+
+function parseOptionalNumber(value: string): number | undefined {
+  const parsed = Number.parseFloat(value.replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+export default function RecipeStepsEditor({ steps, onChange }: RecipeStepsEditorProps) {
+  const updateStep = (stepId: string, patch: Partial<RecipeStep>) => {
+    onChange(steps.map((step) => (step.id === stepId ? { ...step, ...patch } : step)));
+  };
+
+  const moveStep = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= steps.length) return;
+    const next = [...steps];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const addStep = () => {
+    onChange([...steps, { id: crypto.randomUUID(), instruction: '' }]);
+  };
+
+  return (
+    <div className="rounded-2xl app-card p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-[17px] font-semibold app-text">Methode</h2>
+        <button onClick={addStep} className="px-3 py-1.5 rounded-lg app-accent-bg ios-caption font-semibold active:opacity-70">+ Etape</button>
+      </div>
+      {steps.length === 0 && <p className="text-[14px] app-muted">Aucune etape pour le moment.</p>}
+      <ol className="space-y-2">
+        {steps.map((step, index) => (
+          <li key={step.id} className="rounded-xl app-surface-2 p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-[13px] font-semibold app-text">Etape {index + 1}</span>
+              <div className="flex items-center gap-1">
+                <button type="button" onClick={() => moveStep(index, -1)} disabled={index === 0}
+                  className={cn('px-2 py-1 rounded-lg text-[13px] active:opacity-70', index === 0 ? 'app-muted' : 'app-text')}>Monter</button>
+                <button type="button" onClick={() => moveStep(index, 1)} disabled={index === steps.length - 1}
+                  className={cn('px-2 py-1 rounded-lg text-[13px] active:opacity-70', index === steps.length - 1 ? 'app-muted' : 'app-text')}>Descendre</button>
+                <button type="button" onClick={() => onChange(steps.filter((s) => s.id !== step.id))}
+                  className="px-2 py-1 rounded-lg text-[13px] text-[color:var(--app-danger)] active:opacity-70">Suppr.</button>
+              </div>
+            </div>
+            <textarea value={step.instruction} onChange={(e) => updateStep(step.id, { instruction: e.target.value })}
+              rows={2} placeholder="Ex: Suer les echalotes sans coloration"
+              className="w-full px-3 py-2 rounded-lg app-bg app-text text-[14px] border-0 focus:outline-none resize-y" />
+            <div className="grid grid-cols-2 gap-2">
+              <label className="flex items-center gap-2 text-[12px] app-muted">
+                Minuteur
+                <input type="number" min="0" value={step.durationMinutes ?? ''} placeholder="min"
+                  onChange={(e) => {
+                    const minutes = parseOptionalNumber(e.target.value);
+                    updateStep(step.id, { durationMinutes: minutes && minutes > 0 ? minutes : undefined });
+                  }}
+                  className="w-full px-2 py-1.5 rounded-lg app-bg app-text text-[14px] border-0 focus:outline-none" />
+              </label>
+              <label className="flex items-center gap-2 text-[12px] app-muted">
+                Temp.
+                <input type="number" value={step.temperatureCelsius ?? ''} placeholder="°C"
+                  onChange={(e) => updateStep(step.id, { temperatureCelsius: parseOptionalNumber(e.target.value) })}
+                  className="w-full px-2 py-1.5 rounded-lg app-bg app-text text-[14px] border-0 focus:outline-none" />
+              </label>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
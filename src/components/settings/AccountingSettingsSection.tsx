@@ -0,0 +1,131 @@
+import type { AccountMappingKind, AccountMappingRule } from '../../types';
+import {
+  DEFAULT_JOURNAL_CODE,
+  DEFAULT_PURCHASE_ACCOUNT,
+  DEFAULT_SUPPLIER_ACCOUNT,
+  DEFAULT_VAT_DEDUCTIBLE_ACCOUNT,
+} from '../../services/accountingExport';
+import { cn } from '../../utils';
+
+export interface AccountingSettingsDraft {
+  journalCode: string;
+  purchaseAccount: string;
+  vatDeductibleAccount: string;
+  supplierAccount: string;
+  mappings: AccountMappingRule[];
+}
+
+interface AccountingSettingsSectionProps {
+  inputClass: string;
+  draft: AccountingSettingsDraft;
+  saving: boolean;
+  onChange: (patch: Partial<AccountingSettingsDraft>) => void;
+  onSave: () => void;
+}
+
+const ACCOUNT_FIELDS: { key: Exclude<keyof AccountingSettingsDraft, 'mappings'>; label: string; placeholder: string }[] = [
+  { key: 'journalCode', label: 'Code journal', placeholder: DEFAULT_JOURNAL_CODE },
+  { key: 'purchaseAccount', label: 'Compte achats', placeholder: DEFAULT_PURCHASE_ACCOUNT },
+  { key: 'vatDeductibleAccount', label: 'TVA deductible', placeholder: DEFAULT_VAT_DEDUCTIBLE_ACCOUNT },
+  { key: 'supplierAccount', label: 'Compte fournisseurs', placeholder: DEFAULT_SUPPLIER_ACCOUNT },
+];
+
+export default function AccountingSettingsSection({
+  inputClass,
+  draft,
+  saving,
+  onChange,
+  onSave,
+}: AccountingSettingsSectionProps) {
+  const updateRule = (id: string, patch: Partial<AccountMappingRule>) => {
+    onChange({ mappings: draft.mappings.map((rule) => (rule.id === id ? { ...rule, ...patch } : rule)) });
+  };
+
+  return (
+    <div>
+      <h2 className="ios-caption-upper app-muted mb-2">Export comptable</h2>
+      <div className="rounded-2xl glass-card glass-panel overflow-hidden">
+        <div className="ios-settings-row grid grid-cols-2 gap-3">
+          {ACCOUNT_FIELDS.map((field) => (
+            <div key={field.key} className="space-y-1.5">
+              <label className="text-[14px] app-text">{field.label}</label>
+              <input
+                type="text"
+                value={draft[field.key]}
+                onChange={(e) => onChange({ [field.key]: e.target.value })}
+                placeholder={field.placeholder}
+                className={inputClass}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="ios-settings-separator" />
+        <div className="ios-settings-row flex-col items-stretch gap-2">
+          <div className="flex items-center justify-between">
+            <label className="text-[14px] app-text">Comptes de charge</label>
+            <button
+              type="button"
+              onClick={() =>
+                onChange({
+                  mappings: [...draft.mappings, { id: crypto.randomUUID(), kind: 'supplier', match: '', account: '' }],
+                })
+              }
+              className="text-[13px] font-semibold text-[color:var(--app-accent)] active:opacity-70"
+            >
+              + Regle
+            </button>
+          </div>
+          {draft.mappings.length === 0 && (
+            <p className="ios-caption app-muted">Toutes les factures vont sur le compte achats.</p>
+          )}
+          {draft.mappings.map((rule) => (
+            <div key={rule.id} className="grid grid-cols-[100px,1fr,90px,auto] gap-2 items-center">
+              <select
+                value={rule.kind}
+                onChange={(e) => updateRule(rule.id, { kind: e.target.value as AccountMappingKind })}
+                className={inputClass}
+              >
+                <option value="supplier">Fournisseur</option>
+                <option value="category">Tag</option>
+              </select>
+              <input
+                type="text"
+                value={rule.match}
+                onChange={(e) => updateRule(rule.id, { match: e.target.value })}
+                placeholder={rule.kind === 'supplier' ? 'Ex: Metro' : 'Ex: boissons'}
+                className={inputClass}
+              />
+              <input
+                type="text"
+                value={rule.account}
+                onChange={(e) => updateRule(rule.id, { account: e.target.value })}
+                placeholder="607100"
+                className={inputClass}
+              />
+              <button
+                type="button"
+                onClick={() => onChange({ mappings: draft.mappings.filter((item) => item.id !== rule.id) })}
+                className="px-2 text-[13px] text-[color:var(--app-danger)] active:opacity-70"
+              >
+                Suppr.
+              </button>
+            </div>
+          ))}
+          <p className="ios-caption app-muted">Les regles fournisseur passent avant les tags de la facture.</p>
+        </div>
+        <div className="px-4 py-3">
+          <button
+            onClick={onSave}
+            disabled={saving}
+            className={cn(
+              'w-full py-2.5 rounded-xl text-[14px] font-semibold transition-opacity active:opacity-70',
+              saving ? 'app-surface-2 app-muted cursor-not-allowed' : 'app-accent-bg',
+            )}
+          >
+            {saving ? 'Enregistrement...' : 'Enregistrer'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import type { PriceRoundingRule } from '../../types';
+import { PRICE_ROUNDING_LABELS } from '../../services/pricing';
+import { cn } from '../../utils';
+
+export interface CategoryTargetDraft {
+  id: string;
+  category: string;
+  rate: string;
+}
+
+interface PricingSettingsSectionProps {
+  inputClass: string;
+  targetFoodCost: string;
+  menuVatRate: string;
+  priceRounding: PriceRoundingRule;
+  categoryTargets: CategoryTargetDraft[];
+  saving: boolean;
+  onTargetFoodCostChange: (value: string) => void;
+  onMenuVatRateChange: (value: string) => void;
+  onPriceRoundingChange: (value: PriceRoundingRule) => void;
+  onCategoryTargetsChange: (value: CategoryTargetDraft[]) => void;
+  onSave: () => void;
+}
+
+export default function PricingSettingsSection({
+  inputClass,
+  targetFoodCost,
+  menuVatRate,
+  priceRounding,
+  categoryTargets,
+  saving,
+  onTargetFoodCostChange,
+  onMenuVatRateChange,
+  onPriceRoundingChange,
+  onCategoryTargetsChange,
+  onSave,
+}: PricingSettingsSectionProps) {
+  const updateTarget = (id: string, patch: Partial<CategoryTargetDraft>) => {
+    onCategoryTargetsChange(categoryTargets.map((entry) => (entry.id === id ? { ...entry, ...patch } : entry)));
+  };
+
+  return (
+    <div>
+      <h2 className="ios-caption-upper app-muted mb-2">Food cost & prix de vente</h2>
+      <div className="rounded-2xl glass-card glass-panel overflow-hidden">
+        <div className="ios-settings-row grid grid-cols-2 gap-3">
+          <div className="space-y-1.5">
+            <label className="text-[14px] app-text">Food cost cible (%)</label>
+            <input
+              type="number"
+              min="1"
+              max="99"
+              value={targetFoodCost}
+              onChange={(e) => onTargetFoodCostChange(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <label className="text-[14px] app-text">TVA carte (%)</label>
+            <input
+              type="number"
+              min="0"
+              max="99"
+              step="0.1"
+              value={menuVatRate}
+              onChange={(e) => onMenuVatRateChange(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <div className="ios-settings-separator" />
+        <div className="ios-settings-row flex-col items-stretch gap-1.5">
+          <label className="text-[14px] app-text">Arrondi des prix TTC</label>
+          <select
+            value={priceRounding}
+            onChange={(e) => onPriceRoundingChange(e.target.value as PriceRoundingRule)}
+            className={inputClass}
+          >
+            {(Object.keys(PRICE_ROUNDING_LABELS) as PriceRoundingRule[]).map((rule) => (
+              <option key={rule} value={rule}>{PRICE_ROUNDING_LABELS[rule]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="ios-settings-separator" />
+        <div className="ios-settings-row flex-col items-stretch gap-2">
+          <div className="flex items-center justify-between">
+            <label className="text-[14px] app-text">Objectifs par categorie</label>
+            <button
+              type="button"
+              onClick={() => onCategoryTargetsChange([...categoryTargets, { id: crypto.randomUUID(), category: '', rate: '' }])}
+              className="text-[13px] font-semibold text-[color:var(--app-accent)] active:opacity-70"
+            >
+              + Categorie
+            </button>
+          </div>
+          {categoryTargets.length === 0 && (
+            <p className="ios-caption app-muted">L'objectif global s'applique a toutes les recettes.</p>
+          )}
+          {categoryTargets.map((entry) => (
+            <div key={entry.id} className="grid grid-cols-[1fr,80px,auto] gap-2 items-center">
+              <input
+                type="text"
+                value={entry.category}
+                onChange={(e) => updateTarget(entry.id, { category: e.target.value })}
+                placeholder="Ex: Desserts"
+                className={inputClass}
+              />
+              <input
+                type="number"
+                min="1"
+                max="99"
+                value={entry.rate}
+                onChange={(e) => updateTarget(entry.id, { rate: e.target.value })}
+                placeholder="%"
+                className={inputClass}
+              />
+              <button
+                type="button"
+                onClick={() => onCategoryTargetsChange(categoryTargets.filter((item) => item.id !== entry.id))}
+                className="px-2 text-[13px] text-[color:var(--app-danger)] active:opacity-70"
+              >
+                Suppr.
+              </button>
+            </div>
+          ))}
+          <p className="ios-caption app-muted">La categorie se choisit dans chaque fiche recette.</p>
+        </div>
+        <div className="px-4 py-3">
+          <button
+            onClick={onSave}
+            disabled={saving}
+            className={cn(
+              'w-full py-2.5 rounded-xl text-[14px] font-semibold transition-opacity active:opacity-70',
+              saving ? 'app-surface-2 app-muted cursor-not-allowed' : 'app-accent-bg',
+            )}
+          >
+            {saving ? 'Enregistrement...' : 'Enregistrer'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
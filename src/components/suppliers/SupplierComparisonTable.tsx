@@ -0,0 +1,91 @@
+import type { SupplierScorecard } from '../../services/supplierScorecard';
+import { cn } from '../../utils';
+
+function formatEuro(value: number): string {
+  return new Intl.NumberFormat('fr-FR', {
+    style: 'currency',
+    currency: 'EUR',
+    maximumFractionDigits: value >= 1000 ? 0 : 2,
+  }).format(value);
+}
+
+function formatRate(value: number | null): string {
+  return value === null ? '-' : `${Math.round(value * 100)}%`;
+}
+
+/** Same thresholds as the fill rate panel of the orders page. */
+function rateClassName(value: number | null): string {
+  if (value === null) return 'app-muted';
+  if (value >= 0.95) return 'text-[color:var(--app-success)]';
+  return value >= 0.8 ? 'text-[color:var(--app-warning)]' : 'text-[color:var(--app-danger)]';
+}
+
+interface SupplierComparisonTableProps {
+  scorecards: SupplierScorecard[];
+  selectedKey: string | null;
+  onSelect: (key: string) => void;
+}
+
+export default function SupplierComparisonTable({ scorecards, selectedKey, onSelect }: SupplierComparisonTableProps) {
+  if (scorecards.length === 0) {
+    return <p className="text-sm app-muted text-center py-6">Aucune activite fournisseur sur la periode.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left ios-caption app-muted border-b app-border">
+            <th className="py-2 pr-3 font-medium">Fournisseur</th>
+            <th className="py-2 px-2 font-medium text-right">Depenses</th>
+            <th className="py-2 px-2 font-medium text-right">Part</th>
+            <th className="py-2 px-2 font-medium text-right">A l'heure</th>
+            <th className="py-2 px-2 font-medium text-right">Retard moy.</th>
+            <th className="py-2 px-2 font-medium text-right">Service</th>
+            <th className="py-2 px-2 font-medium text-right">Volatilite</th>
+            <th className="py-2 px-2 font-medium text-right">Ecarts fact.</th>
+            <th className="py-2 pl-2 font-medium text-right">Non-conf.</th>
+          </tr>
+        </thead>
+        <tbody>
+          {scorecards.map((row) => (
+            <tr
+              key={row.key}
+              onClick={() => onSelect(row.key)}
+              className={cn(
+                'border-b app-border cursor-pointer',
+                row.key === selectedKey && 'app-surface-2',
+              )}
+            >
+              <td className="py-2 pr-3 font-semibold app-text whitespace-nowrap">{row.supplier}</td>
+              <td className="py-2 px-2 text-right app-text whitespace-nowrap">{formatEuro(row.spendHT)}</td>
+              <td className="py-2 px-2 text-right app-muted">{Math.round(row.spendShare * 100)}%</td>
+              <td className={cn('py-2 px-2 text-right font-semibold', rateClassName(row.onTimeRate))}>
+                {formatRate(row.onTimeRate)}
+              </td>
+              <td className="py-2 px-2 text-right app-muted whitespace-nowrap">
+                {row.averageLatenessDays === null ? '-' : `${row.averageLatenessDays.toFixed(1)} j`}
+              </td>
+              <td className={cn('py-2 px-2 text-right font-semibold', rateClassName(row.fillRate))}>
+                {formatRate(row.fillRate)}
+              </td>
+              <td className="py-2 px-2 text-right app-muted">
+                {row.priceVolatility === null ? '-' : `${row.priceVolatility.toFixed(1)}%`}
+              </td>
+              <td className="py-2 px-2 text-right whitespace-nowrap">
+                <span className={row.discrepantOrders > 0 ? 'text-[color:var(--app-danger)]' : 'app-muted'}>
+                  {row.discrepantOrders}/{row.reconciledOrders}
+                </span>
+              </td>
+              <td className="py-2 pl-2 text-right">
+                <span className={row.nonConformities > 0 ? 'text-[color:var(--app-danger)]' : 'app-muted'}>
+                  {row.nonConformities}
+                </span>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
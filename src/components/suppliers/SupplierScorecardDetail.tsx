@@ -0,0 +1,163 @@
+import { useMemo } from 'react';
+import { Bar, BarChart, CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import AnalyticsKpiRow, { type AnalyticsKpiItem } from '../analytics/AnalyticsKpiRow';
+import type { SupplierScorecard, SupplierTrendPoint } from '../../services/supplierScorecard';
+
+function formatEuro(value: number): string {
+  return new Intl.NumberFormat('fr-FR', {
+    style: 'currency',
+    currency: 'EUR',
+    maximumFractionDigits: value >= 1000 ? 0 : 2,
+  }).format(value);
+}
+
+/** Same thresholds as the fill rate panel of the orders page. */
+function rateColor(value: number | null): string | undefined {
+  if (value === null) return undefined;
+  if (value >= 0.95) return 'var(--app-success)';
+  return value >= 0.8 ? 'var(--app-warning)' : 'var(--app-danger)';
+}
+
+const TOOLTIP_STYLE = {
+  backgroundColor: 'var(--app-surface)',
+  border: '1px solid var(--app-border)',
+  borderRadius: '10px',
+  fontSize: '13px',
+  color: 'var(--app-text)',
+};
+
+const AXIS_TICK = { fontSize: 11, fill: 'var(--app-muted)' };
+
+interface SupplierScorecardDetailProps {
+  scorecard: SupplierScorecard;
+  trend: SupplierTrendPoint[];
+}
+
+export default function SupplierScorecardDetail({ scorecard, trend }: SupplierScorecardDetailProps) {
+  const kpiItems: AnalyticsKpiItem[] = useMemo(
+    () => [
+      {
+        label: 'Livraisons a l\'heure',
+        value: scorecard.onTimeRate === null ? '-' : `${Math.round(scorecard.onTimeRate * 100)}%`,
+        sub: `${scorecard.onTimeDeliveries}/${scorecard.measuredDeliveries} livraisons datees`,
+        color: rateColor(scorecard.onTimeRate),
+      },
+      {
+        label: 'Retard moyen',
+        value: scorecard.averageLatenessDays === null ? '-' : `${scorecard.averageLatenessDays.toFixed(1)} j`,
+        sub: 'Sur les livraisons en retard',
+      },
+      {
+        label: 'Volatilite prix',
+        value: scorecard.priceVolatility === null ? '-' : `${scorecard.priceVolatility.toFixed(1)}%`,
+        sub: 'Variation moyenne par produit',
+      },
+      {
+        label: 'Part des depenses',
+        value: `${Math.round(scorecard.spendShare * 100)}%`,
+        sub: formatEuro(scorecard.spendHT),
+        color: 'var(--app-accent)',
+      },
+      {
+        label: 'Ecarts facture/commande',
+        value: `${scorecard.discrepantOrders}/${scorecard.reconciledOrders}`,
+        sub: scorecard.disputeTotal > 0 ? `${formatEuro(scorecard.disputeTotal)} a contester` : 'Aucun montant conteste',
+        color: scorecard.discrepantOrders > 0 ? 'var(--app-danger)' : undefined,
+      },
+      {
+        label: 'Non-conformites',
+        value: scorecard.nonConformities,
+        sub: `${scorecard.rejectedLines} refus a la livraison`,
+        color: scorecard.nonConformities > 0 ? 'var(--app-danger)' : 'var(--app-success)',
+      },
+      {
+        label: 'Taux de service',
+        value: scorecard.fillRate === null ? '-' : `${Math.round(scorecard.fillRate * 100)}%`,
+        sub: 'Quantites acceptees / commandees',
+        color: rateColor(scorecard.fillRate),
+      },
+      {
+        label: 'Commandes',
+        value: scorecard.orders,
+        sub: 'Passees sur la periode',
+      },
+    ],
+    [scorecard],
+  );
+
+  return (
+    <div className="space-y-3">
+      <AnalyticsKpiRow items={kpiItems} />
+
+      <div className="grid gap-3 lg:grid-cols-2">
+        <div className="app-card p-3 sm:p-4">
+          <h3 className="ios-caption-upper mb-2">Depenses mensuelles</h3>
+          <ResponsiveContainer width="100%" height={200}>
+            <BarChart data={trend}>
+              <CartesianGrid strokeDasharray="3 3" stroke="var(--app-border)" />
+              <XAxis dataKey="month" tick={AXIS_TICK} />
+              <YAxis tick={AXIS_TICK} tickFormatter={(value: number) => `${Math.round(value)} EUR`} />
+              <Tooltip
+                contentStyle={TOOLTIP_STYLE}
+                formatter={(value: number | undefined) => [formatEuro(value ?? 0), 'Depenses HT']}
+              />
+              <Bar dataKey="spendHT" fill="var(--app-accent)" radius={[8, 8, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="app-card p-3 sm:p-4">
+          <h3 className="ios-caption-upper mb-2">Ponctualite et volatilite (%)</h3>
+          <ResponsiveContainer width="100%" height={200}>
+            <LineChart data={trend}>
+              <CartesianGrid strokeDasharray="3 3" stroke="var(--app-border)" />
+              <XAxis dataKey="month" tick={AXIS_TICK} />
+              <YAxis tick={AXIS_TICK} />
+              <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(value: number | undefined) => `${value ?? 0}%`} />
+              <Legend wrapperStyle={{ fontSize: 11 }} />
+              <Line
+                type="monotone"
+                dataKey="onTimeRate"
+                name="A l'heure"
+                stroke="var(--app-success)"
+                strokeWidth={2.4}
+                connectNulls
+                dot={{ r: 3 }}
+              />
+              <Line
+                type="monotone"
+                dataKey="priceVolatility"
+                name="Volatilite prix"
+                stroke="var(--app-warning)"
+                strokeWidth={2.4}
+                connectNulls
+                dot={{ r: 3 }}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="app-card p-3 sm:p-4 lg:col-span-2">
+          <h3 className="ios-caption-upper mb-2">Non-conformites et montants contestes</h3>
+          <ResponsiveContainer width="100%" height={200}>
+            <BarChart data={trend}>
+              <CartesianGrid strokeDasharray="3 3" stroke="var(--app-border)" />
+              <XAxis dataKey="month" tick={AXIS_TICK} />
+              <YAxis yAxisId="count" allowDecimals={false} tick={AXIS_TICK} />
+              <YAxis yAxisId="amount" orientation="right" tick={AXIS_TICK} />
+              <Tooltip
+                contentStyle={TOOLTIP_STYLE}
+                formatter={(value: number | undefined, name: string | undefined) =>
+                  name === 'Contestes' ? formatEuro(value ?? 0) : (value ?? 0)
+                }
+              />
+              <Legend wrapperStyle={{ fontSize: 11 }} />
+              <Bar yAxisId="count" dataKey="nonConformities" name="Non-conformites" fill="var(--app-danger)" radius={[6, 6, 0, 0]} />
+              <Bar yAxisId="amount" dataKey="disputeTotal" name="Contestes" fill="var(--app-warning)" radius={[6, 6, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+}
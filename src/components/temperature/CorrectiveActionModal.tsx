@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import Modal from '../common/Modal';
+import { CORRECTIVE_ACTION_LABELS, DEFAULT_RECHECK_DELAY_MINUTES } from '../../types';
+import type { CorrectiveAction, CorrectiveActionType, Equipment, TemperatureRecord } from '../../types';
+import { cn, sanitizeInput } from '../../utils';
+
+interface CorrectiveActionModalProps {
+  record: TemperatureRecord;
+  equipment: Equipment;
+  onSkip: () => void;
+  onSubmit: (action: CorrectiveAction) => Promise<void> | void;
+}
+
+const ACTION_KEYS = Object.keys(CORRECTIVE_ACTION_LABELS) as CorrectiveActionType[];
+
+const RECHECK_DELAYS: { minutes: number; label: string }[] = [
+  { minutes: 30, label: '30 min' },
+  { minutes: 60, label: '1 h' },
+  { minutes: 120, label: '2 h' },
+];
+
+export default function CorrectiveActionModal({ record, equipment, onSkip, onSubmit }: CorrectiveActionModalProps) {
+  const [action, setAction] = useState<CorrectiveActionType | null>(null);
+  const [recheckMinutes, setRecheckMinutes] = useState(DEFAULT_RECHECK_DELAY_MINUTES);
+  const [notes, setNotes] = useState('');
+  const [operator, setOperator] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!action || saving) return;
+    const createdAt = new Date();
+    setSaving(true);
+    try {
+      await onSubmit({
+        id: crypto.randomUUID(),
+        temperatureRecordId: record.id,
+        equipmentId: equipment.id,
+        action,
+        notes: notes.trim() || undefined,
+        operator: operator.trim() || undefined,
+        createdAt,
+        recheckDueAt: new Date(createdAt.getTime() + recheckMinutes * 60 * 1000),
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onSkip} title="Action corrective" size="sm">
+      <div className="space-y-4">
+        <div className="rounded-xl p-3 bg-[color:var(--app-danger)]/10 border border-[color:var(--app-danger)]/30">
+          <p className="font-semibold app-text">{equipment.name}</p>
+          <p className="ios-caption app-muted">
+            {record.temperature}°C releve &middot; plage {equipment.minTemp}°C ~ {equipment.maxTemp}°C
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <p className="ios-caption font-medium app-muted">Action menee</p>
+          <div className="grid grid-cols-2 gap-2">
+            {ACTION_KEYS.map((key) => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => setAction(key)}
+                aria-pressed={action === key}
+                className={cn(
+                  'min-h-[48px] rounded-xl px-3 text-[14px] font-semibold transition-opacity active:opacity-70',
+                  action === key ? 'app-accent-bg' : 'app-surface-2 app-text',
+                )}
+              >
+                {CORRECTIVE_ACTION_LABELS[key]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <p className="ios-caption font-medium app-muted">Contre-controle obligatoire dans</p>
+          <div className="pill-toggle">
+            {RECHECK_DELAYS.map((delay) => (
+              <button
+                key={delay.minutes}
+                type="button"
+                onClick={() => setRecheckMinutes(delay.minutes)}
+                className={cn('pill-toggle-btn', recheckMinutes === delay.minutes && 'active')}
+              >
+                {delay.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="block ios-caption font-medium app-muted mb-1">Operateur</label>
+          <input
+            type="text"
+            value={operator}
+            onChange={(e) => setOperator(sanitizeInput(e.target.value))}
+            placeholder="Initiales"
+            className="app-input"
+          />
+        </div>
+
+        <div>
+          <label className="block ios-caption font-medium app-muted mb-1">Commentaire</label>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(sanitizeInput(e.target.value))}
+            rows={2}
+            placeholder="Ex: produits transferes en chambre froide"
+            className="app-input"
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            type="button"
+            onClick={onSkip}
+            className="min-h-[48px] rounded-xl text-[15px] font-semibold app-surface-2 app-text active:opacity-70"
+          >
+            Plus tard
+          </button>
+          <button
+            type="button"
+            onClick={handleSubmit}
+            disabled={!action || saving}
+            className={cn(
+              'min-h-[48px] rounded-xl text-[15px] font-bold app-accent-bg active:opacity-70',
+              (!action || saving) && 'opacity-40 cursor-not-allowed',
+            )}
+          >
+            {saving ? 'Envoi...' : 'Enregistrer'}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -2,8 +2,9 @@ import { useState } from 'react';
 import { useAppStore } from '../../stores/appStore';
 import { showError } from '../../stores/toastStore';
 import { EQUIPMENT_TYPES } from '../../types';
-import type { Equipment } from '../../types';
+import type { Equipment, EquipmentCheckSchedule, EquipmentCheckSlot } from '../../types';
 import { sanitizeInput } from '../../utils';
+import { formatCheckSchedule, getCheckSchedule, parseSlotTime } from '../../services/checkSchedule';
 
 interface Props {
   onClose: () => void;
@@ -17,9 +18,41 @@ interface FormState {
   type: EquipmentType;
   minTemp: string;
   maxTemp: string;
+  scheduleMode: EquipmentCheckSchedule['mode'];
+  timesPerDay: string;
+  slots: EquipmentCheckSlot[];
 }
 
-const emptyForm: FormState = { name: '', type: 'fridge', minTemp: '', maxTemp: '' };
+const emptyForm: FormState = {
+  name: '',
+  type: 'fridge',
+  minTemp: '',
+  maxTemp: '',
+  scheduleMode: 'per_day',
+  timesPerDay: '1',
+  slots: [
+    { time: '08:00', label: 'Ouverture' },
+    { time: '22:00', label: 'Fermeture' },
+  ],
+};
+
+const inputClass =
+  'w-full rounded-lg border app-border app-surface-2 app-text px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[color:var(--app-accent)]';
+
+function buildSchedule(form: FormState): EquipmentCheckSchedule | string {
+  if (form.scheduleMode === 'per_day') {
+    const timesPerDay = parseInt(form.timesPerDay, 10);
+    if (isNaN(timesPerDay) || timesPerDay < 1 || timesPerDay > 12) {
+      return 'Le nombre de releves par jour doit etre entre 1 et 12';
+    }
+    return { mode: 'per_day', timesPerDay };
+  }
+  const slots = form.slots.map(slot => ({ time: slot.time, label: slot.label?.trim() || undefined }));
+  if (slots.length === 0) return 'Ajoutez au moins un creneau';
+  if (slots.some(slot => parseSlotTime(slot.time) === null)) return 'Heure de creneau invalide';
+  if (new Set(slots.map(slot => slot.time)).size !== slots.length) return 'Deux creneaux ont la meme heure';
+  return { mode: 'slots', slots: [...slots].sort((a, b) => a.time.localeCompare(b.time)) };
+}
 
 export default function EquipmentManager({ onClose }: Props) {
   const equipment = useAppStore(s => s.equipment);
@@ -41,11 +74,15 @@ export default function EquipmentManager({ onClose }: Props) {
   };
 
   const startEdit = (eq: Equipment) => {
+    const schedule = getCheckSchedule(eq);
     setForm({
       name: sanitizeInput(eq.name),
       type: eq.type,
       minTemp: String(eq.minTemp),
       maxTemp: String(eq.maxTemp),
+      scheduleMode: schedule.mode,
+      timesPerDay: schedule.mode === 'per_day' ? String(schedule.timesPerDay) : emptyForm.timesPerDay,
+      slots: schedule.mode === 'slots' ? schedule.slots : emptyForm.slots,
     });
     setEditingId(eq.id);
     setShowForm(true);
@@ -68,6 +105,11 @@ export default function EquipmentManager({ onClose }: Props) {
       setError('La temperature min doit etre inferieure a la max');
       return;
     }
+    const checkSchedule = buildSchedule(form);
+    if (typeof checkSchedule === 'string') {
+      setError(checkSchedule);
+      return;
+    }
 
     setSaving(true);
     try {
@@ -80,6 +122,7 @@ export default function EquipmentManager({ onClose }: Props) {
           type: form.type,
           minTemp,
           maxTemp,
+          checkSchedule,
         });
       } else {
         await addEquipment({
@@ -89,6 +132,7 @@ export default function EquipmentManager({ onClose }: Props) {
           minTemp,
           maxTemp,
           order: equipment.length,
+          checkSchedule,
         });
       }
       resetForm();
@@ -145,6 +189,7 @@ export default function EquipmentManager({ onClose }: Props) {
                 <p className="text-xs app-muted">
                   {EQUIPMENT_TYPES[eq.type]} &middot; {eq.minTemp}°C ~ {eq.maxTemp}°C
                 </p>
+                <p className="text-xs app-muted">Controles : {formatCheckSchedule(getCheckSchedule(eq))}</p>
               </div>
               <div className="flex items-center gap-1">
                 <button
@@ -200,7 +245,7 @@ export default function EquipmentManager({ onClose }: Props) {
                   value={form.name}
                   onChange={e => setForm(prev => ({ ...prev, name: sanitizeInput(e.target.value) }))}
                   placeholder="Ex: Frigo cuisine"
-                  className="w-full rounded-lg border app-border app-surface-2 app-text px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[color:var(--app-accent)]"
+                  className={inputClass}
                 />
               </div>
 
@@ -209,7 +254,7 @@ export default function EquipmentManager({ onClose }: Props) {
                 <select
                   value={form.type}
                   onChange={e => setForm(prev => ({ ...prev, type: e.target.value as EquipmentType }))}
-                  className="w-full rounded-lg border app-border app-surface-2 app-text px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[color:var(--app-accent)]"
+                  className={inputClass}
                 >
                   {EQUIPMENT_TYPE_KEYS.map(key => (
                     <option key={key} value={key}>{EQUIPMENT_TYPES[key]}</option>
@@ -226,7 +271,7 @@ export default function EquipmentManager({ onClose }: Props) {
                     value={form.minTemp}
                     onChange={e => setForm(prev => ({ ...prev, minTemp: e.target.value }))}
                     placeholder="-18"
-                    className="w-full rounded-lg border app-border app-surface-2 app-text px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[color:var(--app-accent)]"
+                    className={inputClass}
                   />
                 </div>
                 <div>
@@ -237,11 +282,90 @@ export default function EquipmentManager({ onClose }: Props) {
                     value={form.maxTemp}
                     onChange={e => setForm(prev => ({ ...prev, maxTemp: e.target.value }))}
                     placeholder="4"
-                    className="w-full rounded-lg border app-border app-surface-2 app-text px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[color:var(--app-accent)]"
+                    className={inputClass}
                   />
                 </div>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium app-muted mb-1">Planning des releves</label>
+                <select
+                  value={form.scheduleMode}
+                  onChange={e =>
+                    setForm(prev => ({ ...prev, scheduleMode: e.target.value as EquipmentCheckSchedule['mode'] }))
+                  }
+                  className={inputClass}
+                >
+                  <option value="per_day">Nombre par jour</option>
+                  <option value="slots">Creneaux horaires</option>
+                </select>
+              </div>
+
+              {form.scheduleMode === 'per_day' ? (
+                <div>
+                  <label className="block text-sm font-medium app-muted mb-1">Releves par jour</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={12}
+                    step={1}
+                    value={form.timesPerDay}
+                    onChange={e => setForm(prev => ({ ...prev, timesPerDay: e.target.value }))}
+                    className={inputClass}
+                  />
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {form.slots.map((slot, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <input
+                        type="time"
+                        value={slot.time}
+                        onChange={e =>
+                          setForm(prev => ({
+                            ...prev,
+                            slots: prev.slots.map((item, i) => (i === index ? { ...item, time: e.target.value } : item)),
+                          }))
+                        }
+                        className={`${inputClass} !w-28`}
+                        aria-label={`Heure du creneau ${index + 1}`}
+                      />
+                      <input
+                        type="text"
+                        value={slot.label ?? ''}
+                        onChange={e =>
+                          setForm(prev => ({
+                            ...prev,
+                            slots: prev.slots.map((item, i) =>
+                              i === index ? { ...item, label: sanitizeInput(e.target.value) } : item,
+                            ),
+                          }))
+                        }
+                        placeholder="Libelle (ex: Ouverture)"
+                        className={inputClass}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setForm(prev => ({ ...prev, slots: prev.slots.filter((_, i) => i !== index) }))}
+                        className="p-2 rounded-lg text-[color:var(--app-danger)] active:opacity-70"
+                        aria-label={`Supprimer le creneau ${index + 1}`}
+                      >
+                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => setForm(prev => ({ ...prev, slots: [...prev.slots, { time: '12:00' }] }))}
+                    className="text-sm font-semibold text-[color:var(--app-accent)] active:opacity-70"
+                  >
+                    + Ajouter un creneau
+                  </button>
+                </div>
+              )}
+
               {error && <p className="text-sm text-[color:var(--app-danger)]">{error}</p>}
 
               <div className="flex gap-2">
@@ -0,0 +1,302 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { format, startOfDay, subDays } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { useAppStore } from '../../stores/appStore';
+import { showError, showSuccess } from '../../stores/toastStore';
+import { PROCESS_TEMPERATURE_LABELS } from '../../types';
+import type { ProcessTemperatureLog, ProcessTemperatureType } from '../../types';
+import {
+  evaluateProcessLog,
+  formatElapsedMinutes,
+  PROCESS_RULES,
+  type ProcessLogStatus,
+} from '../../services/processTemperature';
+import { cn, sanitizeInput } from '../../utils';
+
+const PROCESS_TYPES = Object.keys(PROCESS_TEMPERATURE_LABELS) as ProcessTemperatureType[];
+const HISTORY_DAYS = 7;
+
+const STATUS_STYLES: Record<ProcessLogStatus, { label: string; className: string }> = {
+  in_progress: { label: 'En cours', className: 'app-chip' },
+  overdue: {
+    label: 'Delai depasse',
+    className: 'bg-[color:var(--app-warning)]/15 text-[color:var(--app-warning)]',
+  },
+  compliant: {
+    label: 'Conforme',
+    className: 'bg-[color:var(--app-success)]/15 text-[color:var(--app-success)]',
+  },
+  non_compliant: {
+    label: 'Non conforme',
+    className: 'bg-[color:var(--app-danger)]/15 text-[color:var(--app-danger)]',
+  },
+};
+
+function parseProbe(value: string): number | null {
+  const parsed = Number.parseFloat(value.replace(',', '.'));
+  if (!Number.isFinite(parsed) || parsed < -50 || parsed > 300) return null;
+  return parsed;
+}
+
+export default function ProcessTemperatureTracker() {
+  const getProcessTemperatureLogs = useAppStore((s) => s.getProcessTemperatureLogs);
+  const saveProcessTemperatureLog = useAppStore((s) => s.saveProcessTemperatureLog);
+  const removeProcessTemperatureLog = useAppStore((s) => s.removeProcessTemperatureLog);
+
+  const [processType, setProcessType] = useState<ProcessTemperatureType>('cooling');
+  const [productName, setProductName] = useState('');
+  const [startTemperature, setStartTemperature] = useState('');
+  const [operator, setOperator] = useState('');
+  const [endTemperatures, setEndTemperatures] = useState<Record<string, string>>({});
+  const [logs, setLogs] = useState<ProcessTemperatureLog[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+
+  const loadLogs = useCallback(async () => {
+    setLoading(true);
+    try {
+      setLogs(await getProcessTemperatureLogs(startOfDay(subDays(new Date(), HISTORY_DAYS))));
+    } catch {
+      showError('Impossible de charger les releves de process');
+    } finally {
+      setLoading(false);
+    }
+  }, [getProcessTemperatureLogs]);
+
+  useEffect(() => {
+    void loadLogs();
+  }, [loadLogs]);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), 60_000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const openLogs = useMemo(() => logs.filter((log) => !log.endedAt), [logs]);
+  const closedLogs = useMemo(() => logs.filter((log) => log.endedAt), [logs]);
+
+  const handleStart = async () => {
+    if (saving) return;
+    const name = productName.trim();
+    const temperature = parseProbe(startTemperature);
+    if (!name) {
+      showError('Indiquez le produit');
+      return;
+    }
+    if (temperature === null) {
+      showError('Temperature de depart invalide');
+      return;
+    }
+    setSaving(true);
+    try {
+      await saveProcessTemperatureLog({
+        id: crypto.randomUUID(),
+        processType,
+        productName: name,
+        startedAt: new Date(),
+        startTemperature: temperature,
+        operator: operator.trim() || undefined,
+      });
+      setProductName('');
+      setStartTemperature('');
+      showSuccess(`${PROCESS_TEMPERATURE_LABELS[processType]} demarre`);
+      await loadLogs();
+    } catch {
+      showError('Impossible d enregistrer le releve');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleClose = async (log: ProcessTemperatureLog) => {
+    const temperature = parseProbe(endTemperatures[log.id] ?? '');
+    if (temperature === null) {
+      showError('Temperature de fin invalide');
+      return;
+    }
+    try {
+      const saved = await saveProcessTemperatureLog({ ...log, endedAt: new Date(), endTemperature: temperature });
+      setEndTemperatures((prev) => {
+        const next = { ...prev };
+        delete next[log.id];
+        return next;
+      });
+      if (saved.isCompliant) showSuccess('Process conforme');
+      else showError(`Process non conforme : ${evaluateProcessLog(saved).reasons.join(', ')}`);
+      await loadLogs();
+    } catch {
+      showError('Impossible de cloturer le releve');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await removeProcessTemperatureLog(id);
+      setLogs((prev) => prev.filter((log) => log.id !== id));
+    } catch {
+      showError('Impossible de supprimer le releve');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="app-card rounded-2xl p-4 space-y-3">
+        <div className="pill-toggle">
+          {PROCESS_TYPES.map((type) => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => setProcessType(type)}
+              className={cn('pill-toggle-btn', processType === type && 'active')}
+            >
+              {PROCESS_TEMPERATURE_LABELS[type]}
+            </button>
+          ))}
+        </div>
+        <p className="ios-caption app-muted">Regle : {PROCESS_RULES[processType].summary}</p>
+
+        <div>
+          <label className="block ios-caption font-medium app-muted mb-1">Produit</label>
+          <input
+            type="text"
+            value={productName}
+            onChange={(e) => setProductName(sanitizeInput(e.target.value))}
+            placeholder="Ex: Blanquette de veau"
+            className="app-input"
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block ios-caption font-medium app-muted mb-1">Sonde de depart (°C)</label>
+            <input
+              type="number"
+              inputMode="decimal"
+              step="0.1"
+              value={startTemperature}
+              onChange={(e) => setStartTemperature(e.target.value)}
+              placeholder={processType === 'reheating' ? '4' : '65'}
+              className="app-input"
+            />
+          </div>
+          <div>
+            <label className="block ios-caption font-medium app-muted mb-1">Operateur</label>
+            <input
+              type="text"
+              value={operator}
+              onChange={(e) => setOperator(sanitizeInput(e.target.value))}
+              placeholder="Initiales"
+              className="app-input"
+            />
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={handleStart}
+          disabled={saving}
+          className={cn(
+            'w-full min-h-[48px] rounded-xl text-[15px] font-bold app-accent-bg active:opacity-70',
+            saving && 'opacity-40 cursor-not-allowed',
+          )}
+        >
+          {saving ? 'Enregistrement...' : 'Demarrer le releve'}
+        </button>
+      </div>
+
+      <section className="space-y-2">
+        <h3 className="ios-title3 app-text">En cours ({openLogs.length})</h3>
+        {openLogs.length === 0 ? (
+          <p className="ios-body app-muted italic">{loading ? 'Chargement...' : 'Aucun process en cours'}</p>
+        ) : (
+          openLogs.map((log) => {
+            const evaluation = evaluateProcessLog(log, now);
+            const status = STATUS_STYLES[evaluation.status];
+            return (
+              <div key={log.id} className="app-card rounded-2xl p-4 space-y-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-bold app-text text-[17px] truncate">{log.productName}</p>
+                    <p className="ios-caption app-muted">
+                      {PROCESS_TEMPERATURE_LABELS[log.processType]} &middot; {log.startTemperature}°C a{' '}
+                      {format(new Date(log.startedAt), 'HH:mm', { locale: fr })} &middot;{' '}
+                      {formatElapsedMinutes(evaluation.elapsedMinutes)}
+                    </p>
+                    {evaluation.reasons.length > 0 && (
+                      <p className="ios-caption text-[color:var(--app-danger)]">{evaluation.reasons.join(', ')}</p>
+                    )}
+                  </div>
+                  <span className={cn('shrink-0 text-[12px] px-2 py-0.5 rounded-full font-medium', status.className)}>
+                    {status.label}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    step="0.1"
+                    value={endTemperatures[log.id] ?? ''}
+                    onChange={(e) => setEndTemperatures((prev) => ({ ...prev, [log.id]: e.target.value }))}
+                    placeholder="Sonde de fin (°C)"
+                    aria-label={`Sonde de fin ${log.productName}`}
+                    className="app-input flex-1"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => handleClose(log)}
+                    className="min-h-[44px] px-4 rounded-xl text-[14px] font-bold app-accent-bg active:opacity-70"
+                  >
+                    Cloturer
+                  </button>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </section>
+
+      <section className="space-y-2">
+        <h3 className="ios-title3 app-text">Historique ({HISTORY_DAYS} jours)</h3>
+        {closedLogs.length === 0 ? (
+          <p className="ios-body app-muted italic">Aucun process cloture</p>
+        ) : (
+          closedLogs.map((log) => {
+            const evaluation = evaluateProcessLog(log);
+            const status = STATUS_STYLES[evaluation.status];
+            return (
+              <div key={log.id} className="app-card rounded-2xl p-3 flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-semibold app-text truncate">{log.productName}</p>
+                  <p className="ios-caption app-muted">
+                    {PROCESS_TEMPERATURE_LABELS[log.processType]} &middot;{' '}
+                    {format(new Date(log.startedAt), 'dd/MM HH:mm', { locale: fr })} &middot; {log.startTemperature}°C
+                    {' -> '}
+                    {log.endTemperature}°C en {formatElapsedMinutes(evaluation.elapsedMinutes)}
+                    {log.operator ? ` · ${log.operator}` : ''}
+                  </p>
+                  {evaluation.reasons.length > 0 && (
+                    <p className="ios-caption text-[color:var(--app-danger)]">{evaluation.reasons.join(', ')}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <span className={cn('text-[12px] px-2 py-0.5 rounded-full font-medium', status.className)}>
+                    {status.label}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(log.id)}
+                    className="p-2 rounded-lg text-[color:var(--app-danger)] active:opacity-70"
+                    aria-label={`Supprimer ${log.productName}`}
+                  >
+                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </section>
+    </div>
+  );
+}
@@ -2,9 +2,11 @@ import { useState, useEffect, useMemo } from 'react';
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, getDay, isSameDay, startOfDay, endOfDay, addMonths, subMonths } from 'date-fns';
 import { fr } from 'date-fns/locale';
 import { useAppStore } from '../../stores/appStore';
-import { EQUIPMENT_TYPES } from '../../types';
-import type { TemperatureRecord } from '../../types';
+import { showError, showSuccess } from '../../stores/toastStore';
+import { CORRECTIVE_ACTION_LABELS, EQUIPMENT_TYPES, PENDING_CORRECTIVE_ACTION_LABEL } from '../../types';
+import type { CorrectiveAction, TemperatureRecord } from '../../types';
 import { cn } from '../../utils';
+import CorrectiveActionModal from './CorrectiveActionModal';
 
 const DAY_LABELS = ['Lun', 'Mar', 'Mer', 'Jeu', 'Ven', 'Sam', 'Dim'];
 
@@ -12,6 +14,11 @@ export default function TemperatureHistory() {
   const equipment = useAppStore(s => s.equipment);
   const loadEquipment = useAppStore(s => s.loadEquipment);
   const getTemperatureRecords = useAppStore(s => s.getTemperatureRecords);
+  const getCorrectiveActions = useAppStore(s => s.getCorrectiveActions);
+  const addCorrectiveAction = useAppStore(s => s.addCorrectiveAction);
+  const [correctiveActions, setCorrectiveActions] = useState<CorrectiveAction[]>([]);
+  const [treatingRecord, setTreatingRecord] = useState<TemperatureRecord | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [currentMonth, setCurrentMonth] = useState<Date>(new Date());
   const [records, setRecords] = useState<TemperatureRecord[]>([]);
@@ -39,14 +46,29 @@ export default function TemperatureHistory() {
     }
 
     const load = async () => {
-      const data = await getTemperatureRecords(start, end, filterEquipmentId || undefined);
-      if (!cancelled) setRecords(data);
+      const [data, actions] = await Promise.all([
+        getTemperatureRecords(start, end, filterEquipmentId || undefined),
+        // Actions are logged after the reading, so look a day past the range end.
+        getCorrectiveActions(start, new Date(end.getTime() + 24 * 60 * 60 * 1000), filterEquipmentId || undefined),
+      ]);
+      if (cancelled) return;
+      setRecords(data);
+      setCorrectiveActions(actions);
     };
     void load();
     return () => {
       cancelled = true;
     };
-  }, [selectedDate, filterEquipmentId, getTemperatureRecords, dateRangeMode, rangeStart, rangeEnd]);
+  }, [
+    selectedDate,
+    filterEquipmentId,
+    getTemperatureRecords,
+    getCorrectiveActions,
+    dateRangeMode,
+    rangeStart,
+    rangeEnd,
+    reloadKey,
+  ]);
 
   // Calendar data
   const calendarDays = useMemo(() => {
@@ -88,6 +110,26 @@ export default function TemperatureHistory() {
   }, [records, anomaliesOnly]);
 
   const equipmentMap = useMemo(() => new Map(equipment.map(e => [e.id, e])), [equipment]);
+  const actionsByRecord = useMemo(() => {
+    const map = new Map<string, CorrectiveAction[]>();
+    for (const action of correctiveActions) {
+      const list = map.get(action.temperatureRecordId);
+      if (list) list.push(action);
+      else map.set(action.temperatureRecordId, [action]);
+    }
+    return map;
+  }, [correctiveActions]);
+
+  const handleCorrectiveAction = async (action: CorrectiveAction) => {
+    try {
+      await addCorrectiveAction(action);
+      showSuccess('Action corrective enregistree');
+      setTreatingRecord(null);
+      setReloadKey(prev => prev + 1);
+    } catch {
+      showError('Impossible d\'enregistrer l\'action corrective');
+    }
+  };
 
   const isInRange = (day: Date) => {
     if (!dateRangeMode || !rangeStart) return false;
@@ -256,11 +298,53 @@ export default function TemperatureHistory() {
                     </span>
                   </div>
                 </div>
+                {!record.isCompliant && (
+                  <div className="mt-2 pt-2 border-t app-border space-y-1">
+                    {(actionsByRecord.get(record.id) ?? []).map(action => (
+                      <p key={action.id} className="text-xs app-text">
+                        <span className="font-semibold">
+                          {action.automatic ? PENDING_CORRECTIVE_ACTION_LABEL : CORRECTIVE_ACTION_LABELS[action.action]}
+                        </span>
+                        {' \u00b7 '}
+                        {format(new Date(action.createdAt), 'HH:mm', { locale: fr })}
+                        {action.operator && ` \u00b7 ${action.operator}`}
+                        {action.notes && ` \u00b7 ${action.notes}`}
+                        <span
+                          className={cn(
+                            'ml-2 font-semibold',
+                            action.resolvedAt ? 'text-[color:var(--app-success)]' : 'text-[color:var(--app-warning)]'
+                          )}
+                        >
+                          {action.resolvedAt
+                            ? `Recontrole ${format(new Date(action.resolvedAt), 'HH:mm', { locale: fr })}`
+                            : `Recontrole avant ${format(new Date(action.recheckDueAt), 'HH:mm', { locale: fr })}`}
+                        </span>
+                      </p>
+                    ))}
+                    {!(actionsByRecord.get(record.id) ?? []).some(action => !action.automatic) && eq && (
+                      <button
+                        onClick={() => setTreatingRecord(record)}
+                        className="text-xs font-semibold text-[color:var(--app-danger)] active:opacity-70"
+                      >
+                        Aucune action corrective &middot; Renseigner
+                      </button>
+                    )}
+                  </div>
+                )}
               </div>
             );
           })
         )}
       </div>
+
+      {treatingRecord && equipmentMap.get(treatingRecord.equipmentId) && (
+        <CorrectiveActionModal
+          record={treatingRecord}
+          equipment={equipmentMap.get(treatingRecord.equipmentId)!}
+          onSkip={() => setTreatingRecord(null)}
+          onSubmit={handleCorrectiveAction}
+        />
+      )}
     </div>
   );
 }
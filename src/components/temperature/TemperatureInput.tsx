@@ -1,10 +1,11 @@
 import { useState, useEffect, useCallback } from 'react';
 import { z } from 'zod';
 import { useAppStore } from '../../stores/appStore';
-import { showError } from '../../stores/toastStore';
+import { showError, showSuccess } from '../../stores/toastStore';
 import { EQUIPMENT_TYPES } from '../../types';
-import type { Equipment, TemperatureRecord } from '../../types';
+import type { CorrectiveAction, Equipment, TemperatureRecord } from '../../types';
 import { formatDate, cn, vibrate } from '../../utils';
+import CorrectiveActionModal from './CorrectiveActionModal';
 
 interface NumpadModalProps {
   equipment: Equipment;
@@ -177,7 +178,9 @@ export default function TemperatureInput() {
   const loadEquipment = useAppStore(s => s.loadEquipment);
   const addTemperatureRecord = useAppStore(s => s.addTemperatureRecord);
   const getTemperatureRecords = useAppStore(s => s.getTemperatureRecords);
+  const addCorrectiveAction = useAppStore(s => s.addCorrectiveAction);
   const [selectedEquipment, setSelectedEquipment] = useState<Equipment | null>(null);
+  const [pendingAnomaly, setPendingAnomaly] = useState<{ record: TemperatureRecord; equipment: Equipment } | null>(null);
   const [recentRecords, setRecentRecords] = useState<Map<string, TemperatureRecord>>(new Map());
   const [flashStates, setFlashStates] = useState<Map<string, 'green' | 'red'>>(new Map());
 
@@ -259,6 +262,7 @@ export default function TemperatureInput() {
 
     if (!isCompliant) {
       vibrate(200);
+      setPendingAnomaly({ record, equipment: selectedEquipment });
     }
 
     setTimeout(() => {
@@ -273,6 +277,16 @@ export default function TemperatureInput() {
     await loadRecent();
   };
 
+  const handleCorrectiveAction = async (action: CorrectiveAction) => {
+    try {
+      await addCorrectiveAction(action);
+      showSuccess('Action corrective enregistree');
+      setPendingAnomaly(null);
+    } catch {
+      showError('Impossible d\'enregistrer l\'action corrective');
+    }
+  };
+
   if (equipment.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center py-20 text-center">
@@ -350,6 +364,15 @@ export default function TemperatureInput() {
           onSubmit={handleSubmit}
         />
       )}
+
+      {pendingAnomaly && (
+        <CorrectiveActionModal
+          record={pendingAnomaly.record}
+          equipment={pendingAnomaly.equipment}
+          onSkip={() => setPendingAnomaly(null)}
+          onSubmit={handleCorrectiveAction}
+        />
+      )}
     </div>
   );
 }
@@ -75,6 +75,14 @@ async function bootstrapApp(): Promise<void> {
     showError("Traitement des taches recurrentes indisponible");
   }
 
+  try {
+    const drafts = await useAppStore.getState().processStandingOrders();
+    if (drafts.length > 0) showSuccess(`${drafts.length} commande(s) recurrente(s) preparee(s)`);
+  } catch (error) {
+    logger.error("processStandingOrders failed", { error });
+    showError("Preparation des commandes recurrentes indisponible");
+  }
+
   try {
     await checkAndNotifyExpiringProducts();
   } catch (error) {
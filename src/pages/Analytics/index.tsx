@@ -2,14 +2,18 @@ import { lazy, Suspense, useMemo, useState } from 'react';
 import { cn } from '../../utils';
 
 const FinancialSection = lazy(() => import('../../components/analytics/FinancialSection'));
+const FoodCostSection = lazy(() => import('../../components/analytics/FoodCostSection'));
+const MenuEngineeringSection = lazy(() => import('../../components/analytics/MenuEngineeringSection'));
 const RecipeCostSection = lazy(() => import('../../components/analytics/RecipeCostSection'));
 const TemperatureComplianceSection = lazy(() => import('../../components/analytics/TemperatureComplianceSection'));
 
-type AnalyticsTab = 'financial' | 'recipes' | 'temperature';
+type AnalyticsTab = 'financial' | 'foodcost' | 'recipes' | 'menu' | 'temperature';
 
 const TABS: { key: AnalyticsTab; label: string }[] = [
   { key: 'financial', label: 'Finances' },
+  { key: 'foodcost', label: 'Food cost' },
   { key: 'recipes', label: 'Recettes' },
+  { key: 'menu', label: 'Menu' },
   { key: 'temperature', label: 'Temperatures' },
 ];
 
@@ -25,7 +29,9 @@ export default function AnalyticsPage() {
   const [activeTab, setActiveTab] = useState<AnalyticsTab>('financial');
 
   const activeContent = useMemo(() => {
+    if (activeTab === 'foodcost') return <FoodCostSection />;
     if (activeTab === 'recipes') return <RecipeCostSection />;
+    if (activeTab === 'menu') return <MenuEngineeringSection />;
     if (activeTab === 'temperature') return <TemperatureComplianceSection />;
     return <FinancialSection />;
   }, [activeTab]);
@@ -12,8 +12,11 @@ const {
 } = vi.hoisted(() => {
   const loadEquipment = vi.fn();
   const getTemperatureRecords = vi.fn();
+  const getCorrectiveActions = vi.fn();
   const getTasks = vi.fn();
   const getProducts = vi.fn();
+  const getInvoices = vi.fn();
+  const getOrders = vi.fn();
   const showError = vi.fn();
   const buildSmartAlerts = vi.fn();
 
@@ -22,8 +25,11 @@ const {
     settings: { establishmentName: 'Cuisine Test' },
     loadEquipment,
     getTemperatureRecords,
+    getCorrectiveActions,
     getTasks,
     getProducts,
+    getInvoices,
+    getOrders,
   };
 
   return {
@@ -113,8 +119,11 @@ describe('Dashboard page', () => {
 
     mockStore.loadEquipment.mockResolvedValue(undefined);
     mockStore.getTemperatureRecords.mockResolvedValue(todayRecords);
+    mockStore.getCorrectiveActions.mockResolvedValue([]);
     mockStore.getTasks.mockResolvedValue(tasks);
     mockStore.getProducts.mockResolvedValue(products);
+    mockStore.getInvoices.mockResolvedValue([]);
+    mockStore.getOrders.mockResolvedValue([]);
 
     mockBuildSmartAlerts.mockReturnValue([
       {
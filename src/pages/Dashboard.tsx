@@ -1,12 +1,13 @@
 ﻿import { useState, useEffect, useCallback, useRef, type ReactNode } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { format, startOfDay, endOfDay } from 'date-fns';
+import { format, startOfDay, endOfDay, subDays } from 'date-fns';
 import { fr } from 'date-fns/locale';
 import { useAppStore } from '../stores/appStore';
 import { showError } from '../stores/toastStore';
 import { usePwaInstall } from '../hooks/usePwaInstall';
 import { buildSmartAlerts, type SmartAlertSeverity } from '../services/smartAlerts';
-import type { ProductTrace, Task, TemperatureRecord } from '../types';
+import { computeAllCheckSlots, summarizeCheckSlots, type CheckSlotStatus } from '../services/checkSchedule';
+import type { CorrectiveAction, Invoice, Order, ProductTrace, Task, TemperatureRecord } from '../types';
 import { cn } from '../utils';
 
 type KpiTone = 'success' | 'warning' | 'danger';
@@ -24,6 +25,12 @@ const alertStyles: Record<SmartAlertSeverity, { card: string; dot: string }> = {
   info: { card: 'alert-card-info', dot: 'bg-[color:var(--app-info)]' },
 };
 
+const checkSlotStyles: Record<CheckSlotStatus, string> = {
+  done: 'bg-[color:var(--app-success)]/15 text-[color:var(--app-success)]',
+  upcoming: 'app-surface-2 app-muted',
+  overdue: 'bg-[color:var(--app-danger)]/15 text-[color:var(--app-danger)]',
+};
+
 const ThermometerIcon = (
   <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={1.9} aria-hidden="true">
     <path strokeLinecap="round" strokeLinejoin="round" d="M14 14.76V3.5a2 2 0 10-4 0v11.26a4 4 0 104 0z" />
@@ -163,13 +170,19 @@ export default function Dashboard() {
   const equipment = useAppStore((s) => s.equipment);
   const loadEquipment = useAppStore((s) => s.loadEquipment);
   const getTemperatureRecords = useAppStore((s) => s.getTemperatureRecords);
+  const getCorrectiveActions = useAppStore((s) => s.getCorrectiveActions);
   const getTasks = useAppStore((s) => s.getTasks);
   const getProducts = useAppStore((s) => s.getProducts);
+  const getInvoices = useAppStore((s) => s.getInvoices);
+  const getOrders = useAppStore((s) => s.getOrders);
   const settings = useAppStore((s) => s.settings);
 
   const [todayRecords, setTodayRecords] = useState<TemperatureRecord[]>([]);
+  const [correctiveActions, setCorrectiveActions] = useState<CorrectiveAction[]>([]);
   const [tasks, setTasks] = useState<Task[]>([]);
   const [products, setProducts] = useState<ProductTrace[]>([]);
+  const [recentInvoices, setRecentInvoices] = useState<Invoice[]>([]);
+  const [draftOrders, setDraftOrders] = useState<Order[]>([]);
   const [currentTimestamp, setCurrentTimestamp] = useState(0);
   const [dashboardView, setDashboardView] = useState<DashboardView>('overview');
   const { canShow: showInstall, install: installPwa, dismiss: dismissInstall } = usePwaInstall();
@@ -182,9 +195,14 @@ export default function Dashboard() {
       .then(setTodayRecords)
       .catch(() => showError('Impossible de charger les temperatures'))
       .finally(() => setCurrentTimestamp(now.getTime()));
+    getCorrectiveActions(startOfDay(subDays(now, 7)))
+      .then(setCorrectiveActions)
+      .catch(() => showError('Impossible de charger les actions correctives'));
     getTasks(false).then(setTasks).catch(() => showError('Impossible de charger les taches'));
     getProducts().then(setProducts).catch(() => showError('Impossible de charger les produits'));
-  }, [loadEquipment, getTemperatureRecords, getTasks, getProducts]);
+    getInvoices({ limit: 20 }).then(setRecentInvoices).catch(() => showError('Impossible de charger les factures'));
+    getOrders({ status: 'draft' }).then(setDraftOrders).catch(() => showError('Impossible de charger les commandes'));
+  }, [loadEquipment, getTemperatureRecords, getCorrectiveActions, getTasks, getProducts, getInvoices, getOrders]);
 
   const scheduleRefresh = useCallback(() => {
     if (refreshTimerRef.current !== null) {
@@ -223,8 +241,8 @@ export default function Dashboard() {
 
   const pendingTasks = tasks.filter((t) => !t.completed && !t.archived);
   const anomalies = todayRecords.filter((r) => !r.isCompliant).length;
-  const checkedEquipment = new Set(todayRecords.map((r) => r.equipmentId)).size;
-  const totalEquipment = equipment.length;
+  const checkSlots = computeAllCheckSlots(equipment, todayRecords);
+  const checkSummary = summarizeCheckSlots(checkSlots.values());
   const activeProducts = products.filter((p) => p.status !== 'used');
   const getDaysLeft = useCallback(
     (expirationDate: Date | string) => Math.ceil((new Date(expirationDate).getTime() - currentTimestamp) / 864e5),
@@ -233,12 +251,21 @@ export default function Dashboard() {
   const expiringProducts = activeProducts.filter((p) => getDaysLeft(p.expirationDate) <= 3);
   const expiredCount = activeProducts.filter((p) => getDaysLeft(p.expirationDate) < 0).length;
 
-  const smartAlerts = buildSmartAlerts({ equipment, todayRecords, tasks, products: activeProducts });
+  const smartAlerts = buildSmartAlerts({
+    equipment,
+    todayRecords,
+    tasks,
+    products: activeProducts,
+    correctiveActions,
+    invoices: recentInvoices,
+    orders: draftOrders,
+  });
   const actionableAlerts = smartAlerts.filter((alert) => alert.id !== 'all-clear');
   const notificationCount = actionableAlerts.length;
 
-  const tempProgress = totalEquipment > 0 ? checkedEquipment / totalEquipment : 0;
-  const tempTone: KpiTone = totalEquipment === 0 ? 'warning' : checkedEquipment === totalEquipment ? 'success' : 'warning';
+  const tempProgress = checkSummary.total > 0 ? checkSummary.done / checkSummary.total : 0;
+  const tempTone: KpiTone =
+    checkSummary.overdue > 0 ? 'danger' : checkSummary.total > 0 && checkSummary.upcoming === 0 ? 'success' : 'warning';
   const anomTone: KpiTone = anomalies > 0 ? 'danger' : 'success';
   const taskTone: KpiTone = pendingTasks.length === 0 ? 'success' : pendingTasks.length >= 5 ? 'danger' : 'warning';
   const dlcTone: KpiTone = expiredCount > 0 ? 'danger' : expiringProducts.length > 0 ? 'warning' : 'success';
@@ -298,7 +325,7 @@ export default function Dashboard() {
           <div className="dash-kpi-row">
             <KpiCardGlass
               label="Temperatures"
-              value={`${checkedEquipment}/${totalEquipment}`}
+              value={`${checkSummary.done}/${checkSummary.total}`}
               subValue={`${Math.round(tempProgress * 100)}% couvert`}
               tone={tempTone}
               icon={ThermometerIcon}
@@ -343,6 +370,35 @@ export default function Dashboard() {
               <AlertList alerts={smartAlerts.slice(0, 6)} onNavigate={navigate} />
             </SectionCard>
 
+            <SectionCard title="Releves du jour" icon={ThermometerIcon}>
+              {equipment.length === 0 ? (
+                <p className="dash-empty-inline">Aucun equipement configure</p>
+              ) : (
+                <div className="dash-item-list">
+                  {equipment.map((item) => (
+                    <button
+                      key={item.id}
+                      onClick={() => navigate('/temperature?quick=input')}
+                      type="button"
+                      className="dash-list-row"
+                    >
+                      <span className="dash-list-title">{item.name}</span>
+                      <span className="flex flex-wrap justify-end gap-1">
+                        {(checkSlots.get(item.id) ?? []).map((slot) => (
+                          <span
+                            key={slot.dueAt.getTime()}
+                            className={cn('rounded-full px-2 py-0.5 text-[11px] font-semibold', checkSlotStyles[slot.status])}
+                          >
+                            {slot.label}
+                          </span>
+                        ))}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </SectionCard>
+
             <SectionCard title="Produits a surveiller" icon={ClockIcon}>
               {expiringProducts.length === 0 ? (
                 <p className="dash-empty-inline">Aucun produit proche de la DLC</p>
@@ -0,0 +1,187 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import StockLevelTable from '../../components/inventory/StockLevelTable';
+import RecipeOutputPanel from '../../components/inventory/RecipeOutputPanel';
+import StockCountPanel from '../../components/inventory/StockCountPanel';
+import { buildStockMovements, computeStockLevels, summarizeStockCount } from '../../services/stock';
+import { useAppStore } from '../../stores/appStore';
+import { showError, showSuccess } from '../../stores/toastStore';
+import type { Ingredient, Invoice, Recipe, RecipeIngredient, RecipeOutput, StockCount } from '../../types';
+import { cn } from '../../utils';
+
+type InventoryTab = 'stock' | 'outputs' | 'counts';
+
+const TABS: { key: InventoryTab; label: string }[] = [
+  { key: 'stock', label: 'Stock' },
+  { key: 'outputs', label: 'Ventes / prod.' },
+  { key: 'counts', label: 'Inventaires' },
+];
+
+function money(value: number): string {
+  return new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR', maximumFractionDigits: 0 }).format(
+    value || 0,
+  );
+}
+
+export default function InventoryPage() {
+  const getIngredients = useAppStore((s) => s.getIngredients);
+  const getInvoices = useAppStore((s) => s.getInvoices);
+  const getRecipes = useAppStore((s) => s.getRecipes);
+  const getRecipeIngredients = useAppStore((s) => s.getRecipeIngredients);
+  const getRecipeOutputs = useAppStore((s) => s.getRecipeOutputs);
+  const addRecipeOutput = useAppStore((s) => s.addRecipeOutput);
+  const deleteRecipeOutput = useAppStore((s) => s.deleteRecipeOutput);
+  const getStockCounts = useAppStore((s) => s.getStockCounts);
+  const saveStockCount = useAppStore((s) => s.saveStockCount);
+  const deleteStockCount = useAppStore((s) => s.deleteStockCount);
+
+  const [activeTab, setActiveTab] = useState<InventoryTab>('stock');
+  const [loading, setLoading] = useState(true);
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [recipeLines, setRecipeLines] = useState<RecipeIngredient[]>([]);
+  const [outputs, setOutputs] = useState<RecipeOutput[]>([]);
+  const [counts, setCounts] = useState<StockCount[]>([]);
+
+  const loadData = useCallback(async () => {
+    try {
+      const [ingredientRows, invoiceRows, recipeRows, outputRows, countRows] = await Promise.all([
+        getIngredients(),
+        getInvoices(),
+        getRecipes(),
+        getRecipeOutputs(),
+        getStockCounts(),
+      ]);
+      const lines = await Promise.all(recipeRows.map((recipe) => getRecipeIngredients(recipe.id)));
+      setIngredients(ingredientRows);
+      setInvoices(invoiceRows);
+      setRecipes(recipeRows);
+      setRecipeLines(lines.flat());
+      setOutputs(outputRows);
+      setCounts(countRows);
+    } catch {
+      showError('Impossible de charger le stock');
+    } finally {
+      setLoading(false);
+    }
+  }, [getIngredients, getInvoices, getRecipes, getRecipeIngredients, getRecipeOutputs, getStockCounts]);
+
+  useEffect(() => {
+    void loadData();
+  }, [loadData]);
+
+  const levels = useMemo(() => {
+    const movements = buildStockMovements({ invoices, outputs, recipes, recipeLines, ingredients });
+    return computeStockLevels(ingredients, movements, counts);
+  }, [invoices, outputs, recipes, recipeLines, ingredients, counts]);
+
+  const stockValue = levels.reduce((sum, level) => sum + level.stockValue, 0);
+  const lastCountLoss = counts.length > 0 ? summarizeStockCount(counts[0]).lossValue : 0;
+
+  const handleAddOutput = useCallback(
+    async (output: RecipeOutput) => {
+      try {
+        await addRecipeOutput(output);
+        setOutputs((prev) => [output, ...prev]);
+        showSuccess('Sortie de stock enregistree');
+      } catch {
+        showError("Impossible d'enregistrer la sortie");
+      }
+    },
+    [addRecipeOutput],
+  );
+
+  const handleDeleteOutput = useCallback(
+    async (id: string) => {
+      try {
+        await deleteRecipeOutput(id);
+        setOutputs((prev) => prev.filter((output) => output.id !== id));
+      } catch {
+        showError('Impossible de supprimer la sortie');
+      }
+    },
+    [deleteRecipeOutput],
+  );
+
+  const handleSaveCount = useCallback(
+    async (count: StockCount) => {
+      try {
+        await saveStockCount(count);
+        setCounts((prev) => [count, ...prev]);
+        showSuccess('Inventaire enregistre');
+      } catch {
+        showError("Impossible d'enregistrer l'inventaire");
+      }
+    },
+    [saveStockCount],
+  );
+
+  const handleDeleteCount = useCallback(
+    async (id: string) => {
+      try {
+        await deleteStockCount(id);
+        setCounts((prev) => prev.filter((count) => count.id !== id));
+      } catch {
+        showError("Impossible de supprimer l'inventaire");
+      }
+    },
+    [deleteStockCount],
+  );
+
+  return (
+    <div className="app-page-wrap pb-24 space-y-3">
+      <section className="glass-card glass-hero space-y-3 animate-fade-in-up">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <h1 className="ios-title app-text">Stock</h1>
+            <p className="ios-caption app-muted">
+              Stock theorique (factures - ventes et productions) compare aux inventaires.
+            </p>
+          </div>
+          <div className="text-right shrink-0">
+            <p className="font-bold app-text">{money(stockValue)}</p>
+            {counts.length > 0 && (
+              <p
+                className={cn(
+                  'text-[11px]',
+                  lastCountLoss < 0 ? 'text-[color:var(--app-danger)]' : 'app-muted',
+                )}
+              >
+                Pertes dernier inv. {money(lastCountLoss)}
+              </p>
+            )}
+          </div>
+        </div>
+        <div className="ios-segmented max-w-xl">
+          {TABS.map((tab) => (
+            <button
+              key={tab.key}
+              type="button"
+              onClick={() => setActiveTab(tab.key)}
+              className={cn('ios-segmented-item', activeTab === tab.key && 'active')}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+      </section>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="w-8 h-8 border-3 border-[color:var(--app-accent)] border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : activeTab === 'stock' ? (
+        <StockLevelTable levels={levels} />
+      ) : activeTab === 'outputs' ? (
+        <RecipeOutputPanel
+          recipes={recipes}
+          outputs={outputs}
+          onAdd={handleAddOutput}
+          onDelete={handleDeleteOutput}
+        />
+      ) : (
+        <StockCountPanel levels={levels} counts={counts} onSave={handleSaveCount} onDelete={handleDeleteCount} />
+      )}
+    </div>
+  );
+}
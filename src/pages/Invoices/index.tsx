@@ -5,16 +5,22 @@ import type { Invoice } from '../../types';
 import { cn, vibrate } from '../../utils';
 import { showError } from '../../stores/toastStore';
 import InvoiceGallery from '../../components/invoices/InvoiceGallery';
+import { countPendingPriceReviews } from '../../services/priceReview';
 
 const InvoiceScanner = lazy(() => import('../../components/invoices/InvoiceScanner'));
 const PriceTracker = lazy(() => import('../../components/invoices/PriceTracker'));
+const PriceReviewQueue = lazy(() => import('../../components/invoices/PriceReviewQueue'));
+const DuplicateInvoiceFinder = lazy(() => import('../../components/invoices/DuplicateInvoiceFinder'));
+const VatReportPanel = lazy(() => import('../../components/invoices/VatReportPanel'));
+const AccountingExportPanel = lazy(() => import('../../components/invoices/AccountingExportPanel'));
 
-type SubTab = 'scanner' | 'factures' | 'cadencier';
+type SubTab = 'scanner' | 'factures' | 'validation' | 'cadencier';
 const PAGE_SIZE = 30;
 
 const TAB_CONFIG: { key: SubTab; label: string }[] = [
   { key: 'scanner', label: 'Scanner' },
   { key: 'factures', label: 'Factures' },
+  { key: 'validation', label: 'A valider' },
   { key: 'cadencier', label: 'Cadencier' },
 ];
 
@@ -36,6 +42,10 @@ export default function InvoicesPage() {
   const [loadingMore, setLoadingMore] = useState(false);
   const [page, setPage] = useState(1);
   const [hasMoreInvoices, setHasMoreInvoices] = useState(false);
+  const [pendingReviews, setPendingReviews] = useState(0);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [showVatReport, setShowVatReport] = useState(false);
+  const [showAccountingExport, setShowAccountingExport] = useState(false);
   const [searchParams, setSearchParams] = useSearchParams();
 
   const getInvoices = useAppStore((s) => s.getInvoices);
@@ -60,6 +70,16 @@ export default function InvoicesPage() {
     void loadInitialInvoices();
   }, [loadInitialInvoices]);
 
+  const refreshPendingReviews = useCallback(() => {
+    countPendingPriceReviews()
+      .then(setPendingReviews)
+      .catch(() => setPendingReviews(0));
+  }, []);
+
+  useEffect(() => {
+    refreshPendingReviews();
+  }, [refreshPendingReviews, invoices]);
+
   const loadMoreInvoices = useCallback(async () => {
     if (loading || loadingMore || !hasMoreInvoices) return;
     setLoadingMore(true);
@@ -87,6 +107,8 @@ export default function InvoicesPage() {
       setActiveSubTab('scanner');
     } else if (quick === 'cadencier') {
       setActiveSubTab('cadencier');
+    } else if (quick === 'review') {
+      setActiveSubTab('validation');
     }
 
     const nextParams = new URLSearchParams(searchParams);
@@ -139,7 +161,7 @@ export default function InvoicesPage() {
       <div className="pill-toggle glass-card">
         {TAB_CONFIG.map(({ key, label }) => (
           <button key={key} onClick={() => handleTabChange(key)} className={cn('pill-toggle-btn', activeSubTab === key && 'active')}>
-            {label}
+            {key === 'validation' && pendingReviews > 0 ? `${label} (${pendingReviews})` : label}
           </button>
         ))}
       </div>
@@ -159,6 +181,69 @@ export default function InvoicesPage() {
 
         {activeSubTab === 'factures' && (
           <div className="pb-4">
+            <div className="flex flex-wrap justify-end gap-2 pb-2">
+              <button
+                onClick={() => setShowAccountingExport((prev) => !prev)}
+                className="px-3 py-1.5 rounded-xl app-surface-2 app-text text-[13px] font-semibold active:opacity-70"
+              >
+                {showAccountingExport ? "Masquer l'export" : 'Export comptable'}
+              </button>
+              <button
+                onClick={() => setShowVatReport((prev) => !prev)}
+                className="px-3 py-1.5 rounded-xl app-surface-2 app-text text-[13px] font-semibold active:opacity-70"
+              >
+                {showVatReport ? 'Masquer la TVA' : 'TVA du mois'}
+              </button>
+              <button
+                onClick={() => setShowDuplicates((prev) => !prev)}
+                className="px-3 py-1.5 rounded-xl app-surface-2 app-text text-[13px] font-semibold active:opacity-70"
+              >
+                {showDuplicates ? 'Masquer les doublons' : 'Rechercher les doublons'}
+              </button>
+            </div>
+            {showAccountingExport && (
+              <div className="pb-3">
+                <Suspense
+                  fallback={
+                    <div className="flex justify-center py-6">
+                      <div className="w-6 h-6 border-3 border-[color:var(--app-accent)] border-t-transparent rounded-full animate-spin" />
+                    </div>
+                  }
+                >
+                  <AccountingExportPanel />
+                </Suspense>
+              </div>
+            )}
+            {showVatReport && (
+              <div className="pb-3">
+                <Suspense
+                  fallback={
+                    <div className="flex justify-center py-6">
+                      <div className="w-6 h-6 border-3 border-[color:var(--app-accent)] border-t-transparent rounded-full animate-spin" />
+                    </div>
+                  }
+                >
+                  <VatReportPanel />
+                </Suspense>
+              </div>
+            )}
+            {showDuplicates && (
+              <div className="pb-3">
+                <Suspense
+                  fallback={
+                    <div className="flex justify-center py-6">
+                      <div className="w-6 h-6 border-3 border-[color:var(--app-accent)] border-t-transparent rounded-full animate-spin" />
+                    </div>
+                  }
+                >
+                  <DuplicateInvoiceFinder
+                    onResolved={() => {
+                      void loadInitialInvoices();
+                    }}
+                  />
+                </Suspense>
+              </div>
+            )}
             <InvoiceGallery
               invoices={invoices}
               loading={loading}
@@ -185,6 +270,18 @@ export default function InvoicesPage() {
           </div>
         )}
 
+        {activeSubTab === 'validation' && (
+          <Suspense
+            fallback={
+              <div className="flex justify-center py-12">
+                <div className="w-8 h-8 border-3 border-[color:var(--app-accent)] border-t-transparent rounded-full animate-spin" />
+              </div>
+            }
+          >
+            <PriceReviewQueue onPendingCountChange={setPendingReviews} />
+          </Suspense>
+        )}
+
         {activeSubTab === 'cadencier' && (
           <Suspense
             fallback={
@@ -1,16 +1,36 @@
 ﻿import { useCallback, useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
 import OrderEditor from '../../components/orders/OrderEditor';
 import OrderList, { type OrderListFilters } from '../../components/orders/OrderList';
+import StandingOrderList from '../../components/orders/StandingOrderList';
+import SupplierDirectory from '../../components/orders/SupplierDirectory';
 import { canTransitionStatus } from '../../services/orderHelpers';
 import { showError, showSuccess } from '../../stores/toastStore';
 import { useAppStore } from '../../stores/appStore';
-import type { Invoice, Order, OrderFilters } from '../../types';
+import type {
+  DeliveryReception,
+  Ingredient,
+  Invoice,
+  Order,
+  OrderFilters,
+  StandingOrder,
+  Supplier,
+} from '../../types';
+import { cn } from '../../utils';
 
 const DEFAULT_FILTERS: OrderListFilters = {
   status: 'all',
   supplier: '',
 };
 
+type OrdersView = 'orders' | 'standing' | 'suppliers';
+
+const VIEW_TABS: { key: OrdersView; label: string }[] = [
+  { key: 'orders', label: 'Commandes' },
+  { key: 'standing', label: 'Recurrentes' },
+  { key: 'suppliers', label: 'Fournisseurs' },
+];
+
 export default function OrdersPage() {
   const getOrders = useAppStore((state) => state.getOrders);
   const addOrder = useAppStore((state) => state.addOrder);
@@ -19,6 +39,15 @@ export default function OrdersPage() {
   const generateOrderNumber = useAppStore((state) => state.generateOrderNumber);
   const getInvoices = useAppStore((state) => state.getInvoices);
   const getIngredients = useAppStore((state) => state.getIngredients);
+  const receiveOrder = useAppStore((state) => state.receiveOrder);
+  const getSupplierNonConformities = useAppStore((state) => state.getSupplierNonConformities);
+  const getSuppliers = useAppStore((state) => state.getSuppliers);
+  const saveSupplier = useAppStore((state) => state.saveSupplier);
+  const deleteSupplier = useAppStore((state) => state.deleteSupplier);
+  const getStandingOrders = useAppStore((state) => state.getStandingOrders);
+  const saveStandingOrder = useAppStore((state) => state.saveStandingOrder);
+  const deleteStandingOrder = useAppStore((state) => state.deleteStandingOrder);
+  const processStandingOrders = useAppStore((state) => state.processStandingOrders);
 
   const [orders, setOrders] = useState<Order[]>([]);
   const [allOrders, setAllOrders] = useState<Order[]>([]);
@@ -28,7 +57,10 @@ export default function OrdersPage() {
   const [editingOrder, setEditingOrder] = useState<Order | null>(null);
   const [nextOrderNumber, setNextOrderNumber] = useState('');
   const [invoices, setInvoices] = useState<Invoice[]>([]);
-  const [ingredientSuggestions, setIngredientSuggestions] = useState<string[]>([]);
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [standingOrders, setStandingOrders] = useState<StandingOrder[]>([]);
+  const [view, setView] = useState<OrdersView>('orders');
 
   const loadOrders = useCallback(
     async (nextFilters: OrderListFilters) => {
@@ -38,27 +70,27 @@ export default function OrdersPage() {
           status: nextFilters.status === 'all' ? undefined : nextFilters.status,
           supplier: nextFilters.supplier || undefined,
         };
-        const [filtered, full, invoiceRows, ingredients] = await Promise.all([
+        const [filtered, full, invoiceRows, ingredientRows, supplierRows, standingRows] = await Promise.all([
           getOrders(storeFilters),
           getOrders(),
           getInvoices(),
           getIngredients(),
+          getSuppliers(),
+          getStandingOrders(),
         ]);
         setOrders(filtered);
         setAllOrders(full);
         setInvoices(invoiceRows);
-        setIngredientSuggestions(
-          Array.from(new Set(ingredients.map((ingredient) => ingredient.name.trim()).filter(Boolean))).sort(
-            (a, b) => a.localeCompare(b),
-          ),
-        );
+        setSuppliers(supplierRows);
+        setStandingOrders(standingRows);
+        setIngredients([...ingredientRows].sort((a, b) => a.name.localeCompare(b.name)));
       } catch {
         showError('Impossible de charger les commandes');
       } finally {
         setLoading(false);
       }
     },
-    [getOrders, getInvoices, getIngredients],
+    [getOrders, getInvoices, getIngredients, getSuppliers, getStandingOrders],
   );
 
   useEffect(() => {
@@ -69,11 +101,17 @@ export default function OrdersPage() {
     () =>
       Array.from(
         new Set([
+          ...suppliers.map((supplier) => supplier.name),
           ...allOrders.map((order) => order.supplier.trim()),
           ...invoices.map((invoice) => invoice.supplier.trim()),
         ].filter(Boolean)),
       ),
-    [allOrders, invoices],
+    [allOrders, invoices, suppliers],
+  );
+
+  const ingredientSuggestions = useMemo(
+    () => Array.from(new Set(ingredients.map((ingredient) => ingredient.name.trim()).filter(Boolean))),
+    [ingredients],
   );
 
   const handleCreate = useCallback(async () => {
@@ -125,6 +163,114 @@ export default function OrdersPage() {
     [deleteOrder, filters, loadOrders],
   );
 
+  const handleReceive = useCallback(
+    async (order: Order, reception: DeliveryReception): Promise<Order | null> => {
+      try {
+        const received = await receiveOrder(order, reception);
+        const accepted = reception.lines.filter((line) => line.decision === 'accepted' && line.receivedQuantity > 0);
+        showSuccess(
+          received.backorder
+            ? `Livraison partielle : reliquat ${received.backorder.orderNumber} cree`
+            : `Reception validee : ${accepted.length} produit(s) ajoute(s) a la tracabilite`,
+        );
+        setEditingOrder(received);
+        await loadOrders(filters);
+        return received;
+      } catch {
+        showError('Impossible d enregistrer la reception');
+        return null;
+      }
+    },
+    [filters, loadOrders, receiveOrder],
+  );
+
+  const handleSaveSupplier = useCallback(
+    async (supplier: Supplier) => {
+      try {
+        await saveSupplier(supplier);
+        showSuccess('Fiche fournisseur enregistree');
+        setSuppliers(await getSuppliers());
+      } catch {
+        showError('Impossible d enregistrer le fournisseur');
+      }
+    },
+    [getSuppliers, saveSupplier],
+  );
+
+  const handleDeleteSupplier = useCallback(
+    async (id: string) => {
+      try {
+        await deleteSupplier(id);
+        setSuppliers(await getSuppliers());
+      } catch {
+        showError('Impossible de supprimer le fournisseur');
+      }
+    },
+    [deleteSupplier, getSuppliers],
+  );
+
+  const handleSaveStandingOrder = useCallback(
+    async (standingOrder: StandingOrder) => {
+      try {
+        await saveStandingOrder(standingOrder);
+        const drafts = await processStandingOrders();
+        const numbers = drafts.map((draft) => draft.orderNumber).join(', ');
+        showSuccess(
+          drafts.length > 0 ? `Commande recurrente enregistree : brouillon ${numbers} prepare` : 'Commande recurrente enregistree',
+        );
+        await loadOrders(filters);
+      } catch {
+        showError('Impossible d enregistrer la commande recurrente');
+      }
+    },
+    [filters, loadOrders, processStandingOrders, saveStandingOrder],
+  );
+
+  const handleDeleteStandingOrder = useCallback(
+    async (id: string) => {
+      try {
+        await deleteStandingOrder(id);
+        setStandingOrders(await getStandingOrders());
+      } catch {
+        showError('Impossible de supprimer la commande recurrente');
+      }
+    },
+    [deleteStandingOrder, getStandingOrders],
+  );
+
+  const handleRecordSend = useCallback(
+    async (order: Order): Promise<Order | null> => {
+      try {
+        if (allOrders.some((row) => row.id === order.id)) {
+          await updateOrder(order);
+        } else {
+          await addOrder(order);
+        }
+        setEditingOrder(order);
+        await loadOrders(filters);
+        return order;
+      } catch {
+        showError("Impossible d'enregistrer l'envoi de la commande");
+        return null;
+      }
+    },
+    [addOrder, allOrders, filters, loadOrders, updateOrder],
+  );
+
+  const handleExportNonConformities = useCallback(async () => {
+    try {
+      const rows = await getSupplierNonConformities(filters.supplier || undefined);
+      if (rows.length === 0) {
+        showError('Aucune non-conformite a exporter');
+        return;
+      }
+      const { generateNonConformitiesCSV, downloadCSV } = await import('../../services/pdf');
+      downloadCSV(generateNonConformitiesCSV(rows), `non_conformites_${format(new Date(), 'yyyy-MM-dd')}.csv`);
+    } catch {
+      showError('Impossible d exporter les non-conformites');
+    }
+  }, [filters.supplier, getSupplierNonConformities]);
+
   const handleStatusChange = useCallback(
     (order: Order, nextStatus: Order['status'], invoiceId?: string): Order => {
       if (!canTransitionStatus(order.status, nextStatus)) return order;
@@ -158,30 +304,77 @@ export default function OrdersPage() {
   return (
     <div className="app-page-wrap h-full pb-24">
       <div className="glass-card glass-hero space-y-2 animate-fade-in-up">
-        <h1 className="ios-title app-text">Commandes</h1>
-        <p className="text-[11px] sm:text-[12px] app-muted">
-          Suivi des bons de commande fournisseur, du brouillon a la facture.
-        </p>
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <h1 className="ios-title app-text">Commandes</h1>
+            <p className="text-[11px] sm:text-[12px] app-muted">
+              Suivi des bons de commande fournisseur, du brouillon a la facture.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => {
+              void handleExportNonConformities();
+            }}
+            className="shrink-0 px-3 py-2 rounded-xl app-surface-2 app-text text-xs font-semibold active:opacity-70"
+          >
+            Non-conformites CSV
+          </button>
+        </div>
+      </div>
+
+      <div className="pill-toggle glass-card">
+        {VIEW_TABS.map(({ key, label }) => (
+          <button key={key} onClick={() => setView(key)} className={cn('pill-toggle-btn', view === key && 'active')}>
+            {label}
+          </button>
+        ))}
       </div>
 
-      <OrderList
-        orders={orders}
-        allOrders={allOrders}
-        loading={loading}
-        filters={filters}
-        onFiltersChange={setFilters}
-        onCreate={() => {
-          void handleCreate();
-        }}
-        onEdit={handleEdit}
-        onDelete={handleDelete}
-      />
+      {view === 'orders' && (
+        <OrderList
+          orders={orders}
+          allOrders={allOrders}
+          loading={loading}
+          filters={filters}
+          onFiltersChange={setFilters}
+          onCreate={() => {
+            void handleCreate();
+          }}
+          onEdit={handleEdit}
+          onDelete={handleDelete}
+        />
+      )}
+
+      {view === 'standing' && (
+        <StandingOrderList
+          standingOrders={standingOrders}
+          knownSuppliers={knownSuppliers}
+          suppliers={suppliers}
+          ingredientSuggestions={ingredientSuggestions}
+          loading={loading}
+          onSave={handleSaveStandingOrder}
+          onDelete={handleDeleteStandingOrder}
+        />
+      )}
+
+      {view === 'suppliers' && (
+        <SupplierDirectory
+          suppliers={suppliers}
+          knownSuppliers={knownSuppliers}
+          ingredients={ingredients}
+          loading={loading}
+          onSave={handleSaveSupplier}
+          onDelete={handleDeleteSupplier}
+        />
+      )}
 
       {showEditor && (
         <OrderEditor
           order={editingOrder}
           defaultOrderNumber={nextOrderNumber}
           knownSuppliers={knownSuppliers}
+          suppliers={suppliers}
           ingredientSuggestions={ingredientSuggestions}
           invoices={invoices}
           onCancel={() => {
@@ -190,6 +383,8 @@ export default function OrdersPage() {
           }}
           onSave={handleSave}
           onStatusChange={handleStatusChange}
+          onReceive={handleReceive}
+          onRecordSend={handleRecordSend}
         />
       )}
     </div>
@@ -146,6 +146,7 @@ export default function RecipesPage() {
         >
           <RecipeEditor
             recipe={editingRecipe}
+            recipes={recipes}
             ingredients={ingredients}
             priceHistory={priceHistory}
             onClose={handleEditorClose}
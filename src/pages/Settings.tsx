@@ -22,6 +22,9 @@ import {
   verifyPinCode,
 } from '../services/pin';
 import { STORAGE_KEYS } from '../constants/storageKeys';
+import { DEFAULT_TARGET_FOOD_COST_RATE } from '../services/recipeCost';
+import { DEFAULT_MENU_VAT_RATE } from '../services/pricing';
+import type { PriceRoundingRule } from '../types';
 import {
   getSupabaseSession,
   isSupabaseAuthConfigured,
@@ -31,6 +34,8 @@ import {
 } from '../services/supabaseAuth';
 import SettingsHeader from '../components/settings/SettingsHeader';
 import GeneralSettingsSection from '../components/settings/GeneralSettingsSection';
+import PricingSettingsSection, { type CategoryTargetDraft } from '../components/settings/PricingSettingsSection';
+import AccountingSettingsSection, { type AccountingSettingsDraft } from '../components/settings/AccountingSettingsSection';
 import ApiSettingsSection from '../components/settings/ApiSettingsSection';
 import CloudSettingsSection from '../components/settings/CloudSettingsSection';
 import BackupSettingsSection from '../components/settings/BackupSettingsSection';
@@ -44,6 +49,19 @@ export default function Settings() {
 
   const [establishmentName, setEstablishmentName] = useState('');
   const [priceThreshold, setPriceThreshold] = useState('10');
+  const [targetFoodCost, setTargetFoodCost] = useState(String(DEFAULT_TARGET_FOOD_COST_RATE * 100));
+  const [menuVatRate, setMenuVatRate] = useState(String(DEFAULT_MENU_VAT_RATE));
+  const [priceRounding, setPriceRounding] = useState<PriceRoundingRule>('fifty_ninety');
+  const [categoryTargets, setCategoryTargets] = useState<CategoryTargetDraft[]>([]);
+  const [savingPricing, setSavingPricing] = useState(false);
+  const [accountingDraft, setAccountingDraft] = useState<AccountingSettingsDraft>({
+    journalCode: '',
+    purchaseAccount: '',
+    vatDeductibleAccount: '',
+    supplierAccount: '',
+    mappings: [],
+  });
+  const [savingAccounting, setSavingAccounting] = useState(false);
   const [geminiKey, setGeminiKey] = useState('');
   const [geminiConnected, setGeminiConnected] = useState(false);
   const [saving, setSaving] = useState(false);
@@ -79,6 +97,23 @@ export default function Settings() {
     if (settings) {
       setEstablishmentName(settings.establishmentName);
       setPriceThreshold(String(settings.priceAlertThreshold));
+      setTargetFoodCost(String(Math.round((settings.targetFoodCostRate ?? DEFAULT_TARGET_FOOD_COST_RATE) * 1000) / 10));
+      setMenuVatRate(String(settings.menuVatRate ?? DEFAULT_MENU_VAT_RATE));
+      setPriceRounding(settings.priceRounding ?? 'fifty_ninety');
+      setCategoryTargets(
+        Object.entries(settings.categoryFoodCostTargets ?? {}).map(([category, rate]) => ({
+          id: crypto.randomUUID(),
+          category,
+          rate: String(Math.round(rate * 1000) / 10),
+        })),
+      );
+      setAccountingDraft({
+        journalCode: settings.accountingJournalCode ?? '',
+        purchaseAccount: settings.purchaseAccount ?? '',
+        vatDeductibleAccount: settings.vatDeductibleAccount ?? '',
+        supplierAccount: settings.supplierAccount ?? '',
+        mappings: settings.accountMappings ?? [],
+      });
     }
     setAutoBackup(isAutoBackupEnabled());
     setPinEnabled(isPinConfigured());
@@ -149,6 +184,70 @@ export default function Settings() {
     }
   }, [saving, establishmentName, priceThreshold, updateSettings]);
 
+  const handleSavePricingSettings = useCallback(async () => {
+    if (savingPricing) return;
+    const target = Number.parseFloat(targetFoodCost.replace(',', '.'));
+    const vat = Number.parseFloat(menuVatRate.replace(',', '.'));
+    if (!(target > 0 && target < 100)) { showError('Le food cost cible doit etre entre 1 et 99%'); return; }
+    if (!(vat >= 0 && vat < 100)) { showError('Le taux de TVA est invalide'); return; }
+    const categoryFoodCostTargets: Record<string, number> = {};
+    for (const entry of categoryTargets) {
+      const category = entry.category.trim();
+      const rate = Number.parseFloat(entry.rate.replace(',', '.'));
+      if (!category) continue;
+      if (!(rate > 0 && rate < 100)) { showError(`Objectif invalide pour ${category}`); return; }
+      categoryFoodCostTargets[category] = rate / 100;
+    }
+    setSavingPricing(true);
+    try {
+      await updateSettings({
+        targetFoodCostRate: target / 100,
+        menuVatRate: vat,
+        priceRounding,
+        categoryFoodCostTargets,
+      });
+      showSuccess('Objectifs food cost enregistres');
+    } catch {
+      showError('Impossible de sauvegarder les objectifs');
+    } finally {
+      setSavingPricing(false);
+    }
+  }, [savingPricing, targetFoodCost, menuVatRate, priceRounding, categoryTargets, updateSettings]);
+
+  const handleSaveAccountingSettings = useCallback(async () => {
+    if (savingAccounting) return;
+    const accountPattern = /^\d{3,}[A-Z0-9]*$/i;
+    const mappings = accountingDraft.mappings
+      .map((rule) => ({ ...rule, match: rule.match.trim(), account: rule.account.trim() }))
+      .filter((rule) => rule.match || rule.account);
+    const accounts = [
+      accountingDraft.purchaseAccount,
+      accountingDraft.vatDeductibleAccount,
+      accountingDraft.supplierAccount,
+      ...mappings.map((rule) => rule.account),
+    ]
+      .map((account) => account.trim())
+      .filter(Boolean);
+    if (mappings.some((rule) => !rule.match || !rule.account)) { showError('Chaque regle doit avoir un nom et un compte'); return; }
+    const invalid = accounts.find((account) => !accountPattern.test(account));
+    if (invalid) { showError(`Numero de compte invalide: ${invalid}`); return; }
+    setSavingAccounting(true);
+    try {
+      await updateSettings({
+        accountingJournalCode: accountingDraft.journalCode.trim() || undefined,
+        purchaseAccount: accountingDraft.purchaseAccount.trim() || undefined,
+        vatDeductibleAccount: accountingDraft.vatDeductibleAccount.trim() || undefined,
+        supplierAccount: accountingDraft.supplierAccount.trim() || undefined,
+        accountMappings: mappings,
+      });
+      showSuccess('Comptes comptables enregistres');
+    } catch {
+      showError('Impossible de sauvegarder les comptes');
+    } finally {
+      setSavingAccounting(false);
+    }
+  }, [savingAccounting, accountingDraft, updateSettings]);
+
   const handleSaveGeminiKey = useCallback(async () => {
     const trimmed = geminiKey.trim();
     await setApiKey(trimmed);
@@ -216,13 +315,38 @@ export default function Settings() {
 
         await db.transaction(
           'rw',
-          [db.equipment, db.temperatureRecords, db.oilChangeRecords, db.tasks, db.orders, db.productTraces, db.invoices, db.priceHistory, db.settings],
+          [
+            db.equipment,
+            db.temperatureRecords,
+            db.oilChangeRecords,
+            db.correctiveActions,
+            db.processTemperatureLogs,
+            db.tasks,
+            db.orders,
+            db.supplierNonConformities,
+            db.productTraces,
+            db.invoices,
+            db.priceHistory,
+            db.settings,
+            db.ingredients,
+            db.recipes,
+            db.recipeIngredients,
+            db.suppliers,
+            db.standingOrders,
+            db.recipeOutputs,
+            db.stockCounts,
+            db.posDishMappings,
+            db.ingredientPriceReviews,
+          ],
           async () => {
             await db.equipment.clear();
             await db.temperatureRecords.clear();
             await db.oilChangeRecords.clear();
+            await db.correctiveActions.clear();
+            await db.processTemperatureLogs.clear();
             await db.tasks.clear();
             await db.orders.clear();
+            await db.supplierNonConformities.clear();
             await db.productTraces.clear();
             await db.invoices.clear();
             await db.priceHistory.clear();
@@ -231,12 +355,49 @@ export default function Settings() {
             if (data.equipment?.length) await db.equipment.bulkAdd(data.equipment);
             if (data.temperatureRecords?.length) await db.temperatureRecords.bulkAdd(data.temperatureRecords);
             if (data.oilChangeRecords?.length) await db.oilChangeRecords.bulkAdd(data.oilChangeRecords);
+            if (data.correctiveActions?.length) await db.correctiveActions.bulkAdd(data.correctiveActions);
+            if (data.processTemperatureLogs?.length) await db.processTemperatureLogs.bulkAdd(data.processTemperatureLogs);
             if (data.tasks?.length) await db.tasks.bulkAdd(data.tasks);
             if (data.orders?.length) await db.orders.bulkAdd(data.orders);
+            if (data.supplierNonConformities?.length) await db.supplierNonConformities.bulkAdd(data.supplierNonConformities);
             if (data.productTraces?.length) await db.productTraces.bulkAdd(data.productTraces);
             if (data.invoices?.length) await db.invoices.bulkAdd(data.invoices);
             if (data.priceHistory?.length) await db.priceHistory.bulkAdd(data.priceHistory);
             if (data.settings?.length) await db.settings.bulkAdd(data.settings);
+            if (data.recipes) {
+              await db.ingredients.clear();
+              await db.recipes.clear();
+              await db.recipeIngredients.clear();
+              if (data.ingredients?.length) await db.ingredients.bulkAdd(data.ingredients);
+              if (data.recipes.length) await db.recipes.bulkAdd(data.recipes);
+              if (data.recipeIngredients?.length) await db.recipeIngredients.bulkAdd(data.recipeIngredients);
+            }
+            if (data.suppliers) {
+              await db.suppliers.clear();
+              if (data.suppliers.length) await db.suppliers.bulkAdd(data.suppliers);
+            }
+            if (data.standingOrders) {
+              await db.standingOrders.clear();
+              if (data.standingOrders.length) await db.standingOrders.bulkAdd(data.standingOrders);
+            }
+            if (data.recipeOutputs) {
+              await db.recipeOutputs.clear();
+              if (data.recipeOutputs.length) await db.recipeOutputs.bulkAdd(data.recipeOutputs);
+            }
+            if (data.stockCounts) {
+              await db.stockCounts.clear();
+              if (data.stockCounts.length) await db.stockCounts.bulkAdd(data.stockCounts);
+            }
+            if (data.posDishMappings) {
+              await db.posDishMappings.clear();
+              if (data.posDishMappings.length) await db.posDishMappings.bulkAdd(data.posDishMappings);
+            }
+            if (data.ingredientPriceReviews) {
+              await db.ingredientPriceReviews.clear();
+              if (data.ingredientPriceReviews.length) {
+                await db.ingredientPriceReviews.bulkAdd(data.ingredientPriceReviews);
+              }
+            }
           },
         );
 
@@ -403,6 +564,28 @@ export default function Settings() {
         onSave={handleSaveSettings}
       />
 
+      <PricingSettingsSection
+        inputClass={inputClass}
+        targetFoodCost={targetFoodCost}
+        menuVatRate={menuVatRate}
+        priceRounding={priceRounding}
+        categoryTargets={categoryTargets}
+        saving={savingPricing}
+        onTargetFoodCostChange={setTargetFoodCost}
+        onMenuVatRateChange={setMenuVatRate}
+        onPriceRoundingChange={setPriceRounding}
+        onCategoryTargetsChange={setCategoryTargets}
+        onSave={handleSavePricingSettings}
+      />
+
+      <AccountingSettingsSection
+        inputClass={inputClass}
+        draft={accountingDraft}
+        saving={savingAccounting}
+        onChange={(patch) => setAccountingDraft((prev) => ({ ...prev, ...patch }))}
+        onSave={handleSaveAccountingSettings}
+      />
+
       <ApiSettingsSection
         inputClass={inputClass}
         geminiConnected={geminiConnected}
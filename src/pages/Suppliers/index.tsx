@@ -0,0 +1,104 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useAppStore } from '../../stores/appStore';
+import { showError } from '../../stores/toastStore';
+import SupplierComparisonTable from '../../components/suppliers/SupplierComparisonTable';
+import SupplierScorecardDetail from '../../components/suppliers/SupplierScorecardDetail';
+import {
+  buildSupplierScorecards,
+  buildSupplierTrend,
+  getScorecardPeriod,
+  SCORECARD_PERIOD_LABELS,
+  type ScorecardInput,
+  type ScorecardPeriodPreset,
+} from '../../services/supplierScorecard';
+import { cn } from '../../utils';
+
+const PERIODS = Object.keys(SCORECARD_PERIOD_LABELS) as ScorecardPeriodPreset[];
+
+const EMPTY_INPUT: ScorecardInput = { orders: [], invoices: [], priceHistory: [], nonConformities: [] };
+
+export default function SuppliersPage() {
+  const getOrders = useAppStore((s) => s.getOrders);
+  const getInvoices = useAppStore((s) => s.getInvoices);
+  const getPriceHistory = useAppStore((s) => s.getPriceHistory);
+  const getSupplierNonConformities = useAppStore((s) => s.getSupplierNonConformities);
+
+  const [loading, setLoading] = useState(true);
+  const [input, setInput] = useState<ScorecardInput>(EMPTY_INPUT);
+  const [preset, setPreset] = useState<ScorecardPeriodPreset>('6m');
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([getOrders(), getInvoices(), getPriceHistory(), getSupplierNonConformities()])
+      .then(([orders, invoices, priceHistory, nonConformities]) => {
+        if (cancelled) return;
+        setInput({ orders, invoices, priceHistory, nonConformities });
+      })
+      .catch(() => {
+        if (!cancelled) showError('Impossible de charger les indicateurs fournisseurs');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [getOrders, getInvoices, getPriceHistory, getSupplierNonConformities]);
+
+  const period = useMemo(() => getScorecardPeriod(preset), [preset]);
+  const scorecards = useMemo(() => buildSupplierScorecards(input, period), [input, period]);
+  // Falls back to the biggest supplier when the selection has no activity in the period.
+  const selected = scorecards.find((row) => row.key === selectedKey) ?? scorecards[0] ?? null;
+  const trend = useMemo(
+    () => (selected ? buildSupplierTrend(input, selected.key, period) : []),
+    [input, selected, period],
+  );
+
+  return (
+    <div className="app-page-wrap pb-24 space-y-3">
+      <section className="glass-card glass-hero space-y-3 animate-fade-in-up">
+        <div>
+          <h1 className="ios-title app-text">Fournisseurs</h1>
+          <p className="ios-caption app-muted">Ponctualite, prix, ecarts de facturation et non-conformites.</p>
+        </div>
+        <div className="ios-segmented max-w-xl">
+          {PERIODS.map((key) => (
+            <button
+              key={key}
+              type="button"
+              onClick={() => setPreset(key)}
+              className={cn('ios-segmented-item', preset === key && 'active')}
+            >
+              {SCORECARD_PERIOD_LABELS[key]}
+            </button>
+          ))}
+        </div>
+      </section>
+
+      <section className="glass-card glass-panel space-y-3 animate-fade-in-up">
+        <div className="flex items-center justify-between">
+          <h2 className="ios-title3 app-text">Comparatif</h2>
+          {loading && <span className="ios-small app-muted">Chargement...</span>}
+        </div>
+        <SupplierComparisonTable
+          scorecards={scorecards}
+          selectedKey={selected?.key ?? null}
+          onSelect={setSelectedKey}
+        />
+      </section>
+
+      {selected && (
+        <section className="glass-card glass-panel space-y-3 animate-fade-in-up">
+          <div>
+            <h2 className="ios-title3 app-text">{selected.supplier}</h2>
+            <p className="ios-caption app-muted">Evolution mensuelle sur la periode.</p>
+          </div>
+          <SupplierScorecardDetail scorecard={selected} trend={trend} />
+        </section>
+      )}
+    </div>
+  );
+}
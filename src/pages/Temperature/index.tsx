@@ -7,16 +7,19 @@ import TemperatureInput from '../../components/temperature/TemperatureInput';
 import TemperatureHistory from '../../components/temperature/TemperatureHistory';
 import EquipmentManager from '../../components/temperature/EquipmentManager';
 import OilChangeTracker from '../../components/temperature/OilChangeTracker';
+import ProcessTemperatureTracker from '../../components/temperature/ProcessTemperatureTracker';
+import { PROCESS_RULES } from '../../services/processTemperature';
 import { logger } from '../../services/logger';
 
 const TemperatureChart = lazy(() => import('../../components/temperature/TemperatureChart'));
 import { cn } from '../../utils';
 
-type ControlCategory = 'cold' | 'oil';
+type ControlCategory = 'cold' | 'process' | 'oil';
 type SubView = 'input' | 'history' | 'charts';
 
 const CONTROL_CATEGORIES: { key: ControlCategory; label: string }[] = [
   { key: 'cold', label: 'Frigos' },
+  { key: 'process', label: 'Chaud / refroid.' },
   { key: 'oil', label: 'Huile friteuse' },
 ];
 
@@ -44,6 +47,8 @@ export default function TemperaturePage() {
   const equipment = useAppStore((s) => s.equipment);
   const settings = useAppStore((s) => s.settings);
   const getTemperatureRecords = useAppStore((s) => s.getTemperatureRecords);
+  const getCorrectiveActions = useAppStore((s) => s.getCorrectiveActions);
+  const getProcessTemperatureLogs = useAppStore((s) => s.getProcessTemperatureLogs);
 
   React.useEffect(() => {
     const quick = searchParams.get('quick');
@@ -61,6 +66,10 @@ export default function TemperaturePage() {
       setActiveCategory('cold');
       setActiveView('input');
     }
+    if (quick === 'process') {
+      setActiveCategory('process');
+      setShowExportPanel(false);
+    }
     if (quick === 'oil') {
       setActiveCategory('oil');
       setShowExportPanel(false);
@@ -79,17 +88,38 @@ export default function TemperaturePage() {
       to.setHours(23, 59, 59, 999);
 
       const records = await getTemperatureRecords(from, to, exportEquipmentId || undefined);
+      const recordIds = new Set(records.map((record) => record.id));
+      const correctiveActions = (await getCorrectiveActions(from, undefined, exportEquipmentId || undefined)).filter(
+        (action) => recordIds.has(action.temperatureRecordId),
+      );
+      const processLogs = exportEquipmentId ? [] : await getProcessTemperatureLogs(from, to);
       const periodLabel = `${format(from, 'dd/MM/yyyy', { locale: fr })} - ${format(to, 'dd/MM/yyyy', { locale: fr })}`;
 
       const { generateTemperaturePDF } = await import('../../services/pdf');
-      await generateTemperaturePDF(records, equipment, settings?.establishmentName ?? 'Mon etablissement', periodLabel);
+      await generateTemperaturePDF(
+        records,
+        equipment,
+        settings?.establishmentName ?? 'Mon etablissement',
+        periodLabel,
+        correctiveActions,
+        processLogs,
+      );
       setShowExportPanel(false);
     } catch (err) {
       logger.error('PDF export error', { err });
     } finally {
       setExporting(false);
     }
-  }, [equipment, settings, getTemperatureRecords, exportFrom, exportTo, exportEquipmentId]);
+  }, [
+    equipment,
+    settings,
+    getTemperatureRecords,
+    getCorrectiveActions,
+    getProcessTemperatureLogs,
+    exportFrom,
+    exportTo,
+    exportEquipmentId,
+  ]);
 
   return (
     <div className="app-page-wrap h-full pb-24">
@@ -101,7 +131,9 @@ export default function TemperaturePage() {
               <p className="text-[11px] sm:text-[12px] app-muted">
                 {activeCategory === 'cold'
                   ? 'Temperatures de froid & export HACCP.'
-                  : 'Changements d huile friture (HACCP).'}
+                  : activeCategory === 'process'
+                    ? 'Refroidissement, maintien et remise en temperature.'
+                    : 'Changements d huile friture (HACCP).'}
               </p>
             </div>
             {activeCategory === 'cold' && (
@@ -153,6 +185,31 @@ export default function TemperaturePage() {
                   <p className="app-kpi-value ![font-size:12px] sm:![font-size:13px] font-semibold truncate">{exportTo}</p>
                 </div>
               </>
+            ) : activeCategory === 'process' ? (
+              <>
+                <div className="glass-card glass-kpi">
+                  <p className="app-kpi-label">Refroidissement</p>
+                  <p className="app-kpi-value !text-[13px] sm:!text-[14px] font-semibold">
+                    {`<= ${PROCESS_RULES.cooling.maxEndTemperature}°C en ${(PROCESS_RULES.cooling.maxDurationMinutes ?? 0) / 60}h`}
+                  </p>
+                </div>
+                <div className="glass-card glass-kpi">
+                  <p className="app-kpi-label">Maintien chaud</p>
+                  <p className="app-kpi-value !text-[13px] sm:!text-[14px] font-semibold">
+                    {`>= ${PROCESS_RULES.hot_holding.minTemperature}°C`}
+                  </p>
+                </div>
+                <div className="glass-card glass-kpi">
+                  <p className="app-kpi-label">Remise en T°</p>
+                  <p className="app-kpi-value !text-[13px] sm:!text-[14px] font-semibold">
+                    {`>= ${PROCESS_RULES.reheating.minEndTemperature}°C en ${(PROCESS_RULES.reheating.maxDurationMinutes ?? 0) / 60}h`}
+                  </p>
+                </div>
+                <div className="glass-card glass-kpi">
+                  <p className="app-kpi-label">Export</p>
+                  <p className="app-kpi-value !text-[13px] sm:!text-[14px] font-semibold">PDF HACCP</p>
+                </div>
+              </>
             ) : (
               <>
                 <div className="glass-card glass-kpi">
@@ -182,7 +239,7 @@ export default function TemperaturePage() {
               key={category.key}
               onClick={() => {
                 setActiveCategory(category.key);
-                if (category.key === 'oil') setShowExportPanel(false);
+                if (category.key !== 'cold') setShowExportPanel(false);
               }}
               className={cn('pill-toggle-btn', activeCategory === category.key && 'active')}
             >
@@ -252,6 +309,7 @@ export default function TemperaturePage() {
             <TemperatureChart />
           </Suspense>
         )}
+        {activeCategory === 'process' && <ProcessTemperatureTracker />}
         {activeCategory === 'oil' && <OilChangeTracker establishmentName={settings?.establishmentName} />}
       </div>
 
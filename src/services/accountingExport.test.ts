@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { buildPurchaseJournal, buildSupplierAuxAccount, getAccountingSettings, resolvePurchaseAccount } from './accountingExport';
+import type { AppSettings, Invoice } from '../types';
+
+function makeInvoice(overrides: Partial<Invoice>): Invoice {
+  return {
+    id: 'inv-1',
+    images: [],
+    supplier: 'Metro',
+    invoiceNumber: 'F-100',
+    invoiceDate: new Date(2026, 8, 10),
+    items: [],
+    totalHT: 52,
+    totalTVA: 7.21,
+    totalTTC: 59.21,
+    vatBreakdown: [
+      { rate: 5.5, baseHT: 22, vat: 1.21 },
+      { rate: 20, baseHT: 30, vat: 6 },
+    ],
+    ocrText: '',
+    tags: [],
+    scannedAt: new Date(2026, 8, 10),
+    ...overrides,
+  };
+}
+
+const settings: AppSettings = {
+  id: 'default',
+  establishmentName: 'Test',
+  darkMode: false,
+  onboardingDone: true,
+  priceAlertThreshold: 10,
+  accountMappings: [
+    { id: 'r1', kind: 'category', match: 'Boissons', account: '607200' },
+    { id: 'r2', kind: 'supplier', match: 'METRO france', account: '607100' },
+  ],
+};
+
+describe('accounting export', () => {
+  it('falls back to default accounts', () => {
+    expect(getAccountingSettings(null)).toMatchObject({
+      journalCode: 'HA',
+      purchaseAccount: '607000',
+      vatDeductibleAccount: '445660',
+      supplierAccount: '401000',
+    });
+    expect(buildSupplierAuxAccount('Toute la marée')).toBe('FTOUTELAMAREE');
+  });
+
+  it('routes invoices by supplier first, then by tag', () => {
+    const accounting = getAccountingSettings(settings);
+    expect(resolvePurchaseAccount(makeInvoice({ tags: ['boissons'] }), accounting)).toBe('607100');
+    expect(resolvePurchaseAccount(makeInvoice({ supplier: 'Transgourmet', tags: ['boissons'] }), accounting)).toBe('607200');
+    expect(resolvePurchaseAccount(makeInvoice({ supplier: 'Transgourmet' }), accounting)).toBe('607000');
+  });
+
+  it('builds balanced entries for invoices in the date range', () => {
+    const inRange = makeInvoice({});
+    const legacy = makeInvoice({
+      id: 'inv-2',
+      supplier: 'Transgourmet',
+      invoiceNumber: 'T-9',
+      invoiceDate: new Date(2026, 8, 30, 18),
+      vatBreakdown: undefined,
+      totalHT: 100,
+      totalTVA: 5.5,
+      totalTTC: 105.5,
+    });
+    const outOfRange = makeInvoice({ id: 'inv-3', invoiceDate: new Date(2026, 9, 1) });
+
+    const journal = buildPurchaseJournal([legacy, outOfRange, inRange], settings, {
+      from: new Date(2026, 8, 1),
+      to: new Date(2026, 8, 30),
+    });
+
+    expect(journal.invoiceCount).toBe(2);
+    expect(journal.totalDebit).toBe(journal.totalCredit);
+    expect(journal.totalDebit).toBe(164.71);
+    expect(journal.lines.filter((line) => line.entryNumber === 1).map((line) => [line.accountNumber, line.debit, line.credit])).toEqual([
+      ['607100', 22, 0],
+      ['607100', 30, 0],
+      ['445660', 1.21, 0],
+      ['445660', 6, 0],
+      ['401000', 0, 59.21],
+    ]);
+    const supplierLine = journal.lines.find((line) => line.entryNumber === 2 && line.credit > 0);
+    expect(supplierLine).toMatchObject({ auxAccount: 'FTRANSGOURMET', pieceRef: 'T-9', credit: 105.5 });
+  });
+});
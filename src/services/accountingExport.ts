@@ -0,0 +1,155 @@
+import type { AccountMappingRule, AppSettings, Invoice } from '../types';
+import { formatVatRate, getInvoiceVatBreakdown } from './invoiceVat';
+import { canonicalizeSupplierName, normalizeSupplierKey } from './suppliers';
+
+export const DEFAULT_JOURNAL_CODE = 'HA';
+export const DEFAULT_PURCHASE_ACCOUNT = '607000';
+export const DEFAULT_VAT_DEDUCTIBLE_ACCOUNT = '445660';
+export const DEFAULT_SUPPLIER_ACCOUNT = '401000';
+const JOURNAL_LABEL = 'Journal des achats';
+
+export interface AccountingSettings {
+  journalCode: string;
+  purchaseAccount: string;
+  vatDeductibleAccount: string;
+  supplierAccount: string;
+  mappings: AccountMappingRule[];
+}
+
+export interface JournalLine {
+  /** Sequential entry number: every line of one invoice shares it. */
+  entryNumber: number;
+  date: Date;
+  pieceRef: string;
+  accountNumber: string;
+  accountLabel: string;
+  /** Supplier sub-account, only on the 401 line. */
+  auxAccount?: string;
+  auxLabel?: string;
+  label: string;
+  debit: number;
+  credit: number;
+}
+
+export interface PurchaseJournal {
+  journalCode: string;
+  journalLabel: string;
+  lines: JournalLine[];
+  invoiceCount: number;
+  totalDebit: number;
+  totalCredit: number;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function normalizeMatch(value: string): string {
+  return normalizeSupplierKey(canonicalizeSupplierName(value));
+}
+
+export function getAccountingSettings(settings?: AppSettings | null): AccountingSettings {
+  return {
+    journalCode: settings?.accountingJournalCode?.trim() || DEFAULT_JOURNAL_CODE,
+    purchaseAccount: settings?.purchaseAccount?.trim() || DEFAULT_PURCHASE_ACCOUNT,
+    vatDeductibleAccount: settings?.vatDeductibleAccount?.trim() || DEFAULT_VAT_DEDUCTIBLE_ACCOUNT,
+    supplierAccount: settings?.supplierAccount?.trim() || DEFAULT_SUPPLIER_ACCOUNT,
+    mappings: settings?.accountMappings ?? [],
+  };
+}
+
+/** Supplier sub-account code, e.g. "Toute la Maree" gives FTOUTELAMAREE. */
+export function buildSupplierAuxAccount(supplier: string): string {
+  const key = normalizeSupplierKey(canonicalizeSupplierName(supplier)).toUpperCase();
+  return `F${key || 'DIVERS'}`.slice(0, 17);
+}
+
+/** Charge account for an invoice: supplier rule first, then a rule on one of its tags, then the default. */
+export function resolvePurchaseAccount(invoice: Invoice, accounting: AccountingSettings): string {
+  const supplierKey = normalizeMatch(invoice.supplier);
+  const supplierRule = accounting.mappings.find(
+    (rule) => rule.kind === 'supplier' && supplierKey !== '' && normalizeMatch(rule.match) === supplierKey,
+  );
+  if (supplierRule) return supplierRule.account;
+
+  const tags = new Set(invoice.tags.map((tag) => tag.trim().toLowerCase()));
+  const categoryRule = accounting.mappings.find(
+    (rule) => rule.kind === 'category' && tags.has(rule.match.trim().toLowerCase()),
+  );
+  return categoryRule?.account ?? accounting.purchaseAccount;
+}
+
+function isInRange(date: Date, from: Date, to: Date): boolean {
+  const time = new Date(date).getTime();
+  const start = new Date(from.getFullYear(), from.getMonth(), from.getDate()).getTime();
+  const end = new Date(to.getFullYear(), to.getMonth(), to.getDate(), 23, 59, 59, 999).getTime();
+  return time >= start && time <= end;
+}
+
+/**
+ * Purchase journal over a date range (by invoice date): per invoice, one
+ * charge line and one VAT line per rate on the debit side, and the supplier
+ * credited with their sum so every entry balances.
+ */
+export function buildPurchaseJournal(
+  invoices: Invoice[],
+  settings: AppSettings | null | undefined,
+  range: { from: Date; to: Date },
+): PurchaseJournal {
+  const accounting = getAccountingSettings(settings);
+  const selected = invoices
+    .filter((invoice) => isInRange(invoice.invoiceDate, range.from, range.to))
+    .sort((a, b) => new Date(a.invoiceDate).getTime() - new Date(b.invoiceDate).getTime());
+
+  const lines: JournalLine[] = [];
+  let entryNumber = 0;
+  for (const invoice of selected) {
+    const breakdown = getInvoiceVatBreakdown(invoice).filter((line) => line.baseHT !== 0 || line.vat !== 0);
+    if (breakdown.length === 0) continue;
+    entryNumber++;
+
+    const date = new Date(invoice.invoiceDate);
+    const pieceRef = invoice.invoiceNumber || invoice.id.slice(0, 8);
+    const label = `${invoice.supplier} ${pieceRef}`.trim();
+    const purchaseAccount = resolvePurchaseAccount(invoice, accounting);
+    const base = { entryNumber, date, pieceRef, label };
+
+    for (const vatLine of breakdown) {
+      lines.push({
+        ...base,
+        accountNumber: purchaseAccount,
+        accountLabel: `Achats HT ${formatVatRate(vatLine.rate)}`,
+        debit: roundMoney(vatLine.baseHT),
+        credit: 0,
+      });
+    }
+    for (const vatLine of breakdown) {
+      if (vatLine.vat === 0) continue;
+      lines.push({
+        ...base,
+        accountNumber: accounting.vatDeductibleAccount,
+        accountLabel: `TVA deductible ${formatVatRate(vatLine.rate)}`,
+        debit: roundMoney(vatLine.vat),
+        credit: 0,
+      });
+    }
+    lines.push({
+      ...base,
+      accountNumber: accounting.supplierAccount,
+      accountLabel: 'Fournisseurs',
+      auxAccount: buildSupplierAuxAccount(invoice.supplier),
+      auxLabel: invoice.supplier,
+      debit: 0,
+      credit: roundMoney(breakdown.reduce((sum, vatLine) => sum + vatLine.baseHT + vatLine.vat, 0)),
+    });
+  }
+
+  return {
+    journalCode: accounting.journalCode,
+    journalLabel: JOURNAL_LABEL,
+    lines,
+    invoiceCount: entryNumber,
+    totalDebit: roundMoney(lines.reduce((sum, line) => sum + line.debit, 0)),
+    totalCredit: roundMoney(lines.reduce((sum, line) => sum + line.credit, 0)),
+  };
+}
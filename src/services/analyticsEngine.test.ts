@@ -1,9 +1,12 @@
 import { describe, expect, it, afterAll, beforeAll, vi } from 'vitest';
 import { format, startOfDay, startOfMonth, subDays } from 'date-fns';
 import {
+  buildMenuSuggestions,
   computeAllRecipeCosts,
   computeComplianceTrend,
   computeEquipmentBreakdown,
+  computeFoodCostComparison,
+  computeMenuEngineering,
   computeMonthlySpend,
   computeMonthInvoiceCount,
   computePriceVariation,
@@ -11,7 +14,16 @@ import {
   computeTopVolatileItems,
   type RecipeCostRow,
 } from './analyticsEngine';
-import type { Equipment, Ingredient, Invoice, PriceHistory, Recipe, RecipeIngredient, TemperatureRecord } from '../types';
+import type {
+  Equipment,
+  Ingredient,
+  Invoice,
+  PriceHistory,
+  Recipe,
+  RecipeIngredient,
+  RecipeOutput,
+  TemperatureRecord,
+} from '../types';
 
 const NOW = new Date(2026, 1, 15, 12, 0, 0);
 const TODAY = startOfDay(NOW);
@@ -194,6 +206,39 @@ describe('computeAllRecipeCosts', () => {
   });
 });
 
+describe('computeFoodCostComparison', () => {
+  it('compares theoretical sales cost with invoiced spend per month', () => {
+    const recipes: Recipe[] = [
+      { id: 'r-tart', title: 'Tarte', portions: 8, salePriceHT: 40, createdAt: NOW, updatedAt: NOW },
+    ];
+    const costRows = computeAllRecipeCosts(
+      recipes,
+      [{ id: 'l-1', recipeId: 'r-tart', ingredientId: 'i-flour', requiredQuantity: 4, requiredUnit: 'kg' }],
+      [{ id: 'i-flour', name: 'Farine', unit: 'kg', unitPrice: 2 }],
+    );
+    const sale: RecipeOutput = {
+      id: 'pos-1',
+      recipeId: 'r-tart',
+      recipeTitle: 'Tarte',
+      kind: 'sale',
+      portions: 16,
+      date: new Date(2026, 1, 10),
+      createdAt: NOW,
+    };
+    const production: RecipeOutput = { ...sale, id: 'prod-1', kind: 'production', portions: 80 };
+    const invoice = makeInvoice({ totalHT: 30, invoiceDate: new Date(2026, 1, 3) });
+
+    const points = computeFoodCostComparison([sale, production], recipes, costRows, [invoice], 2);
+    const current = points[1];
+
+    expect(points).toHaveLength(2);
+    expect(current).toMatchObject({ salesRevenue: 80, theoreticalCost: 16, actualSpend: 30 });
+    expect(current?.theoreticalRate).toBeCloseTo(0.2, 5);
+    expect(current?.actualRate).toBeCloseTo(0.375, 5);
+    expect(points[0]?.actualRate).toBe(0);
+  });
+});
+
 describe('computeTopExpensiveIngredients', () => {
   it('aggregates same ingredient across recipes and counts distinct recipes', () => {
     const rows: RecipeCostRow[] = [
@@ -205,6 +250,8 @@ describe('computeTopExpensiveIngredients', () => {
         grossMargin: 12,
         foodCostRate: 0.4,
         warningLevel: 'danger',
+        yieldLossCost: 0,
+        unconvertibleLines: [],
         ingredientCosts: [
           { ingredientId: 'i1', ingredientName: 'Farine', cost: 5 },
           { ingredientId: 'i2', ingredientName: 'Beurre', cost: 3 },
@@ -218,6 +265,8 @@ describe('computeTopExpensiveIngredients', () => {
         grossMargin: 21,
         foodCostRate: 0.16,
         warningLevel: 'ok',
+        yieldLossCost: 0,
+        unconvertibleLines: [],
         ingredientCosts: [{ ingredientId: 'i1', ingredientName: 'Farine', cost: 2 }],
       },
     ];
@@ -236,6 +285,8 @@ describe('computeTopExpensiveIngredients', () => {
         grossMargin: 0,
         foodCostRate: 0,
         warningLevel: 'ok',
+        yieldLossCost: 0,
+        unconvertibleLines: [],
         ingredientCosts: [
           { ingredientId: 'i1', ingredientName: 'A', cost: 1 },
           { ingredientId: 'i2', ingredientName: 'B', cost: 10 },
@@ -327,3 +378,56 @@ describe('computeMonthInvoiceCount', () => {
     expect(computeMonthInvoiceCount([], NOW)).toBe(0);
   });
 });
+
+describe('computeMenuEngineering', () => {
+  it('classes dishes by popularity and unit margin and suggests actions', () => {
+    const recipe = (id: string, salePriceHT: number): Recipe => ({
+      id,
+      title: id,
+      portions: 1,
+      salePriceHT,
+      createdAt: NOW,
+      updatedAt: NOW,
+    });
+    const recipes = [recipe('star', 20), recipe('plowhorse', 12), recipe('puzzle', 25), recipe('dog', 10), recipe('fond', 0)];
+    const cost = (recipeId: string, totalCost: number): RecipeCostRow => ({
+      recipeId,
+      recipeTitle: recipeId,
+      totalCost,
+      grossMargin: 0,
+      foodCostRate: 0,
+      warningLevel: 'ok',
+      yieldLossCost: 0,
+      unconvertibleLines: [],
+      ingredientCosts: [],
+    });
+    const costRows = [cost('star', 5), cost('plowhorse', 6), cost('puzzle', 7), cost('dog', 6)];
+    const sale = (recipeId: string, portions: number, date = new Date(2026, 1, 10)): RecipeOutput => ({
+      id: `pos-${recipeId}-${date.getTime()}`,
+      recipeId,
+      recipeTitle: recipeId,
+      kind: 'sale',
+      portions,
+      date,
+      createdAt: NOW,
+    });
+    const sales = [
+      sale('star', 40),
+      sale('plowhorse', 50),
+      sale('puzzle', 5),
+      sale('dog', 5),
+      sale('dog', 100, new Date(2026, 0, 10)),
+    ];
+
+    const result = computeMenuEngineering(sales, recipes, costRows, new Date(2026, 1, 1), new Date(2026, 2, 1));
+    const quadrants = Object.fromEntries(result.rows.map((row) => [row.recipeId, row.quadrant]));
+
+    expect(result.rows).toHaveLength(4);
+    expect(result.popularityThreshold).toBeCloseTo(17.5, 5);
+    expect(quadrants).toEqual({ star: 'star', plowhorse: 'plowhorse', puzzle: 'puzzle', dog: 'dog' });
+
+    const suggestions = buildMenuSuggestions(result);
+    expect(suggestions.map((suggestion) => suggestion.recipeId)).toEqual(['plowhorse', 'puzzle', 'dog']);
+    expect(suggestions[0].message).toContain('passer a');
+  });
+});
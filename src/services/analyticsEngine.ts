@@ -1,6 +1,21 @@
 import { format, startOfDay, startOfMonth, subDays, subMonths } from 'date-fns';
-import { computeRecipeCostFromLines, getEffectiveUnitPrice } from './recipeCost';
-import type { Equipment, Ingredient, Invoice, PriceHistory, Recipe, RecipeIngredient, RecipeUnit, TemperatureRecord } from '../types';
+import {
+  buildSubRecipeContext,
+  computeRecipeConsumption,
+  computeRecipeCostFromLines,
+  getTargetFoodCostRate,
+} from './recipeCost';
+import type {
+  AppSettings,
+  Equipment,
+  Ingredient,
+  Invoice,
+  PriceHistory,
+  Recipe,
+  RecipeIngredient,
+  RecipeOutput,
+  TemperatureRecord,
+} from '../types';
 
 export interface MonthlySpendPoint {
   month: string;
@@ -21,6 +36,10 @@ export interface RecipeCostRow {
   grossMargin: number;
   foodCostRate: number;
   warningLevel: 'ok' | 'warning' | 'danger';
+  /** Share of totalCost paid for trimmings and peelings (usable yield below 100%). */
+  yieldLossCost: number;
+  /** Lines missing from totalCost, see RecipeCostSummary. */
+  unconvertibleLines: string[];
   ingredientCosts: RecipeIngredientCost[];
 }
 
@@ -30,6 +49,46 @@ export interface TopIngredientCost {
   recipeCount: number;
 }
 
+export interface FoodCostPoint {
+  month: string;
+  salesRevenue: number;
+  theoreticalCost: number;
+  actualSpend: number;
+  theoreticalRate: number;
+  actualRate: number;
+}
+
+/** Kasavana & Smith quadrants: popularity (sales mix) x unit contribution margin. */
+export type MenuQuadrant = 'star' | 'plowhorse' | 'puzzle' | 'dog';
+
+export interface MenuEngineeringRow {
+  recipeId: string;
+  recipeTitle: string;
+  unitsSold: number;
+  /** Sale price, food cost and margin of one portion (HT). */
+  unitPrice: number;
+  unitCost: number;
+  unitMargin: number;
+  totalMargin: number;
+  mixShare: number;
+  quadrant: MenuQuadrant;
+}
+
+export interface MenuEngineeringResult {
+  rows: MenuEngineeringRow[];
+  /** A dish is popular when it sells at least this many portions (70% of an even share). */
+  popularityThreshold: number;
+  /** Average unit margin weighted by sales: the line between high and low margin. */
+  averageMargin: number;
+}
+
+export interface MenuSuggestion {
+  recipeId: string;
+  recipeTitle: string;
+  quadrant: MenuQuadrant;
+  message: string;
+}
+
 export interface ComplianceTrendPoint {
   date: string;
   rate: number;
@@ -58,40 +117,22 @@ function toMonthKey(value: Date): string {
   return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}`;
 }
 
-function normalizeUnit(unit: RecipeUnit): RecipeUnit {
-  return unit.toLowerCase() as RecipeUnit;
-}
-
-function convertQuantity(value: number, fromUnit: RecipeUnit, toUnit: RecipeUnit): number | null {
-  const from = normalizeUnit(fromUnit);
-  const to = normalizeUnit(toUnit);
-  if (from === to) return value;
-
-  if (from === 'g' && to === 'kg') return value / 1000;
-  if (from === 'kg' && to === 'g') return value * 1000;
-  if (from === 'ml' && to === 'l') return value / 1000;
-  if (from === 'l' && to === 'ml') return value * 1000;
-
-  return null;
-}
-
 export function computePriceVariation(history: PriceHistory): number {
   if (history.averagePrice <= 0) return 0;
   return ((history.maxPrice - history.minPrice) / history.averagePrice) * 100;
 }
 
-export function computeMonthlySpend(invoices: Invoice[], months = 6): MonthlySpendPoint[] {
+function buildMonthSlots(months: number): { key: string; month: string }[] {
   const safeMonths = Math.max(1, Math.floor(months));
   const now = new Date();
-
-  const monthSlots = Array.from({ length: safeMonths }, (_, index) => {
+  return Array.from({ length: safeMonths }, (_, index) => {
     const monthDate = startOfMonth(subMonths(now, safeMonths - 1 - index));
-    return {
-      key: toMonthKey(monthDate),
-      month: format(monthDate, 'MM/yy'),
-      total: 0,
-    };
+    return { key: toMonthKey(monthDate), month: format(monthDate, 'MM/yy') };
   });
+}
+
+export function computeMonthlySpend(invoices: Invoice[], months = 6): MonthlySpendPoint[] {
+  const monthSlots = buildMonthSlots(months).map((slot) => ({ ...slot, total: 0 }));
   const byMonth = new Map(monthSlots.map((slot) => [slot.key, slot]));
 
   for (const invoice of invoices) {
@@ -121,49 +162,30 @@ export function computeAllRecipeCosts(
   recipes: Recipe[],
   links: RecipeIngredient[],
   ingredients: Ingredient[],
+  settings?: AppSettings | null,
 ): RecipeCostRow[] {
   const ingredientMap = new Map(ingredients.map((ingredient) => [ingredient.id, ingredient]));
-  const linesByRecipe = new Map<string, RecipeIngredient[]>();
-
-  for (const line of links) {
-    const recipeLines = linesByRecipe.get(line.recipeId);
-    if (recipeLines) {
-      recipeLines.push(line);
-    } else {
-      linesByRecipe.set(line.recipeId, [line]);
-    }
-  }
+  const context = buildSubRecipeContext(recipes, links);
 
   const rows: RecipeCostRow[] = recipes.map((recipe) => {
-    const recipeLines = linesByRecipe.get(recipe.id) ?? [];
+    const recipeLines = context.linesByRecipe.get(recipe.id) ?? [];
     const summary = computeRecipeCostFromLines(
-      recipeLines.map((line) => ({
-        ingredientId: line.ingredientId,
-        requiredQuantity: line.requiredQuantity,
-        requiredUnit: line.requiredUnit,
-      })),
+      recipeLines,
       ingredientMap,
       recipe.salePriceHT,
+      context,
+      recipe.id,
+      getTargetFoodCostRate(settings, recipe.category),
+    );
+    // Sub-recipes are expanded so that the breakdown only lists purchased ingredients.
+    const consumption = computeRecipeConsumption(recipeLines, ingredientMap, context, recipe.id);
+    const ingredientCosts = consumption.map(
+      (entry): RecipeIngredientCost => ({
+        ingredientId: entry.ingredient.id,
+        ingredientName: entry.ingredient.name,
+        cost: entry.cost,
+      }),
     );
-
-    const ingredientCostMap = new Map<string, RecipeIngredientCost>();
-    for (const line of recipeLines) {
-      const ingredient = ingredientMap.get(line.ingredientId);
-      if (!ingredient) continue;
-      const convertedQuantity = convertQuantity(line.requiredQuantity, line.requiredUnit, ingredient.unit);
-      if (convertedQuantity === null || !Number.isFinite(convertedQuantity) || convertedQuantity < 0) continue;
-      const lineCost = convertedQuantity * getEffectiveUnitPrice(ingredient);
-      const existing = ingredientCostMap.get(ingredient.id);
-      if (existing) {
-        existing.cost += lineCost;
-      } else {
-        ingredientCostMap.set(ingredient.id, {
-          ingredientId: ingredient.id,
-          ingredientName: ingredient.name,
-          cost: lineCost,
-        });
-      }
-    }
 
     return {
       recipeId: recipe.id,
@@ -173,7 +195,9 @@ export function computeAllRecipeCosts(
       grossMargin: summary.grossMargin,
       foodCostRate: summary.foodCostRate,
       warningLevel: summary.warningLevel,
-      ingredientCosts: [...ingredientCostMap.values()].sort((a, b) => b.cost - a.cost),
+      yieldLossCost: consumption.reduce((sum, entry) => sum + entry.yieldLossCost, 0),
+      unconvertibleLines: summary.unconvertibleLines ?? [],
+      ingredientCosts: ingredientCosts.sort((a, b) => b.cost - a.cost),
     };
   });
 
@@ -210,6 +234,139 @@ export function computeTopExpensiveIngredients(costRows: RecipeCostRow[], n = 5)
     .slice(0, safeLimit);
 }
 
+/**
+ * Compares what sales should have consumed (recipe cost) with what was bought (invoices).
+ * Like computeRecipeCostFromLines, cost and sale price cover the whole recipe:
+ * one sold portion weighs 1/portions of each.
+ */
+export function computeFoodCostComparison(
+  sales: RecipeOutput[],
+  recipes: Recipe[],
+  costRows: RecipeCostRow[],
+  invoices: Invoice[],
+  months = 6,
+): FoodCostPoint[] {
+  const recipeMap = new Map(recipes.map((recipe) => [recipe.id, recipe]));
+  const costMap = new Map(costRows.map((row) => [row.recipeId, row]));
+  const spendByMonth = computeMonthlySpend(invoices, months);
+  const slots = buildMonthSlots(months).map((slot, index) => ({
+    ...slot,
+    salesRevenue: 0,
+    theoreticalCost: 0,
+    actualSpend: spendByMonth[index]?.total ?? 0,
+  }));
+  const byMonth = new Map(slots.map((slot) => [slot.key, slot]));
+
+  for (const sale of sales) {
+    if (sale.kind !== 'sale') continue;
+    const bucket = byMonth.get(toMonthKey(toDate(sale.date)));
+    const recipe = recipeMap.get(sale.recipeId);
+    if (!bucket || !recipe) continue;
+    const share = toSafeNumber(sale.portions) / Math.max(1, recipe.portions);
+    bucket.salesRevenue += share * toSafeNumber(recipe.salePriceHT);
+    bucket.theoreticalCost += share * toSafeNumber(costMap.get(recipe.id)?.totalCost);
+  }
+
+  return slots.map((slot) => ({
+    month: slot.month,
+    salesRevenue: Math.round(slot.salesRevenue * 100) / 100,
+    theoreticalCost: Math.round(slot.theoreticalCost * 100) / 100,
+    actualSpend: slot.actualSpend,
+    theoreticalRate: slot.salesRevenue > 0 ? slot.theoreticalCost / slot.salesRevenue : 0,
+    actualRate: slot.salesRevenue > 0 ? slot.actualSpend / slot.salesRevenue : 0,
+  }));
+}
+
+/**
+ * Classes every priced dish sold over [start, end). Recipes without a sale price
+ * are sub-recipes or off-menu and are left out.
+ */
+export function computeMenuEngineering(
+  sales: RecipeOutput[],
+  recipes: Recipe[],
+  costRows: RecipeCostRow[],
+  start: Date,
+  end: Date,
+): MenuEngineeringResult {
+  const costMap = new Map(costRows.map((row) => [row.recipeId, row]));
+  const unitsByRecipe = new Map<string, number>();
+  for (const sale of sales) {
+    if (sale.kind !== 'sale') continue;
+    const time = toDate(sale.date).getTime();
+    if (time < start.getTime() || time >= end.getTime()) continue;
+    unitsByRecipe.set(sale.recipeId, (unitsByRecipe.get(sale.recipeId) ?? 0) + toSafeNumber(sale.portions));
+  }
+
+  const dishes = recipes
+    .filter((recipe) => toSafeNumber(recipe.salePriceHT) > 0)
+    .map((recipe) => {
+      const portions = Math.max(1, recipe.portions);
+      const unitPrice = toSafeNumber(recipe.salePriceHT) / portions;
+      const unitCost = toSafeNumber(costMap.get(recipe.id)?.totalCost) / portions;
+      const unitsSold = unitsByRecipe.get(recipe.id) ?? 0;
+      return { recipe, unitPrice, unitCost, unitMargin: unitPrice - unitCost, unitsSold };
+    });
+
+  const totalUnits = dishes.reduce((sum, dish) => sum + dish.unitsSold, 0);
+  const popularityThreshold = dishes.length > 0 ? (0.7 * totalUnits) / dishes.length : 0;
+  const averageMargin =
+    totalUnits > 0
+      ? dishes.reduce((sum, dish) => sum + dish.unitMargin * dish.unitsSold, 0) / totalUnits
+      : dishes.reduce((sum, dish) => sum + dish.unitMargin, 0) / Math.max(1, dishes.length);
+
+  const rows = dishes.map((dish): MenuEngineeringRow => {
+    const popular = totalUnits > 0 && dish.unitsSold >= popularityThreshold;
+    const profitable = dish.unitMargin >= averageMargin;
+    const quadrant: MenuQuadrant = popular
+      ? profitable ? 'star' : 'plowhorse'
+      : profitable ? 'puzzle' : 'dog';
+    return {
+      recipeId: dish.recipe.id,
+      recipeTitle: dish.recipe.title,
+      unitsSold: dish.unitsSold,
+      unitPrice: dish.unitPrice,
+      unitCost: dish.unitCost,
+      unitMargin: dish.unitMargin,
+      totalMargin: dish.unitMargin * dish.unitsSold,
+      mixShare: totalUnits > 0 ? dish.unitsSold / totalUnits : 0,
+      quadrant,
+    };
+  });
+
+  return {
+    rows: rows.sort((a, b) => b.totalMargin - a.totalMargin),
+    popularityThreshold,
+    averageMargin,
+  };
+}
+
+function formatPrice(value: number): string {
+  return `${value.toFixed(2).replace('.', ',')} EUR`;
+}
+
+/** What to do with each dish outside the stars, plowhorses first (they weigh the most on the margin). */
+export function buildMenuSuggestions(result: MenuEngineeringResult): MenuSuggestion[] {
+  const order: Record<MenuQuadrant, number> = { plowhorse: 0, puzzle: 1, dog: 2, star: 3 };
+  return result.rows
+    .filter((row) => row.quadrant !== 'star')
+    .sort((a, b) => order[a.quadrant] - order[b.quadrant] || b.unitsSold - a.unitsSold)
+    .map((row) => {
+      let message: string;
+      if (row.quadrant === 'plowhorse') {
+        const gap = Math.max(0, result.averageMargin - row.unitMargin);
+        const targetPrice = Math.ceil((row.unitPrice + gap) * 10) / 10;
+        message =
+          `Tres vendu mais peu rentable: passer a ${formatPrice(targetPrice)} HT la portion ` +
+          `(+${formatPrice(targetPrice - row.unitPrice)}) ou reduire le cout matiere (${formatPrice(row.unitCost)}).`;
+      } else if (row.quadrant === 'puzzle') {
+        message = 'Rentable mais peu vendu: le mettre en avant sur la carte, le faire recommander en salle ou revoir son intitule.';
+      } else {
+        message = 'Peu vendu et peu rentable: retravailler la recette et son cout, ou le retirer de la carte.';
+      }
+      return { recipeId: row.recipeId, recipeTitle: row.recipeTitle, quadrant: row.quadrant, message };
+    });
+}
+
 export function computeComplianceTrend(records: TemperatureRecord[], days = 7): ComplianceTrendPoint[] {
   const safeDays = Math.max(1, Math.floor(days));
   const now = new Date();
@@ -79,6 +79,130 @@ describe('backup service', () => {
     expect(valid?.productTraces[0].allergens).toEqual(['Lait', 'Soja']);
   });
 
+  it('carries recipes with their steps and notes, and keeps them optional for older backups', () => {
+    const valid = validateBackupImportPayload({
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      ingredients: [{ id: 'ing-1', name: 'Echalote', unit: 'kg', unitPrice: 4 }],
+      recipes: [
+        {
+          id: 'r-1',
+          title: 'Sauce vin rouge',
+          portions: 10,
+          createdAt: '2026-02-01T00:00:00.000Z',
+          updatedAt: '2026-02-02T00:00:00.000Z',
+          steps: [
+            { id: 's-1', instruction: 'Suer les echalotes', durationMinutes: 5 },
+            { id: 's-2', instruction: 'Reduire a glace', temperatureCelsius: 95 },
+          ],
+          storageNotes: '3 jours a +3°C',
+        },
+      ],
+      recipeIngredients: [
+        { id: 'l-1', recipeId: 'r-1', ingredientId: 'ing-1', requiredQuantity: 200, requiredUnit: 'g' },
+      ],
+    });
+    const legacy = validateBackupImportPayload({ version: 1, exportedAt: new Date().toISOString() });
+
+    expect(valid?.recipes?.[0].steps?.map((step) => step.instruction)).toEqual(['Suer les echalotes', 'Reduire a glace']);
+    expect(valid?.recipes?.[0].steps?.[0].durationMinutes).toBe(5);
+    expect(valid?.recipes?.[0].storageNotes).toBe('3 jours a +3°C');
+    expect(valid?.recipeIngredients).toHaveLength(1);
+    expect(legacy?.recipes).toBeUndefined();
+  });
+
+  it('carries recipe outputs and stock counts, and keeps them optional for older backups', () => {
+    const valid = validateBackupImportPayload({
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      recipeOutputs: [
+        {
+          id: 'out-1',
+          recipeId: 'r-1',
+          recipeTitle: 'Sauce vin rouge',
+          kind: 'production',
+          portions: 10,
+          date: '2026-02-03T00:00:00.000Z',
+          createdAt: '2026-02-03T09:00:00.000Z',
+        },
+      ],
+      stockCounts: [
+        {
+          id: 'sc-1',
+          countedAt: '2026-02-04T18:00:00.000Z',
+          lines: [
+            {
+              ingredientId: 'ing-1',
+              ingredientName: 'Echalote',
+              unit: 'kg',
+              theoreticalQuantity: 2.5,
+              countedQuantity: 2,
+              unitPrice: 4,
+            },
+          ],
+        },
+      ],
+    });
+    const invalid = validateBackupImportPayload({
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      recipeOutputs: [{ id: 'out-1', recipeId: 'r-1', recipeTitle: 'Sauce', kind: 'gift', portions: 1 }],
+    });
+    const legacy = validateBackupImportPayload({ version: 1, exportedAt: new Date().toISOString() });
+
+    expect(valid?.recipeOutputs?.[0]).toMatchObject({ kind: 'production', portions: 10 });
+    expect(valid?.stockCounts?.[0].lines[0].countedQuantity).toBe(2);
+    expect(invalid).toBeNull();
+    expect(legacy?.recipeOutputs).toBeUndefined();
+    expect(legacy?.stockCounts).toBeUndefined();
+  });
+
+  it('carries till dish mappings, and keeps them optional for older backups', () => {
+    const valid = validateBackupImportPayload({
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      posDishMappings: [
+        { id: 'menu midi', dishLabel: 'Menu midi', recipeId: 'r-1', updatedAt: '2026-02-04T18:00:00.000Z' },
+      ],
+    });
+    const legacy = validateBackupImportPayload({ version: 1, exportedAt: new Date().toISOString() });
+
+    expect(valid?.posDishMappings?.[0]).toMatchObject({ id: 'menu midi', recipeId: 'r-1' });
+    expect(legacy?.posDishMappings).toBeUndefined();
+  });
+
+  it('carries the price review queue, and keeps it optional for older backups', () => {
+    const review = {
+      id: 'inv-1:0',
+      invoiceId: 'inv-1',
+      supplier: 'Metro',
+      designation: 'Beurre doux',
+      ingredientId: 'beurre',
+      ingredientName: 'Beurre doux',
+      matchScore: 1,
+      reasons: ['price_jump', 'unknown'],
+      previousUnitPrice: 10,
+      proposedUnitPrice: 15,
+      status: 'pending',
+      createdAt: '2026-02-04T18:00:00.000Z',
+    };
+    const valid = validateBackupImportPayload({
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      ingredientPriceReviews: [review],
+    });
+    const invalid = validateBackupImportPayload({
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      ingredientPriceReviews: [{ ...review, status: 'done' }],
+    });
+    const legacy = validateBackupImportPayload({ version: 1, exportedAt: new Date().toISOString() });
+
+    expect(valid?.ingredientPriceReviews?.[0]).toMatchObject({ status: 'pending', reasons: ['price_jump'] });
+    expect(invalid).toBeNull();
+    expect(legacy?.ingredientPriceReviews).toBeUndefined();
+  });
+
   it('stores weekly auto-backup snapshot in IndexedDB and skips on second run', async () => {
     const first = await runWeeklyAutoBackup();
     const second = await runWeeklyAutoBackup();
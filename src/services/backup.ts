@@ -2,14 +2,37 @@ import { db } from './db';
 import { sanitize } from '../utils';
 import { STORAGE_KEYS } from '../constants/storageKeys';
 import type {
+  AccountMappingRule,
   AppSettings,
+  CorrectiveAction,
+  DeliveryReception,
   Equipment,
+  Ingredient,
+  IngredientPriceReview,
   Invoice,
   InvoiceItem,
+  InvoiceVatLine,
   Order,
   OrderItem,
+  OrderRef,
+  OrderSendLogEntry,
+  PosDishMapping,
+  StandingOrder,
+  StandingOrderOccurrence,
   PriceHistory,
+  PriceRoundingRule,
+  ProcessTemperatureLog,
   ProductTrace,
+  ReceptionLine,
+  Recipe,
+  RecipeIngredient,
+  RecipeOutput,
+  RecipeStep,
+  StockCount,
+  StockCountLine,
+  Supplier,
+  SupplierNonConformity,
+  SupplierParLevel,
   Task,
   TemperatureRecord,
   OilChangeRecord,
@@ -28,12 +51,30 @@ export interface BackupPayload {
   equipment: Equipment[];
   temperatureRecords: TemperatureRecord[];
   oilChangeRecords: OilChangeRecord[];
+  correctiveActions: CorrectiveAction[];
+  processTemperatureLogs: ProcessTemperatureLog[];
   tasks: Task[];
   orders: Order[];
+  supplierNonConformities: SupplierNonConformity[];
   productTraces: ProductTrace[];
   invoices: Invoice[];
   priceHistory: PriceHistory[];
   settings: AppSettings[];
+  /** Absent from backups made before recipes were exported: restoring those keeps the current recipes. */
+  ingredients?: Ingredient[];
+  recipes?: Recipe[];
+  recipeIngredients?: RecipeIngredient[];
+  /** Absent from backups made before the supplier directory: restoring those keeps the current suppliers. */
+  suppliers?: Supplier[];
+  /** Absent from backups made before standing orders: restoring those keeps the current templates. */
+  standingOrders?: StandingOrder[];
+  /** Absent from backups made before theoretical stock: restoring those keeps the current outputs and counts. */
+  recipeOutputs?: RecipeOutput[];
+  stockCounts?: StockCount[];
+  /** Absent from backups made before till imports: restoring those keeps the current dish mappings. */
+  posDishMappings?: PosDishMapping[];
+  /** Absent from backups made before the price review queue: restoring those keeps the current queue. */
+  ingredientPriceReviews?: IngredientPriceReview[];
 }
 
 export type ValidatedBackupPayload = BackupPayload;
@@ -90,6 +131,25 @@ function toDate(value: unknown): Date | null {
   return null;
 }
 
+function parseCheckSchedule(value: unknown): Equipment['checkSchedule'] {
+  if (!isObject(value)) return undefined;
+  if (value.mode === 'per_day') {
+    const timesPerDay = toNumber(value.timesPerDay);
+    if (timesPerDay === null || timesPerDay < 1) return undefined;
+    return { mode: 'per_day', timesPerDay: Math.round(timesPerDay) };
+  }
+  if (value.mode === 'slots' && Array.isArray(value.slots)) {
+    const slots = value.slots
+      .filter(isObject)
+      .map((slot) => ({ time: toSanitizedString(slot.time), label: toOptionalSanitizedString(slot.label) }))
+      .filter((slot): slot is { time: string; label: string | undefined } =>
+        Boolean(slot.time && /^\d{1,2}:\d{2}$/.test(slot.time)),
+      );
+    return slots.length > 0 ? { mode: 'slots', slots } : undefined;
+  }
+  return undefined;
+}
+
 function parseEquipment(value: unknown): Equipment | null {
   if (!isObject(value)) return null;
   const id = toSanitizedString(value.id);
@@ -100,7 +160,8 @@ function parseEquipment(value: unknown): Equipment | null {
   const order = toNumber(value.order);
   if (!id || !name || minTemp === null || maxTemp === null || order === null) return null;
   if (type !== 'fridge' && type !== 'freezer' && type !== 'cold_room') return null;
-  return { id, name, type, minTemp, maxTemp, order: Math.round(order) };
+  const checkSchedule = parseCheckSchedule(value.checkSchedule);
+  return { id, name, type, minTemp, maxTemp, order: Math.round(order), checkSchedule };
 }
 
 function parseTemperatureRecord(value: unknown): TemperatureRecord | null {
@@ -127,6 +188,67 @@ function parseOilChangeRecord(value: unknown): OilChangeRecord | null {
   return { id, fryerId, changedAt, action, operator };
 }
 
+function parseProcessTemperatureLog(value: unknown): ProcessTemperatureLog | null {
+  if (!isObject(value)) return null;
+  const id = toSanitizedString(value.id);
+  const processType = value.processType;
+  const productName = toSanitizedString(value.productName);
+  const startedAt = toDate(value.startedAt);
+  const startTemperature = toNumber(value.startTemperature);
+  const endedAt = toDate(value.endedAt) ?? undefined;
+  const endTemperature = toNumber(value.endTemperature) ?? undefined;
+  const isCompliant = toBoolean(value.isCompliant) ?? undefined;
+  const operator = toOptionalSanitizedString(value.operator);
+  const notes = toOptionalSanitizedString(value.notes);
+  const validType = processType === 'cooling' || processType === 'hot_holding' || processType === 'reheating';
+  if (!id || !validType || !productName || !startedAt || startTemperature === null) return null;
+  return {
+    id,
+    processType,
+    productName,
+    startedAt,
+    startTemperature,
+    endedAt,
+    endTemperature,
+    isCompliant,
+    operator,
+    notes,
+  };
+}
+
+function parseCorrectiveAction(value: unknown): CorrectiveAction | null {
+  if (!isObject(value)) return null;
+  const id = toSanitizedString(value.id);
+  const temperatureRecordId = toSanitizedString(value.temperatureRecordId);
+  const equipmentId = toSanitizedString(value.equipmentId);
+  const action = value.action;
+  const notes = toOptionalSanitizedString(value.notes);
+  const operator = toOptionalSanitizedString(value.operator);
+  const createdAt = toDate(value.createdAt);
+  const recheckDueAt = toDate(value.recheckDueAt);
+  const resolvedAt = toDate(value.resolvedAt);
+  const resolvedByRecordId = toOptionalSanitizedString(value.resolvedByRecordId);
+  const validAction =
+    action === 'product_moved' ||
+    action === 'discarded' ||
+    action === 'technician_called' ||
+    action === 'recheck_scheduled';
+  if (!id || !temperatureRecordId || !equipmentId || !validAction || !createdAt || !recheckDueAt) return null;
+  return {
+    id,
+    temperatureRecordId,
+    equipmentId,
+    action,
+    notes,
+    operator,
+    automatic: value.automatic === true || undefined,
+    createdAt,
+    recheckDueAt,
+    resolvedAt: resolvedAt ?? undefined,
+    resolvedByRecordId,
+  };
+}
+
 function parseTask(value: unknown): Task | null {
   if (!isObject(value)) return null;
   const id = toSanitizedString(value.id);
@@ -195,6 +317,7 @@ function parseOrderItem(value: unknown): OrderItem | null {
   const unitPriceHT = toNumber(value.unitPriceHT);
   const totalPriceHT = toNumber(value.totalPriceHT);
   const notes = toOptionalSanitizedString(value.notes);
+  const receivedQuantity = toNumber(value.receivedQuantity);
   const validUnit =
     unit === 'kg' ||
     unit === 'g' ||
@@ -210,9 +333,192 @@ function parseOrderItem(value: unknown): OrderItem | null {
     unitPriceHT: unitPriceHT ?? undefined,
     totalPriceHT: totalPriceHT ?? undefined,
     notes,
+    receivedQuantity: receivedQuantity !== null && receivedQuantity >= 0 ? receivedQuantity : undefined,
+  };
+}
+
+function parseOrderRef(value: unknown): OrderRef | undefined {
+  if (!isObject(value)) return undefined;
+  const id = toSanitizedString(value.id);
+  const orderNumber = toSanitizedString(value.orderNumber);
+  return id && orderNumber ? { id, orderNumber } : undefined;
+}
+
+function isIngredientUnit(value: unknown): value is OrderItem['unit'] {
+  return value === 'kg' || value === 'g' || value === 'l' || value === 'ml' || value === 'unite';
+}
+
+function parseReceptionLine(value: unknown): ReceptionLine | null {
+  if (!isObject(value)) return null;
+  const orderItemId = toSanitizedString(value.orderItemId);
+  const productName = toSanitizedString(value.productName);
+  const orderedQuantity = toNumber(value.orderedQuantity);
+  const receivedQuantity = toNumber(value.receivedQuantity);
+  const unit = value.unit;
+  const packaging = value.packaging;
+  const decision = value.decision;
+  const validPackaging = packaging === 'ok' || packaging === 'damaged' || packaging === 'opened';
+  const validDecision = decision === 'accepted' || decision === 'rejected';
+  if (!orderItemId || !productName || orderedQuantity === null || receivedQuantity === null) return null;
+  if (!isIngredientUnit(unit) || !validPackaging || !validDecision) return null;
+  return {
+    orderItemId,
+    productName,
+    orderedQuantity,
+    receivedQuantity,
+    unit,
+    temperature: toNumber(value.temperature) ?? undefined,
+    packaging,
+    expirationDate: toDate(value.expirationDate) ?? undefined,
+    lotNumber: toOptionalSanitizedString(value.lotNumber),
+    category: toOptionalSanitizedString(value.category),
+    decision,
+    rejectionReason: toOptionalSanitizedString(value.rejectionReason),
+    productTraceId: toOptionalSanitizedString(value.productTraceId),
+  };
+}
+
+function parseDeliveryReception(value: unknown): DeliveryReception | undefined | null {
+  if (value === undefined || value === null) return undefined;
+  if (!isObject(value)) return null;
+  const receivedAt = toDate(value.receivedAt);
+  const lines = parseArray(value.lines, parseReceptionLine);
+  if (!receivedAt || !lines) return null;
+  return {
+    receivedAt,
+    operator: toOptionalSanitizedString(value.operator),
+    notes: toOptionalSanitizedString(value.notes),
+    lines,
+  };
+}
+
+function parseSupplierNonConformity(value: unknown): SupplierNonConformity | null {
+  if (!isObject(value)) return null;
+  const id = toSanitizedString(value.id);
+  const supplier = toSanitizedString(value.supplier);
+  const orderId = toSanitizedString(value.orderId);
+  const orderNumber = toSanitizedString(value.orderNumber);
+  const orderItemId = toSanitizedString(value.orderItemId);
+  const productName = toSanitizedString(value.productName);
+  const type = value.type;
+  const orderedQuantity = toNumber(value.orderedQuantity);
+  const receivedQuantity = toNumber(value.receivedQuantity);
+  const unit = value.unit;
+  const createdAt = toDate(value.createdAt);
+  const validType = type === 'quantity_gap' || type === 'rejected';
+  if (!id || !supplier || !orderId || !orderNumber || !orderItemId || !productName || !validType) return null;
+  if (orderedQuantity === null || receivedQuantity === null || !isIngredientUnit(unit) || !createdAt) return null;
+  return {
+    id,
+    supplier,
+    orderId,
+    orderNumber,
+    orderItemId,
+    productName,
+    type,
+    orderedQuantity,
+    receivedQuantity,
+    unit,
+    reason: toOptionalSanitizedString(value.reason),
+    createdAt,
+  };
+}
+
+function parseSupplierParLevel(value: unknown): SupplierParLevel | null {
+  if (!isObject(value)) return null;
+  const ingredientId = toSanitizedString(value.ingredientId);
+  const minQuantity = toNumber(value.minQuantity);
+  const targetQuantity = toNumber(value.targetQuantity);
+  if (!ingredientId || minQuantity === null || targetQuantity === null) return null;
+  return {
+    ingredientId,
+    productName: toOptionalSanitizedString(value.productName),
+    minQuantity,
+    targetQuantity,
+  };
+}
+
+function parseSupplier(value: unknown): Supplier | null {
+  if (!isObject(value)) return null;
+  const id = toSanitizedString(value.id);
+  const name = toSanitizedString(value.name);
+  const createdAt = toDate(value.createdAt);
+  const updatedAt = toDate(value.updatedAt);
+  if (!id || !name || !createdAt || !updatedAt) return null;
+  const deliveryDays = Array.isArray(value.deliveryDays)
+    ? value.deliveryDays.filter((day): day is number => Number.isInteger(day) && day >= 0 && day <= 6)
+    : [];
+  const cutoff = toOptionalSanitizedString(value.orderCutoffTime);
+  const parLevels = parseArray(value.parLevels, parseSupplierParLevel);
+  if (!parLevels) return null;
+  return {
+    id,
+    name,
+    contactName: toOptionalSanitizedString(value.contactName),
+    email: toOptionalSanitizedString(value.email),
+    phone: toOptionalSanitizedString(value.phone),
+    customerAccountNumber: toOptionalSanitizedString(value.customerAccountNumber),
+    deliveryDays,
+    orderCutoffTime: cutoff && /^\d{2}:\d{2}$/.test(cutoff) ? cutoff : undefined,
+    leadTimeDays: toNumber(value.leadTimeDays) ?? undefined,
+    minimumOrderHT: toNumber(value.minimumOrderHT) ?? undefined,
+    francoHT: toNumber(value.francoHT) ?? undefined,
+    notes: toOptionalSanitizedString(value.notes),
+    parLevels,
+    createdAt,
+    updatedAt,
+  };
+}
+
+function parseStandingOrder(value: unknown): StandingOrder | null {
+  if (!isObject(value)) return null;
+  const id = toSanitizedString(value.id);
+  const name = toSanitizedString(value.name);
+  const supplier = toSanitizedString(value.supplier);
+  const cutoffTime = toSanitizedString(value.cutoffTime);
+  const createdAt = toDate(value.createdAt);
+  const updatedAt = toDate(value.updatedAt);
+  if (!id || !name || !supplier || !cutoffTime || !/^\d{2}:\d{2}$/.test(cutoffTime) || !createdAt || !updatedAt) {
+    return null;
+  }
+  const items = parseArray(value.items, parseOrderItem);
+  if (!items) return null;
+  const weekdays = Array.isArray(value.weekdays)
+    ? value.weekdays.filter((day): day is number => Number.isInteger(day) && day >= 0 && day <= 6)
+    : [];
+  return {
+    id,
+    name,
+    supplier,
+    items,
+    weekdays,
+    cutoffTime,
+    active: value.active !== false,
+    lastGeneratedFor: toDate(value.lastGeneratedFor) ?? undefined,
+    createdAt,
+    updatedAt,
   };
 }
 
+function parseStandingOrderOccurrence(value: unknown): StandingOrderOccurrence | undefined {
+  if (!isObject(value)) return undefined;
+  const standingOrderId = toSanitizedString(value.standingOrderId);
+  const name = toSanitizedString(value.name);
+  const cutoffAt = toDate(value.cutoffAt);
+  if (!standingOrderId || !name || !cutoffAt) return undefined;
+  return { standingOrderId, name, cutoffAt, reviewedAt: toDate(value.reviewedAt) ?? undefined };
+}
+
+function parseOrderSendLogEntry(value: unknown): OrderSendLogEntry | null {
+  if (!isObject(value)) return null;
+  const sentAt = toDate(value.sentAt);
+  const channel = value.channel;
+  const validChannel =
+    channel === 'pdf' || channel === 'email' || channel === 'share' || channel === 'whatsapp' || channel === 'text';
+  if (!sentAt || !validChannel) return null;
+  return { sentAt, channel, recipient: toOptionalSanitizedString(value.recipient) };
+}
+
 function parseOrder(value: unknown): Order | null {
   if (!isObject(value)) return null;
   const id = toSanitizedString(value.id);
@@ -230,6 +536,7 @@ function parseOrder(value: unknown): Order | null {
   const validStatus =
     status === 'draft' ||
     status === 'sent' ||
+    status === 'partially_received' ||
     status === 'received' ||
     status === 'invoiced';
   if (
@@ -246,6 +553,10 @@ function parseOrder(value: unknown): Order | null {
   }
   const parsedItems = parseArray(value.items, parseOrderItem);
   if (!parsedItems) return null;
+  const reception = parseDeliveryReception(value.reception);
+  if (reception === null) return null;
+  const sendLog = parseArray(value.sendLog, parseOrderSendLogEntry);
+  if (!sendLog) return null;
   return {
     id,
     orderNumber,
@@ -258,6 +569,11 @@ function parseOrder(value: unknown): Order | null {
     totalHT,
     notes,
     invoiceId,
+    reception,
+    sendLog: sendLog.length > 0 ? sendLog : undefined,
+    backorder: parseOrderRef(value.backorder),
+    backorderOf: parseOrderRef(value.backorderOf),
+    standingOrder: parseStandingOrderOccurrence(value.standingOrder),
     createdAt,
     updatedAt,
   };
@@ -305,7 +621,17 @@ function parseInvoiceItem(value: unknown): InvoiceItem | null {
   const unitPriceHT = toNumber(value.unitPriceHT);
   const totalPriceHT = toNumber(value.totalPriceHT);
   if (!designation || quantity === null || unitPriceHT === null || totalPriceHT === null) return null;
-  return { designation, quantity, unitPriceHT, totalPriceHT };
+  const vatRate = toNumber(value.vatRate);
+  return { designation, quantity, unitPriceHT, totalPriceHT, vatRate: vatRate !== null && vatRate > 0 ? vatRate : undefined };
+}
+
+function parseInvoiceVatLine(value: unknown): InvoiceVatLine | null {
+  if (!isObject(value)) return null;
+  const rate = toNumber(value.rate);
+  const baseHT = toNumber(value.baseHT);
+  const vat = toNumber(value.vat);
+  if (rate === null || baseHT === null || vat === null) return null;
+  return { rate, baseHT, vat };
 }
 
 function parseInvoice(value: unknown): Invoice | null {
@@ -336,6 +662,7 @@ function parseInvoice(value: unknown): Invoice | null {
     .map((tag) => toSanitizedString(tag))
     .filter((tag): tag is string => Boolean(tag));
   const imageUrls = toSanitizedStringArray(value.imageUrls);
+  const vatBreakdown = parseArray(value.vatBreakdown, parseInvoiceVatLine);
 
   return {
     id,
@@ -351,6 +678,8 @@ function parseInvoice(value: unknown): Invoice | null {
     ocrText,
     tags,
     scannedAt,
+    imageHash: toOptionalSanitizedString(value.imageHash),
+    vatBreakdown: vatBreakdown && vatBreakdown.length > 0 ? vatBreakdown : undefined,
   };
 }
 
@@ -377,6 +706,191 @@ function parsePriceHistory(value: unknown): PriceHistory | null {
   return { id, itemName, supplier, prices, averagePrice, minPrice, maxPrice };
 }
 
+function parseIngredient(value: unknown): Ingredient | null {
+  if (!isObject(value)) return null;
+  const id = toSanitizedString(value.id);
+  const name = toSanitizedString(value.name);
+  const unitPrice = toNumber(value.unitPrice);
+  if (!id || !name || !isIngredientUnit(value.unit) || unitPrice === null) return null;
+  return {
+    id,
+    name,
+    unit: value.unit,
+    unitPrice,
+    conditioningQuantity: toNumber(value.conditioningQuantity) ?? undefined,
+    supplierId: toOptionalSanitizedString(value.supplierId),
+    pieceWeightGrams: toNumber(value.pieceWeightGrams) ?? undefined,
+    densityGramsPerMl: toNumber(value.densityGramsPerMl) ?? undefined,
+    usableYieldPercent: toNumber(value.usableYieldPercent) ?? undefined,
+  };
+}
+
+function parseRecipeStep(value: unknown): RecipeStep | null {
+  if (!isObject(value)) return null;
+  const id = toSanitizedString(value.id);
+  const instruction = toSanitizedString(value.instruction);
+  if (!id || !instruction) return null;
+  return {
+    id,
+    instruction,
+    durationMinutes: toNumber(value.durationMinutes) ?? undefined,
+    temperatureCelsius: toNumber(value.temperatureCelsius) ?? undefined,
+  };
+}
+
+function parseRecipe(value: unknown): Recipe | null {
+  if (!isObject(value)) return null;
+  const id = toSanitizedString(value.id);
+  const title = toSanitizedString(value.title);
+  const portions = toNumber(value.portions);
+  const createdAt = toDate(value.createdAt);
+  const updatedAt = toDate(value.updatedAt);
+  const steps = parseArray(value.steps, parseRecipeStep);
+  if (!id || !title || portions === null || !createdAt || !updatedAt || !steps) return null;
+  return {
+    id,
+    title,
+    category: toOptionalSanitizedString(value.category),
+    portions,
+    salePriceHT: toNumber(value.salePriceHT) ?? undefined,
+    yieldQuantity: toNumber(value.yieldQuantity) ?? undefined,
+    yieldUnit: isIngredientUnit(value.yieldUnit) ? value.yieldUnit : undefined,
+    createdAt,
+    updatedAt,
+    allergens: toSanitizedStringArray(value.allergens),
+    steps: steps.length > 0 ? steps : undefined,
+    photoUrl: toOptionalSanitizedString(value.photoUrl),
+    platingNotes: toOptionalSanitizedString(value.platingNotes),
+    storageNotes: toOptionalSanitizedString(value.storageNotes),
+  };
+}
+
+function parseRecipeIngredient(value: unknown): RecipeIngredient | null {
+  if (!isObject(value)) return null;
+  const id = toSanitizedString(value.id);
+  const recipeId = toSanitizedString(value.recipeId);
+  const ingredientId = toOptionalSanitizedString(value.ingredientId) ?? '';
+  const subRecipeId = toOptionalSanitizedString(value.subRecipeId);
+  const requiredQuantity = toNumber(value.requiredQuantity);
+  if (!id || !recipeId || (!ingredientId && !subRecipeId) || requiredQuantity === null) return null;
+  if (!isIngredientUnit(value.requiredUnit)) return null;
+  return {
+    id,
+    recipeId,
+    ingredientId,
+    subRecipeId,
+    requiredQuantity,
+    requiredUnit: value.requiredUnit,
+    usableYieldPercent: toNumber(value.usableYieldPercent) ?? undefined,
+  };
+}
+
+function parseRecipeOutput(value: unknown): RecipeOutput | null {
+  if (!isObject(value)) return null;
+  const id = toSanitizedString(value.id);
+  const recipeId = toSanitizedString(value.recipeId);
+  const recipeTitle = toSanitizedString(value.recipeTitle);
+  const kind = value.kind;
+  const portions = toNumber(value.portions);
+  const date = toDate(value.date);
+  const createdAt = toDate(value.createdAt);
+  if (!id || !recipeId || !recipeTitle || (kind !== 'production' && kind !== 'sale')) return null;
+  if (portions === null || portions <= 0 || !date || !createdAt) return null;
+  return { id, recipeId, recipeTitle, kind, portions, date, notes: toOptionalSanitizedString(value.notes), createdAt };
+}
+
+function parseStockCountLine(value: unknown): StockCountLine | null {
+  if (!isObject(value)) return null;
+  const ingredientId = toSanitizedString(value.ingredientId);
+  const ingredientName = toSanitizedString(value.ingredientName);
+  const theoreticalQuantity = toNumber(value.theoreticalQuantity);
+  const countedQuantity = toNumber(value.countedQuantity);
+  const unitPrice = toNumber(value.unitPrice);
+  if (!ingredientId || !ingredientName || !isIngredientUnit(value.unit)) return null;
+  if (theoreticalQuantity === null || countedQuantity === null || unitPrice === null) return null;
+  return { ingredientId, ingredientName, unit: value.unit, theoreticalQuantity, countedQuantity, unitPrice };
+}
+
+function parseStockCount(value: unknown): StockCount | null {
+  if (!isObject(value)) return null;
+  const id = toSanitizedString(value.id);
+  const countedAt = toDate(value.countedAt);
+  const lines = parseArray(value.lines, parseStockCountLine);
+  if (!id || !countedAt || !lines) return null;
+  return {
+    id,
+    countedAt,
+    operator: toOptionalSanitizedString(value.operator),
+    notes: toOptionalSanitizedString(value.notes),
+    lines,
+  };
+}
+
+function parsePosDishMapping(value: unknown): PosDishMapping | null {
+  if (!isObject(value)) return null;
+  const id = toSanitizedString(value.id);
+  const dishLabel = toSanitizedString(value.dishLabel);
+  const recipeId = toSanitizedString(value.recipeId);
+  const updatedAt = toDate(value.updatedAt);
+  if (!id || !dishLabel || !recipeId || !updatedAt) return null;
+  return { id, dishLabel, recipeId, updatedAt };
+}
+
+function parseIngredientPriceReview(value: unknown): IngredientPriceReview | null {
+  if (!isObject(value)) return null;
+  const id = toSanitizedString(value.id);
+  const invoiceId = toSanitizedString(value.invoiceId);
+  const supplier = toSanitizedString(value.supplier);
+  const designation = toSanitizedString(value.designation);
+  const ingredientId = toSanitizedString(value.ingredientId);
+  const ingredientName = toSanitizedString(value.ingredientName);
+  const matchScore = toNumber(value.matchScore);
+  const previousUnitPrice = toNumber(value.previousUnitPrice);
+  const proposedUnitPrice = toNumber(value.proposedUnitPrice);
+  const status = value.status;
+  const createdAt = toDate(value.createdAt);
+  if (!id || !invoiceId || !supplier || !designation || !ingredientId || !ingredientName || !createdAt) return null;
+  if (matchScore === null || previousUnitPrice === null || proposedUnitPrice === null) return null;
+  if (status !== 'pending' && status !== 'approved' && status !== 'rejected') return null;
+  const reasons = Array.isArray(value.reasons)
+    ? value.reasons.filter(
+        (reason): reason is IngredientPriceReview['reasons'][number] =>
+          reason === 'low_confidence' || reason === 'price_jump' || reason === 'conditioning_change',
+      )
+    : [];
+  return {
+    id,
+    invoiceId,
+    supplier,
+    designation,
+    ingredientId,
+    ingredientName,
+    matchScore,
+    reasons,
+    previousUnitPrice,
+    proposedUnitPrice,
+    previousConditioningQuantity: toNumber(value.previousConditioningQuantity) ?? undefined,
+    proposedConditioningQuantity: toNumber(value.proposedConditioningQuantity) ?? undefined,
+    status,
+    createdAt,
+    resolvedAt: toDate(value.resolvedAt) ?? undefined,
+  };
+}
+
+function isPriceRoundingRule(value: unknown): value is PriceRoundingRule {
+  return value === 'none' || value === 'ten_cents' || value === 'fifty_ninety' || value === 'whole';
+}
+
+function parseAccountMappingRule(value: unknown): AccountMappingRule | null {
+  if (!isObject(value)) return null;
+  const id = toSanitizedString(value.id);
+  const match = toSanitizedString(value.match);
+  const account = toSanitizedString(value.account);
+  const kind = value.kind === 'supplier' || value.kind === 'category' ? value.kind : null;
+  if (!id || !match || !account || !kind) return null;
+  return { id, kind, match, account };
+}
+
 function parseSettings(value: unknown): AppSettings | null {
   if (!isObject(value)) return null;
   const id = toSanitizedString(value.id);
@@ -385,8 +899,31 @@ function parseSettings(value: unknown): AppSettings | null {
   const onboardingDone = toBoolean(value.onboardingDone);
   const priceAlertThreshold = toNumber(value.priceAlertThreshold);
   if (!id || !establishmentName || darkMode === null || onboardingDone === null || priceAlertThreshold === null) return null;
+  const categoryFoodCostTargets = isObject(value.categoryFoodCostTargets)
+    ? Object.fromEntries(
+        Object.entries(value.categoryFoodCostTargets)
+          .map(([category, rate]) => [sanitize(category), toNumber(rate)] as const)
+          .filter((entry): entry is readonly [string, number] => entry[0].length > 0 && entry[1] !== null),
+      )
+    : {};
+  const accountMappings = parseArray(value.accountMappings, parseAccountMappingRule);
   // Never restore geminiApiKey from backup — user must re-enter it
-  return { id, establishmentName, darkMode, onboardingDone, priceAlertThreshold };
+  return {
+    id,
+    establishmentName,
+    darkMode,
+    onboardingDone,
+    priceAlertThreshold,
+    targetFoodCostRate: toNumber(value.targetFoodCostRate) ?? undefined,
+    categoryFoodCostTargets: Object.keys(categoryFoodCostTargets).length > 0 ? categoryFoodCostTargets : undefined,
+    menuVatRate: toNumber(value.menuVatRate) ?? undefined,
+    priceRounding: isPriceRoundingRule(value.priceRounding) ? value.priceRounding : undefined,
+    accountingJournalCode: toOptionalSanitizedString(value.accountingJournalCode),
+    purchaseAccount: toOptionalSanitizedString(value.purchaseAccount),
+    vatDeductibleAccount: toOptionalSanitizedString(value.vatDeductibleAccount),
+    supplierAccount: toOptionalSanitizedString(value.supplierAccount),
+    accountMappings: accountMappings && accountMappings.length > 0 ? accountMappings : undefined,
+  };
 }
 
 function parseArray<T>(value: unknown, parser: (input: unknown) => T | null): T[] | null {
@@ -411,14 +948,55 @@ export function validateBackupImportPayload(value: unknown): ValidatedBackupPayl
   const equipment = parseArray(value.equipment, parseEquipment);
   const temperatureRecords = parseArray(value.temperatureRecords, parseTemperatureRecord);
   const oilChangeRecords = parseArray(value.oilChangeRecords, parseOilChangeRecord);
+  const correctiveActions = parseArray(value.correctiveActions, parseCorrectiveAction);
+  const processTemperatureLogs = parseArray(value.processTemperatureLogs, parseProcessTemperatureLog);
   const tasks = parseArray(value.tasks, parseTask);
   const orders = parseArray(value.orders, parseOrder);
+  const supplierNonConformities = parseArray(value.supplierNonConformities, parseSupplierNonConformity);
   const productTraces = parseArray(value.productTraces, parseProductTrace);
   const invoices = parseArray(value.invoices, parseInvoice);
   const priceHistory = parseArray(value.priceHistory, parsePriceHistory);
   const settings = parseArray(value.settings, parseSettings);
+  const ingredients = value.ingredients === undefined ? undefined : parseArray(value.ingredients, parseIngredient);
+  const recipes = value.recipes === undefined ? undefined : parseArray(value.recipes, parseRecipe);
+  const recipeIngredients =
+    value.recipeIngredients === undefined ? undefined : parseArray(value.recipeIngredients, parseRecipeIngredient);
+  const suppliers = value.suppliers === undefined ? undefined : parseArray(value.suppliers, parseSupplier);
+  const standingOrders =
+    value.standingOrders === undefined ? undefined : parseArray(value.standingOrders, parseStandingOrder);
+  const recipeOutputs =
+    value.recipeOutputs === undefined ? undefined : parseArray(value.recipeOutputs, parseRecipeOutput);
+  const stockCounts = value.stockCounts === undefined ? undefined : parseArray(value.stockCounts, parseStockCount);
+  const posDishMappings =
+    value.posDishMappings === undefined ? undefined : parseArray(value.posDishMappings, parsePosDishMapping);
+  const ingredientPriceReviews =
+    value.ingredientPriceReviews === undefined
+      ? undefined
+      : parseArray(value.ingredientPriceReviews, parseIngredientPriceReview);
 
-  if (!equipment || !temperatureRecords || !oilChangeRecords || !tasks || !orders || !productTraces || !invoices || !priceHistory || !settings) {
+  if (
+    !equipment ||
+    !temperatureRecords ||
+    !oilChangeRecords ||
+    !correctiveActions ||
+    !processTemperatureLogs ||
+    !tasks ||
+    !orders ||
+    !supplierNonConformities ||
+    !productTraces ||
+    !invoices ||
+    !priceHistory ||
+    !settings ||
+    ingredients === null ||
+    recipes === null ||
+    recipeIngredients === null ||
+    suppliers === null ||
+    standingOrders === null ||
+    recipeOutputs === null ||
+    stockCounts === null ||
+    posDishMappings === null ||
+    ingredientPriceReviews === null
+  ) {
     return null;
   }
 
@@ -428,12 +1006,24 @@ export function validateBackupImportPayload(value: unknown): ValidatedBackupPayl
     equipment,
     temperatureRecords,
     oilChangeRecords,
+    correctiveActions,
+    processTemperatureLogs,
     tasks,
     orders,
+    supplierNonConformities,
     productTraces,
     invoices,
     priceHistory,
     settings,
+    ingredients,
+    recipes,
+    recipeIngredients,
+    suppliers,
+    standingOrders,
+    recipeOutputs,
+    stockCounts,
+    posDishMappings,
+    ingredientPriceReviews,
   };
 }
 
@@ -457,8 +1047,11 @@ export async function buildBackupPayload(): Promise<BackupPayload> {
     equipment: await db.equipment.toArray(),
     temperatureRecords: await db.temperatureRecords.toArray(),
     oilChangeRecords: await db.oilChangeRecords.toArray(),
+    correctiveActions: await db.correctiveActions.toArray(),
+    processTemperatureLogs: await db.processTemperatureLogs.toArray(),
     tasks: await db.tasks.toArray(),
     orders: await db.orders.toArray(),
+    supplierNonConformities: await db.supplierNonConformities.toArray(),
     productTraces: (await db.productTraces.toArray()).map((p) => ({
       ...p,
       photo: undefined,
@@ -475,6 +1068,19 @@ export async function buildBackupPayload(): Promise<BackupPayload> {
       void geminiApiKey;
       return rest as AppSettings;
     }),
+    ingredients: await db.ingredients.toArray(),
+    recipes: (await db.recipes.toArray()).map((r) => ({
+      ...r,
+      photo: undefined,
+      photoUrl: r.photoUrl ?? undefined,
+    })),
+    recipeIngredients: await db.recipeIngredients.toArray(),
+    suppliers: await db.suppliers.toArray(),
+    standingOrders: await db.standingOrders.toArray(),
+    recipeOutputs: await db.recipeOutputs.toArray(),
+    stockCounts: await db.stockCounts.toArray(),
+    posDishMappings: await db.posDishMappings.toArray(),
+    ingredientPriceReviews: await db.ingredientPriceReviews.toArray(),
   };
 }
 
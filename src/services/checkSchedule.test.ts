@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { computeCheckSlots, getCheckSchedule, summarizeCheckSlots } from './checkSchedule';
+import type { Equipment, TemperatureRecord } from '../types';
+
+const at = (hours: number, minutes = 0) => new Date(2026, 9, 18, hours, minutes);
+
+const fridge: Equipment = {
+  id: 'eq-1',
+  name: 'Frigo',
+  type: 'fridge',
+  minTemp: 0,
+  maxTemp: 4,
+  order: 0,
+  checkSchedule: {
+    mode: 'slots',
+    slots: [
+      { time: '22:00', label: 'Fermeture' },
+      { time: '08:00', label: 'Ouverture' },
+    ],
+  },
+};
+
+const reading = (id: string, timestamp: Date, equipmentId = 'eq-1'): TemperatureRecord => ({
+  id,
+  equipmentId,
+  temperature: 3,
+  timestamp,
+  isCompliant: true,
+});
+
+describe('check schedule', () => {
+  it('falls back to one reading per day when no schedule is set', () => {
+    expect(getCheckSchedule({ ...fridge, checkSchedule: undefined })).toEqual({ mode: 'per_day', timesPerDay: 1 });
+  });
+
+  it('matches readings to the closest slot and flags missed slots as overdue', () => {
+    const slots = computeCheckSlots(fridge, [reading('r-1', at(9, 15))], at(23, 0));
+
+    expect(slots.map((slot) => [slot.label, slot.status])).toEqual([
+      ['Ouverture', 'done'],
+      ['Fermeture', 'overdue'],
+    ]);
+    expect(slots[0].recordId).toBe('r-1');
+  });
+
+  it('keeps a slot upcoming until its grace period has elapsed', () => {
+    const slots = computeCheckSlots(fridge, [], at(8, 20));
+    expect(slots.map((slot) => slot.status)).toEqual(['upcoming', 'upcoming']);
+    expect(computeCheckSlots(fridge, [], at(8, 31))[0].status).toBe('overdue');
+  });
+
+  it('splits the day into equal windows for per-day schedules', () => {
+    const equipment: Equipment = { ...fridge, checkSchedule: { mode: 'per_day', timesPerDay: 2 } };
+    const slots = computeCheckSlots(
+      equipment,
+      [reading('r-1', at(7)), reading('r-2', at(10)), reading('r-3', at(8), 'eq-2')],
+      at(14),
+    );
+
+    expect(slots.map((slot) => [slot.label, slot.status])).toEqual([
+      ['00:00-12:00', 'done'],
+      ['12:00-23:59', 'upcoming'],
+    ]);
+    expect(summarizeCheckSlots([slots])).toEqual({ total: 2, done: 1, upcoming: 1, overdue: 0 });
+  });
+});
@@ -0,0 +1,161 @@
+import { isSameDay, startOfDay } from 'date-fns';
+import type { Equipment, EquipmentCheckSchedule, TemperatureRecord } from '../types';
+
+export type CheckSlotStatus = 'done' | 'upcoming' | 'overdue';
+
+export interface CheckSlotState {
+  equipmentId: string;
+  label: string;
+  dueAt: Date;
+  status: CheckSlotStatus;
+  recordId?: string;
+}
+
+export interface CheckSlotSummary {
+  total: number;
+  done: number;
+  upcoming: number;
+  overdue: number;
+}
+
+interface SlotWindow {
+  label: string;
+  dueMinute: number;
+  startMinute: number;
+  endMinute: number;
+  overdueAfterMinute: number;
+}
+
+export const DEFAULT_CHECK_SCHEDULE: EquipmentCheckSchedule = { mode: 'per_day', timesPerDay: 1 };
+
+const MINUTES_PER_DAY = 24 * 60;
+/** Tolerance after a fixed time slot before it is reported as overdue. */
+const SLOT_GRACE_MINUTES = 30;
+const MAX_TIMES_PER_DAY = 12;
+
+export function parseSlotTime(time: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) return null;
+  const hours = Number.parseInt(match[1], 10);
+  const minutes = Number.parseInt(match[2], 10);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+function formatMinute(minute: number): string {
+  const clamped = Math.min(Math.max(0, minute), MINUTES_PER_DAY - 1);
+  return `${String(Math.floor(clamped / 60)).padStart(2, '0')}:${String(clamped % 60).padStart(2, '0')}`;
+}
+
+export function getCheckSchedule(equipment: Equipment): EquipmentCheckSchedule {
+  const schedule = equipment.checkSchedule;
+  if (!schedule) return DEFAULT_CHECK_SCHEDULE;
+  if (schedule.mode === 'slots') {
+    const slots = schedule.slots.filter((slot) => parseSlotTime(slot.time) !== null);
+    return slots.length > 0 ? { mode: 'slots', slots } : DEFAULT_CHECK_SCHEDULE;
+  }
+  const timesPerDay = Math.round(schedule.timesPerDay);
+  if (!Number.isFinite(timesPerDay) || timesPerDay < 1) return DEFAULT_CHECK_SCHEDULE;
+  return { mode: 'per_day', timesPerDay: Math.min(timesPerDay, MAX_TIMES_PER_DAY) };
+}
+
+export function formatCheckSchedule(schedule: EquipmentCheckSchedule): string {
+  if (schedule.mode === 'slots') {
+    return schedule.slots.map((slot) => (slot.label ? `${slot.label} ${slot.time}` : slot.time)).join(', ');
+  }
+  return `${schedule.timesPerDay} releve${schedule.timesPerDay > 1 ? 's' : ''} / jour`;
+}
+
+function buildSlotWindows(schedule: EquipmentCheckSchedule): SlotWindow[] {
+  if (schedule.mode === 'per_day') {
+    const size = MINUTES_PER_DAY / schedule.timesPerDay;
+    return Array.from({ length: schedule.timesPerDay }, (_, index) => {
+      const startMinute = Math.round(index * size);
+      const endMinute = Math.round((index + 1) * size);
+      return {
+        label:
+          schedule.timesPerDay === 1
+            ? 'Journee'
+            : `${formatMinute(startMinute)}-${formatMinute(endMinute === MINUTES_PER_DAY ? endMinute - 1 : endMinute)}`,
+        dueMinute: endMinute - 1,
+        startMinute,
+        endMinute,
+        overdueAfterMinute: endMinute,
+      };
+    });
+  }
+
+  const sorted = schedule.slots
+    .map((slot) => ({ ...slot, minute: parseSlotTime(slot.time) as number }))
+    .sort((a, b) => a.minute - b.minute);
+
+  return sorted.map((slot, index) => {
+    const previous = sorted[index - 1];
+    const next = sorted[index + 1];
+    return {
+      label: slot.label?.trim() || slot.time,
+      dueMinute: slot.minute,
+      // A reading counts for the closest slot: windows split halfway between slots.
+      startMinute: previous ? Math.ceil((previous.minute + slot.minute) / 2) : 0,
+      endMinute: next ? Math.ceil((slot.minute + next.minute) / 2) : MINUTES_PER_DAY,
+      overdueAfterMinute: slot.minute + SLOT_GRACE_MINUTES,
+    };
+  });
+}
+
+export function computeCheckSlots(
+  equipment: Equipment,
+  records: TemperatureRecord[],
+  now = new Date(),
+): CheckSlotState[] {
+  const dayStart = startOfDay(now).getTime();
+  const nowMinute = now.getHours() * 60 + now.getMinutes();
+  const windows = buildSlotWindows(getCheckSchedule(equipment));
+
+  const readings = records
+    .filter((record) => record.equipmentId === equipment.id && isSameDay(new Date(record.timestamp), now))
+    .map((record) => {
+      const timestamp = new Date(record.timestamp);
+      return { id: record.id, minute: timestamp.getHours() * 60 + timestamp.getMinutes() };
+    })
+    .sort((a, b) => a.minute - b.minute);
+  const usedReadings = new Set<string>();
+
+  return windows.map((window) => {
+    const reading = readings.find(
+      (entry) => !usedReadings.has(entry.id) && entry.minute >= window.startMinute && entry.minute < window.endMinute,
+    );
+    if (reading) usedReadings.add(reading.id);
+
+    let status: CheckSlotStatus = 'upcoming';
+    if (reading) status = 'done';
+    else if (nowMinute >= window.overdueAfterMinute) status = 'overdue';
+
+    return {
+      equipmentId: equipment.id,
+      label: window.label,
+      dueAt: new Date(dayStart + window.dueMinute * 60 * 1000),
+      status,
+      recordId: reading?.id,
+    };
+  });
+}
+
+export function computeAllCheckSlots(
+  equipment: Equipment[],
+  records: TemperatureRecord[],
+  now = new Date(),
+): Map<string, CheckSlotState[]> {
+  return new Map(equipment.map((item) => [item.id, computeCheckSlots(item, records, now)]));
+}
+
+export function summarizeCheckSlots(slots: Iterable<CheckSlotState[]>): CheckSlotSummary {
+  const summary: CheckSlotSummary = { total: 0, done: 0, upcoming: 0, overdue: 0 };
+  for (const list of slots) {
+    for (const slot of list) {
+      summary.total += 1;
+      summary[slot.status] += 1;
+    }
+  }
+  return summary;
+}
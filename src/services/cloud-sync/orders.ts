@@ -1,4 +1,11 @@
-import type { Order } from '../../types';
+import type {
+  DeliveryReception,
+  Order,
+  OrderRef,
+  OrderSendLogEntry,
+  StandingOrderOccurrence,
+  SupplierNonConformity,
+} from '../../types';
 import { deleteRows, fetchRows, upsertRows } from '../supabaseRest';
 import { toDate, toIsoDate, withWorkspaceFilter, SUPABASE_WORKSPACE_ID } from './core';
 
@@ -15,10 +22,58 @@ interface OrderRow {
   total_ht: number;
   notes?: string | null;
   invoice_id?: string | null;
+  reception?: DeliveryReception | null;
+  send_log?: OrderSendLogEntry[] | null;
+  backorder?: OrderRef | null;
+  backorder_of?: OrderRef | null;
+  standing_order?: StandingOrderOccurrence | null;
   created_at: string;
   updated_at: string;
 }
 
+interface SupplierNonConformityRow {
+  workspace_id: string;
+  id: string;
+  supplier: string;
+  order_id: string;
+  order_number: string;
+  order_item_id: string;
+  product_name: string;
+  type: SupplierNonConformity['type'];
+  ordered_quantity: number;
+  received_quantity: number;
+  unit: SupplierNonConformity['unit'];
+  reason?: string | null;
+  created_at: string;
+}
+
+/** Reception is stored as jsonb: dates come back as ISO strings. */
+function fromReceptionJson(value: DeliveryReception | null | undefined): DeliveryReception | undefined {
+  if (!value) return undefined;
+  return {
+    ...value,
+    receivedAt: toDate(value.receivedAt),
+    lines: (value.lines ?? []).map((line) => ({
+      ...line,
+      expirationDate: line.expirationDate ? toDate(line.expirationDate) : undefined,
+    })),
+  };
+}
+
+function fromSendLogJson(value: OrderSendLogEntry[] | null | undefined): OrderSendLogEntry[] | undefined {
+  if (!Array.isArray(value) || value.length === 0) return undefined;
+  return value.map((entry) => ({ ...entry, sentAt: toDate(entry.sentAt) }));
+}
+
+function fromStandingOrderJson(value: StandingOrderOccurrence | null | undefined): StandingOrderOccurrence | undefined {
+  if (!value) return undefined;
+  return {
+    ...value,
+    cutoffAt: toDate(value.cutoffAt),
+    reviewedAt: value.reviewedAt ? toDate(value.reviewedAt) : undefined,
+  };
+}
+
 function toOrderRow(value: Order): OrderRow {
   return {
     workspace_id: SUPABASE_WORKSPACE_ID,
@@ -33,6 +88,11 @@ function toOrderRow(value: Order): OrderRow {
     total_ht: value.totalHT,
     notes: value.notes ?? null,
     invoice_id: value.invoiceId ?? null,
+    reception: value.reception ?? null,
+    send_log: value.sendLog ?? [],
+    backorder: value.backorder ?? null,
+    backorder_of: value.backorderOf ?? null,
+    standing_order: value.standingOrder ?? null,
     created_at: toIsoDate(value.createdAt),
     updated_at: toIsoDate(value.updatedAt),
   };
@@ -51,11 +111,51 @@ function fromOrderRow(value: OrderRow): Order {
     totalHT: value.total_ht,
     notes: value.notes ?? undefined,
     invoiceId: value.invoice_id ?? undefined,
+    reception: fromReceptionJson(value.reception),
+    sendLog: fromSendLogJson(value.send_log),
+    backorder: value.backorder ?? undefined,
+    backorderOf: value.backorder_of ?? undefined,
+    standingOrder: fromStandingOrderJson(value.standing_order),
     createdAt: toDate(value.created_at),
     updatedAt: toDate(value.updated_at),
   };
 }
 
+function toNonConformityRow(value: SupplierNonConformity): SupplierNonConformityRow {
+  return {
+    workspace_id: SUPABASE_WORKSPACE_ID,
+    id: value.id,
+    supplier: value.supplier,
+    order_id: value.orderId,
+    order_number: value.orderNumber,
+    order_item_id: value.orderItemId,
+    product_name: value.productName,
+    type: value.type,
+    ordered_quantity: value.orderedQuantity,
+    received_quantity: value.receivedQuantity,
+    unit: value.unit,
+    reason: value.reason ?? null,
+    created_at: toIsoDate(value.createdAt),
+  };
+}
+
+function fromNonConformityRow(value: SupplierNonConformityRow): SupplierNonConformity {
+  return {
+    id: value.id,
+    supplier: value.supplier,
+    orderId: value.order_id,
+    orderNumber: value.order_number,
+    orderItemId: value.order_item_id,
+    productName: value.product_name,
+    type: value.type,
+    orderedQuantity: value.ordered_quantity,
+    receivedQuantity: value.received_quantity,
+    unit: value.unit,
+    reason: value.reason ?? undefined,
+    createdAt: toDate(value.created_at),
+  };
+}
+
 export async function fetchRemoteOrders(): Promise<Order[]> {
   const rows = await fetchRows<OrderRow>('orders', {
     filters: withWorkspaceFilter(),
@@ -71,3 +171,24 @@ export async function upsertRemoteOrder(value: Order): Promise<void> {
 export async function deleteRemoteOrder(id: string): Promise<void> {
   await deleteRows('orders', withWorkspaceFilter([{ column: 'id', op: 'eq', value: id }]));
 }
+
+export async function fetchRemoteSupplierNonConformities(): Promise<SupplierNonConformity[]> {
+  const rows = await fetchRows<SupplierNonConformityRow>('supplier_non_conformities', {
+    filters: withWorkspaceFilter(),
+    order: 'created_at.desc',
+  });
+  return rows.map(fromNonConformityRow);
+}
+
+export async function upsertRemoteSupplierNonConformities(values: SupplierNonConformity[]): Promise<void> {
+  if (values.length === 0) return;
+  await upsertRows<SupplierNonConformityRow>(
+    'supplier_non_conformities',
+    values.map(toNonConformityRow),
+    'workspace_id,id',
+  );
+}
+
+export async function deleteRemoteSupplierNonConformity(id: string): Promise<void> {
+  await deleteRows('supplier_non_conformities', withWorkspaceFilter([{ column: 'id', op: 'eq', value: id }]));
+}
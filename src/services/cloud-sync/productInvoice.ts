@@ -42,6 +42,9 @@ interface InvoiceRow {
   ocr_text: string;
   tags: string[];
   scanned_at: string;
+  price_impact?: Invoice['priceImpact'] | null;
+  image_hash?: string | null;
+  vat_breakdown?: Invoice['vatBreakdown'] | null;
 }
 
 function toProductRow(value: ProductTrace, photoUrl: string | null): ProductTraceRow {
@@ -102,6 +105,9 @@ function toInvoiceRow(value: Invoice, imageUrls: string[]): InvoiceRow {
     ocr_text: value.ocrText,
     tags: value.tags,
     scanned_at: toIsoDate(value.scannedAt),
+    price_impact: value.priceImpact ?? null,
+    image_hash: value.imageHash ?? null,
+    vat_breakdown: value.vatBreakdown ?? null,
   };
 }
 
@@ -120,6 +126,9 @@ function fromInvoiceRow(value: InvoiceRow): Invoice {
     ocrText: value.ocr_text,
     tags: value.tags ?? [],
     scannedAt: toDate(value.scanned_at),
+    priceImpact: Array.isArray(value.price_impact) && value.price_impact.length > 0 ? value.price_impact : undefined,
+    imageHash: value.image_hash ?? undefined,
+    vatBreakdown: Array.isArray(value.vat_breakdown) && value.vat_breakdown.length > 0 ? value.vat_breakdown : undefined,
   };
 }
 
@@ -1,5 +1,13 @@
-import type { Ingredient, Recipe, RecipeIngredient } from '../../types';
-import { deleteRows, fetchRows, upsertRows } from '../supabaseRest';
+import type { Ingredient, Recipe, RecipeIngredient, RecipeStep } from '../../types';
+import {
+  buildRecipePhotoPath,
+  deleteRows,
+  fetchRows,
+  removeStorageFiles,
+  uploadBlob,
+  upsertRows,
+} from '../supabaseRest';
+import { logger } from '../logger';
 import { toDate, toIsoDate, withWorkspaceFilter, SUPABASE_WORKSPACE_ID } from './core';
 
 interface IngredientRow {
@@ -10,17 +18,27 @@ interface IngredientRow {
   unit_price: number;
   conditioning_quantity?: number | null;
   supplier_id?: string | null;
+  piece_weight_grams?: number | null;
+  density_grams_per_ml?: number | null;
+  usable_yield_percent?: number | null;
 }
 
 interface RecipeRow {
   workspace_id: string;
   id: string;
   title: string;
+  category?: string | null;
   portions: number;
   sale_price_ht: number;
+  yield_quantity?: number | null;
+  yield_unit?: Recipe['yieldUnit'] | null;
   created_at: string;
   updated_at: string;
   allergens: string[];
+  steps?: RecipeStep[] | null;
+  photo_url?: string | null;
+  plating_notes?: string | null;
+  storage_notes?: string | null;
 }
 
 interface RecipeIngredientRow {
@@ -28,8 +46,10 @@ interface RecipeIngredientRow {
   id: string;
   recipe_id: string;
   ingredient_id: string;
+  sub_recipe_id?: string | null;
   required_quantity: number;
   required_unit: RecipeIngredient['requiredUnit'];
+  usable_yield_percent?: number | null;
 }
 
 function toIngredientRow(value: Ingredient): IngredientRow {
@@ -41,6 +61,9 @@ function toIngredientRow(value: Ingredient): IngredientRow {
     unit_price: value.unitPrice,
     conditioning_quantity: value.conditioningQuantity ?? null,
     supplier_id: value.supplierId ?? null,
+    piece_weight_grams: value.pieceWeightGrams ?? null,
+    density_grams_per_ml: value.densityGramsPerMl ?? null,
+    usable_yield_percent: value.usableYieldPercent ?? null,
   };
 }
 
@@ -52,19 +75,29 @@ function fromIngredientRow(value: IngredientRow): Ingredient {
     unitPrice: value.unit_price,
     conditioningQuantity: value.conditioning_quantity ?? undefined,
     supplierId: value.supplier_id ?? undefined,
+    pieceWeightGrams: value.piece_weight_grams ?? undefined,
+    densityGramsPerMl: value.density_grams_per_ml ?? undefined,
+    usableYieldPercent: value.usable_yield_percent ?? undefined,
   };
 }
 
-function toRecipeRow(value: Recipe): RecipeRow {
+function toRecipeRow(value: Recipe, photoUrl: string | null): RecipeRow {
   return {
     workspace_id: SUPABASE_WORKSPACE_ID,
     id: value.id,
     title: value.title,
+    category: value.category ?? null,
     portions: value.portions,
     sale_price_ht: value.salePriceHT ?? 0,
+    yield_quantity: value.yieldQuantity ?? null,
+    yield_unit: value.yieldUnit ?? null,
     created_at: toIsoDate(value.createdAt),
     updated_at: toIsoDate(value.updatedAt),
     allergens: value.allergens ?? [],
+    steps: value.steps ?? [],
+    photo_url: photoUrl,
+    plating_notes: value.platingNotes ?? null,
+    storage_notes: value.storageNotes ?? null,
   };
 }
 
@@ -72,11 +105,19 @@ function fromRecipeRow(value: RecipeRow): Recipe {
   return {
     id: value.id,
     title: value.title,
+    category: value.category ?? undefined,
     portions: value.portions,
     salePriceHT: value.sale_price_ht > 0 ? value.sale_price_ht : undefined,
+    yieldQuantity: value.yield_quantity ?? undefined,
+    yieldUnit: value.yield_unit ?? undefined,
     createdAt: toDate(value.created_at),
     updatedAt: toDate(value.updated_at),
     allergens: value.allergens ?? [],
+    steps: Array.isArray(value.steps) && value.steps.length > 0 ? value.steps : undefined,
+    photo: undefined,
+    photoUrl: value.photo_url ?? undefined,
+    platingNotes: value.plating_notes ?? undefined,
+    storageNotes: value.storage_notes ?? undefined,
   };
 }
 
@@ -86,8 +127,10 @@ function toRecipeIngredientRow(value: RecipeIngredient): RecipeIngredientRow {
     id: value.id,
     recipe_id: value.recipeId,
     ingredient_id: value.ingredientId,
+    sub_recipe_id: value.subRecipeId ?? null,
     required_quantity: value.requiredQuantity,
     required_unit: value.requiredUnit,
+    usable_yield_percent: value.usableYieldPercent ?? null,
   };
 }
 
@@ -96,8 +139,10 @@ function fromRecipeIngredientRow(value: RecipeIngredientRow): RecipeIngredient {
     id: value.id,
     recipeId: value.recipe_id,
     ingredientId: value.ingredient_id,
+    subRecipeId: value.sub_recipe_id ?? undefined,
     requiredQuantity: value.required_quantity,
     requiredUnit: value.required_unit,
+    usableYieldPercent: value.usable_yield_percent ?? undefined,
   };
 }
 
@@ -133,8 +178,42 @@ export async function fetchRemoteRecipeIngredients(recipeId: string): Promise<Re
   return rows.map(fromRecipeIngredientRow);
 }
 
-export async function upsertRemoteRecipe(value: Recipe): Promise<void> {
-  await upsertRows<RecipeRow>('recipes', [toRecipeRow(value)], 'workspace_id,id');
+export async function upsertRemoteRecipe(value: Recipe): Promise<Recipe> {
+  const existingRows = await fetchRows<RecipeRow>('recipes', {
+    filters: withWorkspaceFilter([{ column: 'id', op: 'eq', value: value.id }]),
+    limit: 1,
+  });
+  const previousPhotoUrl = existingRows[0]?.photo_url ?? null;
+
+  let nextPhotoUrl = value.photoUrl ?? (value.photo ? previousPhotoUrl : null);
+  let uploadedPhotoUrl: string | null = null;
+  if (value.photo) {
+    const path = buildRecipePhotoPath(value.id, value.photo);
+    try {
+      const uploadedUrl = await uploadBlob(path, value.photo);
+      if (uploadedUrl.trim().length > 0) {
+        uploadedPhotoUrl = uploadedUrl;
+        nextPhotoUrl = uploadedUrl;
+      } else {
+        logger.warn('recipe photo upload returned empty url', { recipeId: value.id });
+      }
+    } catch (error) {
+      logger.warn('recipe photo upload failed; keeping local blob', { recipeId: value.id, error });
+    }
+  }
+
+  await upsertRows<RecipeRow>('recipes', [toRecipeRow(value, nextPhotoUrl)], 'workspace_id,id');
+
+  // Replaced or removed photo: the old file is no longer referenced.
+  if (previousPhotoUrl && previousPhotoUrl !== nextPhotoUrl) {
+    await removeStorageFiles([previousPhotoUrl]);
+  }
+
+  return {
+    ...value,
+    photo: value.photo && !uploadedPhotoUrl ? value.photo : undefined,
+    photoUrl: nextPhotoUrl ?? undefined,
+  };
 }
 
 export async function replaceRemoteRecipeIngredients(recipeId: string, lines: RecipeIngredient[]): Promise<void> {
@@ -148,6 +227,13 @@ export async function replaceRemoteRecipeIngredients(recipeId: string, lines: Re
 }
 
 export async function deleteRemoteRecipe(recipeId: string): Promise<void> {
+  const existingRows = await fetchRows<RecipeRow>('recipes', {
+    filters: withWorkspaceFilter([{ column: 'id', op: 'eq', value: recipeId }]),
+    limit: 1,
+  });
   await deleteRows('recipes', withWorkspaceFilter([{ column: 'id', op: 'eq', value: recipeId }]));
+  if (existingRows[0]?.photo_url) {
+    await removeStorageFiles([existingRows[0].photo_url]);
+  }
   await deleteRows('recipe_ingredients', withWorkspaceFilter([{ column: 'recipe_id', op: 'eq', value: recipeId }]));
 }
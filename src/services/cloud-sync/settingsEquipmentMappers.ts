@@ -1,4 +1,4 @@
-import type { AppSettings, Equipment } from '../../types';
+import type { AccountMappingRule, AppSettings, Equipment, PriceRoundingRule } from '../../types';
 import { SUPABASE_WORKSPACE_ID } from './core';
 
 export interface AppSettingsRow {
@@ -9,6 +9,15 @@ export interface AppSettingsRow {
   onboarding_done: boolean;
   price_alert_threshold: number;
   gemini_api_key?: string | null;
+  target_food_cost_rate?: number | null;
+  category_food_cost_targets?: Record<string, number> | null;
+  menu_vat_rate?: number | null;
+  price_rounding?: PriceRoundingRule | null;
+  accounting_journal_code?: string | null;
+  purchase_account?: string | null;
+  vat_deductible_account?: string | null;
+  supplier_account?: string | null;
+  account_mappings?: AccountMappingRule[] | null;
 }
 
 export interface EquipmentRow {
@@ -19,6 +28,7 @@ export interface EquipmentRow {
   min_temp: number;
   max_temp: number;
   sort_order: number;
+  check_schedule?: Equipment['checkSchedule'] | null;
 }
 
 export function toSettingsRow(value: AppSettings): AppSettingsRow {
@@ -30,6 +40,15 @@ export function toSettingsRow(value: AppSettings): AppSettingsRow {
     onboarding_done: value.onboardingDone,
     price_alert_threshold: value.priceAlertThreshold,
     gemini_api_key: value.geminiApiKey ?? null,
+    target_food_cost_rate: value.targetFoodCostRate ?? null,
+    category_food_cost_targets: value.categoryFoodCostTargets ?? {},
+    menu_vat_rate: value.menuVatRate ?? null,
+    price_rounding: value.priceRounding ?? null,
+    accounting_journal_code: value.accountingJournalCode ?? null,
+    purchase_account: value.purchaseAccount ?? null,
+    vat_deductible_account: value.vatDeductibleAccount ?? null,
+    supplier_account: value.supplierAccount ?? null,
+    account_mappings: value.accountMappings ?? [],
   };
 }
 
@@ -41,6 +60,19 @@ export function fromSettingsRow(value: AppSettingsRow): AppSettings {
     onboardingDone: value.onboarding_done,
     priceAlertThreshold: value.price_alert_threshold,
     geminiApiKey: value.gemini_api_key ?? undefined,
+    targetFoodCostRate: value.target_food_cost_rate ?? undefined,
+    categoryFoodCostTargets:
+      value.category_food_cost_targets && Object.keys(value.category_food_cost_targets).length > 0
+        ? value.category_food_cost_targets
+        : undefined,
+    menuVatRate: value.menu_vat_rate ?? undefined,
+    priceRounding: value.price_rounding ?? undefined,
+    accountingJournalCode: value.accounting_journal_code ?? undefined,
+    purchaseAccount: value.purchase_account ?? undefined,
+    vatDeductibleAccount: value.vat_deductible_account ?? undefined,
+    supplierAccount: value.supplier_account ?? undefined,
+    accountMappings:
+      Array.isArray(value.account_mappings) && value.account_mappings.length > 0 ? value.account_mappings : undefined,
   };
 }
 
@@ -53,6 +85,7 @@ export function toEquipmentRow(value: Equipment): EquipmentRow {
     min_temp: value.minTemp,
     max_temp: value.maxTemp,
     sort_order: value.order,
+    check_schedule: value.checkSchedule ?? null,
   };
 }
 
@@ -64,5 +97,6 @@ export function fromEquipmentRow(value: EquipmentRow): Equipment {
     minTemp: value.min_temp,
     maxTemp: value.max_temp,
     order: value.sort_order,
+    checkSchedule: value.check_schedule ?? undefined,
   };
 }
@@ -0,0 +1,64 @@
+import type { OrderItem, StandingOrder } from '../../types';
+import { deleteRows, fetchRows, upsertRows } from '../supabaseRest';
+import { toDate, toIsoDate, withWorkspaceFilter, SUPABASE_WORKSPACE_ID } from './core';
+
+interface StandingOrderRow {
+  workspace_id: string;
+  id: string;
+  name: string;
+  supplier: string;
+  items: OrderItem[] | null;
+  weekdays: number[] | null;
+  cutoff_time: string;
+  active: boolean;
+  last_generated_for?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+function toStandingOrderRow(value: StandingOrder): StandingOrderRow {
+  return {
+    workspace_id: SUPABASE_WORKSPACE_ID,
+    id: value.id,
+    name: value.name,
+    supplier: value.supplier,
+    items: value.items,
+    weekdays: value.weekdays,
+    cutoff_time: value.cutoffTime,
+    active: value.active,
+    last_generated_for: value.lastGeneratedFor ? toIsoDate(value.lastGeneratedFor) : null,
+    created_at: toIsoDate(value.createdAt),
+    updated_at: toIsoDate(value.updatedAt),
+  };
+}
+
+function fromStandingOrderRow(value: StandingOrderRow): StandingOrder {
+  return {
+    id: value.id,
+    name: value.name,
+    supplier: value.supplier,
+    items: Array.isArray(value.items) ? value.items : [],
+    weekdays: Array.isArray(value.weekdays) ? value.weekdays : [],
+    cutoffTime: value.cutoff_time,
+    active: value.active,
+    lastGeneratedFor: value.last_generated_for ? toDate(value.last_generated_for) : undefined,
+    createdAt: toDate(value.created_at),
+    updatedAt: toDate(value.updated_at),
+  };
+}
+
+export async function fetchRemoteStandingOrders(): Promise<StandingOrder[]> {
+  const rows = await fetchRows<StandingOrderRow>('standing_orders', {
+    filters: withWorkspaceFilter(),
+    order: 'name.asc',
+  });
+  return rows.map(fromStandingOrderRow);
+}
+
+export async function upsertRemoteStandingOrder(value: StandingOrder): Promise<void> {
+  await upsertRows<StandingOrderRow>('standing_orders', [toStandingOrderRow(value)], 'workspace_id,id');
+}
+
+export async function deleteRemoteStandingOrder(id: string): Promise<void> {
+  await deleteRows('standing_orders', withWorkspaceFilter([{ column: 'id', op: 'eq', value: id }]));
+}
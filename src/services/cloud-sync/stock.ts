@@ -0,0 +1,149 @@
+import type { PosDishMapping, RecipeOutput, StockCount, StockCountLine } from '../../types';
+import { deleteRows, fetchRows, upsertRows } from '../supabaseRest';
+import { toDate, toIsoDate, withWorkspaceFilter, SUPABASE_WORKSPACE_ID } from './core';
+
+interface RecipeOutputRow {
+  workspace_id: string;
+  id: string;
+  recipe_id: string;
+  recipe_title: string;
+  kind: RecipeOutput['kind'];
+  portions: number;
+  date: string;
+  notes?: string | null;
+  created_at: string;
+}
+
+interface StockCountRow {
+  workspace_id: string;
+  id: string;
+  counted_at: string;
+  operator?: string | null;
+  notes?: string | null;
+  lines: StockCountLine[];
+}
+
+interface PosDishMappingRow {
+  workspace_id: string;
+  id: string;
+  dish_label: string;
+  recipe_id: string;
+  updated_at: string;
+}
+
+function toRecipeOutputRow(value: RecipeOutput): RecipeOutputRow {
+  return {
+    workspace_id: SUPABASE_WORKSPACE_ID,
+    id: value.id,
+    recipe_id: value.recipeId,
+    recipe_title: value.recipeTitle,
+    kind: value.kind,
+    portions: value.portions,
+    date: toIsoDate(value.date),
+    notes: value.notes ?? null,
+    created_at: toIsoDate(value.createdAt),
+  };
+}
+
+function fromRecipeOutputRow(value: RecipeOutputRow): RecipeOutput {
+  return {
+    id: value.id,
+    recipeId: value.recipe_id,
+    recipeTitle: value.recipe_title,
+    kind: value.kind,
+    portions: value.portions,
+    date: toDate(value.date),
+    notes: value.notes ?? undefined,
+    createdAt: toDate(value.created_at),
+  };
+}
+
+function toStockCountRow(value: StockCount): StockCountRow {
+  return {
+    workspace_id: SUPABASE_WORKSPACE_ID,
+    id: value.id,
+    counted_at: toIsoDate(value.countedAt),
+    operator: value.operator ?? null,
+    notes: value.notes ?? null,
+    lines: value.lines,
+  };
+}
+
+function fromStockCountRow(value: StockCountRow): StockCount {
+  return {
+    id: value.id,
+    countedAt: toDate(value.counted_at),
+    operator: value.operator ?? undefined,
+    notes: value.notes ?? undefined,
+    lines: value.lines ?? [],
+  };
+}
+
+function toPosDishMappingRow(value: PosDishMapping): PosDishMappingRow {
+  return {
+    workspace_id: SUPABASE_WORKSPACE_ID,
+    id: value.id,
+    dish_label: value.dishLabel,
+    recipe_id: value.recipeId,
+    updated_at: toIsoDate(value.updatedAt),
+  };
+}
+
+function fromPosDishMappingRow(value: PosDishMappingRow): PosDishMapping {
+  return {
+    id: value.id,
+    dishLabel: value.dish_label,
+    recipeId: value.recipe_id,
+    updatedAt: toDate(value.updated_at),
+  };
+}
+
+export async function fetchRemoteRecipeOutputs(): Promise<RecipeOutput[]> {
+  const rows = await fetchRows<RecipeOutputRow>('recipe_outputs', {
+    filters: withWorkspaceFilter(),
+    order: 'date.desc',
+  });
+  return rows.map(fromRecipeOutputRow);
+}
+
+export async function upsertRemoteRecipeOutput(value: RecipeOutput): Promise<void> {
+  await upsertRows<RecipeOutputRow>('recipe_outputs', [toRecipeOutputRow(value)], 'workspace_id,id');
+}
+
+export async function upsertRemoteRecipeOutputs(values: RecipeOutput[]): Promise<void> {
+  if (values.length === 0) return;
+  await upsertRows<RecipeOutputRow>('recipe_outputs', values.map(toRecipeOutputRow), 'workspace_id,id');
+}
+
+export async function deleteRemoteRecipeOutput(id: string): Promise<void> {
+  await deleteRows('recipe_outputs', withWorkspaceFilter([{ column: 'id', op: 'eq', value: id }]));
+}
+
+export async function fetchRemoteStockCounts(): Promise<StockCount[]> {
+  const rows = await fetchRows<StockCountRow>('stock_counts', {
+    filters: withWorkspaceFilter(),
+    order: 'counted_at.desc',
+  });
+  return rows.map(fromStockCountRow);
+}
+
+export async function upsertRemoteStockCount(value: StockCount): Promise<void> {
+  await upsertRows<StockCountRow>('stock_counts', [toStockCountRow(value)], 'workspace_id,id');
+}
+
+export async function deleteRemoteStockCount(id: string): Promise<void> {
+  await deleteRows('stock_counts', withWorkspaceFilter([{ column: 'id', op: 'eq', value: id }]));
+}
+
+export async function fetchRemotePosDishMappings(): Promise<PosDishMapping[]> {
+  const rows = await fetchRows<PosDishMappingRow>('pos_dish_mappings', {
+    filters: withWorkspaceFilter(),
+    order: 'updated_at.desc',
+  });
+  return rows.map(fromPosDishMappingRow);
+}
+
+export async function upsertRemotePosDishMappings(values: PosDishMapping[]): Promise<void> {
+  if (values.length === 0) return;
+  await upsertRows<PosDishMappingRow>('pos_dish_mappings', values.map(toPosDishMappingRow), 'workspace_id,id');
+}
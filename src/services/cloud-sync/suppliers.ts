@@ -0,0 +1,79 @@
+import type { Supplier, SupplierParLevel } from '../../types';
+import { deleteRows, fetchRows, upsertRows } from '../supabaseRest';
+import { toDate, toIsoDate, withWorkspaceFilter, SUPABASE_WORKSPACE_ID } from './core';
+
+interface SupplierRow {
+  workspace_id: string;
+  id: string;
+  name: string;
+  contact_name?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  customer_account_number?: string | null;
+  delivery_days: number[] | null;
+  order_cutoff_time?: string | null;
+  lead_time_days?: number | null;
+  minimum_order_ht?: number | null;
+  franco_ht?: number | null;
+  notes?: string | null;
+  par_levels: SupplierParLevel[] | null;
+  created_at: string;
+  updated_at: string;
+}
+
+function toSupplierRow(value: Supplier): SupplierRow {
+  return {
+    workspace_id: SUPABASE_WORKSPACE_ID,
+    id: value.id,
+    name: value.name,
+    contact_name: value.contactName ?? null,
+    email: value.email ?? null,
+    phone: value.phone ?? null,
+    customer_account_number: value.customerAccountNumber ?? null,
+    delivery_days: value.deliveryDays,
+    order_cutoff_time: value.orderCutoffTime ?? null,
+    lead_time_days: value.leadTimeDays ?? null,
+    minimum_order_ht: value.minimumOrderHT ?? null,
+    franco_ht: value.francoHT ?? null,
+    notes: value.notes ?? null,
+    par_levels: value.parLevels ?? [],
+    created_at: toIsoDate(value.createdAt),
+    updated_at: toIsoDate(value.updatedAt),
+  };
+}
+
+function fromSupplierRow(value: SupplierRow): Supplier {
+  return {
+    id: value.id,
+    name: value.name,
+    contactName: value.contact_name ?? undefined,
+    email: value.email ?? undefined,
+    phone: value.phone ?? undefined,
+    customerAccountNumber: value.customer_account_number ?? undefined,
+    deliveryDays: Array.isArray(value.delivery_days) ? value.delivery_days : [],
+    orderCutoffTime: value.order_cutoff_time ?? undefined,
+    leadTimeDays: value.lead_time_days ?? undefined,
+    minimumOrderHT: value.minimum_order_ht ?? undefined,
+    francoHT: value.franco_ht ?? undefined,
+    notes: value.notes ?? undefined,
+    parLevels: Array.isArray(value.par_levels) ? value.par_levels : [],
+    createdAt: toDate(value.created_at),
+    updatedAt: toDate(value.updated_at),
+  };
+}
+
+export async function fetchRemoteSuppliers(): Promise<Supplier[]> {
+  const rows = await fetchRows<SupplierRow>('suppliers', {
+    filters: withWorkspaceFilter(),
+    order: 'name.asc',
+  });
+  return rows.map(fromSupplierRow);
+}
+
+export async function upsertRemoteSupplier(value: Supplier): Promise<void> {
+  await upsertRows<SupplierRow>('suppliers', [toSupplierRow(value)], 'workspace_id,id');
+}
+
+export async function deleteRemoteSupplier(id: string): Promise<void> {
+  await deleteRows('suppliers', withWorkspaceFilter([{ column: 'id', op: 'eq', value: id }]));
+}
@@ -1,4 +1,4 @@
-import type { OilChangeRecord, TemperatureRecord } from '../../types';
+import type { CorrectiveAction, OilChangeRecord, ProcessTemperatureLog, TemperatureRecord } from '../../types';
 import { deleteRows, fetchRows, upsertRows } from '../supabaseRest';
 import { toDate, toIsoDate, withWorkspaceFilter, SUPABASE_WORKSPACE_ID } from './core';
 
@@ -21,12 +21,47 @@ interface OilChangeRecordRow {
   operator?: string | null;
 }
 
+interface CorrectiveActionRow {
+  workspace_id: string;
+  id: string;
+  temperature_record_id: string;
+  equipment_id: string;
+  action: CorrectiveAction['action'];
+  notes?: string | null;
+  operator?: string | null;
+  automatic?: boolean | null;
+  created_at: string;
+  recheck_due_at: string;
+  resolved_at?: string | null;
+  resolved_by_record_id?: string | null;
+}
+
+interface ProcessTemperatureLogRow {
+  workspace_id: string;
+  id: string;
+  process_type: ProcessTemperatureLog['processType'];
+  product_name: string;
+  started_at: string;
+  start_temperature: number;
+  ended_at?: string | null;
+  end_temperature?: number | null;
+  is_compliant?: boolean | null;
+  operator?: string | null;
+  notes?: string | null;
+}
+
 interface FetchTemperatureOptions {
   startDate?: Date;
   endDate?: Date;
   equipmentId?: string;
 }
 
+interface FetchProcessTemperatureOptions {
+  startDate?: Date;
+  endDate?: Date;
+  processType?: ProcessTemperatureLog['processType'];
+}
+
 interface FetchOilChangeOptions {
   startDate?: Date;
   endDate?: Date;
@@ -77,6 +112,70 @@ function fromOilChangeRow(value: OilChangeRecordRow): OilChangeRecord {
   };
 }
 
+function toCorrectiveActionRow(value: CorrectiveAction): CorrectiveActionRow {
+  return {
+    workspace_id: SUPABASE_WORKSPACE_ID,
+    id: value.id,
+    temperature_record_id: value.temperatureRecordId,
+    equipment_id: value.equipmentId,
+    action: value.action,
+    notes: value.notes ?? null,
+    operator: value.operator ?? null,
+    automatic: value.automatic ?? false,
+    created_at: toIsoDate(value.createdAt),
+    recheck_due_at: toIsoDate(value.recheckDueAt),
+    resolved_at: value.resolvedAt ? toIsoDate(value.resolvedAt) : null,
+    resolved_by_record_id: value.resolvedByRecordId ?? null,
+  };
+}
+
+function fromCorrectiveActionRow(value: CorrectiveActionRow): CorrectiveAction {
+  return {
+    id: value.id,
+    temperatureRecordId: value.temperature_record_id,
+    equipmentId: value.equipment_id,
+    action: value.action,
+    notes: value.notes ?? undefined,
+    operator: value.operator ?? undefined,
+    automatic: value.automatic || undefined,
+    createdAt: toDate(value.created_at),
+    recheckDueAt: toDate(value.recheck_due_at),
+    resolvedAt: value.resolved_at ? toDate(value.resolved_at) : undefined,
+    resolvedByRecordId: value.resolved_by_record_id ?? undefined,
+  };
+}
+
+function toProcessTemperatureRow(value: ProcessTemperatureLog): ProcessTemperatureLogRow {
+  return {
+    workspace_id: SUPABASE_WORKSPACE_ID,
+    id: value.id,
+    process_type: value.processType,
+    product_name: value.productName,
+    started_at: toIsoDate(value.startedAt),
+    start_temperature: value.startTemperature,
+    ended_at: value.endedAt ? toIsoDate(value.endedAt) : null,
+    end_temperature: value.endTemperature ?? null,
+    is_compliant: value.isCompliant ?? null,
+    operator: value.operator ?? null,
+    notes: value.notes ?? null,
+  };
+}
+
+function fromProcessTemperatureRow(value: ProcessTemperatureLogRow): ProcessTemperatureLog {
+  return {
+    id: value.id,
+    processType: value.process_type,
+    productName: value.product_name,
+    startedAt: toDate(value.started_at),
+    startTemperature: value.start_temperature,
+    endedAt: value.ended_at ? toDate(value.ended_at) : undefined,
+    endTemperature: value.end_temperature ?? undefined,
+    isCompliant: value.is_compliant ?? undefined,
+    operator: value.operator ?? undefined,
+    notes: value.notes ?? undefined,
+  };
+}
+
 export async function fetchRemoteTemperatureRecords(options: FetchTemperatureOptions = {}): Promise<TemperatureRecord[]> {
   const filters = withWorkspaceFilter();
   if (options.equipmentId) filters.push({ column: 'equipment_id', op: 'eq', value: options.equipmentId });
@@ -114,3 +213,47 @@ export async function upsertRemoteOilChangeRecord(value: OilChangeRecord): Promi
 export async function deleteRemoteOilChangeRecord(id: string): Promise<void> {
   await deleteRows('oil_change_records', withWorkspaceFilter([{ column: 'id', op: 'eq', value: id }]));
 }
+
+export async function fetchRemoteCorrectiveActions(options: FetchTemperatureOptions = {}): Promise<CorrectiveAction[]> {
+  const filters = withWorkspaceFilter();
+  if (options.equipmentId) filters.push({ column: 'equipment_id', op: 'eq', value: options.equipmentId });
+  if (options.startDate) filters.push({ column: 'created_at', op: 'gte', value: options.startDate.toISOString() });
+  if (options.endDate) filters.push({ column: 'created_at', op: 'lte', value: options.endDate.toISOString() });
+
+  const rows = await fetchRows<CorrectiveActionRow>('corrective_actions', {
+    filters,
+    order: 'created_at.desc',
+  });
+  return rows.map(fromCorrectiveActionRow);
+}
+
+export async function upsertRemoteCorrectiveAction(value: CorrectiveAction): Promise<void> {
+  await upsertRows<CorrectiveActionRow>('corrective_actions', [toCorrectiveActionRow(value)], 'workspace_id,id');
+}
+
+export async function fetchRemoteProcessTemperatureLogs(
+  options: FetchProcessTemperatureOptions = {},
+): Promise<ProcessTemperatureLog[]> {
+  const filters = withWorkspaceFilter();
+  if (options.processType) filters.push({ column: 'process_type', op: 'eq', value: options.processType });
+  if (options.startDate) filters.push({ column: 'started_at', op: 'gte', value: options.startDate.toISOString() });
+  if (options.endDate) filters.push({ column: 'started_at', op: 'lte', value: options.endDate.toISOString() });
+
+  const rows = await fetchRows<ProcessTemperatureLogRow>('process_temperature_logs', {
+    filters,
+    order: 'started_at.desc',
+  });
+  return rows.map(fromProcessTemperatureRow);
+}
+
+export async function upsertRemoteProcessTemperatureLog(value: ProcessTemperatureLog): Promise<void> {
+  await upsertRows<ProcessTemperatureLogRow>(
+    'process_temperature_logs',
+    [toProcessTemperatureRow(value)],
+    'workspace_id,id',
+  );
+}
+
+export async function deleteRemoteProcessTemperatureLog(id: string): Promise<void> {
+  await deleteRows('process_temperature_logs', withWorkspaceFilter([{ column: 'id', op: 'eq', value: id }]));
+}
@@ -14,6 +14,11 @@ export {
   fetchRemoteOilChangeRecords,
   upsertRemoteOilChangeRecord,
   deleteRemoteOilChangeRecord,
+  fetchRemoteCorrectiveActions,
+  upsertRemoteCorrectiveAction,
+  fetchRemoteProcessTemperatureLogs,
+  upsertRemoteProcessTemperatureLog,
+  deleteRemoteProcessTemperatureLog,
 } from './cloud-sync/temperatureOil';
 
 export {
@@ -22,10 +27,25 @@ export {
   deleteRemoteTask,
 } from './cloud-sync/tasks';
 
+export {
+  fetchRemoteSuppliers,
+  upsertRemoteSupplier,
+  deleteRemoteSupplier,
+} from './cloud-sync/suppliers';
+
+export {
+  fetchRemoteStandingOrders,
+  upsertRemoteStandingOrder,
+  deleteRemoteStandingOrder,
+} from './cloud-sync/standingOrders';
+
 export {
   fetchRemoteOrders,
   upsertRemoteOrder,
   deleteRemoteOrder,
+  fetchRemoteSupplierNonConformities,
+  upsertRemoteSupplierNonConformities,
+  deleteRemoteSupplierNonConformity,
 } from './cloud-sync/orders';
 
 export {
@@ -53,3 +73,15 @@ export {
   fetchRemotePriceHistory,
   replaceRemotePriceHistory,
 } from './cloud-sync/priceHistory';
+
+export {
+  fetchRemoteRecipeOutputs,
+  upsertRemoteRecipeOutput,
+  upsertRemoteRecipeOutputs,
+  deleteRemoteRecipeOutput,
+  fetchRemoteStockCounts,
+  upsertRemoteStockCount,
+  deleteRemoteStockCount,
+  fetchRemotePosDishMappings,
+  upsertRemotePosDishMappings,
+} from './cloud-sync/stock';
@@ -13,6 +13,15 @@ import type {
   RecipeIngredient,
   SupplierProductMapping,
   OilChangeRecord,
+  CorrectiveAction,
+  ProcessTemperatureLog,
+  SupplierNonConformity,
+  RecipeOutput,
+  StockCount,
+  PosDishMapping,
+  IngredientPriceReview,
+  Supplier,
+  StandingOrder,
 } from '../types';
 import { GINEYS_CATALOG_ITEMS } from '../data/gineysCatalog';
 import { normalizeKeyPart } from '../utils';
@@ -21,15 +30,24 @@ class CuisineDB extends Dexie {
   equipment!: Table<Equipment>;
   temperatureRecords!: Table<TemperatureRecord>;
   oilChangeRecords!: Table<OilChangeRecord>;
+  correctiveActions!: Table<CorrectiveAction>;
+  processTemperatureLogs!: Table<ProcessTemperatureLog>;
   productTraces!: Table<ProductTrace>;
   tasks!: Table<Task>;
   orders!: Table<Order>;
+  supplierNonConformities!: Table<SupplierNonConformity>;
+  suppliers!: Table<Supplier>;
+  standingOrders!: Table<StandingOrder>;
   invoices!: Table<Invoice>;
   priceHistory!: Table<PriceHistory>;
   settings!: Table<AppSettings>;
   ingredients!: Table<Ingredient>;
   recipes!: Table<Recipe>;
   recipeIngredients!: Table<RecipeIngredient>;
+  recipeOutputs!: Table<RecipeOutput>;
+  stockCounts!: Table<StockCount>;
+  posDishMappings!: Table<PosDishMapping>;
+  ingredientPriceReviews!: Table<IngredientPriceReview>;
   supplierProductMappings!: Table<SupplierProductMapping>;
   backupSnapshots!: Table<{ id: string; payload: string; createdAt: Date }>;
 
@@ -182,6 +200,39 @@ class CuisineDB extends Dexie {
           await taskTable.bulkDelete(commandTasks.map((task) => task.id));
         }
       });
+
+    this.version(10).stores({
+      correctiveActions: 'id, temperatureRecordId, equipmentId, createdAt, recheckDueAt',
+    });
+
+    this.version(11).stores({
+      processTemperatureLogs: 'id, processType, startedAt',
+    });
+
+    this.version(12).stores({
+      supplierNonConformities: 'id, supplier, orderId, createdAt',
+    });
+
+    this.version(13).stores({
+      recipeOutputs: 'id, recipeId, date',
+      stockCounts: 'id, countedAt',
+    });
+
+    this.version(14).stores({
+      posDishMappings: 'id, recipeId',
+    });
+
+    this.version(15).stores({
+      ingredientPriceReviews: 'id, invoiceId, ingredientId, status, createdAt',
+    });
+
+    this.version(16).stores({
+      suppliers: 'id, name',
+    });
+
+    this.version(17).stores({
+      standingOrders: 'id, supplier',
+    });
   }
 }
 
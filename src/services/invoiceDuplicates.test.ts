@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import {
+  findDuplicateCandidates,
+  getInvoiceDuplicateReasons,
+  groupInvoiceDuplicates,
+  hammingDistance,
+  mergeInvoiceRecords,
+  normalizeInvoiceNumber,
+} from './invoiceDuplicates';
+import type { Invoice } from '../types';
+
+function makeInvoice(overrides: Partial<Invoice>): Invoice {
+  return {
+    id: 'inv',
+    images: [],
+    supplier: 'Metro',
+    invoiceNumber: 'F-001',
+    invoiceDate: new Date(2026, 9, 12),
+    items: [{ designation: 'Beurre', quantity: 2, unitPriceHT: 9, totalPriceHT: 18 }],
+    totalHT: 18,
+    totalTVA: 0.99,
+    totalTTC: 18.99,
+    ocrText: '',
+    tags: [],
+    scannedAt: new Date(2026, 9, 12, 10),
+    ...overrides,
+  };
+}
+
+describe('invoice duplicates', () => {
+  it('normalizes invoice numbers', () => {
+    expect(normalizeInvoiceNumber(' F-0042 ')).toBe('f0042');
+    expect(normalizeInvoiceNumber('00042')).toBe('42');
+  });
+
+  it('matches the same number for the same canonical supplier', () => {
+    const a = makeInvoice({ id: 'a', supplier: 'METRO france', totalTTC: 50 });
+    const b = makeInvoice({ id: 'b', supplier: 'Metro', invoiceNumber: 'f 001', invoiceDate: new Date(2026, 9, 14) });
+    expect(getInvoiceDuplicateReasons(a, b)).toEqual(['same_number']);
+    expect(getInvoiceDuplicateReasons(a, { ...b, supplier: 'Transgourmet' })).toEqual([]);
+  });
+
+  it('matches the same supplier, day and TTC within tolerance', () => {
+    const a = makeInvoice({ id: 'a', invoiceNumber: '' });
+    const b = makeInvoice({ id: 'b', invoiceNumber: 'X-9', totalTTC: 19.02, invoiceDate: new Date(2026, 9, 12, 18) });
+    expect(getInvoiceDuplicateReasons(a, b)).toEqual(['same_amount']);
+    expect(getInvoiceDuplicateReasons(a, { ...b, totalTTC: 19.5 })).toEqual([]);
+  });
+
+  it('matches near-identical image hashes whatever the supplier', () => {
+    expect(hammingDistance('ff00', 'fe00')).toBe(1);
+    const a = makeInvoice({ id: 'a', supplier: 'Metro', invoiceNumber: '1', imageHash: 'f0f0f0f0f0f0f0f0' });
+    const b = makeInvoice({ id: 'b', supplier: 'Metr0 OCR', invoiceNumber: '2', totalTTC: 5, imageHash: 'f0f0f0f0f0f0f0f1' });
+    expect(getInvoiceDuplicateReasons(a, b)).toEqual(['same_image']);
+  });
+
+  it('ignores the candidate itself', () => {
+    const a = makeInvoice({ id: 'a' });
+    expect(findDuplicateCandidates(a, [a])).toEqual([]);
+  });
+
+  it('groups chains of duplicates with the oldest scan first', () => {
+    const first = makeInvoice({ id: 'first', scannedAt: new Date(2026, 9, 12, 8) });
+    const second = makeInvoice({ id: 'second', invoiceNumber: '', scannedAt: new Date(2026, 9, 13) });
+    const other = makeInvoice({ id: 'other', supplier: 'Transgourmet' });
+    const groups = groupInvoiceDuplicates([second, other, first]);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].invoices.map((invoice) => invoice.id)).toEqual(['first', 'second']);
+    expect(groups[0].reasons).toEqual(['same_amount']);
+  });
+
+  it('merges the more detailed lines and unions tags', () => {
+    const target = makeInvoice({ id: 'target', invoiceNumber: '', tags: ['frais'], imageUrls: ['a.jpg'] });
+    const source = makeInvoice({
+      id: 'source',
+      invoiceNumber: 'F-9',
+      tags: ['frais', 'bof'],
+      imageUrls: ['b.jpg'],
+      items: [
+        { designation: 'Beurre', quantity: 2, unitPriceHT: 9, totalPriceHT: 18 },
+        { designation: 'Creme', quantity: 1, unitPriceHT: 4, totalPriceHT: 4 },
+      ],
+      totalHT: 22,
+      totalTVA: 1.21,
+      totalTTC: 23.21,
+    });
+    const merged = mergeInvoiceRecords(target, source);
+    expect(merged.id).toBe('target');
+    expect(merged.invoiceNumber).toBe('F-9');
+    expect(merged.items).toHaveLength(2);
+    expect(merged.totalTTC).toBe(23.21);
+    expect(merged.tags).toEqual(['frais', 'bof']);
+    expect(merged.imageUrls).toEqual(['a.jpg', 'b.jpg']);
+  });
+});
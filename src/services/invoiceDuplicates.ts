@@ -0,0 +1,188 @@
+import type { Invoice, InvoiceDuplicateGroup, InvoiceDuplicateMatch, InvoiceDuplicateReason } from '../types';
+import { canonicalizeSupplierName, normalizeSupplierKey } from './suppliers';
+
+/** Two scans of the same paper rarely differ by more than a few bits. */
+export const IMAGE_HASH_MAX_DISTANCE = 6;
+/** OCR rounding on TTC totals: absolute floor, then relative to the amount. */
+const TOTAL_TOLERANCE_EUR = 0.05;
+const TOTAL_TOLERANCE_RATE = 0.005;
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+function supplierKey(supplier: string): string {
+  return normalizeSupplierKey(canonicalizeSupplierName(supplier));
+}
+
+export function normalizeInvoiceNumber(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '')
+    .replace(/^0+(?=\d)/, '');
+}
+
+function toDayKey(date: Date): string {
+  const parsed = new Date(date);
+  if (!Number.isFinite(parsed.getTime())) return '';
+  return `${parsed.getFullYear()}-${parsed.getMonth()}-${parsed.getDate()}`;
+}
+
+export function hammingDistance(hashA: string, hashB: string): number {
+  if (hashA.length !== hashB.length) return Number.POSITIVE_INFINITY;
+  let distance = 0;
+  for (let index = 0; index < hashA.length; index++) {
+    let bits = Number.parseInt(hashA[index], 16) ^ Number.parseInt(hashB[index], 16);
+    while (bits > 0) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return distance;
+}
+
+export function getInvoiceDuplicateReasons(a: Invoice, b: Invoice): InvoiceDuplicateReason[] {
+  const reasons: InvoiceDuplicateReason[] = [];
+  const sameSupplier = supplierKey(a.supplier) !== '' && supplierKey(a.supplier) === supplierKey(b.supplier);
+
+  if (sameSupplier) {
+    const numberA = normalizeInvoiceNumber(a.invoiceNumber);
+    if (numberA && numberA === normalizeInvoiceNumber(b.invoiceNumber)) reasons.push('same_number');
+
+    const tolerance = Math.max(TOTAL_TOLERANCE_EUR, Math.abs(a.totalTTC) * TOTAL_TOLERANCE_RATE);
+    const sameDay = toDayKey(a.invoiceDate) !== '' && toDayKey(a.invoiceDate) === toDayKey(b.invoiceDate);
+    if (sameDay && a.totalTTC > 0 && Math.abs(a.totalTTC - b.totalTTC) <= tolerance) reasons.push('same_amount');
+  }
+
+  if (a.imageHash && b.imageHash && hammingDistance(a.imageHash, b.imageHash) <= IMAGE_HASH_MAX_DISTANCE) {
+    reasons.push('same_image');
+  }
+  return reasons;
+}
+
+/** Stored invoices that look like the candidate, strongest evidence first. */
+export function findDuplicateCandidates(candidate: Invoice, invoices: Invoice[]): InvoiceDuplicateMatch[] {
+  return invoices
+    .filter((invoice) => invoice.id !== candidate.id)
+    .map((invoice) => ({ invoice, reasons: getInvoiceDuplicateReasons(candidate, invoice) }))
+    .filter((match) => match.reasons.length > 0)
+    .sort((a, b) => b.reasons.length - a.reasons.length);
+}
+
+/** Clusters every stored invoice with its look-alikes (a duplicate of a duplicate joins the same group). */
+export function groupInvoiceDuplicates(invoices: Invoice[]): InvoiceDuplicateGroup[] {
+  const parent = invoices.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const reasonsByRoot = new Map<number, Set<InvoiceDuplicateReason>>();
+  const pairReasons: { a: number; b: number; reasons: InvoiceDuplicateReason[] }[] = [];
+
+  for (let a = 0; a < invoices.length; a++) {
+    for (let b = a + 1; b < invoices.length; b++) {
+      const reasons = getInvoiceDuplicateReasons(invoices[a], invoices[b]);
+      if (reasons.length === 0) continue;
+      pairReasons.push({ a, b, reasons });
+      parent[find(b)] = find(a);
+    }
+  }
+
+  for (const pair of pairReasons) {
+    const root = find(pair.a);
+    const reasons = reasonsByRoot.get(root) ?? new Set<InvoiceDuplicateReason>();
+    pair.reasons.forEach((reason) => reasons.add(reason));
+    reasonsByRoot.set(root, reasons);
+  }
+
+  return Array.from(reasonsByRoot.entries()).map(([root, reasons]) => ({
+    invoices: invoices
+      .filter((_, index) => find(index) === root)
+      .sort((a, b) => new Date(a.scannedAt).getTime() - new Date(b.scannedAt).getTime()),
+    reasons: Array.from(reasons),
+  }));
+}
+
+/**
+ * Folds a duplicate into the invoice that is kept: missing fields are filled,
+ * the more detailed item list wins and pages of a different photo are appended.
+ */
+export function mergeInvoiceRecords(target: Invoice, source: Invoice): Invoice {
+  const samePhoto =
+    Boolean(target.imageHash && source.imageHash) &&
+    hammingDistance(target.imageHash ?? '', source.imageHash ?? '') <= IMAGE_HASH_MAX_DISTANCE;
+  const useSourceItems = source.items.length > target.items.length;
+  const itemSource = useSourceItems ? source : target;
+
+  return {
+    ...target,
+    images: samePhoto ? target.images : [...target.images, ...source.images],
+    imageUrls: samePhoto ? target.imageUrls : [...(target.imageUrls ?? []), ...(source.imageUrls ?? [])],
+    invoiceNumber: target.invoiceNumber || source.invoiceNumber,
+    items: itemSource.items,
+    totalHT: itemSource.totalHT,
+    totalTVA: itemSource.totalTVA,
+    totalTTC: itemSource.totalTTC,
+    vatBreakdown: itemSource.vatBreakdown,
+    ocrText: target.ocrText || source.ocrText,
+    tags: Array.from(new Set([...target.tags, ...source.tags])),
+    priceImpact: target.priceImpact ?? source.priceImpact,
+    imageHash: target.imageHash ?? source.imageHash,
+  };
+}
+
+/**
+ * Difference hash of an image: 9x8 grayscale thumbnail, one bit per
+ * horizontal gradient. Returns undefined when the browser cannot decode it.
+ */
+export async function computeImageHash(blob: Blob): Promise<string | undefined> {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(blob);
+  } catch {
+    return undefined;
+  }
+
+  let canvas: OffscreenCanvas | HTMLCanvasElement;
+  if (typeof OffscreenCanvas !== 'undefined') {
+    canvas = new OffscreenCanvas(HASH_WIDTH, HASH_HEIGHT);
+  } else if (typeof document !== 'undefined') {
+    canvas = document.createElement('canvas');
+    canvas.width = HASH_WIDTH;
+    canvas.height = HASH_HEIGHT;
+  } else {
+    bitmap.close();
+    return undefined;
+  }
+
+  const ctx = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+  if (!ctx) {
+    bitmap.close();
+    return undefined;
+  }
+  ctx.drawImage(bitmap, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+  bitmap.close();
+
+  const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const gray: number[] = [];
+  for (let offset = 0; offset < data.length; offset += 4) {
+    gray.push(data[offset] * 0.299 + data[offset + 1] * 0.587 + data[offset + 2] * 0.114);
+  }
+
+  let hash = '';
+  for (let row = 0; row < HASH_HEIGHT; row++) {
+    let nibble = 0;
+    for (let col = 0; col < HASH_WIDTH - 1; col++) {
+      const left = gray[row * HASH_WIDTH + col];
+      const right = gray[row * HASH_WIDTH + col + 1];
+      nibble = (nibble << 1) | (left > right ? 1 : 0);
+      if (col % 4 === 3) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hash;
+}
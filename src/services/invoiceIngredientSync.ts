@@ -1,26 +1,51 @@
-import type { Invoice, Ingredient } from '../types';
+import type { Invoice, Ingredient, IngredientPriceReview, RecipePriceImpact } from '../types';
 import { findBestIngredientMatch } from './ingredientMatch';
 import { db } from './db';
+import { buildPriceImpactReport } from './priceImpact';
+import { getPriceReviewReasons, type IngredientUpdater } from './priceReview';
+import { resolveIngredientMapping } from './supplierMapping';
 
 interface SyncResult {
   updated: number;
   created: number;
+  /** Updates waiting for approval in the review queue. */
+  queued: number;
+  /** Recipes whose cost changed because of the updated prices. */
+  impact: RecipePriceImpact[];
 }
 
 /**
  * After saving an invoice, automatically update (or create) matching ingredients
- * with the price and conditioning info extracted from the invoice items.
+ * with the price and conditioning info extracted from the invoice items,
+ * then reports which recipes got more (or less) expensive.
+ * Uncertain matches, big price jumps and conditioning changes are queued
+ * for review instead of being applied.
  */
-export async function syncInvoiceToIngredients(invoice: Invoice): Promise<SyncResult> {
-  const allIngredients = await db.ingredients.toArray();
+export async function syncInvoiceToIngredients(
+  invoice: Invoice,
+  updateIngredient: IngredientUpdater,
+): Promise<SyncResult> {
+  const [allIngredients, settings] = await Promise.all([db.ingredients.toArray(), db.settings.get('default')]);
+  const ingredientsBefore = allIngredients.map((ingredient) => ({ ...ingredient }));
+  const priceAlertThreshold = settings?.priceAlertThreshold ?? 10;
   let updated = 0;
+  let queued = 0;
   const created = 0;
 
-  for (const item of invoice.items) {
+  for (const [index, item] of invoice.items.entries()) {
     const designation = item.designation.trim();
     if (!designation || item.unitPriceHT <= 0) continue;
 
-    const match = findBestIngredientMatch(designation, allIngredients);
+    const learned = await resolveIngredientMapping(invoice.supplier, designation);
+    const trustedIngredient = learned.ingredientId
+      ? allIngredients.find((ingredient) => ingredient.id === learned.ingredientId)
+      : undefined;
+    const match = trustedIngredient
+      ? { ingredient: trustedIngredient, score: 1 }
+      : findBestIngredientMatch(
+          designation,
+          allIngredients.filter((ingredient) => !learned.rejectedIngredientIds.includes(ingredient.id)),
+        );
 
     if (match) {
       const ing = match.ingredient;
@@ -34,18 +59,64 @@ export async function syncInvoiceToIngredients(invoice: Invoice): Promise<SyncRe
       const conditioningChanged = cq && ing.conditioningQuantity && cq !== ing.conditioningQuantity;
 
       if (priceChanged || conditioningNew || conditioningChanged) {
+        const reasons = getPriceReviewReasons({
+          matchScore: match.score,
+          trustedMatch: Boolean(trustedIngredient),
+          previousUnitPrice: ing.unitPrice,
+          proposedUnitPrice: item.unitPriceHT,
+          previousConditioningQuantity: ing.conditioningQuantity,
+          proposedConditioningQuantity: cq,
+          priceAlertThreshold,
+        });
+
+        if (reasons.length > 0) {
+          // Stable id: editing the invoice refreshes the same entry instead of piling duplicates.
+          const reviewId = `${invoice.id}:${index}`;
+          const existing = await db.ingredientPriceReviews.get(reviewId);
+          const alreadyRejected =
+            existing?.status === 'rejected' &&
+            existing.ingredientId === ing.id &&
+            existing.proposedUnitPrice === item.unitPriceHT &&
+            existing.proposedConditioningQuantity === cq;
+          if (!alreadyRejected) {
+            const review: IngredientPriceReview = {
+              id: reviewId,
+              invoiceId: invoice.id,
+              supplier: invoice.supplier,
+              designation,
+              ingredientId: ing.id,
+              ingredientName: ing.name,
+              matchScore: match.score,
+              reasons,
+              previousUnitPrice: ing.unitPrice,
+              proposedUnitPrice: item.unitPriceHT,
+              previousConditioningQuantity: ing.conditioningQuantity,
+              proposedConditioningQuantity: cq,
+              status: 'pending',
+              createdAt: existing?.createdAt ?? new Date(),
+            };
+            await db.ingredientPriceReviews.put(review);
+            queued++;
+          }
+          continue;
+        }
+
         const patch: Partial<Ingredient> = { unitPrice: item.unitPriceHT };
         if (cq) patch.conditioningQuantity = cq;
         if (!ing.supplierId && invoice.supplier) patch.supplierId = invoice.supplier;
 
-        await db.ingredients.update(ing.id, patch);
         // Update local list for subsequent matches
         Object.assign(ing, patch);
+        await updateIngredient({ ...ing });
         updated++;
       }
     }
     // Don't auto-create ingredients from invoices (they might not be direct recipe ingredients)
   }
 
-  return { updated, created };
+  if (updated === 0) return { updated, created, queued, impact: [] };
+
+  const [recipes, links] = await Promise.all([db.recipes.toArray(), db.recipeIngredients.toArray()]);
+  const impact = buildPriceImpactReport(recipes, links, ingredientsBefore, allIngredients, settings);
+  return { updated, created, queued, impact };
 }
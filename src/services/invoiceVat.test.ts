@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildMonthlyVatReport,
+  checkInvoiceTotals,
+  computeInvoiceTotals,
+  getInvoiceVatBreakdown,
+  normalizeVatRate,
+} from './invoiceVat';
+import type { Invoice, InvoiceItem } from '../types';
+
+const items: InvoiceItem[] = [
+  { designation: 'Beurre', quantity: 2, unitPriceHT: 9, totalPriceHT: 18, vatRate: 5.5 },
+  { designation: 'Creme', quantity: 1, unitPriceHT: 4, totalPriceHT: 4 },
+  { designation: 'Vin blanc', quantity: 6, unitPriceHT: 5, totalPriceHT: 30, vatRate: 20 },
+];
+
+function makeInvoice(overrides: Partial<Invoice>): Invoice {
+  return {
+    id: 'inv',
+    images: [],
+    supplier: 'Metro',
+    invoiceNumber: 'F-1',
+    invoiceDate: new Date(2026, 8, 10),
+    items: [],
+    totalHT: 0,
+    totalTVA: 0,
+    totalTTC: 0,
+    ocrText: '',
+    tags: [],
+    scannedAt: new Date(2026, 8, 10),
+    ...overrides,
+  };
+}
+
+describe('invoice VAT', () => {
+  it('normalizes printed and fractional rates to legal rates', () => {
+    expect(normalizeVatRate('5,5 %')).toBe(5.5);
+    expect(normalizeVatRate(0.2)).toBe(20);
+    expect(normalizeVatRate(10)).toBe(10);
+    expect(normalizeVatRate(7)).toBeUndefined();
+    expect(normalizeVatRate('')).toBeUndefined();
+  });
+
+  it('computes totals per rate with 5.5% as default', () => {
+    const totals = computeInvoiceTotals(items);
+    expect(totals.vatBreakdown).toEqual([
+      { rate: 5.5, baseHT: 22, vat: 1.21 },
+      { rate: 20, baseHT: 30, vat: 6 },
+    ]);
+    expect(totals).toMatchObject({ totalHT: 52, totalTVA: 7.21, totalTTC: 59.21 });
+  });
+
+  it('flags lines that do not add up to the printed totals', () => {
+    const totals = computeInvoiceTotals(items);
+    expect(checkInvoiceTotals(totals, { totalHT: 52, totalTVA: 7.2, totalTTC: 59.2 })).toEqual([]);
+    const issues = checkInvoiceTotals(totals, {
+      totalHT: 60,
+      totalTVA: 0,
+      totalTTC: 0,
+      vatBreakdown: [{ rate: 10, baseHT: 8, vat: 0.8 }],
+    });
+    expect(issues.map((issue) => issue.label)).toEqual(['Total HT', 'Base HT 10%']);
+  });
+
+  it('derives a single rate for invoices saved without a breakdown', () => {
+    const legacy = makeInvoice({ totalHT: 100, totalTVA: 5.5, totalTTC: 105.5 });
+    expect(getInvoiceVatBreakdown(legacy)).toEqual([{ rate: 5.5, baseHT: 100, vat: 5.5 }]);
+  });
+
+  it('builds the monthly deductible VAT report by invoice date', () => {
+    const september = makeInvoice({
+      id: 'a',
+      vatBreakdown: [
+        { rate: 5.5, baseHT: 22, vat: 1.21 },
+        { rate: 20, baseHT: 30, vat: 6 },
+      ],
+    });
+    const legacy = makeInvoice({ id: 'b', invoiceDate: new Date(2026, 8, 2), totalHT: 50, totalTVA: 10, totalTTC: 60 });
+    const october = makeInvoice({ id: 'c', invoiceDate: new Date(2026, 9, 1), totalHT: 10, totalTVA: 0.55 });
+
+    const report = buildMonthlyVatReport([september, legacy, october], '2026-09');
+    expect(report.rows.map((row) => [row.invoiceId, row.rate])).toEqual([
+      ['b', 20],
+      ['a', 5.5],
+      ['a', 20],
+    ]);
+    expect(report.totalsByRate).toEqual([
+      { rate: 5.5, baseHT: 22, vat: 1.21 },
+      { rate: 20, baseHT: 80, vat: 16 },
+    ]);
+    expect(report.totalTVA).toBe(17.21);
+  });
+});
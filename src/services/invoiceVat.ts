@@ -0,0 +1,153 @@
+import type { Invoice, InvoiceItem, InvoiceVatLine } from '../types';
+
+/** Most food purchases: produits alimentaires a 5,5%. */
+export const DEFAULT_INVOICE_VAT_RATE = 5.5;
+export const INVOICE_VAT_RATES = [2.1, 5.5, 10, 20];
+/** Rounding slack between the printed totals and the sum of the lines. */
+export const VAT_CHECK_TOLERANCE = 0.05;
+
+export interface InvoiceTotals {
+  totalHT: number;
+  totalTVA: number;
+  totalTTC: number;
+  vatBreakdown: InvoiceVatLine[];
+}
+
+export interface VatCheckIssue {
+  label: string;
+  computed: number;
+  declared: number;
+}
+
+export interface VatReportRow {
+  invoiceId: string;
+  invoiceDate: Date;
+  supplier: string;
+  invoiceNumber: string;
+  rate: number;
+  baseHT: number;
+  vat: number;
+}
+
+export interface MonthlyVatReport {
+  /** YYYY-MM */
+  month: string;
+  rows: VatReportRow[];
+  totalsByRate: InvoiceVatLine[];
+  totalHT: number;
+  totalTVA: number;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Reads a VAT rate as printed or returned by OCR ("5,5%", 0.055, 20) and snaps it
+ * to the closest legal French rate. Unknown values are rejected.
+ */
+export function normalizeVatRate(value: unknown): number | undefined {
+  const parsed =
+    typeof value === 'number' ? value : Number.parseFloat(String(value ?? '').replace('%', '').replace(',', '.').trim());
+  if (!Number.isFinite(parsed) || parsed <= 0) return undefined;
+  const percentage = parsed < 1 ? parsed * 100 : parsed;
+  return INVOICE_VAT_RATES.find((rate) => Math.abs(rate - percentage) < 0.15);
+}
+
+export function formatVatRate(rate: number): string {
+  return `${String(rate).replace('.', ',')}%`;
+}
+
+function mergeVatLines(lines: InvoiceVatLine[]): InvoiceVatLine[] {
+  const byRate = new Map<number, InvoiceVatLine>();
+  for (const line of lines) {
+    const existing = byRate.get(line.rate) ?? { rate: line.rate, baseHT: 0, vat: 0 };
+    existing.baseHT += line.baseHT;
+    existing.vat += line.vat;
+    byRate.set(line.rate, existing);
+  }
+  return Array.from(byRate.values())
+    .map((line) => ({ rate: line.rate, baseHT: roundMoney(line.baseHT), vat: roundMoney(line.vat) }))
+    .sort((a, b) => a.rate - b.rate);
+}
+
+/** VAT is computed on each rate's base, as on the invoice footer, not line by line. */
+export function computeInvoiceTotals(items: InvoiceItem[]): InvoiceTotals {
+  const bases = mergeVatLines(
+    items.map((item) => ({
+      rate: item.vatRate ?? DEFAULT_INVOICE_VAT_RATE,
+      baseHT: item.totalPriceHT || 0,
+      vat: 0,
+    })),
+  );
+  const vatBreakdown = bases.map((line) => ({ ...line, vat: roundMoney((line.baseHT * line.rate) / 100) }));
+  const totalHT = roundMoney(vatBreakdown.reduce((sum, line) => sum + line.baseHT, 0));
+  const totalTVA = roundMoney(vatBreakdown.reduce((sum, line) => sum + line.vat, 0));
+  return { totalHT, totalTVA, totalTTC: roundMoney(totalHT + totalTVA), vatBreakdown };
+}
+
+/** Compares what the lines add up to with the totals printed on the invoice. Missing declared values are skipped. */
+export function checkInvoiceTotals(
+  computed: InvoiceTotals,
+  declared: { totalHT: number; totalTVA: number; totalTTC: number; vatBreakdown?: InvoiceVatLine[] },
+): VatCheckIssue[] {
+  const issues: VatCheckIssue[] = [];
+  const compare = (label: string, computedValue: number, declaredValue: number) => {
+    if (declaredValue > 0 && Math.abs(computedValue - declaredValue) > VAT_CHECK_TOLERANCE) {
+      issues.push({ label, computed: computedValue, declared: declaredValue });
+    }
+  };
+
+  compare('Total HT', computed.totalHT, declared.totalHT);
+  compare('TVA', computed.totalTVA, declared.totalTVA);
+  compare('Total TTC', computed.totalTTC, declared.totalTTC);
+  for (const line of declared.vatBreakdown ?? []) {
+    const computedLine = computed.vatBreakdown.find((entry) => entry.rate === line.rate);
+    compare(`Base HT ${formatVatRate(line.rate)}`, computedLine?.baseHT ?? 0, line.baseHT);
+  }
+  return issues;
+}
+
+/**
+ * Per-rate totals of a stored invoice. Invoices saved before the breakdown
+ * existed fall back to a single line at the rate implied by their totals.
+ */
+export function getInvoiceVatBreakdown(invoice: Invoice): InvoiceVatLine[] {
+  if (invoice.vatBreakdown && invoice.vatBreakdown.length > 0) return invoice.vatBreakdown;
+  if (invoice.items.some((item) => item.vatRate !== undefined)) return computeInvoiceTotals(invoice.items).vatBreakdown;
+  if (invoice.totalHT <= 0) return [];
+  const impliedRate = normalizeVatRate((invoice.totalTVA / invoice.totalHT) * 100) ?? DEFAULT_INVOICE_VAT_RATE;
+  return [{ rate: impliedRate, baseHT: roundMoney(invoice.totalHT), vat: roundMoney(invoice.totalTVA) }];
+}
+
+function toMonthKey(date: Date): string {
+  const parsed = new Date(date);
+  return `${parsed.getFullYear()}-${String(parsed.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/** Deductible VAT for one month (YYYY-MM), by invoice date. */
+export function buildMonthlyVatReport(invoices: Invoice[], month: string): MonthlyVatReport {
+  const rows: VatReportRow[] = invoices
+    .filter((invoice) => toMonthKey(invoice.invoiceDate) === month)
+    .sort((a, b) => new Date(a.invoiceDate).getTime() - new Date(b.invoiceDate).getTime())
+    .flatMap((invoice) =>
+      getInvoiceVatBreakdown(invoice).map((line) => ({
+        invoiceId: invoice.id,
+        invoiceDate: new Date(invoice.invoiceDate),
+        supplier: invoice.supplier,
+        invoiceNumber: invoice.invoiceNumber,
+        rate: line.rate,
+        baseHT: line.baseHT,
+        vat: line.vat,
+      })),
+    );
+
+  const totalsByRate = mergeVatLines(rows.map((row) => ({ rate: row.rate, baseHT: row.baseHT, vat: row.vat })));
+  return {
+    month,
+    rows,
+    totalsByRate,
+    totalHT: roundMoney(totalsByRate.reduce((sum, line) => sum + line.baseHT, 0)),
+    totalTVA: roundMoney(totalsByRate.reduce((sum, line) => sum + line.vat, 0)),
+  };
+}
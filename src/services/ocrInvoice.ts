@@ -1,4 +1,5 @@
-import type { InvoiceItem } from '../types';
+import type { InvoiceItem, InvoiceVatLine } from '../types';
+import { normalizeVatRate } from './invoiceVat';
 import { blobToBase64, sanitize } from '../utils';
 import { getApiKey } from './ocrKeyManager';
 import {
@@ -29,6 +30,8 @@ export interface OCRResult {
   totalHT: number;
   totalTVA: number;
   totalTTC: number;
+  /** Footer totals per VAT rate, when printed. */
+  vatBreakdown?: InvoiceVatLine[];
 }
 
 export async function analyzeInvoiceImages(
@@ -74,9 +77,13 @@ Format attendu:
       "unitPriceHT": 0.00,
       "totalPriceHT": 0.00,
       "conditioningQuantity": 1,
-      "conditioningUnit": "kg"
+      "conditioningUnit": "kg",
+      "vatRate": 5.5
     }
   ],
+  "vatBreakdown": [
+    { "rate": 5.5, "baseHT": 0.00, "vat": 0.00 }
+  ],
   "totalHT": 0.00,
   "totalTVA": 0.00,
   "totalTTC": 0.00,
@@ -91,7 +98,9 @@ Regles:
 - Pour la date, convertis au format YYYY-MM-DD
 - Calcule totalTVA = totalTTC - totalHT si non explicite
 - conditioningQuantity = nombre d'unites dans le conditionnement. Ex: "carton 90 oeufs" -> conditioningQuantity=90, conditioningUnit="unite". "Sac 25kg farine" -> conditioningQuantity=25, conditioningUnit="kg". Si le produit est vendu a l'unite simple ou au poids, mettre 1.
-- conditioningUnit parmi: kg, g, l, ml, unite`;
+- conditioningUnit parmi: kg, g, l, ml, unite
+- vatRate = taux de TVA de la ligne en pourcentage (5.5, 10 ou 20, parfois 2.1). Utilise le code TVA de la ligne et le tableau de TVA en pied de facture. Alimentaire = 5.5 en general, alcool et boissons alcoolisees = 20, produits d'entretien et emballages = 20.
+- vatBreakdown = une entree par taux du recapitulatif TVA en pied de facture (base HT et montant de TVA). Tableau vide si absent.`;
 
     const body = {
       contents: [{ parts: [{ text: prompt }, ...imageParts] }],
@@ -156,10 +165,21 @@ Regles:
               conditioningQuantity > 1 && validUnits.includes(conditioningUnitRaw)
                 ? (conditioningUnitRaw as InvoiceItem['conditioningUnit'])
                 : undefined,
+            vatRate: normalizeVatRate(item.vatRate),
           };
         })
       : [];
 
+    const vatBreakdown: InvoiceVatLine[] = Array.isArray(parsed.vatBreakdown)
+      ? (parsed.vatBreakdown as Record<string, unknown>[])
+          .map((line) => ({
+            rate: normalizeVatRate(line.rate),
+            baseHT: parseNumFr(line.baseHT),
+            vat: parseNumFr(line.vat),
+          }))
+          .filter((line): line is InvoiceVatLine => line.rate !== undefined && line.baseHT > 0)
+      : [];
+
     return {
       text: sanitize(String(parsed.rawText || parsed.text || '')),
       supplier: sanitize(String(parsed.supplier || '')),
@@ -169,6 +189,7 @@ Regles:
       totalHT: parseNumFr(parsed.totalHT),
       totalTVA: parseNumFr(parsed.totalTVA),
       totalTTC: parseNumFr(parsed.totalTTC),
+      vatBreakdown: vatBreakdown.length > 0 ? vatBreakdown : undefined,
     };
   } finally {
     releaseSlot();
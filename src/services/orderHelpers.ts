@@ -3,7 +3,9 @@ import type { OrderItem, OrderStatus } from '../types';
 
 const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
   draft: ['sent'],
-  sent: ['received'],
+  sent: ['received', 'partially_received'],
+  // The missing quantities move to a backorder, so a partial delivery is only invoiced.
+  partially_received: ['invoiced'],
   received: ['invoiced'],
   invoiced: [],
 };
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyReceivedQuantities,
+  buildBackorder,
+  buildNonConformities,
+  buildReceptionTrace,
+  computeSupplierFillRates,
+  getClearedNonConformityIds,
+  createReceptionLines,
+  getBackorderNumber,
+  getReceptionStatus,
+  validateReception,
+} from './orderReception';
+import type { DeliveryReception, Order } from '../types';
+
+const order: Order = {
+  id: 'o-1',
+  orderNumber: 'CMD-2026-004',
+  supplier: 'Metro',
+  status: 'sent',
+  items: [
+    { id: 'i-1', productName: 'Saumon', quantity: 5, unit: 'kg', unitPriceHT: 20 },
+    { id: 'i-2', productName: 'Creme', quantity: 6, unit: 'l' },
+    { id: 'i-3', productName: '', quantity: 1, unit: 'unite' },
+  ],
+  orderDate: new Date(2026, 9, 15),
+  totalHT: 0,
+  createdAt: new Date(2026, 9, 15),
+  updatedAt: new Date(2026, 9, 15),
+};
+
+const receivedAt = new Date(2026, 9, 17, 7, 30);
+const dlc = new Date(2026, 9, 22);
+
+describe('order reception', () => {
+  it('prefills one accepted line per named order item', () => {
+    const lines = createReceptionLines(order);
+    expect(lines.map((line) => [line.productName, line.receivedQuantity, line.decision])).toEqual([
+      ['Saumon', 5, 'accepted'],
+      ['Creme', 6, 'accepted'],
+    ]);
+  });
+
+  it('requires a DLC on accepted lines', () => {
+    const reception: DeliveryReception = { receivedAt, lines: createReceptionLines(order) };
+    expect(validateReception(reception)).toMatch(/DLC requise/);
+
+    const rejectedOnly: DeliveryReception = {
+      receivedAt,
+      lines: createReceptionLines(order).map((line) => ({ ...line, decision: 'rejected' as const })),
+    };
+    expect(validateReception(rejectedOnly)).toBeNull();
+  });
+
+  it('records quantity gaps and rejections as non-conformities', () => {
+    const [salmon, cream] = createReceptionLines(order);
+    const reception: DeliveryReception = {
+      receivedAt,
+      lines: [
+        { ...salmon, receivedQuantity: 4.2, expirationDate: dlc },
+        { ...cream, decision: 'rejected', rejectionReason: 'Temperature 9°C' },
+      ],
+    };
+
+    const rows = buildNonConformities(order, reception);
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({ id: 'o-1:i-1', type: 'quantity_gap', receivedQuantity: 4.2, supplier: 'Metro' });
+    expect(rows[1]).toMatchObject({ type: 'rejected', receivedQuantity: 0, reason: 'Temperature 9°C' });
+  });
+
+  it('clears the non-conformities of lines fixed by a corrected reception', () => {
+    const [salmon, cream] = createReceptionLines(order);
+    const corrected: DeliveryReception = {
+      receivedAt,
+      lines: [
+        { ...salmon, receivedQuantity: 5, expirationDate: dlc },
+        { ...cream, decision: 'rejected', rejectionReason: 'Temperature 9°C' },
+      ],
+    };
+
+    const rows = buildNonConformities(order, corrected);
+    expect(rows.map((row) => row.id)).toEqual(['o-1:i-2']);
+    expect(getClearedNonConformityIds(order, rows)).toEqual(['o-1:i-1', 'o-1:i-3']);
+  });
+
+  it('builds traceability entries only for accepted lines', () => {
+    const [salmon, cream] = createReceptionLines(order);
+    const trace = buildReceptionTrace(order, { ...salmon, expirationDate: dlc, lotNumber: 'L42' }, receivedAt);
+    expect(trace).toMatchObject({
+      productName: 'Saumon',
+      supplier: 'Metro',
+      lotNumber: 'L42',
+      receptionDate: receivedAt,
+      expirationDate: dlc,
+    });
+    expect(buildReceptionTrace(order, { ...cream, decision: 'rejected', expirationDate: dlc }, receivedAt)).toBeNull();
+  });
+
+  it('turns short accepted lines into a backorder and a partial status', () => {
+    const [salmon, cream] = createReceptionLines(order);
+    const reception: DeliveryReception = {
+      receivedAt,
+      lines: [
+        { ...salmon, receivedQuantity: 3, expirationDate: dlc },
+        { ...cream, decision: 'rejected', rejectionReason: 'Temperature 9°C' },
+      ],
+    };
+
+    expect(getReceptionStatus(reception)).toBe('partially_received');
+    expect(applyReceivedQuantities(order, reception).map((item) => item.receivedQuantity)).toEqual([3, 0, undefined]);
+
+    const backorder = buildBackorder(order, reception, receivedAt);
+    expect(backorder).toMatchObject({
+      orderNumber: 'CMD-2026-004-R1',
+      supplier: 'Metro',
+      status: 'sent',
+      totalHT: 40,
+      backorderOf: { id: 'o-1', orderNumber: 'CMD-2026-004' },
+    });
+    // The refused cream is claimed through a credit note, not reordered.
+    expect(backorder?.items.map((item) => [item.productName, item.quantity])).toEqual([['Saumon', 2]]);
+    expect(getBackorderNumber('CMD-2026-004-R1')).toBe('CMD-2026-004-R2');
+
+    const complete: DeliveryReception = {
+      receivedAt,
+      lines: [{ ...salmon, receivedQuantity: 4.99, expirationDate: dlc }],
+    };
+    expect(getReceptionStatus(complete)).toBe('received');
+    expect(buildBackorder(order, complete, receivedAt)).toBeNull();
+  });
+
+  it('computes fill rates per supplier from checked deliveries', () => {
+    const [salmon, cream] = createReceptionLines(order);
+    const full: Order = { ...order, id: 'o-2', reception: { receivedAt, lines: [salmon, cream] } };
+    const short: Order = {
+      ...order,
+      supplier: 'METRO ',
+      reception: { receivedAt, lines: [{ ...salmon, receivedQuantity: 2.5 }, { ...cream, decision: 'rejected' }] },
+    };
+    const unchecked: Order = { ...order, id: 'o-3', supplier: 'Transgourmet' };
+
+    expect(computeSupplierFillRates([full, short, unchecked])).toEqual([
+      { supplier: 'Metro', deliveries: 2, completeDeliveries: 1, fillRate: 0.625 },
+    ]);
+  });
+});
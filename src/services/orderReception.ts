@@ -0,0 +1,205 @@
+import type {
+  DeliveryReception,
+  Order,
+  OrderItem,
+  OrderStatus,
+  ProductTrace,
+  ReceptionLine,
+  SupplierNonConformity,
+} from '../types';
+import { calculateOrderTotal } from './orderHelpers';
+import { canonicalizeSupplierName, normalizeSupplierKey } from './suppliers';
+
+const DEFAULT_TRACE_CATEGORY = 'Autre';
+/** Relative tolerance before a received quantity counts as a gap (rounding on weighed goods). */
+const QUANTITY_GAP_TOLERANCE = 0.005;
+
+export function createReceptionLines(order: Order): ReceptionLine[] {
+  return order.items
+    .filter((item) => item.productName.trim().length > 0)
+    .map((item) => ({
+      orderItemId: item.id,
+      productName: item.productName,
+      orderedQuantity: item.quantity,
+      receivedQuantity: item.quantity,
+      unit: item.unit,
+      packaging: 'ok',
+      category: DEFAULT_TRACE_CATEGORY,
+      decision: 'accepted',
+    }));
+}
+
+export function hasQuantityGap(line: ReceptionLine): boolean {
+  const tolerance = line.orderedQuantity * QUANTITY_GAP_TOLERANCE;
+  return Math.abs(line.receivedQuantity - line.orderedQuantity) > tolerance;
+}
+
+export function validateReception(reception: DeliveryReception): string | null {
+  if (reception.lines.length === 0) return 'Aucun article a receptionner';
+  for (const line of reception.lines) {
+    if (!Number.isFinite(line.receivedQuantity) || line.receivedQuantity < 0) {
+      return `${line.productName} : quantite recue invalide`;
+    }
+    if (line.temperature !== undefined && !Number.isFinite(line.temperature)) {
+      return `${line.productName} : temperature invalide`;
+    }
+    if (line.decision === 'accepted' && line.receivedQuantity > 0 && !line.expirationDate) {
+      return `${line.productName} : DLC requise pour accepter le produit`;
+    }
+  }
+  return null;
+}
+
+export function buildReceptionTrace(order: Order, line: ReceptionLine, receivedAt: Date): ProductTrace | null {
+  if (line.decision !== 'accepted' || line.receivedQuantity <= 0 || !line.expirationDate) return null;
+  return {
+    id: crypto.randomUUID(),
+    status: 'active',
+    productName: line.productName,
+    supplier: order.supplier,
+    lotNumber: line.lotNumber?.trim() || order.orderNumber,
+    receptionDate: receivedAt,
+    expirationDate: line.expirationDate,
+    category: line.category || DEFAULT_TRACE_CATEGORY,
+    scannedAt: receivedAt,
+  };
+}
+
+export function buildNonConformities(order: Order, reception: DeliveryReception): SupplierNonConformity[] {
+  const result: SupplierNonConformity[] = [];
+  for (const line of reception.lines) {
+    const isRejected = line.decision === 'rejected';
+    if (!isRejected && !hasQuantityGap(line)) continue;
+    result.push({
+      // One entry per order line so that a corrected reception overwrites instead of duplicating.
+      id: `${order.id}:${line.orderItemId}`,
+      supplier: order.supplier,
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      orderItemId: line.orderItemId,
+      productName: line.productName,
+      type: isRejected ? 'rejected' : 'quantity_gap',
+      orderedQuantity: line.orderedQuantity,
+      receivedQuantity: isRejected ? 0 : line.receivedQuantity,
+      unit: line.unit,
+      reason: isRejected ? line.rejectionReason : undefined,
+      createdAt: reception.receivedAt,
+    });
+  }
+  return result;
+}
+
+/** Non-conformities of the order lines that a corrected reception no longer reports. */
+export function getClearedNonConformityIds(order: Order, nonConformities: SupplierNonConformity[]): string[] {
+  const current = new Set(nonConformities.map((row) => row.id));
+  return order.items.map((item) => `${order.id}:${item.id}`).filter((id) => !current.has(id));
+}
+
+/** Accepted lines delivered short; refused lines go through the non-conformity and credit note flow instead. */
+function isShortDelivery(line: ReceptionLine): boolean {
+  return line.decision === 'accepted' && line.receivedQuantity < line.orderedQuantity && hasQuantityGap(line);
+}
+
+function roundQuantity(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/** Copies the checked quantities onto the order lines. */
+export function applyReceivedQuantities(order: Order, reception: DeliveryReception): OrderItem[] {
+  const lines = new Map(reception.lines.map((line) => [line.orderItemId, line]));
+  return order.items.map((item) => {
+    const line = lines.get(item.id);
+    if (!line) return item;
+    return { ...item, receivedQuantity: line.decision === 'accepted' ? line.receivedQuantity : 0 };
+  });
+}
+
+export function getReceptionStatus(reception: DeliveryReception): OrderStatus {
+  return reception.lines.some(isShortDelivery) ? 'partially_received' : 'received';
+}
+
+/** CMD-2026-004 gives CMD-2026-004-R1, and a backorder delivered short again gives -R2. */
+export function getBackorderNumber(orderNumber: string): string {
+  const match = /^(.*)-R(\d+)$/.exec(orderNumber);
+  return match ? `${match[1]}-R${Number(match[2]) + 1}` : `${orderNumber}-R1`;
+}
+
+/**
+ * Order for the quantities missing from a short delivery, at the ordered
+ * prices. It starts as sent: the supplier already has the original order.
+ */
+export function buildBackorder(order: Order, reception: DeliveryReception, now: Date = new Date()): Order | null {
+  const itemMap = new Map(order.items.map((item) => [item.id, item]));
+  const items: OrderItem[] = [];
+  for (const line of reception.lines) {
+    const item = itemMap.get(line.orderItemId);
+    if (!item || !isShortDelivery(line)) continue;
+    const quantity = roundQuantity(line.orderedQuantity - line.receivedQuantity);
+    items.push({
+      id: crypto.randomUUID(),
+      productName: item.productName,
+      quantity,
+      unit: item.unit,
+      unitPriceHT: item.unitPriceHT,
+      totalPriceHT:
+        item.unitPriceHT !== undefined ? Math.round(quantity * item.unitPriceHT * 100) / 100 : undefined,
+      notes: item.notes,
+    });
+  }
+  if (items.length === 0) return null;
+
+  return {
+    id: crypto.randomUUID(),
+    orderNumber: getBackorderNumber(order.orderNumber),
+    supplier: order.supplier,
+    status: 'sent',
+    items,
+    orderDate: reception.receivedAt,
+    totalHT: calculateOrderTotal(items),
+    backorderOf: { id: order.id, orderNumber: order.orderNumber },
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export interface SupplierFillRate {
+  supplier: string;
+  /** Deliveries checked at reception. */
+  deliveries: number;
+  /** Deliveries with every line accepted in full. */
+  completeDeliveries: number;
+  /** Average share of the ordered quantity accepted per line, from 0 to 1. */
+  fillRate: number;
+}
+
+function getLineFillRate(line: ReceptionLine): number {
+  if (line.decision === 'rejected') return 0;
+  if (line.orderedQuantity <= 0 || !hasQuantityGap(line)) return 1;
+  return Math.min(1, Math.max(0, line.receivedQuantity / line.orderedQuantity));
+}
+
+/** Fill rates of every supplier with at least one checked delivery, lowest first. */
+export function computeSupplierFillRates(orders: Order[]): SupplierFillRate[] {
+  const groups = new Map<string, { supplier: string; deliveries: number; complete: number; rates: number[] }>();
+  for (const order of orders) {
+    const lines = order.reception?.lines ?? [];
+    if (lines.length === 0) continue;
+    const supplier = canonicalizeSupplierName(order.supplier);
+    const key = normalizeSupplierKey(supplier);
+    const group = groups.get(key) ?? { supplier, deliveries: 0, complete: 0, rates: [] };
+    const rates = lines.map(getLineFillRate);
+    group.deliveries += 1;
+    if (rates.every((rate) => rate === 1)) group.complete += 1;
+    group.rates.push(...rates);
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.values())
+    .map((group) => ({
+      supplier: group.supplier,
+      deliveries: group.deliveries,
+      completeDeliveries: group.complete,
+      fillRate: group.rates.reduce((sum, rate) => sum + rate, 0) / group.rates.length,
+    }))
+    .sort((a, b) => a.fillRate - b.fillRate || a.supplier.localeCompare(b.supplier));
+}
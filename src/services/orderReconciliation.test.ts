@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { reconcileOrderWithInvoice } from './orderReconciliation';
+import type { Invoice, Order } from '../types';
+
+const order: Order = {
+  id: 'o-1',
+  orderNumber: 'CMD-2026-010',
+  supplier: 'Metro',
+  status: 'invoiced',
+  items: [
+    { id: 'i-1', productName: 'Saumon', quantity: 5, unit: 'kg', unitPriceHT: 20, totalPriceHT: 100 },
+    { id: 'i-2', productName: 'Creme liquide 35', quantity: 6, unit: 'l', unitPriceHT: 4, totalPriceHT: 24 },
+    { id: 'i-3', productName: 'Beurre doux', quantity: 2, unit: 'kg', unitPriceHT: 9, totalPriceHT: 18 },
+    { id: 'i-4', productName: 'Ciboulette', quantity: 1, unit: 'unite', unitPriceHT: 2, totalPriceHT: 2 },
+  ],
+  orderDate: new Date(2026, 9, 15),
+  totalHT: 144,
+  invoiceId: 'inv-1',
+  createdAt: new Date(2026, 9, 15),
+  updatedAt: new Date(2026, 9, 15),
+};
+
+const invoice: Invoice = {
+  id: 'inv-1',
+  images: [],
+  supplier: 'Metro',
+  invoiceNumber: 'F-881',
+  invoiceDate: new Date(2026, 9, 17),
+  items: [
+    { designation: 'SAUMON', quantity: 5, unitPriceHT: 20, totalPriceHT: 100 },
+    { designation: 'Creme liquide 35 UHT', quantity: 6, unitPriceHT: 4.5, totalPriceHT: 27 },
+    { designation: 'Beurre doux', quantity: 3, unitPriceHT: 9, totalPriceHT: 27 },
+    { designation: 'Frais de port', quantity: 1, unitPriceHT: 12, totalPriceHT: 12 },
+  ],
+  totalHT: 166,
+  totalTVA: 9.13,
+  totalTTC: 175.13,
+  ocrText: '',
+  tags: [],
+  scannedAt: new Date(2026, 9, 17),
+};
+
+describe('order reconciliation', () => {
+  it('flags price, quantity, missing and extra lines', () => {
+    const result = reconcileOrderWithInvoice(order, invoice);
+    expect(result.lines.map((line) => [line.productName, line.status, line.disputeAmount])).toEqual([
+      ['Saumon', 'match', 0],
+      ['Creme liquide 35', 'price_gap', 3],
+      ['Beurre doux', 'quantity_gap', 9],
+      ['Ciboulette', 'missing', 0],
+      ['Frais de port', 'extra', 12],
+    ]);
+    expect(result.disputeTotal).toBe(24);
+    expect(result.issueCount).toBe(4);
+  });
+
+  it('disputes billed quantities that were rejected at reception', () => {
+    const received: Order = {
+      ...order,
+      reception: {
+        receivedAt: new Date(2026, 9, 16),
+        lines: [
+          {
+            orderItemId: 'i-1',
+            productName: 'Saumon',
+            orderedQuantity: 5,
+            receivedQuantity: 4,
+            unit: 'kg',
+            packaging: 'ok',
+            decision: 'accepted',
+          },
+          {
+            orderItemId: 'i-3',
+            productName: 'Beurre doux',
+            orderedQuantity: 2,
+            receivedQuantity: 2,
+            unit: 'kg',
+            packaging: 'damaged',
+            decision: 'rejected',
+          },
+        ],
+      },
+    };
+    const result = reconcileOrderWithInvoice(received, invoice);
+    const saumon = result.lines.find((line) => line.orderItemId === 'i-1');
+    const beurre = result.lines.find((line) => line.orderItemId === 'i-3');
+    expect(saumon).toMatchObject({ status: 'quantity_gap', expectedQuantity: 4, disputeAmount: 20 });
+    expect(beurre).toMatchObject({ status: 'quantity_gap', expectedQuantity: 0, disputeAmount: 27 });
+  });
+
+  it('does not dispute a cheaper invoice price', () => {
+    const cheaper: Invoice = {
+      ...invoice,
+      items: [{ designation: 'Saumon', quantity: 5, unitPriceHT: 18, totalPriceHT: 90 }],
+    };
+    const saumon = reconcileOrderWithInvoice(order, cheaper).lines[0];
+    expect(saumon.status).toBe('price_gap');
+    expect(saumon.disputeAmount).toBe(0);
+  });
+});
@@ -0,0 +1,150 @@
+import type { Invoice, Order } from '../types';
+import { normalizeSupplierLabel, similarityScore } from './supplierMapping';
+
+export type ReconciliationStatus = 'match' | 'price_gap' | 'quantity_gap' | 'price_quantity_gap' | 'missing' | 'extra';
+
+export const RECONCILIATION_STATUS_LABELS: Record<ReconciliationStatus, string> = {
+  match: 'Conforme',
+  price_gap: 'Ecart de prix',
+  quantity_gap: 'Ecart de quantite',
+  price_quantity_gap: 'Ecart prix et quantite',
+  missing: 'Non facture',
+  extra: 'Non commande',
+};
+
+export interface ReconciliationLine {
+  key: string;
+  productName: string;
+  invoiceDesignation?: string;
+  orderItemId?: string;
+  /** Quantity the supplier may bill: received quantity when the delivery was checked, ordered quantity otherwise. */
+  expectedQuantity?: number;
+  invoicedQuantity?: number;
+  orderedUnitPrice?: number;
+  invoicedUnitPrice?: number;
+  status: ReconciliationStatus;
+  /** Amount billed above what was agreed and delivered, HT. */
+  disputeAmount: number;
+}
+
+export interface OrderReconciliation {
+  lines: ReconciliationLine[];
+  orderTotalHT: number;
+  invoiceTotalHT: number;
+  disputeTotal: number;
+  issueCount: number;
+}
+
+const MIN_MATCH_SCORE = 0.6;
+const PRICE_TOLERANCE = 0.01;
+const QUANTITY_TOLERANCE = 0.001;
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function expectedQuantityFor(order: Order, orderItemId: string, orderedQuantity: number): number {
+  const receptionLine = order.reception?.lines.find((line) => line.orderItemId === orderItemId);
+  if (!receptionLine) return orderedQuantity;
+  return receptionLine.decision === 'rejected' ? 0 : receptionLine.receivedQuantity;
+}
+
+/**
+ * Lines up order items with invoice items by normalized supplier label
+ * (exact label first, then the closest one) and prices every discrepancy.
+ * Only overbilling is disputed: a cheaper price or a smaller quantity is flagged but costs nothing.
+ */
+export function reconcileOrderWithInvoice(order: Order, invoice: Invoice): OrderReconciliation {
+  const orderItems = order.items.filter((item) => item.productName.trim().length > 0);
+  const invoiceItems = invoice.items.map((item, index) => ({
+    item,
+    index,
+    label: normalizeSupplierLabel(item.designation),
+  }));
+  const pairs = new Map<string, number>();
+  const usedInvoiceIndexes = new Set<number>();
+
+  for (const orderItem of orderItems) {
+    const label = normalizeSupplierLabel(orderItem.productName);
+    const exact = invoiceItems.find((entry) => !usedInvoiceIndexes.has(entry.index) && entry.label === label);
+    if (exact) {
+      pairs.set(orderItem.id, exact.index);
+      usedInvoiceIndexes.add(exact.index);
+    }
+  }
+
+  const candidates: { orderItemId: string; invoiceIndex: number; score: number }[] = [];
+  for (const orderItem of orderItems) {
+    if (pairs.has(orderItem.id)) continue;
+    for (const entry of invoiceItems) {
+      if (usedInvoiceIndexes.has(entry.index)) continue;
+      const score = similarityScore(orderItem.productName, entry.item.designation);
+      if (score >= MIN_MATCH_SCORE) candidates.push({ orderItemId: orderItem.id, invoiceIndex: entry.index, score });
+    }
+  }
+  candidates.sort((a, b) => b.score - a.score);
+  for (const candidate of candidates) {
+    if (pairs.has(candidate.orderItemId) || usedInvoiceIndexes.has(candidate.invoiceIndex)) continue;
+    pairs.set(candidate.orderItemId, candidate.invoiceIndex);
+    usedInvoiceIndexes.add(candidate.invoiceIndex);
+  }
+
+  const lines: ReconciliationLine[] = orderItems.map((orderItem) => {
+    const expectedQuantity = expectedQuantityFor(order, orderItem.id, orderItem.quantity);
+    const orderedUnitPrice = orderItem.unitPriceHT && orderItem.unitPriceHT > 0 ? orderItem.unitPriceHT : undefined;
+    const invoiceIndex = pairs.get(orderItem.id);
+    if (invoiceIndex === undefined) {
+      return {
+        key: orderItem.id,
+        productName: orderItem.productName,
+        orderItemId: orderItem.id,
+        expectedQuantity,
+        orderedUnitPrice,
+        status: 'missing',
+        disputeAmount: 0,
+      };
+    }
+
+    const invoiceItem = invoice.items[invoiceIndex];
+    const invoicedQuantity = invoiceItem.quantity;
+    const invoicedUnitPrice = invoiceItem.unitPriceHT;
+    const priceGap = orderedUnitPrice !== undefined && Math.abs(invoicedUnitPrice - orderedUnitPrice) > PRICE_TOLERANCE;
+    const quantityGap = Math.abs(invoicedQuantity - expectedQuantity) > QUANTITY_TOLERANCE;
+    const agreedPrice = orderedUnitPrice !== undefined ? Math.min(orderedUnitPrice, invoicedUnitPrice) : invoicedUnitPrice;
+    const dueAmount = Math.min(invoicedQuantity, expectedQuantity) * agreedPrice;
+
+    return {
+      key: orderItem.id,
+      productName: orderItem.productName,
+      invoiceDesignation: invoiceItem.designation,
+      orderItemId: orderItem.id,
+      expectedQuantity,
+      invoicedQuantity,
+      orderedUnitPrice,
+      invoicedUnitPrice,
+      status: priceGap && quantityGap ? 'price_quantity_gap' : priceGap ? 'price_gap' : quantityGap ? 'quantity_gap' : 'match',
+      disputeAmount: roundMoney(Math.max(0, invoicedQuantity * invoicedUnitPrice - dueAmount)),
+    };
+  });
+
+  for (const entry of invoiceItems) {
+    if (usedInvoiceIndexes.has(entry.index)) continue;
+    lines.push({
+      key: `invoice-${entry.index}`,
+      productName: entry.item.designation,
+      invoiceDesignation: entry.item.designation,
+      invoicedQuantity: entry.item.quantity,
+      invoicedUnitPrice: entry.item.unitPriceHT,
+      status: 'extra',
+      disputeAmount: roundMoney(Math.max(0, entry.item.totalPriceHT || entry.item.quantity * entry.item.unitPriceHT)),
+    });
+  }
+
+  return {
+    lines,
+    orderTotalHT: order.totalHT,
+    invoiceTotalHT: invoice.totalHT,
+    disputeTotal: roundMoney(lines.reduce((sum, line) => sum + line.disputeAmount, 0)),
+    issueCount: lines.filter((line) => line.status !== 'match').length,
+  };
+}
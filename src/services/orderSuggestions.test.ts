@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { buildOrderSuggestions, findLastKnownPrice, suggestionToOrderItem } from './orderSuggestions';
+import type { StockLevel } from './stock';
+import type { Ingredient, PriceHistory, Supplier } from '../types';
+
+const butter: Ingredient = { id: 'butter', name: 'Beurre doux', unit: 'kg', unitPrice: 40, conditioningQuantity: 5 };
+const cream: Ingredient = { id: 'cream', name: 'Creme liquide', unit: 'l', unitPrice: 4 };
+const flour: Ingredient = { id: 'flour', name: 'Farine T55', unit: 'kg', unitPrice: 0 };
+
+function level(ingredient: Ingredient, theoreticalQuantity: number): StockLevel {
+  return {
+    ingredient,
+    theoreticalQuantity,
+    inputQuantity: 0,
+    outputQuantity: 0,
+    unitPrice: 0,
+    stockValue: 0,
+  };
+}
+
+const supplier: Supplier = {
+  id: 'metro',
+  name: 'Metro',
+  deliveryDays: [],
+  parLevels: [
+    { ingredientId: 'butter', minQuantity: 4, targetQuantity: 12 },
+    { ingredientId: 'cream', productName: 'Creme UHT 35%', minQuantity: 3, targetQuantity: 10 },
+    { ingredientId: 'flour', minQuantity: 5, targetQuantity: 20 },
+  ],
+  createdAt: new Date(2026, 0, 1),
+  updatedAt: new Date(2026, 0, 1),
+};
+
+const history: PriceHistory[] = [
+  {
+    id: 'beurre-metro',
+    itemName: 'BEURRE DOUX PLAQUE',
+    supplier: 'METRO FRANCE',
+    prices: [
+      { date: new Date(2026, 8, 1), price: 38 },
+      { date: new Date(2026, 9, 1), price: 42.5 },
+    ],
+    averagePrice: 40.25,
+    minPrice: 38,
+    maxPrice: 42.5,
+  },
+  {
+    id: 'beurre-pomona',
+    itemName: 'Beurre doux',
+    supplier: 'Pomona',
+    prices: [{ date: new Date(2026, 9, 5), price: 30 }],
+    averagePrice: 30,
+    minPrice: 30,
+    maxPrice: 30,
+  },
+];
+
+describe('order suggestions', () => {
+  it('finds the last invoiced price of the product at the same supplier', () => {
+    expect(findLastKnownPrice(history, 'Metro', ['Beurre doux'])).toEqual({
+      price: 42.5,
+      date: new Date(2026, 9, 1),
+    });
+    expect(findLastKnownPrice(history, 'Transgourmet', ['Beurre doux'])).toBeNull();
+  });
+
+  it('suggests the gap to the target in whole packs once stock reaches the reorder point', () => {
+    const suggestions = buildOrderSuggestions({
+      supplier,
+      ingredients: [butter, cream, flour],
+      stockLevels: [level(butter, 3), level(cream, 3.5), level(flour, -2)],
+      priceHistory: history,
+    });
+
+    expect(suggestions.map((line) => line.ingredientId)).toEqual(['butter', 'flour']);
+    const [butterLine, flourLine] = suggestions;
+    expect(butterLine).toMatchObject({ packSize: 5, quantity: 10, unitPriceHT: 8.5, priceSource: 'history' });
+    // Negative theoretical stock counts as empty; no price known anywhere.
+    expect(flourLine).toMatchObject({ currentStock: 0, quantity: 20, unitPriceHT: 0, priceSource: 'none' });
+  });
+
+  it('falls back on the ingredient price and turns a suggestion into an order line', () => {
+    const [creamLine] = buildOrderSuggestions({
+      supplier,
+      ingredients: [cream],
+      stockLevels: [level(cream, 1)],
+      priceHistory: [],
+    });
+    expect(creamLine).toMatchObject({ productName: 'Creme UHT 35%', quantity: 9, unitPriceHT: 4, priceSource: 'ingredient' });
+
+    const item = suggestionToOrderItem(creamLine);
+    expect(item).toMatchObject({ productName: 'Creme UHT 35%', quantity: 9, unit: 'l', totalPriceHT: 36 });
+  });
+});
@@ -0,0 +1,134 @@
+import type { Ingredient, IngredientUnit, OrderItem, PriceHistory, Supplier } from '../types';
+import { nameSimilarity } from './ingredientMatch';
+import { getEffectiveUnitPrice } from './recipeCost';
+import type { StockLevel } from './stock';
+import { canonicalizeSupplierName, normalizeSupplierKey } from './suppliers';
+
+/** Same threshold as the invoice to ingredient matching. */
+const PRICE_NAME_THRESHOLD = 0.78;
+
+export type SuggestionPriceSource = 'history' | 'ingredient' | 'none';
+
+export interface OrderSuggestion {
+  ingredientId: string;
+  productName: string;
+  unit: IngredientUnit;
+  currentStock: number;
+  minQuantity: number;
+  targetQuantity: number;
+  /** Ingredient units per purchased pack (1 when sold loose). */
+  packSize: number;
+  /** Rounded up to whole packs, in the ingredient unit. */
+  quantity: number;
+  /** Price of one ingredient unit. */
+  unitPriceHT: number;
+  priceSource: SuggestionPriceSource;
+  lastPriceDate?: Date;
+}
+
+function roundQuantity(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function roundPrice(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function supplierKey(value: string): string {
+  return normalizeSupplierKey(canonicalizeSupplierName(value));
+}
+
+/**
+ * Latest invoiced price of a product at this supplier. Price history keeps
+ * invoice designations, so the closest name wins; ties go to the most recent.
+ */
+export function findLastKnownPrice(
+  history: PriceHistory[],
+  supplier: string,
+  names: string[],
+): { price: number; date: Date } | null {
+  const key = supplierKey(supplier);
+  let best: { score: number; price: number; date: Date } | null = null;
+
+  for (const entry of history) {
+    if (supplierKey(entry.supplier) !== key || entry.prices.length === 0) continue;
+    const score = Math.max(...names.map((name) => nameSimilarity(name, entry.itemName)));
+    if (score < PRICE_NAME_THRESHOLD) continue;
+    const latest = entry.prices.reduce((last, price) =>
+      new Date(price.date).getTime() > new Date(last.date).getTime() ? price : last,
+    );
+    const date = new Date(latest.date);
+    if (!best || score > best.score || (score === best.score && date.getTime() > best.date.getTime())) {
+      best = { score, price: latest.price, date };
+    }
+  }
+  return best ? { price: best.price, date: best.date } : null;
+}
+
+/**
+ * Order lines for every par level of the supplier whose stock reached the
+ * reorder point: the gap up to the target, rounded up to whole packs.
+ * Invoiced prices are per pack, so they are divided by the pack size.
+ */
+export function buildOrderSuggestions(input: {
+  supplier: Supplier;
+  ingredients: Ingredient[];
+  stockLevels: StockLevel[];
+  priceHistory: PriceHistory[];
+}): OrderSuggestion[] {
+  const ingredientMap = new Map(input.ingredients.map((ingredient) => [ingredient.id, ingredient]));
+  const stockMap = new Map(input.stockLevels.map((level) => [level.ingredient.id, level.theoreticalQuantity]));
+  const suggestions: OrderSuggestion[] = [];
+
+  for (const par of input.supplier.parLevels ?? []) {
+    const ingredient = ingredientMap.get(par.ingredientId);
+    if (!ingredient) continue;
+    const currentStock = Math.max(0, stockMap.get(ingredient.id) ?? 0);
+    if (currentStock > par.minQuantity) continue;
+    const gap = par.targetQuantity - currentStock;
+    if (gap <= 0) continue;
+
+    const packSize = ingredient.conditioningQuantity && ingredient.conditioningQuantity > 1 ? ingredient.conditioningQuantity : 1;
+    const packs = Math.ceil(roundQuantity(gap / packSize));
+    const productName = par.productName || ingredient.name;
+
+    const lastPrice = findLastKnownPrice(input.priceHistory, input.supplier.name, [productName, ingredient.name]);
+    let unitPriceHT = 0;
+    let priceSource: SuggestionPriceSource = 'none';
+    if (lastPrice) {
+      unitPriceHT = roundPrice(lastPrice.price / packSize);
+      priceSource = 'history';
+    } else if (ingredient.unitPrice > 0) {
+      unitPriceHT = roundPrice(getEffectiveUnitPrice(ingredient));
+      priceSource = 'ingredient';
+    }
+
+    suggestions.push({
+      ingredientId: ingredient.id,
+      productName,
+      unit: ingredient.unit,
+      currentStock: roundQuantity(currentStock),
+      minQuantity: par.minQuantity,
+      targetQuantity: par.targetQuantity,
+      packSize,
+      quantity: roundQuantity(packs * packSize),
+      unitPriceHT,
+      priceSource,
+      lastPriceDate: lastPrice?.date,
+    });
+  }
+
+  return suggestions.sort((a, b) => a.productName.localeCompare(b.productName));
+}
+
+export function suggestionToOrderItem(suggestion: OrderSuggestion): OrderItem {
+  return {
+    id: crypto.randomUUID(),
+    productName: suggestion.productName,
+    quantity: suggestion.quantity,
+    unit: suggestion.unit,
+    unitPriceHT: suggestion.unitPriceHT,
+    totalPriceHT: Math.round(suggestion.quantity * suggestion.unitPriceHT * 100) / 100,
+    notes: suggestion.packSize > 1 ? `Colis de ${suggestion.packSize} ${suggestion.unit}` : undefined,
+  };
+}
@@ -1,6 +1,29 @@
 import { format } from 'date-fns';
 import { fr } from 'date-fns/locale';
-import type { TemperatureRecord, Equipment, ProductTrace, OilChangeRecord } from '../types';
+import {
+  CORRECTIVE_ACTION_LABELS,
+  NON_CONFORMITY_LABELS,
+  PENDING_CORRECTIVE_ACTION_LABEL,
+  PROCESS_TEMPERATURE_LABELS,
+} from '../types';
+import type {
+  TemperatureRecord,
+  Equipment,
+  ProductTrace,
+  OilChangeRecord,
+  CorrectiveAction,
+  ProcessTemperatureLog,
+  SupplierNonConformity,
+  Order,
+  Invoice,
+  Supplier,
+} from '../types';
+import { evaluateProcessLog, formatElapsedMinutes, PROCESS_RULES } from './processTemperature';
+import type { ProductionSheet } from './recipeScaling';
+import { RECONCILIATION_STATUS_LABELS, type OrderReconciliation } from './orderReconciliation';
+import { formatVatRate, type MonthlyVatReport } from './invoiceVat';
+import type { PurchaseJournal } from './accountingExport';
+import { getPurchaseOrderFilename } from './purchaseOrder';
 
 type JsPdfCtor = (typeof import('jspdf'))['default'];
 type AutoTableFn = (typeof import('jspdf-autotable'))['default'];
@@ -19,11 +42,21 @@ async function loadPdfLibs(): Promise<{ jsPDF: JsPdfCtor; autoTable: AutoTableFn
   return pdfLibsPromise;
 }
 
+type PdfDoc = InstanceType<JsPdfCtor>;
+
+/** Y position right below the last autoTable drawn on the document. */
+function getLastTableY(doc: PdfDoc, fallback: number): number {
+  const lastTable = (doc as PdfDoc & { lastAutoTable?: { finalY?: number } }).lastAutoTable;
+  return lastTable?.finalY ?? fallback;
+}
+
 export async function generateTemperaturePDF(
   records: TemperatureRecord[],
   equipment: Equipment[],
   establishmentName: string,
-  periodLabel: string
+  periodLabel: string,
+  correctiveActions: CorrectiveAction[] = [],
+  processLogs: ProcessTemperatureLog[] = [],
 ) {
   const { jsPDF, autoTable } = await loadPdfLibs();
   const doc = new jsPDF();
@@ -128,6 +161,109 @@ export async function generateTemperaturePDF(
     },
   });
 
+  // Corrective actions
+  if (correctiveActions.length > 0) {
+    const recordMap = new Map(records.map(r => [r.id, r]));
+    let actionsY = getLastTableY(doc, summaryY) + 12;
+    if (actionsY > doc.internal.pageSize.height - 40) {
+      doc.addPage();
+      actionsY = 22;
+    }
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Actions correctives', 14, actionsY);
+    doc.setFont('helvetica', 'normal');
+
+    const actionRows = [...correctiveActions]
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .map(action => {
+        const record = recordMap.get(action.temperatureRecordId);
+        return [
+          format(new Date(action.createdAt), 'dd/MM/yyyy HH:mm', { locale: fr }),
+          equipMap.get(action.equipmentId)?.name ?? 'Inconnu',
+          record ? `${record.temperature}°C` : '-',
+          action.automatic ? PENDING_CORRECTIVE_ACTION_LABEL : CORRECTIVE_ACTION_LABELS[action.action],
+          action.operator || '-',
+          action.notes || '-',
+          action.resolvedAt
+            ? format(new Date(action.resolvedAt), 'dd/MM HH:mm', { locale: fr })
+            : `En attente (${format(new Date(action.recheckDueAt), 'dd/MM HH:mm', { locale: fr })})`,
+        ];
+      });
+
+    autoTable(doc, {
+      startY: actionsY + 4,
+      head: [['Date', 'Équipement', 'Temp.', 'Action', 'Opérateur', 'Commentaire', 'Recontrôle']],
+      body: actionRows,
+      styles: { fontSize: 8, cellPadding: 2.5 },
+      headStyles: { fillColor: [185, 28, 28] },
+      bodyStyles: { textColor: [30, 30, 30] },
+      alternateRowStyles: { fillColor: [254, 242, 242] },
+    });
+  }
+
+  // Cooling, hot holding and reheating
+  if (processLogs.length > 0) {
+    let processY = getLastTableY(doc, summaryY) + 12;
+    if (processY > doc.internal.pageSize.height - 40) {
+      doc.addPage();
+      processY = 22;
+    }
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Refroidissement, maintien et remise en température', 14, processY);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    processY += 5;
+    doc.text(
+      (Object.keys(PROCESS_RULES) as ProcessTemperatureLog['processType'][])
+        .map(type => `${PROCESS_TEMPERATURE_LABELS[type]} : ${PROCESS_RULES[type].summary}`)
+        .join('  |  '),
+      14,
+      processY,
+    );
+
+    const processRows = [...processLogs]
+      .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime())
+      .map(log => {
+        const evaluation = evaluateProcessLog(log);
+        const statusLabel =
+          evaluation.status === 'compliant' ? 'OUI' : evaluation.status === 'in_progress' ? 'EN COURS' : 'NON';
+        return [
+          format(new Date(log.startedAt), 'dd/MM/yyyy', { locale: fr }),
+          PROCESS_TEMPERATURE_LABELS[log.processType],
+          log.productName,
+          `${log.startTemperature}°C (${format(new Date(log.startedAt), 'HH:mm', { locale: fr })})`,
+          log.endedAt && log.endTemperature !== undefined
+            ? `${log.endTemperature}°C (${format(new Date(log.endedAt), 'HH:mm', { locale: fr })})`
+            : '-',
+          formatElapsedMinutes(evaluation.elapsedMinutes),
+          statusLabel,
+          log.operator || '-',
+        ];
+      });
+
+    autoTable(doc, {
+      startY: processY + 4,
+      head: [['Date', 'Process', 'Produit', 'Sonde départ', 'Sonde fin', 'Durée', 'Conforme', 'Opérateur']],
+      body: processRows,
+      styles: { fontSize: 8, cellPadding: 2.5 },
+      headStyles: { fillColor: [194, 65, 12] },
+      bodyStyles: { textColor: [30, 30, 30] },
+      alternateRowStyles: { fillColor: [255, 247, 237] },
+      didParseCell(data) {
+        if (data.section !== 'body' || data.column.index !== 6) return;
+        const val = data.cell.raw as string;
+        if (val === 'NON') {
+          data.cell.styles.textColor = [239, 68, 68];
+          data.cell.styles.fontStyle = 'bold';
+        } else if (val === 'OUI') {
+          data.cell.styles.textColor = [34, 197, 94];
+        }
+      },
+    });
+  }
+
   // Footer
   const pageCount = doc.getNumberOfPages();
   for (let i = 1; i <= pageCount; i++) {
@@ -235,6 +371,234 @@ export async function generateTraceabilityPDF(
   doc.save(`tracabilite_${format(new Date(), 'yyyy-MM-dd')}.pdf`);
 }
 
+export async function generateProductionSheetPDF(sheet: ProductionSheet, establishmentName: string) {
+  const { jsPDF, autoTable } = await loadPdfLibs();
+  const doc = new jsPDF();
+  const money = (value: number) => `${value.toFixed(2).replace('.', ',')} EUR`;
+
+  doc.setFontSize(18);
+  doc.text(`Fiche de production - ${sheet.title}`, 14, 22);
+  doc.setFontSize(11);
+  doc.text(establishmentName || 'Mon etablissement', 14, 30);
+  doc.text(`Production : ${sheet.targetLabel} (x${sheet.factor.toFixed(2).replace('.', ',')})`, 14, 36);
+
+  autoTable(doc, {
+    startY: 44,
+    head: [['Ingredient', 'Quantite', 'Unite', 'Cout']],
+    body: sheet.lines.map(line => [
+      line.name,
+      String(line.quantity).replace('.', ','),
+      line.unit,
+      money(line.cost),
+    ]),
+    styles: { fontSize: 9, cellPadding: 2.5 },
+    headStyles: { fillColor: [30, 64, 175] },
+    alternateRowStyles: { fillColor: [241, 245, 249] },
+    columnStyles: { 1: { halign: 'right' }, 3: { halign: 'right' } },
+  });
+
+  let y = getLastTableY(doc, 44) + 10;
+  if (y > doc.internal.pageSize.height - 40) {
+    doc.addPage();
+    y = 22;
+  }
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'bold');
+  doc.text(`Cout matiere total : ${money(sheet.totalCost)}`, 14, y);
+  doc.setFont('helvetica', 'normal');
+  y += 6;
+  if (sheet.portions > 0) {
+    doc.text(`Cout par portion : ${money(sheet.totalCost / sheet.portions)} (${sheet.portions} portions)`, 14, y);
+    y += 6;
+  }
+  if (sheet.unconvertibleLines.length > 0) {
+    doc.setFontSize(9);
+    doc.text(`Hors calcul (unite non convertible) : ${sheet.unconvertibleLines.join(', ')}`, 14, y);
+    y += 6;
+  }
+
+  y += 2;
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Allergenes', 14, y);
+  doc.setFont('helvetica', 'normal');
+  y += 6;
+  if (sheet.allergens.length > 0) {
+    doc.setTextColor(185, 28, 28);
+    doc.text(doc.splitTextToSize(sheet.allergens.join(', '), 182), 14, y);
+    doc.setTextColor(0, 0, 0);
+  } else {
+    doc.text('Aucun allergene declare', 14, y);
+  }
+
+  doc.setFontSize(8);
+  doc.setTextColor(150, 150, 150);
+  doc.text(
+    `Genere le ${format(new Date(), 'dd/MM/yyyy HH:mm', { locale: fr })}`,
+    14,
+    doc.internal.pageSize.height - 10,
+  );
+
+  const slug = sheet.title.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'recette';
+  doc.save(`production_${slug}_${format(new Date(), 'yyyy-MM-dd')}.pdf`);
+}
+
+export async function generateCreditNoteRequestPDF(
+  reconciliation: OrderReconciliation,
+  order: Order,
+  invoice: Invoice,
+  establishmentName: string,
+) {
+  const { jsPDF, autoTable } = await loadPdfLibs();
+  const doc = new jsPDF();
+  const money = (value: number) => `${value.toFixed(2).replace('.', ',')} EUR`;
+  const quantity = (value?: number) => (value === undefined ? '-' : String(value).replace('.', ','));
+  const disputed = reconciliation.lines.filter((line) => line.disputeAmount > 0);
+
+  doc.setFontSize(18);
+  doc.text("Demande d'avoir", 14, 22);
+  doc.setFontSize(11);
+  doc.text(establishmentName || 'Mon etablissement', 14, 30);
+  doc.text(`Fournisseur : ${invoice.supplier || order.supplier}`, 14, 36);
+  doc.text(
+    `Facture ${invoice.invoiceNumber || invoice.id} du ${format(new Date(invoice.invoiceDate), 'dd/MM/yyyy', { locale: fr })} - Commande ${order.orderNumber}`,
+    14,
+    42,
+  );
+
+  autoTable(doc, {
+    startY: 50,
+    head: [['Produit', 'Motif', 'Qte facturee', 'Qte attendue', 'PU facture', 'PU convenu', 'A crediter']],
+    body: disputed.map((line) => [
+      line.invoiceDesignation ?? line.productName,
+      RECONCILIATION_STATUS_LABELS[line.status],
+      quantity(line.invoicedQuantity),
+      quantity(line.status === 'extra' ? 0 : line.expectedQuantity),
+      line.invoicedUnitPrice !== undefined ? money(line.invoicedUnitPrice) : '-',
+      line.orderedUnitPrice !== undefined ? money(line.orderedUnitPrice) : '-',
+      money(line.disputeAmount),
+    ]),
+    styles: { fontSize: 8, cellPadding: 2 },
+    headStyles: { fillColor: [30, 64, 175] },
+    alternateRowStyles: { fillColor: [241, 245, 249] },
+    columnStyles: { 2: { halign: 'right' }, 3: { halign: 'right' }, 4: { halign: 'right' }, 5: { halign: 'right' }, 6: { halign: 'right' } },
+  });
+
+  let y = getLastTableY(doc, 50) + 10;
+  if (y > doc.internal.pageSize.height - 40) {
+    doc.addPage();
+    y = 22;
+  }
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.text(`Montant de l'avoir demande : ${money(reconciliation.disputeTotal)} HT`, 14, y);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  y += 8;
+  doc.text(
+    doc.splitTextToSize(
+      "Merci de nous faire parvenir un avoir correspondant aux ecarts ci-dessus, constates entre la commande, la livraison et la facture.",
+      182,
+    ),
+    14,
+    y,
+  );
+
+  doc.setFontSize(8);
+  doc.setTextColor(150, 150, 150);
+  doc.text(
+    `Genere le ${format(new Date(), 'dd/MM/yyyy HH:mm', { locale: fr })}`,
+    14,
+    doc.internal.pageSize.height - 10,
+  );
+
+  doc.save(`avoir_${order.orderNumber}_${format(new Date(), 'yyyy-MM-dd')}.pdf`);
+}
+
+async function renderPurchaseOrderPDF(order: Order, establishmentName: string, supplier?: Supplier): Promise<PdfDoc> {
+  const { jsPDF, autoTable } = await loadPdfLibs();
+  const doc = new jsPDF();
+  const money = (value: number) => `${value.toFixed(2).replace('.', ',')} EUR`;
+  const items = order.items.filter((item) => item.productName.trim().length > 0);
+  const hasPrices = items.some((item) => (item.unitPriceHT ?? 0) > 0);
+
+  doc.setFontSize(18);
+  doc.text('Bon de commande', 14, 22);
+  doc.setFontSize(11);
+  doc.text(establishmentName || 'Mon etablissement', 14, 30);
+  doc.text(`Commande ${order.orderNumber} du ${format(new Date(order.orderDate), 'dd/MM/yyyy', { locale: fr })}`, 14, 36);
+
+  doc.text(`Fournisseur : ${supplier?.name || order.supplier}`, 120, 30);
+  let headerY = 36;
+  if (supplier?.customerAccountNumber) {
+    doc.text(`Compte client : ${supplier.customerAccountNumber}`, 120, headerY);
+    headerY += 6;
+  }
+  doc.setFont('helvetica', 'bold');
+  doc.text(
+    order.expectedDeliveryDate
+      ? `Livraison souhaitee : ${format(new Date(order.expectedDeliveryDate), 'EEEE dd/MM/yyyy', { locale: fr })}`
+      : 'Livraison : des que possible',
+    14,
+    44,
+  );
+  doc.setFont('helvetica', 'normal');
+
+  autoTable(doc, {
+    startY: Math.max(52, headerY + 8),
+    head: [hasPrices ? ['Produit', 'Quantite', 'Unite', 'Notes', 'PU HT', 'Total HT'] : ['Produit', 'Quantite', 'Unite', 'Notes']],
+    body: items.map((item) => {
+      const row = [item.productName, String(item.quantity).replace('.', ','), item.unit, item.notes ?? ''];
+      if (!hasPrices) return row;
+      const total = item.totalPriceHT ?? item.quantity * (item.unitPriceHT ?? 0);
+      return [...row, item.unitPriceHT ? money(item.unitPriceHT) : '-', total > 0 ? money(total) : '-'];
+    }),
+    styles: { fontSize: 9, cellPadding: 2.5 },
+    headStyles: { fillColor: [30, 64, 175] },
+    alternateRowStyles: { fillColor: [241, 245, 249] },
+    columnStyles: { 1: { halign: 'right' }, 4: { halign: 'right' }, 5: { halign: 'right' } },
+  });
+
+  let y = getLastTableY(doc, 52) + 10;
+  if (y > doc.internal.pageSize.height - 30) {
+    doc.addPage();
+    y = 22;
+  }
+  if (order.totalHT > 0) {
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.text(`Total HT : ${money(order.totalHT)}`, 14, y);
+    doc.setFont('helvetica', 'normal');
+    y += 8;
+  }
+  doc.setFontSize(10);
+  doc.text('Merci de confirmer la commande et de signaler toute rupture.', 14, y);
+
+  doc.setFontSize(8);
+  doc.setTextColor(150, 150, 150);
+  doc.text(
+    `Genere le ${format(new Date(), 'dd/MM/yyyy HH:mm', { locale: fr })}`,
+    14,
+    doc.internal.pageSize.height - 10,
+  );
+  return doc;
+}
+
+export async function generatePurchaseOrderPDF(order: Order, establishmentName: string, supplier?: Supplier) {
+  const doc = await renderPurchaseOrderPDF(order, establishmentName, supplier);
+  doc.save(getPurchaseOrderFilename(order));
+}
+
+/** Same document as a file, for the Web Share API. */
+export async function generatePurchaseOrderPDFFile(
+  order: Order,
+  establishmentName: string,
+  supplier?: Supplier,
+): Promise<File> {
+  const doc = await renderPurchaseOrderPDF(order, establishmentName, supplier);
+  return new File([doc.output('blob')], getPurchaseOrderFilename(order), { type: 'application/pdf' });
+}
+
 export function generateTraceabilityCSV(traces: ProductTrace[]): string {
   const headers = ['Produit', 'Fournisseur', 'No Lot', 'Categorie', 'Allergenes', 'Date reception', 'DLC/DDM', 'Code-barres'];
   const rows = traces.map(t => [
@@ -252,8 +616,112 @@ export function generateTraceabilityCSV(traces: ProductTrace[]): string {
   return csv;
 }
 
-export function downloadCSV(csv: string, filename: string) {
-  const blob = new Blob(['\ufeff' + csv], { type: 'text/csv;charset=utf-8;' });
+export function generateNonConformitiesCSV(rows: SupplierNonConformity[]): string {
+  const headers = ['Date', 'Fournisseur', 'Commande', 'Produit', 'Type', 'Qte commandee', 'Qte acceptee', 'Unite', 'Motif'];
+  const lines = rows.map(r => [
+    format(new Date(r.createdAt), 'dd/MM/yyyy'),
+    r.supplier,
+    r.orderNumber,
+    r.productName,
+    NON_CONFORMITY_LABELS[r.type],
+    String(r.orderedQuantity),
+    String(r.receivedQuantity),
+    r.unit,
+    r.reason ?? '',
+  ]);
+
+  return [headers, ...lines].map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(',')).join('\n');
+}
+
+export function generateVatReportCSV(report: MonthlyVatReport): string {
+  const headers = ['Date', 'Fournisseur', 'No facture', 'Taux TVA', 'Base HT', 'TVA deductible', 'TTC'];
+  const lines = report.rows.map(r => [
+    format(r.invoiceDate, 'dd/MM/yyyy'),
+    r.supplier,
+    r.invoiceNumber,
+    formatVatRate(r.rate),
+    r.baseHT.toFixed(2),
+    r.vat.toFixed(2),
+    (r.baseHT + r.vat).toFixed(2),
+  ]);
+  const totals = report.totalsByRate.map(t => [
+    `Total ${report.month}`,
+    '',
+    '',
+    formatVatRate(t.rate),
+    t.baseHT.toFixed(2),
+    t.vat.toFixed(2),
+    (t.baseHT + t.vat).toFixed(2),
+  ]);
+  const grandTotal = [
+    `Total ${report.month}`,
+    '',
+    '',
+    'Tous taux',
+    report.totalHT.toFixed(2),
+    report.totalTVA.toFixed(2),
+    (report.totalHT + report.totalTVA).toFixed(2),
+  ];
+
+  return [headers, ...lines, ...totals, grandTotal]
+    .map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(','))
+    .join('\n');
+}
+
+export function generatePurchaseJournalCSV(journal: PurchaseJournal): string {
+  const headers = ['Journal', 'No ecriture', 'Date', 'Piece', 'Compte', 'Intitule compte', 'Compte auxiliaire', 'Libelle', 'Debit', 'Credit'];
+  const lines = journal.lines.map(l => [
+    journal.journalCode,
+    String(l.entryNumber),
+    format(l.date, 'dd/MM/yyyy'),
+    l.pieceRef,
+    l.accountNumber,
+    l.accountLabel,
+    l.auxAccount ?? '',
+    l.label,
+    l.debit ? l.debit.toFixed(2) : '',
+    l.credit ? l.credit.toFixed(2) : '',
+  ]);
+
+  return [headers, ...lines].map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(',')).join('\n');
+}
+
+/** Fichier des Ecritures Comptables: 18 columns, tab separated, YYYYMMDD dates and comma decimals. */
+export function generateFECExport(journal: PurchaseJournal): string {
+  const headers = [
+    'JournalCode', 'JournalLib', 'EcritureNum', 'EcritureDate', 'CompteNum', 'CompteLib', 'CompAuxNum', 'CompAuxLib',
+    'PieceRef', 'PieceDate', 'EcritureLib', 'Debit', 'Credit', 'EcritureLet', 'DateLet', 'ValidDate', 'Montantdevise', 'Idevise',
+  ];
+  const amount = (value: number) => value.toFixed(2).replace('.', ',');
+  const clean = (value: string) => value.replace(/[\t\r\n]+/g, ' ').trim();
+  const lines = journal.lines.map(l => {
+    const date = format(l.date, 'yyyyMMdd');
+    return [
+      journal.journalCode,
+      journal.journalLabel,
+      String(l.entryNumber),
+      date,
+      l.accountNumber,
+      clean(l.accountLabel),
+      l.auxAccount ?? '',
+      clean(l.auxLabel ?? ''),
+      clean(l.pieceRef),
+      date,
+      clean(l.label),
+      amount(l.debit),
+      amount(l.credit),
+      '',
+      '',
+      date,
+      '',
+      '',
+    ];
+  });
+
+  return [headers, ...lines].map(row => row.join('\t')).join('\n');
+}
+
+function downloadBlob(blob: Blob, filename: string) {
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
@@ -261,3 +729,12 @@ export function downloadCSV(csv: string, filename: string) {
   a.click();
   URL.revokeObjectURL(url);
 }
+
+export function downloadCSV(csv: string, filename: string) {
+  downloadBlob(new Blob(['\ufeff' + csv], { type: 'text/csv;charset=utf-8;' }), filename);
+}
+
+/** No BOM: fixed formats such as the FEC are rejected by validators when the header is prefixed. */
+export function downloadText(text: string, filename: string) {
+  downloadBlob(new Blob([text], { type: 'text/plain;charset=utf-8;' }), filename);
+}
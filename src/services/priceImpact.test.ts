@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { buildPriceImpactReport } from './priceImpact';
+import type { Ingredient, Recipe, RecipeIngredient } from '../types';
+
+function makeRecipe(id: string, salePriceHT?: number): Recipe {
+  return {
+    id,
+    title: id,
+    portions: 1,
+    salePriceHT,
+    createdAt: new Date(2026, 0, 1),
+    updatedAt: new Date(2026, 0, 1),
+  };
+}
+
+function makeLine(id: string, recipeId: string, patch: Partial<RecipeIngredient>): RecipeIngredient {
+  return { id, recipeId, ingredientId: '', requiredQuantity: 1, requiredUnit: 'kg', ...patch };
+}
+
+describe('buildPriceImpactReport', () => {
+  it('reports direct and sub-recipe impacts and flags threshold crossings first', () => {
+    const recipes = [makeRecipe('sauce'), makeRecipe('plat', 10), makeRecipe('salade', 10)];
+    const links = [
+      makeLine('l1', 'sauce', { ingredientId: 'beurre', requiredQuantity: 0.1 }),
+      makeLine('l2', 'plat', { subRecipeId: 'sauce', requiredUnit: 'unite' }),
+      makeLine('l3', 'plat', { ingredientId: 'boeuf', requiredQuantity: 0.2 }),
+      makeLine('l4', 'salade', { ingredientId: 'tomate', requiredQuantity: 0.5 }),
+    ];
+    const before: Ingredient[] = [
+      { id: 'beurre', name: 'Beurre', unit: 'kg', unitPrice: 10 },
+      { id: 'boeuf', name: 'Boeuf', unit: 'kg', unitPrice: 9 },
+      { id: 'tomate', name: 'Tomate', unit: 'kg', unitPrice: 3 },
+    ];
+    const after = before.map((ingredient) => (ingredient.id === 'beurre' ? { ...ingredient, unitPrice: 20 } : ingredient));
+
+    const report = buildPriceImpactReport(recipes, links, before, after);
+
+    expect(report.map((entry) => entry.recipeId)).toEqual(['plat', 'sauce']);
+    expect(report[0].oldCost).toBeCloseTo(2.8, 5);
+    expect(report[0].newCost).toBeCloseTo(3.8, 5);
+    expect(report[0].crossedThreshold).toBe(true);
+    expect(report[0].warningLevel).toBe('danger');
+    expect(report[1].crossedThreshold).toBe(false);
+  });
+});
@@ -0,0 +1,47 @@
+import type { AppSettings, Ingredient, Recipe, RecipeCostSummary, RecipeIngredient, RecipePriceImpact } from '../types';
+import { buildSubRecipeContext, computeRecipeCostFromLines, getTargetFoodCostRate } from './recipeCost';
+
+const WARNING_RANK: Record<RecipeCostSummary['warningLevel'], number> = { ok: 0, warning: 1, danger: 2 };
+
+/**
+ * Compares every recipe cost before and after an ingredient price update.
+ * Sub-recipes are expanded, so a dish using a changed sauce is reported too.
+ * Recipes crossing a food-cost threshold come first, then the biggest cost increases.
+ */
+export function buildPriceImpactReport(
+  recipes: Recipe[],
+  links: RecipeIngredient[],
+  ingredientsBefore: Ingredient[],
+  ingredientsAfter: Ingredient[],
+  settings?: AppSettings | null,
+): RecipePriceImpact[] {
+  const context = buildSubRecipeContext(recipes, links);
+  const beforeMap = new Map(ingredientsBefore.map((ingredient) => [ingredient.id, ingredient]));
+  const afterMap = new Map(ingredientsAfter.map((ingredient) => [ingredient.id, ingredient]));
+  const impacts: RecipePriceImpact[] = [];
+
+  for (const recipe of recipes) {
+    const lines = context.linesByRecipe.get(recipe.id) ?? [];
+    if (lines.length === 0) continue;
+    const target = getTargetFoodCostRate(settings, recipe.category);
+    const before = computeRecipeCostFromLines(lines, beforeMap, recipe.salePriceHT, context, recipe.id, target);
+    const after = computeRecipeCostFromLines(lines, afterMap, recipe.salePriceHT, context, recipe.id, target);
+    if (Math.abs(after.totalCost - before.totalCost) < 0.005) continue;
+
+    impacts.push({
+      recipeId: recipe.id,
+      recipeTitle: recipe.title,
+      oldCost: before.totalCost,
+      newCost: after.totalCost,
+      oldFoodCostRate: before.foodCostRate,
+      newFoodCostRate: after.foodCostRate,
+      warningLevel: after.warningLevel,
+      crossedThreshold: WARNING_RANK[after.warningLevel] > WARNING_RANK[before.warningLevel],
+    });
+  }
+
+  return impacts.sort((a, b) => {
+    if (a.crossedThreshold !== b.crossedThreshold) return a.crossedThreshold ? -1 : 1;
+    return b.newCost - b.oldCost - (a.newCost - a.oldCost);
+  });
+}
@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db } from './db';
+import { syncInvoiceToIngredients } from './invoiceIngredientSync';
+import { approvePriceReview, getPriceReviewReasons, getPriceReviews, rejectPriceReview } from './priceReview';
+import type { Ingredient, Invoice } from '../types';
+
+function makeInvoice(id: string, designation: string, unitPriceHT: number): Invoice {
+  return {
+    id,
+    images: [],
+    supplier: 'Metro',
+    invoiceNumber: id,
+    invoiceDate: new Date(2026, 5, 1),
+    items: [{ designation, quantity: 1, unitPriceHT, totalPriceHT: unitPriceHT }],
+    totalHT: unitPriceHT,
+    totalTVA: 0,
+    totalTTC: unitPriceHT,
+    ocrText: '',
+    tags: [],
+    scannedAt: new Date(2026, 5, 1),
+  };
+}
+
+const savedIngredients: Ingredient[] = [];
+
+async function saveIngredient(ingredient: Ingredient): Promise<void> {
+  savedIngredients.push(ingredient);
+  await db.ingredients.put(ingredient);
+}
+
+beforeEach(async () => {
+  savedIngredients.length = 0;
+  await Promise.all([
+    db.ingredients.clear(),
+    db.ingredientPriceReviews.clear(),
+    db.supplierProductMappings.clear(),
+    db.settings.clear(),
+  ]);
+});
+
+describe('getPriceReviewReasons', () => {
+  it('queues uncertain matches, big jumps and conditioning changes', () => {
+    const base = {
+      matchScore: 1,
+      trustedMatch: false,
+      previousUnitPrice: 10,
+      proposedUnitPrice: 10.5,
+      priceAlertThreshold: 10,
+    };
+
+    expect(getPriceReviewReasons(base)).toEqual([]);
+    expect(getPriceReviewReasons({ ...base, matchScore: 0.8 })).toEqual(['low_confidence']);
+    expect(getPriceReviewReasons({ ...base, matchScore: 0.8, trustedMatch: true })).toEqual([]);
+    expect(getPriceReviewReasons({ ...base, proposedUnitPrice: 12 })).toEqual(['price_jump']);
+    expect(getPriceReviewReasons({ ...base, previousConditioningQuantity: 6, proposedConditioningQuantity: 12 })).toEqual([
+      'conditioning_change',
+    ]);
+  });
+});
+
+describe('invoice price review queue', () => {
+  it('applies safe updates and queues price jumps until approved', async () => {
+    await db.ingredients.add({ id: 'beurre', name: 'Beurre doux', unit: 'kg', unitPrice: 10 });
+
+    const safe = await syncInvoiceToIngredients(makeInvoice('f1', 'Beurre doux', 10.5), saveIngredient);
+    expect(safe).toMatchObject({ updated: 1, queued: 0 });
+
+    const jump = await syncInvoiceToIngredients(makeInvoice('f2', 'Beurre doux', 15), saveIngredient);
+    expect(jump).toMatchObject({ updated: 0, queued: 1 });
+    expect((await db.ingredients.get('beurre'))?.unitPrice).toBe(10.5);
+
+    const [review] = await getPriceReviews();
+    expect(review.reasons).toEqual(['price_jump']);
+    await approvePriceReview(review.id, saveIngredient);
+    expect((await db.ingredients.get('beurre'))?.unitPrice).toBe(15);
+    // Both the direct update and the approval go through the caller's updater.
+    expect(savedIngredients.map((ingredient) => ingredient.unitPrice)).toEqual([10.5, 15]);
+    expect(await getPriceReviews()).toHaveLength(0);
+  });
+
+  it('learns from rejected fuzzy matches', async () => {
+    await db.ingredients.add({ id: 'creme', name: 'Creme liquide bio 35 MG', unit: 'l', unitPrice: 4 });
+
+    await syncInvoiceToIngredients(makeInvoice('f1', 'Creme bio liquide 35 MG UHT', 4.2), saveIngredient);
+    const [review] = await getPriceReviews();
+    expect(review.reasons).toContain('low_confidence');
+
+    await rejectPriceReview(review.id);
+    const again = await syncInvoiceToIngredients(makeInvoice('f2', 'Creme bio liquide 35 MG UHT', 4.2), saveIngredient);
+
+    expect(again.queued).toBe(0);
+    expect((await db.ingredients.get('creme'))?.unitPrice).toBe(4);
+  });
+});
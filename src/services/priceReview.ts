@@ -0,0 +1,100 @@
+import type { Ingredient, IngredientPriceReview, PriceReviewReason, PriceReviewStatus, RecipePriceImpact } from '../types';
+import { db } from './db';
+import { buildPriceImpactReport } from './priceImpact';
+import { trainIngredientMapping } from './supplierMapping';
+
+/** Saves an ingredient price update. Callers pass the store's updateIngredient so it also reaches the cloud. */
+export type IngredientUpdater = (ingredient: Ingredient) => Promise<void>;
+
+/** Fuzzy matches below this score need a human check before touching prices. */
+export const HIGH_CONFIDENCE_MATCH_SCORE = 0.9;
+
+interface PriceUpdateCandidate {
+  matchScore: number;
+  /** The pair was already approved during a previous review. */
+  trustedMatch: boolean;
+  previousUnitPrice: number;
+  proposedUnitPrice: number;
+  previousConditioningQuantity?: number;
+  proposedConditioningQuantity?: number;
+  /** Percentage, same as AppSettings.priceAlertThreshold. */
+  priceAlertThreshold: number;
+}
+
+/** Why an invoice price update must be approved instead of applied. Empty means safe to apply. */
+export function getPriceReviewReasons(candidate: PriceUpdateCandidate): PriceReviewReason[] {
+  const reasons: PriceReviewReason[] = [];
+  if (!candidate.trustedMatch && candidate.matchScore < HIGH_CONFIDENCE_MATCH_SCORE) {
+    reasons.push('low_confidence');
+  }
+  if (candidate.previousUnitPrice > 0) {
+    const variation = (Math.abs(candidate.proposedUnitPrice - candidate.previousUnitPrice) / candidate.previousUnitPrice) * 100;
+    if (variation > candidate.priceAlertThreshold) reasons.push('price_jump');
+  }
+  if (
+    candidate.proposedConditioningQuantity !== undefined &&
+    candidate.proposedConditioningQuantity !== candidate.previousConditioningQuantity
+  ) {
+    reasons.push('conditioning_change');
+  }
+  return reasons;
+}
+
+export async function getPriceReviews(status: PriceReviewStatus = 'pending'): Promise<IngredientPriceReview[]> {
+  const reviews = await db.ingredientPriceReviews.where('status').equals(status).toArray();
+  return reviews.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
+
+export async function countPendingPriceReviews(): Promise<number> {
+  return db.ingredientPriceReviews.where('status').equals('pending').count();
+}
+
+/** Applies the proposed price, trains the supplier mapping and returns the recipe impact. */
+export async function approvePriceReview(
+  reviewId: string,
+  updateIngredient: IngredientUpdater,
+): Promise<RecipePriceImpact[]> {
+  const review = await db.ingredientPriceReviews.get(reviewId);
+  if (!review || review.status !== 'pending') return [];
+
+  const ingredientsBefore = await db.ingredients.toArray();
+  const ingredient = ingredientsBefore.find((entry) => entry.id === review.ingredientId);
+  let impact: RecipePriceImpact[] = [];
+  if (ingredient) {
+    const patch: Partial<Ingredient> = { unitPrice: review.proposedUnitPrice };
+    if (review.proposedConditioningQuantity) patch.conditioningQuantity = review.proposedConditioningQuantity;
+    if (!ingredient.supplierId && review.supplier) patch.supplierId = review.supplier;
+    await updateIngredient({ ...ingredient, ...patch });
+
+    const [recipes, links, settings] = await Promise.all([
+      db.recipes.toArray(),
+      db.recipeIngredients.toArray(),
+      db.settings.get('default'),
+    ]);
+    const ingredientsAfter = ingredientsBefore.map((entry) => (entry.id === ingredient.id ? { ...entry, ...patch } : entry));
+    impact = buildPriceImpactReport(recipes, links, ingredientsBefore, ingredientsAfter, settings);
+  }
+
+  await db.ingredientPriceReviews.update(review.id, { status: 'approved', resolvedAt: new Date() });
+  await trainIngredientMapping({
+    supplier: review.supplier,
+    label: review.designation,
+    ingredientId: review.ingredientId,
+    approved: true,
+  });
+  return impact;
+}
+
+/** Keeps the current price. The pair is remembered so the label is not matched to this ingredient again. */
+export async function rejectPriceReview(reviewId: string): Promise<void> {
+  const review = await db.ingredientPriceReviews.get(reviewId);
+  if (!review || review.status !== 'pending') return;
+
+  await db.ingredientPriceReviews.update(review.id, { status: 'rejected', resolvedAt: new Date() });
+  await trainIngredientMapping({
+    supplier: review.supplier,
+    label: review.designation,
+    ingredientId: review.ingredientId,
+    approved: false,
+  });
+}
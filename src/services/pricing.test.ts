@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { buildPriceOptions, roundMenuPriceDown, roundMenuPriceUp } from './pricing';
+
+describe('roundMenuPriceUp / roundMenuPriceDown', () => {
+  it('snaps to .50 and .90 endings', () => {
+    expect(roundMenuPriceUp(14.12, 'fifty_ninety')).toBe(14.5);
+    expect(roundMenuPriceUp(14.62, 'fifty_ninety')).toBe(14.9);
+    expect(roundMenuPriceUp(14.95, 'fifty_ninety')).toBe(15.5);
+    expect(roundMenuPriceDown(14.12, 'fifty_ninety')).toBe(13.9);
+    expect(roundMenuPriceDown(14.62, 'fifty_ninety')).toBe(14.5);
+  });
+
+  it('supports ten cents and whole euro rounding', () => {
+    expect(roundMenuPriceUp(12.34, 'ten_cents')).toBe(12.4);
+    expect(roundMenuPriceUp(12.34, 'whole')).toBe(13);
+    expect(roundMenuPriceDown(12.34, 'whole')).toBe(12);
+  });
+});
+
+describe('buildPriceOptions', () => {
+  it('derives TTC prices from the target food cost and reports margin impact', () => {
+    const options = buildPriceOptions(4, 0.3, 10, 'fifty_ninety', 12);
+    const [exact, up, down] = options;
+
+    expect(exact.priceHT).toBeCloseTo(13.33, 2);
+    expect(exact.priceTTC).toBeCloseTo(14.67, 2);
+    expect(exact.foodCostRate).toBeCloseTo(0.3, 5);
+    expect(up.priceTTC).toBe(14.9);
+    expect(up.foodCostRate).toBeLessThan(0.3);
+    expect(down.priceTTC).toBe(14.5);
+    expect(down.foodCostRate).toBeGreaterThan(0.3);
+    expect(up.marginDelta).toBeCloseTo(14.9 / 1.1 - 12, 5);
+  });
+
+  it('returns nothing without a cost', () => {
+    expect(buildPriceOptions(0, 0.3, 10, 'none')).toEqual([]);
+  });
+});
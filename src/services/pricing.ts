@@ -0,0 +1,103 @@
+import type { AppSettings, PriceRoundingRule } from '../types';
+
+/** Restauration sur place: 10% de TVA. */
+export const DEFAULT_MENU_VAT_RATE = 10;
+
+export const PRICE_ROUNDING_LABELS: Record<PriceRoundingRule, string> = {
+  none: 'Au centime',
+  ten_cents: 'Aux 10 centimes',
+  fifty_ninety: 'Terminaisons ,50 / ,90',
+  whole: "A l'euro",
+};
+
+export interface PriceOption {
+  label: string;
+  /** Per portion. */
+  priceHT: number;
+  priceTTC: number;
+  foodCostRate: number;
+  marginHT: number;
+  /** Margin difference with the current price, per portion. Undefined without a current price. */
+  marginDelta?: number;
+}
+
+export function getMenuVatRate(settings: Pick<AppSettings, 'menuVatRate'> | null | undefined): number {
+  const rate = settings?.menuVatRate;
+  return rate !== undefined && Number.isFinite(rate) && rate >= 0 && rate < 100 ? rate : DEFAULT_MENU_VAT_RATE;
+}
+
+function toCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Smallest price at or above `price` that respects the rounding rule (ex: 14.12 -> 14.50, 14.62 -> 14.90). */
+export function roundMenuPriceUp(price: number, rule: PriceRoundingRule): number {
+  if (!(price > 0)) return 0;
+  const cents = Math.round(price * 100);
+  if (rule === 'ten_cents') return Math.ceil(cents / 10) / 10;
+  if (rule === 'whole') return Math.ceil(cents / 100);
+  if (rule === 'fifty_ninety') {
+    const euros = Math.floor(cents / 100);
+    const rest = cents - euros * 100;
+    if (rest <= 50) return euros + 0.5;
+    if (rest <= 90) return euros + 0.9;
+    return euros + 1.5;
+  }
+  return cents / 100;
+}
+
+/** Largest price strictly below `price` that respects the rounding rule. */
+export function roundMenuPriceDown(price: number, rule: PriceRoundingRule): number {
+  if (!(price > 0)) return 0;
+  const cents = Math.round(price * 100) - 1;
+  if (rule === 'ten_cents') return Math.floor(cents / 10) / 10;
+  if (rule === 'whole') return Math.floor(cents / 100);
+  if (rule === 'fifty_ninety') {
+    const euros = Math.floor(cents / 100);
+    const rest = cents - euros * 100;
+    if (rest >= 90) return euros + 0.9;
+    if (rest >= 50) return euros + 0.5;
+    return Math.max(0, euros - 1 + 0.9);
+  }
+  return Math.max(0, cents / 100);
+}
+
+function buildOption(label: string, priceTTC: number, costPerPortion: number, vatRate: number, currentMargin?: number): PriceOption {
+  const priceHT = priceTTC / (1 + vatRate / 100);
+  const marginHT = priceHT - costPerPortion;
+  return {
+    label,
+    priceHT: toCents(priceHT),
+    priceTTC: toCents(priceTTC),
+    foodCostRate: priceHT > 0 ? costPerPortion / priceHT : 0,
+    marginHT,
+    marginDelta: currentMargin === undefined ? undefined : marginHT - currentMargin,
+  };
+}
+
+/**
+ * Menu prices for one portion: the exact price hitting the target food cost,
+ * then the rounded menu prices just above and just below it.
+ */
+export function buildPriceOptions(
+  costPerPortion: number,
+  targetFoodCostRate: number,
+  vatRate: number,
+  rule: PriceRoundingRule,
+  currentPriceHT?: number,
+): PriceOption[] {
+  if (!(costPerPortion > 0) || !(targetFoodCostRate > 0)) return [];
+  const currentMargin = currentPriceHT && currentPriceHT > 0 ? currentPriceHT - costPerPortion : undefined;
+  const exactTTC = (costPerPortion / targetFoodCostRate) * (1 + vatRate / 100);
+  const options = [buildOption('Prix cible exact', exactTTC, costPerPortion, vatRate, currentMargin)];
+
+  const roundedUp = roundMenuPriceUp(exactTTC, rule);
+  if (rule !== 'none' && roundedUp !== toCents(exactTTC)) {
+    options.push(buildOption('Arrondi superieur', roundedUp, costPerPortion, vatRate, currentMargin));
+  }
+  const roundedDown = roundMenuPriceDown(exactTTC, rule);
+  if (rule !== 'none' && roundedDown > 0) {
+    options.push(buildOption('Arrondi inferieur', roundedDown, costPerPortion, vatRate, currentMargin));
+  }
+  return options;
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateProcessLog, formatElapsedMinutes } from './processTemperature';
+import type { ProcessTemperatureLog } from '../types';
+
+const startedAt = new Date(2026, 9, 18, 12, 0);
+const minutesLater = (minutes: number) => new Date(startedAt.getTime() + minutes * 60 * 1000);
+
+const log = (overrides: Partial<ProcessTemperatureLog>): ProcessTemperatureLog => ({
+  id: 'p-1',
+  processType: 'cooling',
+  productName: 'Blanquette',
+  startedAt,
+  startTemperature: 65,
+  ...overrides,
+});
+
+describe('process temperature rules', () => {
+  it('accepts a cooling that reaches +10°C within two hours', () => {
+    const evaluation = evaluateProcessLog(log({ endedAt: minutesLater(110), endTemperature: 8 }));
+    expect(evaluation.status).toBe('compliant');
+    expect(evaluation.elapsedMinutes).toBe(110);
+  });
+
+  it('rejects a cooling that is too slow or not cold enough', () => {
+    const evaluation = evaluateProcessLog(log({ endedAt: minutesLater(150), endTemperature: 14 }));
+    expect(evaluation.status).toBe('non_compliant');
+    expect(evaluation.reasons).toHaveLength(2);
+  });
+
+  it('rejects a cooling started below +63°C', () => {
+    const evaluation = evaluateProcessLog(log({ startTemperature: 45, endedAt: minutesLater(60), endTemperature: 8 }));
+    expect(evaluation.status).toBe('non_compliant');
+    expect(evaluation.reasons).toEqual(['Sonde de depart sous 63°C']);
+    expect(evaluateProcessLog(log({ startTemperature: 45 }), minutesLater(10)).status).toBe('non_compliant');
+  });
+
+  it('flags an open cooling as overdue once the time limit has passed', () => {
+    expect(evaluateProcessLog(log({}), minutesLater(60)).status).toBe('in_progress');
+    expect(evaluateProcessLog(log({}), minutesLater(121)).status).toBe('overdue');
+  });
+
+  it('requires both hot-holding probes at +63°C or above', () => {
+    expect(
+      evaluateProcessLog(log({ processType: 'hot_holding', endedAt: minutesLater(240), endTemperature: 66 })).status,
+    ).toBe('compliant');
+    expect(
+      evaluateProcessLog(log({ processType: 'hot_holding', endedAt: minutesLater(240), endTemperature: 58 })).status,
+    ).toBe('non_compliant');
+    expect(evaluateProcessLog(log({ processType: 'hot_holding', startTemperature: 55 }), minutesLater(5)).status).toBe(
+      'non_compliant',
+    );
+  });
+
+  it('requires reheating to reach +63°C within one hour', () => {
+    const base = { processType: 'reheating' as const, startTemperature: 4 };
+    expect(evaluateProcessLog(log({ ...base, endedAt: minutesLater(45), endTemperature: 72 })).status).toBe('compliant');
+    expect(evaluateProcessLog(log({ ...base, endedAt: minutesLater(75), endTemperature: 72 })).status).toBe(
+      'non_compliant',
+    );
+  });
+
+  it('formats durations', () => {
+    expect(formatElapsedMinutes(45)).toBe('45 min');
+    expect(formatElapsedMinutes(125)).toBe('2h05');
+    expect(formatElapsedMinutes(120)).toBe('2h');
+  });
+});
@@ -0,0 +1,81 @@
+import type { ProcessTemperatureLog, ProcessTemperatureType } from '../types';
+
+export type ProcessLogStatus = 'in_progress' | 'overdue' | 'compliant' | 'non_compliant';
+
+export interface ProcessRule {
+  /** Short rule shown next to the process name (UI + PDF). */
+  summary: string;
+  /** Hot-holding floor: both probes must stay at or above this temperature. */
+  minTemperature?: number;
+  /** Cooling start: below this temperature the cooling time limit means nothing. */
+  minStartTemperature?: number;
+  /** Cooling target: the end probe must be at or below this temperature. */
+  maxEndTemperature?: number;
+  /** Reheating target: the end probe must reach at least this temperature. */
+  minEndTemperature?: number;
+  maxDurationMinutes?: number;
+}
+
+export interface ProcessEvaluation {
+  status: ProcessLogStatus;
+  elapsedMinutes: number;
+  reasons: string[];
+}
+
+export const PROCESS_RULES: Record<ProcessTemperatureType, ProcessRule> = {
+  cooling: {
+    summary: '+63°C a +10°C en moins de 2h',
+    minStartTemperature: 63,
+    maxEndTemperature: 10,
+    maxDurationMinutes: 120,
+  },
+  hot_holding: { summary: 'Maintien a +63°C minimum', minTemperature: 63 },
+  reheating: { summary: '+63°C a coeur en moins de 1h', minEndTemperature: 63, maxDurationMinutes: 60 },
+};
+
+export function getProcessElapsedMinutes(log: ProcessTemperatureLog, now = new Date()): number {
+  const end = log.endedAt ? new Date(log.endedAt) : now;
+  return Math.max(0, Math.round((end.getTime() - new Date(log.startedAt).getTime()) / 60000));
+}
+
+export function formatElapsedMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours}h${String(rest).padStart(2, '0')}` : `${hours}h`;
+}
+
+export function evaluateProcessLog(log: ProcessTemperatureLog, now = new Date()): ProcessEvaluation {
+  const rule = PROCESS_RULES[log.processType];
+  const elapsedMinutes = getProcessElapsedMinutes(log, now);
+  const reasons: string[] = [];
+
+  if (rule.minTemperature !== undefined && log.startTemperature < rule.minTemperature) {
+    reasons.push(`Sonde de depart sous ${rule.minTemperature}°C`);
+  }
+  const startTooCold = rule.minStartTemperature !== undefined && log.startTemperature < rule.minStartTemperature;
+  if (startTooCold) {
+    reasons.push(`Sonde de depart sous ${rule.minStartTemperature}°C`);
+  }
+  if (rule.maxDurationMinutes !== undefined && elapsedMinutes > rule.maxDurationMinutes) {
+    reasons.push(`Duree superieure a ${formatElapsedMinutes(rule.maxDurationMinutes)}`);
+  }
+
+  if (log.endTemperature === undefined || !log.endedAt) {
+    if (reasons.length === 0) return { status: 'in_progress', elapsedMinutes, reasons };
+    const failed = rule.minTemperature !== undefined || startTooCold;
+    return { status: failed ? 'non_compliant' : 'overdue', elapsedMinutes, reasons };
+  }
+
+  if (rule.minTemperature !== undefined && log.endTemperature < rule.minTemperature) {
+    reasons.push(`Sonde de fin sous ${rule.minTemperature}°C`);
+  }
+  if (rule.maxEndTemperature !== undefined && log.endTemperature > rule.maxEndTemperature) {
+    reasons.push(`Sonde de fin au-dessus de ${rule.maxEndTemperature}°C`);
+  }
+  if (rule.minEndTemperature !== undefined && log.endTemperature < rule.minEndTemperature) {
+    reasons.push(`Sonde de fin sous ${rule.minEndTemperature}°C`);
+  }
+
+  return { status: reasons.length === 0 ? 'compliant' : 'non_compliant', elapsedMinutes, reasons };
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildMailtoLink,
+  buildPurchaseOrderText,
+  buildWhatsAppLink,
+  normalizeWhatsAppPhone,
+  recordOrderSend,
+} from './purchaseOrder';
+import type { Order, Supplier } from '../types';
+
+const order: Order = {
+  id: 'order-1',
+  orderNumber: 'CMD-2026-014',
+  supplier: 'Metro',
+  status: 'draft',
+  items: [
+    { id: 'a', productName: 'Beurre doux', quantity: 10, unit: 'kg', unitPriceHT: 8.5, notes: 'Colis de 5 kg' },
+    { id: 'b', productName: 'Creme 35%', quantity: 1.5, unit: 'l' },
+    { id: 'c', productName: '  ', quantity: 1, unit: 'unite' },
+  ],
+  orderDate: new Date(2026, 9, 19),
+  expectedDeliveryDate: new Date(2026, 9, 20),
+  totalHT: 85,
+  createdAt: new Date(2026, 9, 19),
+  updatedAt: new Date(2026, 9, 19),
+};
+
+const supplier: Supplier = {
+  id: 'metro',
+  name: 'Metro',
+  customerAccountNumber: 'C-4521',
+  deliveryDays: [],
+  createdAt: new Date(2026, 0, 1),
+  updatedAt: new Date(2026, 0, 1),
+};
+
+describe('purchase order', () => {
+  it('builds a plain-text order with header, delivery date and lines', () => {
+    const text = buildPurchaseOrderText(order, { establishmentName: 'Chez Paul', supplier });
+    expect(text).toContain('Commande CMD-2026-014 - Chez Paul');
+    expect(text).toContain('Compte client : C-4521');
+    expect(text).toContain('Livraison souhaitee : 20/10/2026');
+    expect(text).toContain('- 10 kg Beurre doux (Colis de 5 kg)');
+    expect(text).toContain('- 1,5 l Creme 35%');
+    expect(text).toContain('Total estime : 85,00 EUR HT');
+    expect(text.split('\n').filter((line) => line.startsWith('- '))).toHaveLength(2);
+  });
+
+  it('encodes mailto and WhatsApp payloads', () => {
+    expect(buildMailtoLink('commandes@metro.fr', 'Bon de commande', 'Ligne 1\nLigne 2')).toBe(
+      'mailto:commandes@metro.fr?subject=Bon%20de%20commande&body=Ligne%201%0ALigne%202',
+    );
+    expect(normalizeWhatsAppPhone('06 12 34 56 78')).toBe('33612345678');
+    expect(normalizeWhatsAppPhone('+33 6 12 34 56 78')).toBe('33612345678');
+    expect(buildWhatsAppLink('Bonjour', '0612345678')).toBe('https://wa.me/33612345678?text=Bonjour');
+  });
+
+  it('logs each send and moves a draft to sent once', () => {
+    const first = recordOrderSend(order, 'email', 'commandes@metro.fr', new Date(2026, 9, 19, 10));
+    expect(first.status).toBe('sent');
+    const second = recordOrderSend(first, 'whatsapp', undefined, new Date(2026, 9, 19, 11));
+    expect(second.status).toBe('sent');
+    expect(second.sendLog?.map((entry) => entry.channel)).toEqual(['email', 'whatsapp']);
+    expect(second.sendLog?.[0].recipient).toBe('commandes@metro.fr');
+  });
+});
@@ -0,0 +1,81 @@
+import { format } from 'date-fns';
+import type { Order, OrderItem, OrderSendChannel, Supplier } from '../types';
+import { canTransitionStatus } from './orderHelpers';
+
+export interface PurchaseOrderContext {
+  establishmentName: string;
+  /** Directory entry of the order supplier, for the customer account and contacts. */
+  supplier?: Supplier;
+}
+
+function formatQuantity(value: number): string {
+  return String(Math.round(value * 1000) / 1000).replace('.', ',');
+}
+
+function formatLine(item: OrderItem): string {
+  const notes = item.notes?.trim() ? ` (${item.notes.trim()})` : '';
+  return `- ${formatQuantity(item.quantity)} ${item.unit} ${item.productName.trim()}${notes}`;
+}
+
+export function getPurchaseOrderFilename(order: Order): string {
+  return `bon_de_commande_${order.orderNumber}.pdf`;
+}
+
+export function getPurchaseOrderSubject(order: Order, context: PurchaseOrderContext): string {
+  return `Bon de commande ${order.orderNumber} - ${context.establishmentName || 'Mon etablissement'}`;
+}
+
+/**
+ * Plain-text purchase order, short enough for WhatsApp or SMS. Prices stay
+ * out of it: the supplier applies its own tariff, only the total is a hint.
+ */
+export function buildPurchaseOrderText(order: Order, context: PurchaseOrderContext): string {
+  const establishment = context.establishmentName || 'Mon etablissement';
+  const lines = ['Bonjour,', '', `Commande ${order.orderNumber} - ${establishment}`];
+  if (context.supplier?.customerAccountNumber) lines.push(`Compte client : ${context.supplier.customerAccountNumber}`);
+  if (order.expectedDeliveryDate) {
+    lines.push(`Livraison souhaitee : ${format(new Date(order.expectedDeliveryDate), 'dd/MM/yyyy')}`);
+  }
+  lines.push('');
+  lines.push(...order.items.filter((item) => item.productName.trim().length > 0).map(formatLine));
+  if (order.totalHT > 0) {
+    lines.push('', `Total estime : ${order.totalHT.toFixed(2).replace('.', ',')} EUR HT`);
+  }
+  lines.push('', 'Merci de confirmer la commande.', establishment);
+  return lines.join('\n');
+}
+
+export function buildMailtoLink(email: string | undefined, subject: string, body: string): string {
+  const params = `subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+  return `mailto:${email?.trim() ?? ''}?${params}`;
+}
+
+/** wa.me needs the number in international format without '+': French 06... becomes 336... */
+export function normalizeWhatsAppPhone(phone: string): string {
+  const digits = phone.replace(/[^\d+]/g, '');
+  if (digits.startsWith('+')) return digits.slice(1);
+  if (digits.startsWith('00')) return digits.slice(2);
+  if (/^0\d{9}$/.test(digits)) return `33${digits.slice(1)}`;
+  return digits;
+}
+
+export function buildWhatsAppLink(text: string, phone?: string): string {
+  const number = phone ? normalizeWhatsAppPhone(phone) : '';
+  return `https://wa.me/${number}?text=${encodeURIComponent(text)}`;
+}
+
+/** Logs one send; a draft goes to `sent` on its first send. */
+export function recordOrderSend(
+  order: Order,
+  channel: OrderSendChannel,
+  recipient?: string,
+  now: Date = new Date(),
+): Order {
+  const status = canTransitionStatus(order.status, 'sent') ? 'sent' : order.status;
+  return {
+    ...order,
+    status,
+    sendLog: [...(order.sendLog ?? []), { sentAt: now, channel, recipient: recipient?.trim() || undefined }],
+    updatedAt: now,
+  };
+}
@@ -1,4 +1,4 @@
-import type { RecipeUnit } from '../types';
+import type { RecipeStep, RecipeUnit } from '../types';
 import { blobToBase64, sanitize } from '../utils';
 import { getApiKey } from './ocr';
 
@@ -51,6 +51,23 @@ function parseIngredientsList(parsed: Record<string, unknown>): GeneratedRecipeI
     .slice(0, 20);
 }
 
+function parseStepsList(parsed: Record<string, unknown>): GeneratedRecipeStep[] {
+  const raw = Array.isArray(parsed.steps) ? (parsed.steps as unknown[]) : [];
+  return raw
+    .map((step) => {
+      const entry = typeof step === 'string' ? { instruction: step } : (step as Record<string, unknown>) ?? {};
+      const duration = Number(entry.durationMinutes);
+      const temperature = Number(entry.temperatureCelsius);
+      return {
+        instruction: sanitize(String(entry.instruction || '').trim()),
+        durationMinutes: Number.isFinite(duration) && duration > 0 ? Math.round(duration) : undefined,
+        temperatureCelsius: Number.isFinite(temperature) && temperature !== 0 ? Math.round(temperature) : undefined,
+      };
+    })
+    .filter((step) => step.instruction.length > 0)
+    .slice(0, 30);
+}
+
 export interface GeneratedRecipeIngredient {
   name: string;
   quantity: number;
@@ -62,8 +79,11 @@ export interface GeneratedRecipeTemplate {
   portions: number;
   salePriceHT: number;
   ingredients: GeneratedRecipeIngredient[];
+  steps?: GeneratedRecipeStep[];
 }
 
+export type GeneratedRecipeStep = Omit<RecipeStep, 'id'>;
+
 export interface RecipeAiCatalogIngredient {
   name: string;
   unit: RecipeUnit;
@@ -246,6 +266,9 @@ Reponds UNIQUEMENT avec un JSON valide (pas de markdown):
   "salePriceHT": 0,
   "ingredients": [
     { "name": "Nom ingredient", "quantity": 1, "unit": "kg|g|l|ml|unite" }
+  ],
+  "steps": [
+    { "instruction": "Action a realiser", "durationMinutes": 0, "temperatureCelsius": 0 }
   ]
 }
 
@@ -255,6 +278,7 @@ Regles:
 - Convertis les quantites informelles: "1 pincee" -> 2g, "1 c.a.s" -> 15ml, "1 c.a.c" -> 5ml, "1 verre" -> 200ml
 - Si le texte dit "pour X personnes/portions/litres", utilise ca pour portions.
 - Si tu reconnais un prix de vente potentiel, renseigne salePriceHT sinon 0.
+- Decoupe la methode en etapes courtes dans l'ordre. durationMinutes et temperatureCelsius seulement si le texte les donne, sinon 0.
 - unit strictement parmi: kg,g,l,ml,unite`;
 
   try {
@@ -268,6 +292,7 @@ Regles:
       portions: Math.max(1, Math.round(Number(parsed.portions) || 1)),
       salePriceHT: Math.max(0, Number(parsed.salePriceHT) || 0),
       ingredients,
+      steps: parseStepsList(parsed),
     };
   } catch {
     return { title: trimmed.slice(0, 50), portions: 1, salePriceHT: 0, ingredients: [] };
@@ -307,6 +332,9 @@ Reponds UNIQUEMENT avec un JSON valide (pas de markdown):
   "salePriceHT": 0,
   "ingredients": [
     { "name": "Nom ingredient", "quantity": 1, "unit": "kg|g|l|ml|unite" }
+  ],
+  "steps": [
+    { "instruction": "Action a realiser", "durationMinutes": 0, "temperatureCelsius": 0 }
   ]
 }
 
@@ -314,6 +342,7 @@ Regles:
 - Lis le texte de la photo et extrais TOUS les ingredients avec leurs quantites.
 - Convertis les quantites informelles en unites standard.
 - Deduis le titre de la recette.
+- Si la methode est visible, decoupe-la en etapes dans l'ordre avec durationMinutes et temperatureCelsius quand ils sont lisibles, sinon 0.
 - unit strictement parmi: kg,g,l,ml,unite`;
 
   try {
@@ -330,6 +359,7 @@ Regles:
       portions: Math.max(1, Math.round(Number(parsed.portions) || 1)),
       salePriceHT: Math.max(0, Number(parsed.salePriceHT) || 0),
       ingredients,
+      steps: parseStepsList(parsed),
     };
   } catch {
     return { title: 'Recette photo', portions: 1, salePriceHT: 0, ingredients: [] };
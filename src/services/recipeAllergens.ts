@@ -1,3 +1,4 @@
+import type { SubRecipeContext } from './recipeCost';
 import type { Ingredient } from '../types';
 
 const ALLERGEN_KEYWORDS: Record<string, string[]> = {
@@ -38,18 +39,43 @@ export function detectAllergensFromIngredientName(name: string): string[] {
   return detected;
 }
 
+/**
+ * Allergens detected from ingredient names. Sub-recipes propagate theirs recursively:
+ * the allergens declared on the sub-recipe plus those detected in its own lines.
+ */
 export function computeAutoRecipeAllergens(
   ingredientIds: string[],
   ingredientMap: Map<string, Ingredient>,
+  subRecipeIds: string[] = [],
+  context?: SubRecipeContext,
 ): string[] {
   const dedup = new Set<string>();
-  for (const ingredientId of ingredientIds) {
-    const ingredient = ingredientMap.get(ingredientId);
-    if (!ingredient) continue;
-    for (const allergen of detectAllergensFromIngredientName(ingredient.name)) {
-      dedup.add(allergen);
+  const visited = new Set<string>();
+
+  const collect = (ids: string[], subIds: string[]) => {
+    for (const ingredientId of ids) {
+      const ingredient = ingredientMap.get(ingredientId);
+      if (!ingredient) continue;
+      for (const allergen of detectAllergensFromIngredientName(ingredient.name)) {
+        dedup.add(allergen);
+      }
     }
-  }
+    for (const subRecipeId of subIds) {
+      // Visiting each sub-recipe once also stops cycles.
+      if (visited.has(subRecipeId)) continue;
+      visited.add(subRecipeId);
+      const subRecipe = context?.recipeMap.get(subRecipeId);
+      if (!subRecipe) continue;
+      for (const allergen of subRecipe.allergens ?? []) dedup.add(allergen);
+      const lines = context?.linesByRecipe.get(subRecipeId) ?? [];
+      collect(
+        lines.map((line) => line.ingredientId).filter(Boolean),
+        lines.map((line) => line.subRecipeId ?? '').filter(Boolean),
+      );
+    }
+  };
+
+  collect(ingredientIds, subRecipeIds);
   return Array.from(dedup).sort((a, b) => a.localeCompare(b, 'fr'));
 }
 
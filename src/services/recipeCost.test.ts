@@ -1,6 +1,29 @@
 import { describe, expect, it } from 'vitest';
-import { computeRecipeCostFromLines } from './recipeCost';
-import type { Ingredient } from '../types';
+import {
+  buildSubRecipeContext,
+  computeRecipeConsumption,
+  computeRecipeCostFromLines,
+  convertQuantity,
+  dependsOnRecipe,
+  getFoodCostWarningLevel,
+  getTargetFoodCostRate,
+} from './recipeCost';
+import { computeAutoRecipeAllergens } from './recipeAllergens';
+import type { Ingredient, Recipe, RecipeIngredient } from '../types';
+
+const butter: Ingredient = { id: 'butter', name: 'Beurre doux', unit: 'kg', unitPrice: 10 };
+const shallot: Ingredient = { id: 'shallot', name: 'Echalote', unit: 'kg', unitPrice: 4 };
+
+function makeRecipe(overrides: Partial<Recipe>): Recipe {
+  return {
+    id: 'recipe',
+    title: 'Recette',
+    portions: 1,
+    createdAt: new Date(2026, 0, 1),
+    updatedAt: new Date(2026, 0, 1),
+    ...overrides,
+  };
+}
 
 describe('recipeCost', () => {
   it('converts grams to kilograms when ingredient is priced per kg', () => {
@@ -61,4 +84,106 @@ describe('recipeCost', () => {
     expect(summary.foodCostRate).toBe(0);
     expect(summary.warningLevel).toBe('ok');
   });
+
+  it('cascades sub-recipe costs through their yield', () => {
+    const sauce = makeRecipe({ id: 'sauce', title: 'Beurre blanc', yieldQuantity: 2, yieldUnit: 'l' });
+    const fish = makeRecipe({ id: 'fish', title: 'Bar beurre blanc', portions: 4 });
+    const lines: RecipeIngredient[] = [
+      { id: 'l1', recipeId: 'sauce', ingredientId: 'butter', requiredQuantity: 1, requiredUnit: 'kg' },
+      { id: 'l2', recipeId: 'sauce', ingredientId: 'shallot', requiredQuantity: 500, requiredUnit: 'g' },
+      { id: 'l3', recipeId: 'fish', ingredientId: '', subRecipeId: 'sauce', requiredQuantity: 400, requiredUnit: 'ml' },
+    ];
+    const context = buildSubRecipeContext([sauce, fish], lines);
+    const map = new Map([butter, shallot].map((ingredient) => [ingredient.id, ingredient]));
+
+    const summary = computeRecipeCostFromLines(context.linesByRecipe.get('fish')!, map, 20, context, 'fish');
+
+    // 12 EUR for 2 l of sauce, 0.4 l used.
+    expect(summary.totalCost).toBeCloseTo(2.4, 5);
+    expect(summary.foodCostRate).toBeCloseTo(0.12, 5);
+  });
+
+  it('ignores sub-recipe cycles instead of recursing forever', () => {
+    const a = makeRecipe({ id: 'a' });
+    const b = makeRecipe({ id: 'b' });
+    const lines: RecipeIngredient[] = [
+      { id: 'l1', recipeId: 'a', ingredientId: 'butter', requiredQuantity: 1, requiredUnit: 'kg' },
+      { id: 'l2', recipeId: 'a', ingredientId: '', subRecipeId: 'b', requiredQuantity: 1, requiredUnit: 'unite' },
+      { id: 'l3', recipeId: 'b', ingredientId: '', subRecipeId: 'a', requiredQuantity: 1, requiredUnit: 'unite' },
+      { id: 'l4', recipeId: 'b', ingredientId: 'shallot', requiredQuantity: 1, requiredUnit: 'kg' },
+    ];
+    const context = buildSubRecipeContext([a, b], lines);
+    const map = new Map([butter, shallot].map((ingredient) => [ingredient.id, ingredient]));
+
+    expect(dependsOnRecipe('b', 'a', context.linesByRecipe)).toBe(true);
+    expect(computeRecipeCostFromLines(context.linesByRecipe.get('a')!, map, undefined, context, 'a').totalCost).toBe(14);
+  });
+
+  it('propagates allergens from nested sub-recipes', () => {
+    const pastry = makeRecipe({ id: 'pastry', title: 'Pate sucree', allergens: ['Oeufs'] });
+    const tart = makeRecipe({ id: 'tart', title: 'Tarte' });
+    const lines: RecipeIngredient[] = [
+      { id: 'l1', recipeId: 'pastry', ingredientId: 'butter', requiredQuantity: 1, requiredUnit: 'kg' },
+      { id: 'l2', recipeId: 'tart', ingredientId: '', subRecipeId: 'pastry', requiredQuantity: 1, requiredUnit: 'unite' },
+    ];
+    const context = buildSubRecipeContext([pastry, tart], lines);
+
+    expect(computeAutoRecipeAllergens([], new Map([[butter.id, butter]]), ['pastry'], context)).toEqual(['Lait', 'Oeufs']);
+  });
+
+  it('divides by the usable yield, the line override winning over the ingredient', () => {
+    const seaBass: Ingredient = { id: 'bass', name: 'Bar entier', unit: 'kg', unitPrice: 20, usableYieldPercent: 40 };
+    const map = new Map([[seaBass.id, seaBass]]);
+
+    const [entry] = computeRecipeConsumption(
+      [{ ingredientId: 'bass', requiredQuantity: 200, requiredUnit: 'g' }],
+      map,
+    );
+    expect(entry.netQuantity).toBeCloseTo(0.2, 5);
+    expect(entry.quantity).toBeCloseTo(0.5, 5);
+    expect(entry.cost).toBeCloseTo(10, 5);
+    expect(entry.yieldLossCost).toBeCloseTo(6, 5);
+
+    const override = computeRecipeCostFromLines(
+      [{ ingredientId: 'bass', requiredQuantity: 200, requiredUnit: 'g', usableYieldPercent: 80 }],
+      map,
+    );
+    expect(override.totalCost).toBeCloseTo(5, 5);
+  });
+
+  it('converts pieces and volumes through piece weight and density', () => {
+    expect(convertQuantity(3, 'unite', 'kg', { pieceWeightGrams: 60 })).toBeCloseTo(0.18, 5);
+    expect(convertQuantity(500, 'ml', 'kg', { densityGramsPerMl: 0.92 })).toBeCloseTo(0.46, 5);
+    expect(convertQuantity(1, 'kg', 'l', { densityGramsPerMl: 0.92 })).toBeCloseTo(1.08696, 4);
+    expect(convertQuantity(3, 'unite', 'kg')).toBeNull();
+  });
+
+  it('flags lines whose unit cannot be converted instead of dropping them silently', () => {
+    const egg: Ingredient = { id: 'egg', name: 'Oeuf', unit: 'kg', unitPrice: 5 };
+    const oil: Ingredient = { id: 'oil', name: 'Huile olive', unit: 'l', unitPrice: 10, densityGramsPerMl: 0.9 };
+    const map = new Map([egg, oil].map((ingredient) => [ingredient.id, ingredient]));
+
+    const summary = computeRecipeCostFromLines(
+      [
+        { ingredientId: 'egg', requiredQuantity: 2, requiredUnit: 'unite' },
+        { ingredientId: 'oil', requiredQuantity: 90, requiredUnit: 'g' },
+      ],
+      map,
+    );
+
+    expect(summary.totalCost).toBeCloseTo(1, 5);
+    expect(summary.unconvertibleLines).toEqual(['Oeuf']);
+  });
+});
+
+describe('getTargetFoodCostRate', () => {
+  it('prefers the category target, then the global one', () => {
+    const settings = { targetFoodCostRate: 0.28, categoryFoodCostTargets: { Desserts: 0.22 } };
+
+    expect(getTargetFoodCostRate(settings, 'desserts')).toBe(0.22);
+    expect(getTargetFoodCostRate(settings, 'Plats')).toBe(0.28);
+    expect(getTargetFoodCostRate(null)).toBe(0.3);
+    expect(getFoodCostWarningLevel(0.25, 0.22)).toBe('danger');
+    expect(getFoodCostWarningLevel(0.2, 0.22)).toBe('warning');
+  });
 });
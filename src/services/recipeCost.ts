@@ -1,10 +1,58 @@
 import { db } from './db';
-import type { Ingredient, RecipeCostSummary, RecipeUnit } from '../types';
+import type { AppSettings, Ingredient, Recipe, RecipeCostSummary, RecipeIngredient, RecipeUnit } from '../types';
 
 export interface RecipeCostInputLine {
   ingredientId: string;
+  /** Set when the line uses another recipe (fond, sauce, pate) instead of a purchased ingredient. */
+  subRecipeId?: string;
   requiredQuantity: number;
   requiredUnit: RecipeUnit;
+  usableYieldPercent?: number;
+}
+
+/** All recipes with their lines, needed to cost sub-recipe lines recursively. */
+export interface SubRecipeContext {
+  recipeMap: Map<string, Recipe>;
+  linesByRecipe: Map<string, RecipeCostInputLine[]>;
+}
+
+export interface IngredientConsumption {
+  ingredient: Ingredient;
+  /** Raw (purchased) quantity in the ingredient unit, sub-recipes expanded. */
+  quantity: number;
+  /** Usable quantity actually in the dish, before trim loss. */
+  netQuantity: number;
+  cost: number;
+  /** Part of the cost paid for trimmings: cost minus the cost of the net quantity. */
+  yieldLossCost: number;
+}
+
+/** Target food cost when none is configured in the settings. */
+export const DEFAULT_TARGET_FOOD_COST_RATE = 0.3;
+
+/** Category target when set, then the global one, then the default. */
+export function getTargetFoodCostRate(
+  settings: Pick<AppSettings, 'targetFoodCostRate' | 'categoryFoodCostTargets'> | null | undefined,
+  category?: string,
+): number {
+  const categoryKey = category?.trim().toLowerCase();
+  const categoryTarget = categoryKey
+    ? Object.entries(settings?.categoryFoodCostTargets ?? {}).find(([key]) => key.trim().toLowerCase() === categoryKey)?.[1]
+    : undefined;
+  for (const candidate of [categoryTarget, settings?.targetFoodCostRate]) {
+    if (candidate !== undefined && Number.isFinite(candidate) && candidate > 0 && candidate < 1) return candidate;
+  }
+  return DEFAULT_TARGET_FOOD_COST_RATE;
+}
+
+/** Above the target is 'danger', within 5 points below it is 'warning'. */
+export function getFoodCostWarningLevel(
+  foodCostRate: number,
+  targetFoodCostRate = DEFAULT_TARGET_FOOD_COST_RATE,
+): RecipeCostSummary['warningLevel'] {
+  if (foodCostRate > targetFoodCostRate) return 'danger';
+  if (foodCostRate > targetFoodCostRate - 0.05) return 'warning';
+  return 'ok';
 }
 
 function normalizeUnit(unit: RecipeUnit): RecipeUnit {
@@ -18,7 +66,45 @@ export function getEffectiveUnitPrice(ingredient: Ingredient): number {
   return ingredient.unitPrice;
 }
 
-function convertQuantity(value: number, fromUnit: RecipeUnit, toUnit: RecipeUnit): number | null {
+/** Usable share (0-1] of the purchased quantity. The line override wins over the ingredient. */
+export function getUsableYieldRate(ingredient: Ingredient, lineYieldPercent?: number): number {
+  const percent = lineYieldPercent && lineYieldPercent > 0 ? lineYieldPercent : ingredient.usableYieldPercent;
+  if (!percent || !Number.isFinite(percent) || percent <= 0 || percent >= 100) return 1;
+  return percent / 100;
+}
+
+/** Per-ingredient factors bridging pieces, weights and volumes. */
+export interface UnitConversionFactors {
+  pieceWeightGrams?: number;
+  densityGramsPerMl?: number;
+}
+
+function toGrams(value: number, unit: RecipeUnit, factors: UnitConversionFactors): number | null {
+  const density = factors.densityGramsPerMl && factors.densityGramsPerMl > 0 ? factors.densityGramsPerMl : null;
+  const pieceWeight = factors.pieceWeightGrams && factors.pieceWeightGrams > 0 ? factors.pieceWeightGrams : null;
+  if (unit === 'g') return value;
+  if (unit === 'kg') return value * 1000;
+  if (unit === 'ml') return density ? value * density : null;
+  if (unit === 'l') return density ? value * 1000 * density : null;
+  if (unit === 'unite') return pieceWeight ? value * pieceWeight : null;
+  return null;
+}
+
+function fromGrams(grams: number, unit: RecipeUnit, factors: UnitConversionFactors): number | null {
+  const unitInGrams = toGrams(1, unit, factors);
+  return unitInGrams ? grams / unitInGrams : null;
+}
+
+/**
+ * Same-dimension conversions always work. Crossing pieces, weights and volumes
+ * goes through grams and needs the ingredient piece weight and/or density.
+ */
+export function convertQuantity(
+  value: number,
+  fromUnit: RecipeUnit,
+  toUnit: RecipeUnit,
+  factors?: UnitConversionFactors,
+): number | null {
   const from = normalizeUnit(fromUnit);
   const to = normalizeUnit(toUnit);
   if (from === to) return value;
@@ -28,24 +114,151 @@ function convertQuantity(value: number, fromUnit: RecipeUnit, toUnit: RecipeUnit
   if (from === 'ml' && to === 'l') return value / 1000;
   if (from === 'l' && to === 'ml') return value * 1000;
 
-  return null;
+  if (!factors) return null;
+  const grams = toGrams(value, from, factors);
+  return grams === null ? null : fromGrams(grams, to, factors);
 }
 
-export function computeRecipeCostFromLines(
+export function buildSubRecipeContext(recipes: Recipe[], lines: RecipeIngredient[]): SubRecipeContext {
+  const linesByRecipe = new Map<string, RecipeCostInputLine[]>();
+  for (const line of lines) {
+    const recipeLines = linesByRecipe.get(line.recipeId);
+    if (recipeLines) recipeLines.push(line);
+    else linesByRecipe.set(line.recipeId, [line]);
+  }
+  return { recipeMap: new Map(recipes.map((recipe) => [recipe.id, recipe])), linesByRecipe };
+}
+
+/** Quantity produced by the whole recipe. Without an explicit yield, one unit = one portion. */
+export function getRecipeYield(recipe: Recipe): { quantity: number; unit: RecipeUnit } {
+  if (recipe.yieldQuantity && recipe.yieldQuantity > 0 && recipe.yieldUnit) {
+    return { quantity: recipe.yieldQuantity, unit: recipe.yieldUnit };
+  }
+  return { quantity: Math.max(1, recipe.portions), unit: 'unite' };
+}
+
+/** True when `candidateId` is `recipeId` or uses it somewhere down its sub-recipe tree. */
+export function dependsOnRecipe(
+  candidateId: string,
+  recipeId: string,
+  linesByRecipe: Map<string, RecipeCostInputLine[]>,
+): boolean {
+  const visited = new Set<string>();
+  const stack = [candidateId];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === recipeId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    for (const line of linesByRecipe.get(current) ?? []) {
+      if (line.subRecipeId) stack.push(line.subRecipeId);
+    }
+  }
+  return false;
+}
+
+interface ConsumptionWalk {
+  consumption: Map<string, IngredientConsumption>;
+  /** Names of the lines left out because their unit cannot be converted. */
+  unconvertible: Set<string>;
+}
+
+function collectConsumption(
   lines: RecipeCostInputLine[],
   ingredientMap: Map<string, Ingredient>,
-  salePriceHT?: number,
-): RecipeCostSummary {
-  const totalCost = lines.reduce((sum, line) => {
+  context: SubRecipeContext | undefined,
+  factor: number,
+  path: Set<string>,
+  walk: ConsumptionWalk,
+): void {
+  for (const line of lines) {
+    if (line.subRecipeId) {
+      const subRecipe = context?.recipeMap.get(line.subRecipeId);
+      // A recipe already on the current path means a cycle: the line is ignored.
+      if (!context || !subRecipe || path.has(subRecipe.id)) continue;
+      const recipeYield = getRecipeYield(subRecipe);
+      const convertedQty = convertQuantity(line.requiredQuantity, line.requiredUnit, recipeYield.unit);
+      if (convertedQty === null) {
+        walk.unconvertible.add(subRecipe.title);
+        continue;
+      }
+      if (!Number.isFinite(convertedQty) || convertedQty < 0) continue;
+      path.add(subRecipe.id);
+      collectConsumption(
+        context.linesByRecipe.get(subRecipe.id) ?? [],
+        ingredientMap,
+        context,
+        (factor * convertedQty) / recipeYield.quantity,
+        path,
+        walk,
+      );
+      path.delete(subRecipe.id);
+      continue;
+    }
+
     const ingredient = ingredientMap.get(line.ingredientId);
-    if (!ingredient) return sum;
+    if (!ingredient) continue;
+
+    const convertedQty = convertQuantity(line.requiredQuantity, line.requiredUnit, ingredient.unit, ingredient);
+    if (convertedQty === null) {
+      walk.unconvertible.add(ingredient.name);
+      continue;
+    }
+    if (!Number.isFinite(convertedQty) || convertedQty < 0) continue;
+
+    const unitPrice = getEffectiveUnitPrice(ingredient);
+    const netQuantity = convertedQty * factor;
+    const quantity = netQuantity / getUsableYieldRate(ingredient, line.usableYieldPercent);
+    const cost = quantity * unitPrice;
+    const yieldLossCost = cost - netQuantity * unitPrice;
+    const existing = walk.consumption.get(ingredient.id);
+    if (existing) {
+      existing.quantity += quantity;
+      existing.netQuantity += netQuantity;
+      existing.cost += cost;
+      existing.yieldLossCost += yieldLossCost;
+    } else {
+      walk.consumption.set(ingredient.id, { ingredient, quantity, netQuantity, cost, yieldLossCost });
+    }
+  }
+}
 
-    const convertedQty = convertQuantity(line.requiredQuantity, line.requiredUnit, ingredient.unit);
-    if (convertedQty === null) return sum;
-    if (!Number.isFinite(convertedQty) || convertedQty < 0) return sum;
+/**
+ * Purchased ingredients consumed by the lines, sub-recipes expanded down to their
+ * own ingredients in proportion to the quantity used over the sub-recipe yield.
+ * Line quantities are net: the raw quantity is divided by the usable yield.
+ */
+export function computeRecipeConsumption(
+  lines: RecipeCostInputLine[],
+  ingredientMap: Map<string, Ingredient>,
+  context?: SubRecipeContext,
+  recipeId?: string,
+): IngredientConsumption[] {
+  return Array.from(walkRecipeLines(lines, ingredientMap, context, recipeId).consumption.values());
+}
 
-    return sum + convertedQty * getEffectiveUnitPrice(ingredient);
-  }, 0);
+function walkRecipeLines(
+  lines: RecipeCostInputLine[],
+  ingredientMap: Map<string, Ingredient>,
+  context?: SubRecipeContext,
+  recipeId?: string,
+): ConsumptionWalk {
+  const walk: ConsumptionWalk = { consumption: new Map(), unconvertible: new Set() };
+  collectConsumption(lines, ingredientMap, context, 1, new Set(recipeId ? [recipeId] : []), walk);
+  return walk;
+}
+
+export function computeRecipeCostFromLines(
+  lines: RecipeCostInputLine[],
+  ingredientMap: Map<string, Ingredient>,
+  salePriceHT?: number,
+  context?: SubRecipeContext,
+  recipeId?: string,
+  targetFoodCostRate?: number,
+): RecipeCostSummary {
+  const walk = walkRecipeLines(lines, ingredientMap, context, recipeId);
+  const totalCost = Array.from(walk.consumption.values()).reduce((sum, entry) => sum + entry.cost, 0);
+  const unconvertibleLines = Array.from(walk.unconvertible);
 
   const safeSalePrice = Number.isFinite(salePriceHT) && (salePriceHT ?? 0) > 0 ? (salePriceHT as number) : undefined;
   if (!safeSalePrice) {
@@ -54,17 +267,15 @@ export function computeRecipeCostFromLines(
       grossMargin: 0,
       foodCostRate: 0,
       warningLevel: 'ok',
+      unconvertibleLines,
     };
   }
 
   const foodCostRate = totalCost / safeSalePrice;
   const grossMargin = safeSalePrice - totalCost;
+  const warningLevel = getFoodCostWarningLevel(foodCostRate, targetFoodCostRate);
 
-  let warningLevel: RecipeCostSummary['warningLevel'] = 'ok';
-  if (foodCostRate > 0.3) warningLevel = 'danger';
-  else if (foodCostRate > 0.25) warningLevel = 'warning';
-
-  return { totalCost, grossMargin, foodCostRate, warningLevel };
+  return { totalCost, grossMargin, foodCostRate, warningLevel, unconvertibleLines };
 }
 
 export async function calculateRecipeCost(recipeId: string): Promise<RecipeCostSummary> {
@@ -78,19 +289,21 @@ export async function calculateRecipeCost(recipeId: string): Promise<RecipeCostS
     };
   }
 
-  const [links, ingredients] = await Promise.all([
-    db.recipeIngredients.where('recipeId').equals(recipeId).toArray(),
+  const [recipes, allLines, ingredients, settings] = await Promise.all([
+    db.recipes.toArray(),
+    db.recipeIngredients.toArray(),
     db.ingredients.toArray(),
+    db.settings.get('default'),
   ]);
   const ingredientMap = new Map(ingredients.map((i) => [i.id, i]));
+  const context = buildSubRecipeContext(recipes, allLines);
 
   return computeRecipeCostFromLines(
-    links.map((line) => ({
-      ingredientId: line.ingredientId,
-      requiredQuantity: line.requiredQuantity,
-      requiredUnit: line.requiredUnit,
-    })),
+    context.linesByRecipe.get(recipeId) ?? [],
     ingredientMap,
     recipe.salePriceHT,
+    context,
+    recipeId,
+    getTargetFoodCostRate(settings, recipe.category),
   );
 }
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { computeBatchWeightGrams, computeScaleFactor, normalizeQuantity, scaleRecipeLines } from './recipeScaling';
+import type { Ingredient } from '../types';
+
+const flour: Ingredient = { id: 'flour', name: 'Farine', unit: 'kg', unitPrice: 1.2 };
+const egg: Ingredient = { id: 'egg', name: 'Oeuf', unit: 'unite', unitPrice: 0.3, pieceWeightGrams: 60 };
+const milk: Ingredient = { id: 'milk', name: 'Lait', unit: 'l', unitPrice: 1 };
+const ingredientMap = new Map([flour, egg, milk].map((ingredient) => [ingredient.id, ingredient]));
+
+const lines = [
+  { ingredientId: 'flour', requiredQuantity: 250, requiredUnit: 'g' as const },
+  { ingredientId: 'egg', requiredQuantity: 4, requiredUnit: 'unite' as const },
+  { ingredientId: 'milk', requiredQuantity: 0.5, requiredUnit: 'l' as const },
+];
+
+describe('normalizeQuantity', () => {
+  it('switches to the readable unit', () => {
+    expect(normalizeQuantity(1200, 'g')).toEqual({ quantity: 1.2, unit: 'kg' });
+    expect(normalizeQuantity(0.25, 'l')).toEqual({ quantity: 250, unit: 'ml' });
+    expect(normalizeQuantity(2.3333, 'unite')).toEqual({ quantity: 2.33, unit: 'unite' });
+  });
+});
+
+describe('recipe scaling', () => {
+  it('scales lines to a target number of portions with normalized units and costs', () => {
+    const factor = computeScaleFactor({ mode: 'portions', portions: 80 }, 10, 0);
+    const scaled = scaleRecipeLines(lines, factor, ingredientMap);
+
+    expect(factor).toBe(8);
+    expect(scaled.map((line) => [line.name, line.quantity, line.unit])).toEqual([
+      ['Farine', 2, 'kg'],
+      ['Oeuf', 32, 'unite'],
+      ['Lait', 4, 'l'],
+    ]);
+    expect(scaled[0].cost).toBeCloseTo(2.4, 5);
+  });
+
+  it('scales to a target batch weight using the declared yield or the line weights', () => {
+    // 250 g flour + 4 x 60 g eggs; milk has no density and is left out.
+    expect(computeBatchWeightGrams(lines, ingredientMap)).toBeCloseTo(490, 5);
+    expect(computeBatchWeightGrams(lines, ingredientMap, { quantity: 1, unit: 'kg' })).toBe(1000);
+    expect(computeScaleFactor({ mode: 'weight', grams: 2500 }, 10, 1000)).toBe(2.5);
+    expect(computeScaleFactor({ mode: 'weight', grams: 2500 }, 10, 0)).toBe(0);
+  });
+});
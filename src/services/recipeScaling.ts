@@ -0,0 +1,93 @@
+import type { Ingredient, RecipeUnit } from '../types';
+import {
+  computeRecipeCostFromLines,
+  convertQuantity,
+  type RecipeCostInputLine,
+  type SubRecipeContext,
+} from './recipeCost';
+
+export type ScaleTarget =
+  | { mode: 'portions'; portions: number }
+  | { mode: 'weight'; grams: number };
+
+export interface ScaledRecipeLine {
+  name: string;
+  quantity: number;
+  unit: RecipeUnit;
+  cost: number;
+}
+
+/** Everything printed on a production sheet, already scaled to the target. */
+export interface ProductionSheet {
+  title: string;
+  targetLabel: string;
+  factor: number;
+  portions: number;
+  lines: ScaledRecipeLine[];
+  allergens: string[];
+  totalCost: number;
+  unconvertibleLines: string[];
+}
+
+function roundQuantity(value: number, unit: RecipeUnit): number {
+  const decimals = unit === 'kg' || unit === 'l' ? 3 : unit === 'unite' ? 2 : 1;
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/** Picks the readable unit for a quantity: 1200 g becomes 1.2 kg, 0.25 l becomes 250 ml. */
+export function normalizeQuantity(value: number, unit: RecipeUnit): { quantity: number; unit: RecipeUnit } {
+  if (unit === 'g' && value >= 1000) return normalizeQuantity(value / 1000, 'kg');
+  if (unit === 'ml' && value >= 1000) return normalizeQuantity(value / 1000, 'l');
+  if (unit === 'kg' && value > 0 && value < 1) return normalizeQuantity(value * 1000, 'g');
+  if (unit === 'l' && value > 0 && value < 1) return normalizeQuantity(value * 1000, 'ml');
+  return { quantity: roundQuantity(value, unit), unit };
+}
+
+/**
+ * Weight of the whole batch in grams: the declared yield when it is a weight,
+ * otherwise the sum of the lines that can be converted to grams.
+ */
+export function computeBatchWeightGrams(
+  lines: RecipeCostInputLine[],
+  ingredientMap: Map<string, Ingredient>,
+  declaredYield?: { quantity: number; unit: RecipeUnit },
+): number {
+  if (declaredYield) {
+    const grams = convertQuantity(declaredYield.quantity, declaredYield.unit, 'g');
+    if (grams !== null && grams > 0) return grams;
+  }
+  return lines.reduce((sum, line) => {
+    const ingredient = line.subRecipeId ? undefined : ingredientMap.get(line.ingredientId);
+    return sum + (convertQuantity(line.requiredQuantity, line.requiredUnit, 'g', ingredient) ?? 0);
+  }, 0);
+}
+
+/** Multiplier applied to every line. Returns 0 when the target cannot be reached. */
+export function computeScaleFactor(target: ScaleTarget, basePortions: number, batchWeightGrams: number): number {
+  if (target.mode === 'portions') {
+    if (!(target.portions > 0) || !(basePortions > 0)) return 0;
+    return target.portions / basePortions;
+  }
+  if (!(target.grams > 0) || !(batchWeightGrams > 0)) return 0;
+  return target.grams / batchWeightGrams;
+}
+
+/** Lines multiplied by the factor, with units normalized and costed at the current prices. */
+export function scaleRecipeLines(
+  lines: RecipeCostInputLine[],
+  factor: number,
+  ingredientMap: Map<string, Ingredient>,
+  context?: SubRecipeContext,
+  recipeId?: string,
+): ScaledRecipeLine[] {
+  return lines.map((line) => {
+    const name = line.subRecipeId
+      ? context?.recipeMap.get(line.subRecipeId)?.title ?? 'Sous-recette'
+      : ingredientMap.get(line.ingredientId)?.name ?? 'Ingredient';
+    const scaledLine = { ...line, requiredQuantity: line.requiredQuantity * factor };
+    const normalized = normalizeQuantity(scaledLine.requiredQuantity, line.requiredUnit);
+    const cost = computeRecipeCostFromLines([scaledLine], ingredientMap, undefined, context, recipeId).totalCost;
+    return { name, quantity: normalized.quantity, unit: normalized.unit, cost };
+  });
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { buildDishMappings, buildSalesOutputs, parseSalesCsv, resolveDishMappings } from './salesImport';
+import type { Recipe } from '../types';
+
+const recipes: Recipe[] = [
+  { id: 'burger', title: 'Burger maison', portions: 1, createdAt: new Date(2026, 0, 1), updatedAt: new Date(2026, 0, 1) },
+  { id: 'tarte', title: 'Tarte aux pommes', portions: 8, createdAt: new Date(2026, 0, 1), updatedAt: new Date(2026, 0, 1) },
+];
+
+describe('parseSalesCsv', () => {
+  it('reads a semicolon export with French dates and skips invalid rows', () => {
+    const csv = '\uFEFFDate;Produit;Qte\n14/10/2026;Burger maison;12\n14/10/2026;"Tarte aux pommes";3,5\n;Burger;2\n15/10/2026;Burger maison;0';
+    const result = parseSalesCsv(csv);
+
+    expect(result.skipped).toBe(2);
+    expect(result.lines).toHaveLength(2);
+    expect(result.lines[0]).toMatchObject({ dishName: 'Burger maison', quantity: 12 });
+    expect(result.lines[0].date).toEqual(new Date(2026, 9, 14, 12, 0, 0));
+    expect(result.lines[1].quantity).toBe(3.5);
+  });
+
+  it('falls back to date, plat, quantite columns without a header row', () => {
+    const result = parseSalesCsv('2026-10-14,Burger maison,4');
+    expect(result.lines).toHaveLength(1);
+    expect(result.lines[0]).toMatchObject({ dishName: 'Burger maison', quantity: 4 });
+  });
+});
+
+describe('resolveDishMappings', () => {
+  it('prefers remembered mappings over fuzzy matches', () => {
+    const mappings = buildDishMappings([{ dishName: ' Menu midi ', recipeId: 'tarte' }]);
+    expect(mappings).toMatchObject([{ id: 'menu midi', dishLabel: 'Menu midi', recipeId: 'tarte' }]);
+    const resolved = resolveDishMappings(['Menu midi', 'BURGER MAISON', 'Cafe'], recipes, mappings);
+
+    expect(resolved.get('menu midi')).toEqual({ recipeId: 'tarte', source: 'remembered' });
+    expect(resolved.get('burger maison')).toEqual({ recipeId: 'burger', source: 'fuzzy' });
+    expect(resolved.has('cafe')).toBe(false);
+  });
+});
+
+describe('buildSalesOutputs', () => {
+  it('aggregates sales per day and recipe with stable ids', () => {
+    const lines = [
+      { dishName: 'Burger maison', quantity: 5, date: new Date(2026, 9, 14, 12) },
+      { dishName: 'burger maison', quantity: 3, date: new Date(2026, 9, 14, 12) },
+      { dishName: 'Burger maison', quantity: 2, date: new Date(2026, 9, 15, 12) },
+      { dishName: 'Cafe', quantity: 40, date: new Date(2026, 9, 15, 12) },
+    ];
+    const outputs = buildSalesOutputs(lines, new Map([['burger maison', 'burger']]), recipes);
+
+    expect(outputs.map((output) => [output.id, output.portions])).toEqual([
+      ['pos-2026-10-14-burger', 8],
+      ['pos-2026-10-15-burger', 2],
+    ]);
+    expect(outputs.every((output) => output.kind === 'sale')).toBe(true);
+  });
+});
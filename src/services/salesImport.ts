@@ -0,0 +1,200 @@
+import { format } from 'date-fns';
+import { nameSimilarity, normalizeName } from './ingredientMatch';
+import type { PosDishMapping, Recipe, RecipeOutput } from '../types';
+
+export interface PosSaleLine {
+  dishName: string;
+  quantity: number;
+  date: Date;
+}
+
+export interface SalesCsvParseResult {
+  lines: PosSaleLine[];
+  skipped: number;
+}
+
+export interface DishMappingResolution {
+  recipeId: string;
+  source: 'remembered' | 'fuzzy';
+}
+
+const DISH_HEADERS = ['plat', 'produit', 'article', 'libelle', 'designation', 'nom', 'dish', 'item', 'name'];
+const QUANTITY_HEADERS = ['quantite', 'qte', 'qty', 'quantity', 'nb', 'nombre', 'ventes'];
+const DATE_HEADERS = ['date', 'jour', 'day', 'datevente'];
+const FUZZY_THRESHOLD = 0.8;
+
+function normalizeHeader(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]/g, '');
+}
+
+function parseDelimitedLine(line: string, delimiter: string): string[] {
+  const values: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+      continue;
+    }
+    if (!inQuotes && char === delimiter) {
+      values.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  values.push(current.trim());
+  return values;
+}
+
+/** Accepts ISO dates (2026-10-14) and French dates (14/10/2026), with an optional time part. */
+export function parseSaleDate(value: string): Date | null {
+  const trimmed = value.trim();
+  const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(trimmed);
+  const french = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})/.exec(trimmed);
+  let year: number;
+  let month: number;
+  let day: number;
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (french) {
+    year = Number(french[3]);
+    if (year < 100) year += 2000;
+    [month, day] = [Number(french[2]), Number(french[1])];
+  } else {
+    return null;
+  }
+  const date = new Date(year, month - 1, day, 12, 0, 0);
+  if (date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return date;
+}
+
+export function parseSalesCsv(content: string): SalesCsvParseResult {
+  const rawLines = content
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  if (rawLines.length === 0) return { lines: [], skipped: 0 };
+
+  const delimiter = rawLines[0].includes(';') ? ';' : rawLines[0].includes('\t') ? '\t' : ',';
+  const headers = parseDelimitedLine(rawLines[0], delimiter).map(normalizeHeader);
+  const indexOf = (aliases: string[]) => headers.findIndex((header) => aliases.includes(header));
+  const dishIndex = indexOf(DISH_HEADERS);
+  const quantityIndex = indexOf(QUANTITY_HEADERS);
+  const dateIndex = indexOf(DATE_HEADERS);
+  const hasHeader = dishIndex >= 0 || quantityIndex >= 0 || dateIndex >= 0;
+  // Without a header row the export is expected as: date, plat, quantite.
+  const columns = hasHeader
+    ? { dish: dishIndex, quantity: quantityIndex, date: dateIndex }
+    : { dish: 1, quantity: 2, date: 0 };
+
+  const lines: PosSaleLine[] = [];
+  let skipped = 0;
+  for (const raw of hasHeader ? rawLines.slice(1) : rawLines) {
+    const cells = parseDelimitedLine(raw, delimiter);
+    const dishName = (cells[columns.dish] ?? '').trim();
+    const quantity = Number.parseFloat((cells[columns.quantity] ?? '').replace(',', '.'));
+    const date = parseSaleDate(cells[columns.date] ?? '');
+    if (!dishName || !Number.isFinite(quantity) || quantity <= 0 || !date) {
+      skipped++;
+      continue;
+    }
+    lines.push({ dishName, quantity, date });
+  }
+  return { lines, skipped };
+}
+
+export function resolveDishMappings(
+  dishNames: string[],
+  recipes: Recipe[],
+  mappings: PosDishMapping[],
+): Map<string, DishMappingResolution> {
+  const recipeIds = new Set(recipes.map((recipe) => recipe.id));
+  const keys = Array.from(new Set(dishNames.map(normalizeName).filter(Boolean)));
+  const remembered = new Map(mappings.map((mapping) => [mapping.id, mapping]));
+  const result = new Map<string, DishMappingResolution>();
+
+  keys.forEach((key) => {
+    const mapping = remembered.get(key);
+    if (mapping && recipeIds.has(mapping.recipeId)) {
+      result.set(key, { recipeId: mapping.recipeId, source: 'remembered' });
+      return;
+    }
+    let bestId: string | null = null;
+    let bestScore = 0;
+    for (const recipe of recipes) {
+      const score = nameSimilarity(key, recipe.title);
+      if (score > bestScore) {
+        bestScore = score;
+        bestId = recipe.id;
+      }
+    }
+    if (bestId && bestScore >= FUZZY_THRESHOLD) result.set(key, { recipeId: bestId, source: 'fuzzy' });
+  });
+
+  return result;
+}
+
+/** Mappings to remember for the next imports, keyed by normalized till label. */
+export function buildDishMappings(
+  entries: { dishName: string; recipeId: string }[],
+  now: Date = new Date(),
+): PosDishMapping[] {
+  return entries
+    .map((entry) => ({
+      id: normalizeName(entry.dishName),
+      dishLabel: entry.dishName.trim(),
+      recipeId: entry.recipeId,
+      updatedAt: now,
+    }))
+    .filter((row) => row.id && row.recipeId);
+}
+
+/**
+ * Aggregates sales per day and recipe. Ids are deterministic so that importing
+ * the same export twice overwrites the previous figures instead of doubling them.
+ */
+export function buildSalesOutputs(
+  lines: PosSaleLine[],
+  mapping: Map<string, string>,
+  recipes: Recipe[],
+): RecipeOutput[] {
+  const recipeMap = new Map(recipes.map((recipe) => [recipe.id, recipe]));
+  const byKey = new Map<string, RecipeOutput>();
+  const now = new Date();
+
+  for (const line of lines) {
+    const recipe = recipeMap.get(mapping.get(normalizeName(line.dishName)) ?? '');
+    if (!recipe) continue;
+    const dayKey = format(line.date, 'yyyy-MM-dd');
+    const id = `pos-${dayKey}-${recipe.id}`;
+    const existing = byKey.get(id);
+    if (existing) {
+      existing.portions += line.quantity;
+      continue;
+    }
+    byKey.set(id, {
+      id,
+      recipeId: recipe.id,
+      recipeTitle: recipe.title,
+      kind: 'sale',
+      portions: line.quantity,
+      date: line.date,
+      notes: 'Import caisse',
+      createdAt: now,
+    });
+  }
+
+  return Array.from(byKey.values());
+}
@@ -1,4 +1,4 @@
-import { describe, expect, it } from 'vitest';
+import { afterEach, describe, expect, it, vi } from 'vitest';
 import { buildSmartAlerts } from './smartAlerts';
 
 describe('smart alerts', () => {
@@ -73,4 +73,167 @@ describe('smart alerts', () => {
     expect(alerts.some((alert) => alert.id === 'temp-anomalies')).toBe(true);
     expect(alerts.some((alert) => alert.id === 'expired-products')).toBe(true);
   });
+
+  it('raises an overdue re-check alert for unresolved corrective actions', () => {
+    const now = new Date();
+    const alerts = buildSmartAlerts({
+      equipment: [{ id: 'eq-1', name: 'Frigo', type: 'fridge', minTemp: 0, maxTemp: 4, order: 0 }],
+      todayRecords: [
+        { id: 'r-1', equipmentId: 'eq-1', temperature: 9, timestamp: now, isCompliant: false },
+        { id: 'r-2', equipmentId: 'eq-1', temperature: 8, timestamp: now, isCompliant: false },
+      ],
+      tasks: [],
+      products: [],
+      correctiveActions: [
+        {
+          id: 'ca-1',
+          temperatureRecordId: 'r-1',
+          equipmentId: 'eq-1',
+          action: 'product_moved',
+          createdAt: new Date(now.getTime() - 2 * 60 * 60 * 1000),
+          recheckDueAt: new Date(now.getTime() - 60 * 60 * 1000),
+        },
+      ],
+    });
+
+    const overdue = alerts.find((alert) => alert.id === 'overdue-rechecks');
+    expect(overdue?.severity).toBe('danger');
+    expect(overdue?.count).toBe(1);
+    expect(alerts.find((alert) => alert.id === 'temp-anomalies')?.description).toContain('1 sans action corrective');
+  });
+
+  it('still counts an anomaly with only the automatic re-check as untreated', () => {
+    const now = new Date();
+    const alerts = buildSmartAlerts({
+      equipment: [{ id: 'eq-1', name: 'Frigo', type: 'fridge', minTemp: 0, maxTemp: 4, order: 0 }],
+      todayRecords: [{ id: 'r-1', equipmentId: 'eq-1', temperature: 9, timestamp: now, isCompliant: false }],
+      tasks: [],
+      products: [],
+      correctiveActions: [
+        {
+          id: 'ca-1',
+          temperatureRecordId: 'r-1',
+          equipmentId: 'eq-1',
+          action: 'recheck_scheduled',
+          automatic: true,
+          createdAt: now,
+          recheckDueAt: new Date(now.getTime() + 60 * 60 * 1000),
+        },
+      ],
+    });
+
+    expect(alerts.find((alert) => alert.id === 'temp-anomalies')?.description).toContain('1 sans action corrective');
+  });
+
+  describe('temperature check slots', () => {
+    const fridge = {
+      id: 'eq-1',
+      name: 'Frigo',
+      type: 'fridge' as const,
+      minTemp: 0,
+      maxTemp: 4,
+      order: 0,
+      checkSchedule: { mode: 'slots' as const, slots: [{ time: '08:00' }, { time: '10:30' }, { time: '18:00' }] },
+    };
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('flags overdue and upcoming slots', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date(2026, 9, 19, 10, 0));
+      const alerts = buildSmartAlerts({ equipment: [fridge], todayRecords: [], tasks: [], products: [] });
+
+      const overdue = alerts.find((alert) => alert.id === 'overdue-temp-checks');
+      expect(overdue).toMatchObject({ severity: 'warning', count: 1 });
+      expect(overdue?.description).toContain('Frigo 08:00');
+      const upcoming = alerts.find((alert) => alert.id === 'upcoming-temp-checks');
+      expect(upcoming).toMatchObject({ severity: 'info', count: 1 });
+      expect(upcoming?.description).toContain('avant 10:30');
+    });
+
+    it('does not remind slots already done', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date(2026, 9, 19, 10, 0));
+      const alerts = buildSmartAlerts({
+        equipment: [fridge],
+        todayRecords: [
+          { id: 'r-1', equipmentId: 'eq-1', temperature: 3, timestamp: new Date(2026, 9, 19, 8, 5), isCompliant: true },
+          { id: 'r-2', equipmentId: 'eq-1', temperature: 3, timestamp: new Date(2026, 9, 19, 9, 55), isCompliant: true },
+        ],
+        tasks: [],
+        products: [],
+      });
+
+      expect(alerts.some((alert) => alert.id === 'overdue-temp-checks')).toBe(false);
+      expect(alerts.some((alert) => alert.id === 'upcoming-temp-checks')).toBe(false);
+    });
+  });
+
+  it('flags recipes that crossed the food-cost threshold after a recent invoice', () => {
+    const alerts = buildSmartAlerts({
+      equipment: [],
+      todayRecords: [],
+      tasks: [],
+      products: [],
+      invoices: [
+        {
+          id: 'inv-1',
+          images: [],
+          supplier: 'Metro',
+          invoiceNumber: 'F-1',
+          invoiceDate: new Date(),
+          items: [],
+          totalHT: 0,
+          totalTVA: 0,
+          totalTTC: 0,
+          ocrText: '',
+          tags: [],
+          scannedAt: new Date(),
+          priceImpact: [
+            {
+              recipeId: 'r-1',
+              recipeTitle: 'Tartare',
+              oldCost: 4,
+              newCost: 5,
+              oldFoodCostRate: 0.27,
+              newFoodCostRate: 0.34,
+              warningLevel: 'danger',
+              crossedThreshold: true,
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(alerts[0].id).toBe('recipe-cost-impact');
+    expect(alerts[0].description).toContain('Tartare');
+  });
+
+  it('reminds standing order drafts not reviewed before their cutoff', () => {
+    const now = Date.now();
+    const draft = (id: string, cutoffAt: Date) => ({
+      id,
+      orderNumber: id,
+      supplier: 'Boulangerie Martin',
+      status: 'draft' as const,
+      items: [],
+      orderDate: cutoffAt,
+      totalHT: 0,
+      standingOrder: { standingOrderId: 'so-1', name: 'Pain', cutoffAt },
+      createdAt: new Date(now),
+      updatedAt: new Date(now),
+    });
+    const alerts = buildSmartAlerts({
+      equipment: [],
+      todayRecords: [],
+      tasks: [],
+      products: [],
+      orders: [draft('soon', new Date(now + 2 * 60 * 60 * 1000)), draft('late', new Date(now - 60 * 60 * 1000))],
+    });
+
+    expect(alerts.find((alert) => alert.id === 'standing-orders-missed')?.severity).toBe('danger');
+    expect(alerts.find((alert) => alert.id === 'standing-orders-review')?.description).toContain('Pain');
+  });
 });
@@ -1,4 +1,7 @@
-import type { Equipment, ProductTrace, Task, TemperatureRecord } from '../types';
+import { format } from 'date-fns';
+import type { CorrectiveAction, Equipment, Invoice, Order, ProductTrace, Task, TemperatureRecord } from '../types';
+import { computeAllCheckSlots } from './checkSchedule';
+import { getStandingOrderReminders } from './standingOrders';
 
 export type SmartAlertSeverity = 'danger' | 'warning' | 'info';
 
@@ -16,9 +19,14 @@ interface BuildSmartAlertsInput {
   todayRecords: TemperatureRecord[];
   tasks: Task[];
   products: ProductTrace[];
+  correctiveActions?: CorrectiveAction[];
+  invoices?: Invoice[];
+  orders?: Order[];
 }
 
 const DAY_MS = 24 * 60 * 60 * 1000;
+const UPCOMING_CHECK_WINDOW_MS = 60 * 60 * 1000;
+const PRICE_IMPACT_WINDOW_MS = 7 * DAY_MS;
 
 function startOfTodayMs(): number {
   const now = new Date();
@@ -35,37 +43,83 @@ export function buildSmartAlerts({
   todayRecords,
   tasks,
   products,
+  correctiveActions = [],
+  invoices = [],
+  orders = [],
 }: BuildSmartAlertsInput): SmartAlert[] {
   const alerts: SmartAlert[] = [];
   const nowMs = Date.now();
   const todayStartMs = startOfTodayMs();
   const activeProducts = products.filter((product) => product.status !== 'used');
 
-  const checkedEquipment = new Set(todayRecords.map((r) => r.equipmentId));
-  const missingChecks = Math.max(equipment.length - checkedEquipment.size, 0);
-  if (equipment.length > 0 && missingChecks > 0) {
+  const checkSlots = computeAllCheckSlots(equipment, todayRecords, new Date(nowMs));
+  const equipmentNames = new Map(equipment.map((item) => [item.id, item.name]));
+  const slotList = [...checkSlots.values()].flat();
+  const overdueSlots = slotList.filter((slot) => slot.status === 'overdue');
+  if (overdueSlots.length > 0) {
+    const names = overdueSlots
+      .slice(0, 3)
+      .map((slot) => `${equipmentNames.get(slot.equipmentId) ?? '?'} ${slot.label}`)
+      .join(', ');
     alerts.push({
-      id: 'missing-temp-checks',
+      id: 'overdue-temp-checks',
       severity: 'warning',
-      title: 'Releves manquants',
-      description: `${plural(missingChecks, 'equipement', 'equipements')} sans releve aujourd'hui.`,
-      path: '/temperature',
-      count: missingChecks,
+      title: 'Releves en retard',
+      description: `${plural(overdueSlots.length, 'creneau', 'creneaux')} en retard : ${names}${overdueSlots.length > 3 ? '...' : ''}.`,
+      path: '/temperature?quick=input',
+      count: overdueSlots.length,
     });
   }
 
-  const anomalies = todayRecords.filter((r) => !r.isCompliant).length;
+  const upcomingSlots = slotList
+    .filter((slot) => slot.status === 'upcoming' && slot.dueAt.getTime() - nowMs <= UPCOMING_CHECK_WINDOW_MS)
+    .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+  if (upcomingSlots.length > 0) {
+    const next = upcomingSlots[0];
+    alerts.push({
+      id: 'upcoming-temp-checks',
+      severity: 'info',
+      title: 'Releves a venir',
+      description: `${equipmentNames.get(next.equipmentId) ?? '?'} avant ${format(next.dueAt, 'HH:mm')}${upcomingSlots.length > 1 ? ` (+${upcomingSlots.length - 1})` : ''}.`,
+      path: '/temperature?quick=input',
+      count: upcomingSlots.length,
+    });
+  }
+
+  const anomalyRecords = todayRecords.filter((r) => !r.isCompliant);
+  const anomalies = anomalyRecords.length;
   if (anomalies > 0) {
+    // The re-check opened automatically with the reading is not an operator action.
+    const treatedRecordIds = new Set(
+      correctiveActions.filter((action) => !action.automatic).map((action) => action.temperatureRecordId),
+    );
+    const untreated = anomalyRecords.filter((record) => !treatedRecordIds.has(record.id)).length;
     alerts.push({
       id: 'temp-anomalies',
       severity: 'danger',
       title: 'Anomalies temperature',
-      description: `${plural(anomalies, 'anomalie', 'anomalies')} detectee${anomalies > 1 ? 's' : ''} aujourd'hui.`,
+      description:
+        `${plural(anomalies, 'anomalie', 'anomalies')} detectee${anomalies > 1 ? 's' : ''} aujourd'hui` +
+        (untreated > 0 ? `, ${untreated} sans action corrective.` : '.'),
       path: '/temperature?quick=history',
       count: anomalies,
     });
   }
 
+  const overdueRechecks = correctiveActions.filter(
+    (action) => !action.resolvedAt && new Date(action.recheckDueAt).getTime() < nowMs,
+  ).length;
+  if (overdueRechecks > 0) {
+    alerts.push({
+      id: 'overdue-rechecks',
+      severity: 'danger',
+      title: 'Contre-controles en retard',
+      description: `${plural(overdueRechecks, 'action corrective', 'actions correctives')} sans nouveau releve.`,
+      path: '/temperature?quick=input',
+      count: overdueRechecks,
+    });
+  }
+
   const overdueTasks = tasks.filter((task) => {
     if (task.completed || task.archived) return false;
     const createdAt = new Date(task.createdAt).getTime();
@@ -112,6 +166,60 @@ export function buildSmartAlerts({
     });
   }
 
+  const recentImpactInvoices = invoices.filter(
+    (invoice) =>
+      nowMs - new Date(invoice.scannedAt).getTime() <= PRICE_IMPACT_WINDOW_MS &&
+      (invoice.priceImpact ?? []).some((impact) => impact.crossedThreshold),
+  );
+  if (recentImpactInvoices.length > 0) {
+    const recipeTitles = new Map<string, string>();
+    for (const invoice of recentImpactInvoices) {
+      for (const impact of invoice.priceImpact ?? []) {
+        if (impact.crossedThreshold) recipeTitles.set(impact.recipeId, impact.recipeTitle);
+      }
+    }
+    const titles = [...recipeTitles.values()];
+    alerts.push({
+      id: 'recipe-cost-impact',
+      severity: 'warning',
+      title: 'Recettes moins rentables',
+      description:
+        `${plural(titles.length, 'recette depasse', 'recettes depassent')} le seuil food cost apres une facture : ` +
+        `${titles.slice(0, 3).join(', ')}${titles.length > 3 ? '...' : ''}.`,
+      path: '/invoices',
+      count: titles.length,
+    });
+  }
+
+  const standingReminders = getStandingOrderReminders(orders, new Date(nowMs));
+  if (standingReminders.missed.length > 0) {
+    const names = standingReminders.missed.map((order) => order.standingOrder?.name ?? order.supplier);
+    alerts.push({
+      id: 'standing-orders-missed',
+      severity: 'danger',
+      title: 'Commandes recurrentes non passees',
+      description:
+        `${plural(names.length, 'brouillon non revu', 'brouillons non revus')} apres l'heure limite : ` +
+        `${names.slice(0, 3).join(', ')}${names.length > 3 ? '...' : ''}.`,
+      path: '/orders',
+      count: names.length,
+    });
+  }
+  if (standingReminders.upcoming.length > 0) {
+    const next = standingReminders.upcoming[0];
+    const cutoffAt = new Date(next.standingOrder?.cutoffAt ?? nowMs);
+    alerts.push({
+      id: 'standing-orders-review',
+      severity: 'warning',
+      title: 'Commandes recurrentes a valider',
+      description:
+        `${next.standingOrder?.name ?? next.supplier} (${next.supplier}) avant ${format(cutoffAt, 'dd/MM HH:mm')}` +
+        `${standingReminders.upcoming.length > 1 ? ` (+${standingReminders.upcoming.length - 1})` : ''}.`,
+      path: '/orders',
+      count: standingReminders.upcoming.length,
+    });
+  }
+
   if (alerts.length === 0) {
     alerts.push({
       id: 'all-clear',
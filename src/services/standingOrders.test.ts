@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { Order, StandingOrder } from '../types';
+import {
+  buildStandingOrderDraft,
+  getDueStandingOrderCutoff,
+  getNextStandingOrderCutoff,
+  getStandingOrderReminders,
+} from './standingOrders';
+
+function makeStandingOrder(overrides: Partial<StandingOrder> = {}): StandingOrder {
+  return {
+    id: 'so-1',
+    name: 'Pain semaine',
+    supplier: 'Boulangerie Martin',
+    items: [{ id: 'i-1', productName: 'Baguette', quantity: 40, unit: 'unite', unitPriceHT: 0.9, totalPriceHT: 36 }],
+    // Monday and Thursday
+    weekdays: [1, 4],
+    cutoffTime: '10:00',
+    active: true,
+    createdAt: new Date('2026-01-01T00:00:00'),
+    updatedAt: new Date('2026-01-01T00:00:00'),
+    ...overrides,
+  };
+}
+
+describe('standing orders', () => {
+  it('finds the next order day whose cutoff is still ahead', () => {
+    const standingOrder = makeStandingOrder();
+    // Monday 19/10 before and after the cutoff
+    expect(getNextStandingOrderCutoff(standingOrder, new Date('2026-10-19T08:00:00'))?.getTime()).toBe(
+      new Date('2026-10-19T10:00:00').getTime(),
+    );
+    expect(getNextStandingOrderCutoff(standingOrder, new Date('2026-10-19T11:00:00'))?.getTime()).toBe(
+      new Date('2026-10-22T10:00:00').getTime(),
+    );
+    expect(getNextStandingOrderCutoff(makeStandingOrder({ weekdays: [] }), new Date('2026-10-19T08:00:00'))).toBeNull();
+  });
+
+  it('creates one draft per occurrence and none for paused templates', () => {
+    const now = new Date('2026-10-19T11:00:00');
+    const cutoff = getDueStandingOrderCutoff(makeStandingOrder(), now);
+    expect(cutoff?.getTime()).toBe(new Date('2026-10-22T10:00:00').getTime());
+    expect(getDueStandingOrderCutoff(makeStandingOrder({ lastGeneratedFor: cutoff ?? undefined }), now)).toBeNull();
+    expect(getDueStandingOrderCutoff(makeStandingOrder({ active: false }), now)).toBeNull();
+
+    const draft = buildStandingOrderDraft(makeStandingOrder(), 'CMD-2026-012', cutoff as Date, now);
+    expect(draft).toMatchObject({
+      orderNumber: 'CMD-2026-012',
+      supplier: 'Boulangerie Martin',
+      status: 'draft',
+      totalHT: 36,
+      standingOrder: { standingOrderId: 'so-1', name: 'Pain semaine', cutoffAt: cutoff },
+    });
+    expect(draft.items[0].id).not.toBe('i-1');
+  });
+
+  it('reminds unreviewed drafts close to or past their cutoff', () => {
+    const now = new Date('2026-10-19T08:00:00');
+    const draft = (id: string, cutoffAt: string, extra: Partial<Order> = {}): Order => ({
+      ...buildStandingOrderDraft(makeStandingOrder(), id, new Date(cutoffAt), now),
+      ...extra,
+    });
+    const today = draft('today', '2026-10-19T10:00:00');
+    const later = draft('later', '2026-10-22T10:00:00');
+    const missed = draft('missed', '2026-10-15T10:00:00');
+    const reviewed = draft('reviewed', '2026-10-19T10:00:00', {
+      standingOrder: { standingOrderId: 'so-1', name: 'Pain', cutoffAt: new Date('2026-10-19T10:00:00'), reviewedAt: now },
+    });
+    const sent = draft('sent', '2026-10-19T10:00:00', { status: 'sent' });
+
+    const reminders = getStandingOrderReminders([later, today, missed, reviewed, sent], now);
+    expect(reminders.upcoming.map((order) => order.orderNumber)).toEqual(['today']);
+    expect(reminders.missed.map((order) => order.orderNumber)).toEqual(['missed']);
+  });
+});
@@ -0,0 +1,94 @@
+import type { Order, StandingOrder } from '../types';
+import { calculateOrderTotal } from './orderHelpers';
+import { WEEKDAY_LABELS, WEEKDAY_ORDER } from './supplierDirectory';
+
+/** Drafts still unreviewed this close to their cutoff show up on the dashboard. */
+export const STANDING_ORDER_REMINDER_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+function parseCutoff(value: string): [number, number] | null {
+  const match = /^(\d{2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? [hours, minutes] : null;
+}
+
+export function formatStandingOrderSchedule(standingOrder: StandingOrder): string {
+  if (standingOrder.weekdays.length === 0) return 'Aucun jour de commande';
+  const days = WEEKDAY_ORDER.filter((day) => standingOrder.weekdays.includes(day))
+    .map((day) => WEEKDAY_LABELS[day])
+    .join(', ');
+  return `${days} avant ${standingOrder.cutoffTime}`;
+}
+
+/** Cutoff of the next order day whose cutoff is still ahead of `now`. */
+export function getNextStandingOrderCutoff(standingOrder: StandingOrder, now: Date): Date | null {
+  const cutoff = parseCutoff(standingOrder.cutoffTime);
+  if (!cutoff || standingOrder.weekdays.length === 0) return null;
+  for (let offset = 0; offset <= 7; offset++) {
+    const candidate = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset, cutoff[0], cutoff[1]);
+    if (standingOrder.weekdays.includes(candidate.getDay()) && candidate.getTime() > now.getTime()) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Occurrence that still needs its draft, or null. Occurrences whose cutoff
+ * went by while the app was closed are skipped, never created late.
+ */
+export function getDueStandingOrderCutoff(standingOrder: StandingOrder, now: Date): Date | null {
+  if (!standingOrder.active) return null;
+  const cutoff = getNextStandingOrderCutoff(standingOrder, now);
+  if (!cutoff) return null;
+  const lastGenerated = standingOrder.lastGeneratedFor ? new Date(standingOrder.lastGeneratedFor).getTime() : 0;
+  return lastGenerated >= cutoff.getTime() ? null : cutoff;
+}
+
+export function buildStandingOrderDraft(
+  standingOrder: StandingOrder,
+  orderNumber: string,
+  cutoffAt: Date,
+  now: Date = new Date(),
+): Order {
+  const items = standingOrder.items.map((item) => ({
+    ...item,
+    id: crypto.randomUUID(),
+    receivedQuantity: undefined,
+  }));
+  return {
+    id: crypto.randomUUID(),
+    orderNumber,
+    supplier: standingOrder.supplier,
+    status: 'draft',
+    items,
+    orderDate: cutoffAt,
+    totalHT: calculateOrderTotal(items),
+    standingOrder: { standingOrderId: standingOrder.id, name: standingOrder.name, cutoffAt },
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export interface StandingOrderReminders {
+  /** Unreviewed drafts whose cutoff falls within the reminder window. */
+  upcoming: Order[];
+  /** Unreviewed drafts whose cutoff has passed. */
+  missed: Order[];
+}
+
+export function getStandingOrderReminders(orders: Order[], now: Date = new Date()): StandingOrderReminders {
+  const reminders: StandingOrderReminders = { upcoming: [], missed: [] };
+  for (const order of orders) {
+    if (order.status !== 'draft' || !order.standingOrder || order.standingOrder.reviewedAt) continue;
+    const remaining = new Date(order.standingOrder.cutoffAt).getTime() - now.getTime();
+    if (remaining < 0) reminders.missed.push(order);
+    else if (remaining <= STANDING_ORDER_REMINDER_WINDOW_MS) reminders.upcoming.push(order);
+  }
+  const byCutoff = (a: Order, b: Order) =>
+    new Date(a.standingOrder?.cutoffAt ?? 0).getTime() - new Date(b.standingOrder?.cutoffAt ?? 0).getTime();
+  reminders.upcoming.sort(byCutoff);
+  reminders.missed.sort(byCutoff);
+  return reminders;
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { buildStockMovements, computeStockLevels, summarizeStockCount } from './stock';
+import type { Ingredient, Invoice, Recipe, RecipeIngredient, RecipeOutput, StockCount } from '../types';
+
+const butter: Ingredient = { id: 'butter', name: 'Beurre doux', unit: 'kg', unitPrice: 40, conditioningQuantity: 5 };
+const cream: Ingredient = { id: 'cream', name: 'Creme liquide', unit: 'l', unitPrice: 4 };
+
+const invoice: Invoice = {
+  id: 'inv-1',
+  images: [],
+  supplier: 'Metro',
+  invoiceNumber: 'F-100',
+  invoiceDate: new Date(2026, 9, 1),
+  items: [
+    { designation: 'Beurre doux', quantity: 2, unitPriceHT: 40, totalPriceHT: 80, conditioningQuantity: 5 },
+    { designation: 'Creme liquide', quantity: 6, unitPriceHT: 4, totalPriceHT: 24 },
+    { designation: 'Sacs poubelle', quantity: 1, unitPriceHT: 12, totalPriceHT: 12 },
+  ],
+  totalHT: 116,
+  totalTVA: 0,
+  totalTTC: 116,
+  ocrText: '',
+  tags: [],
+  scannedAt: new Date(2026, 9, 1),
+};
+
+const recipe: Recipe = {
+  id: 'sauce',
+  title: 'Sauce beurre blanc',
+  portions: 10,
+  createdAt: new Date(2026, 0, 1),
+  updatedAt: new Date(2026, 0, 1),
+};
+
+const recipeLines: RecipeIngredient[] = [
+  { id: 'l1', recipeId: 'sauce', ingredientId: 'butter', requiredQuantity: 500, requiredUnit: 'g' },
+  { id: 'l2', recipeId: 'sauce', ingredientId: 'cream', requiredQuantity: 0.5, requiredUnit: 'l' },
+];
+
+const sale: RecipeOutput = {
+  id: 'out-1',
+  recipeId: 'sauce',
+  recipeTitle: 'Sauce beurre blanc',
+  kind: 'sale',
+  portions: 20,
+  date: new Date(2026, 9, 3),
+  createdAt: new Date(2026, 9, 3),
+};
+
+describe('stock', () => {
+  it('adds invoice quantities and subtracts recipe consumption', () => {
+    const movements = buildStockMovements({
+      invoices: [invoice],
+      outputs: [sale],
+      recipes: [recipe],
+      recipeLines,
+      ingredients: [butter, cream],
+    });
+    const levels = computeStockLevels([butter, cream], movements, []);
+
+    const butterLevel = levels.find((level) => level.ingredient.id === 'butter')!;
+    expect(butterLevel.inputQuantity).toBe(10);
+    expect(butterLevel.outputQuantity).toBe(1);
+    expect(butterLevel.theoreticalQuantity).toBe(9);
+    expect(butterLevel.stockValue).toBe(72);
+
+    const creamLevel = levels.find((level) => level.ingredient.id === 'cream')!;
+    expect(creamLevel.theoreticalQuantity).toBe(5);
+  });
+
+  it('restarts from the last count and ignores older movements', () => {
+    const movements = buildStockMovements({
+      invoices: [invoice],
+      outputs: [sale],
+      recipes: [recipe],
+      recipeLines,
+      ingredients: [butter, cream],
+    });
+    const count: StockCount = {
+      id: 'count-1',
+      countedAt: new Date(2026, 9, 2),
+      lines: [
+        { ingredientId: 'butter', ingredientName: 'Beurre doux', unit: 'kg', theoreticalQuantity: 10, countedQuantity: 8, unitPrice: 8 },
+      ],
+    };
+
+    const [butterLevel] = computeStockLevels([butter], movements, [count]);
+    expect(butterLevel.lastCount?.countedQuantity).toBe(8);
+    expect(butterLevel.inputQuantity).toBe(0);
+    expect(butterLevel.theoreticalQuantity).toBe(7);
+  });
+
+  it('values count gaps at the frozen unit price', () => {
+    const summary = summarizeStockCount({
+      id: 'count-2',
+      countedAt: new Date(2026, 9, 10),
+      lines: [
+        { ingredientId: 'cream', ingredientName: 'Creme liquide', unit: 'l', theoreticalQuantity: 5, countedQuantity: 6, unitPrice: 4 },
+        { ingredientId: 'butter', ingredientName: 'Beurre doux', unit: 'kg', theoreticalQuantity: 9, countedQuantity: 7.5, unitPrice: 8 },
+      ],
+    });
+
+    expect(summary.lines[0]).toMatchObject({ ingredientId: 'butter', gap: -1.5, gapValue: -12 });
+    expect(summary.lossValue).toBe(-12);
+    expect(summary.totalGapValue).toBe(-8);
+  });
+});
@@ -0,0 +1,205 @@
+import { findBestIngredientMatch } from './ingredientMatch';
+import {
+  buildSubRecipeContext,
+  computeRecipeConsumption,
+  getEffectiveUnitPrice,
+  type RecipeCostInputLine,
+  type SubRecipeContext,
+} from './recipeCost';
+import type {
+  Ingredient,
+  Invoice,
+  Recipe,
+  RecipeIngredient,
+  RecipeOutput,
+  StockCount,
+  StockCountLine,
+} from '../types';
+
+export type StockMovementSource = 'invoice' | 'production' | 'sale';
+
+export interface StockMovement {
+  ingredientId: string;
+  date: Date;
+  /** Signed quantity in the ingredient unit: positive for purchases, negative for consumption. */
+  quantity: number;
+  source: StockMovementSource;
+  label: string;
+}
+
+export interface StockLevel {
+  ingredient: Ingredient;
+  theoreticalQuantity: number;
+  inputQuantity: number;
+  outputQuantity: number;
+  lastCount?: { countedAt: Date; countedQuantity: number; theoreticalQuantity: number };
+  unitPrice: number;
+  stockValue: number;
+}
+
+export interface StockGapLine extends StockCountLine {
+  gap: number;
+  gapValue: number;
+}
+
+export interface StockCountSummary {
+  lines: StockGapLine[];
+  totalGapValue: number;
+  lossValue: number;
+}
+
+function roundQuantity(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Invoice lines raise stock through the same name matching as the price sync.
+ * Quantities follow getEffectiveUnitPrice: one invoice unit holds `conditioningQuantity` ingredient units.
+ */
+export function buildInvoiceMovements(invoice: Invoice, ingredients: Ingredient[]): StockMovement[] {
+  const movements: StockMovement[] = [];
+  for (const item of invoice.items) {
+    const designation = item.designation.trim();
+    if (!designation || !Number.isFinite(item.quantity) || item.quantity <= 0) continue;
+    const match = findBestIngredientMatch(designation, ingredients);
+    if (!match) continue;
+    const conditioning = item.conditioningQuantity && item.conditioningQuantity > 1 ? item.conditioningQuantity : 1;
+    movements.push({
+      ingredientId: match.ingredient.id,
+      date: new Date(invoice.invoiceDate),
+      quantity: item.quantity * conditioning,
+      source: 'invoice',
+      label: `${invoice.supplier} ${invoice.invoiceNumber}`.trim(),
+    });
+  }
+  return movements;
+}
+
+/** Sub-recipes used by the recipe are expanded down to their purchased ingredients. */
+export function buildRecipeOutputMovements(
+  output: RecipeOutput,
+  recipe: Recipe | undefined,
+  lines: RecipeCostInputLine[],
+  ingredientMap: Map<string, Ingredient>,
+  context?: SubRecipeContext,
+): StockMovement[] {
+  if (!recipe || !Number.isFinite(output.portions) || output.portions <= 0) return [];
+  const ratio = output.portions / Math.max(1, recipe.portions);
+  return computeRecipeConsumption(lines, ingredientMap, context, recipe.id)
+    .filter((entry) => entry.quantity > 0)
+    .map((entry) => ({
+      ingredientId: entry.ingredient.id,
+      date: new Date(output.date),
+      quantity: -entry.quantity * ratio,
+      source: output.kind,
+      label: output.recipeTitle,
+    }));
+}
+
+export function buildStockMovements(input: {
+  invoices: Invoice[];
+  outputs: RecipeOutput[];
+  recipes: Recipe[];
+  recipeLines: RecipeIngredient[];
+  ingredients: Ingredient[];
+}): StockMovement[] {
+  const ingredientMap = new Map(input.ingredients.map((ingredient) => [ingredient.id, ingredient]));
+  const context = buildSubRecipeContext(input.recipes, input.recipeLines);
+
+  return [
+    ...input.invoices.flatMap((invoice) => buildInvoiceMovements(invoice, input.ingredients)),
+    ...input.outputs.flatMap((output) =>
+      buildRecipeOutputMovements(
+        output,
+        context.recipeMap.get(output.recipeId),
+        context.linesByRecipe.get(output.recipeId) ?? [],
+        ingredientMap,
+        context,
+      ),
+    ),
+  ];
+}
+
+/**
+ * Theoretical stock = last counted quantity + movements dated after that count.
+ * Without any count the ingredient starts from zero.
+ */
+export function computeStockLevels(
+  ingredients: Ingredient[],
+  movements: StockMovement[],
+  counts: StockCount[],
+): StockLevel[] {
+  const sortedCounts = [...counts].sort((a, b) => new Date(b.countedAt).getTime() - new Date(a.countedAt).getTime());
+  const movementsByIngredient = new Map<string, StockMovement[]>();
+  for (const movement of movements) {
+    const list = movementsByIngredient.get(movement.ingredientId);
+    if (list) list.push(movement);
+    else movementsByIngredient.set(movement.ingredientId, [movement]);
+  }
+
+  return ingredients.map((ingredient) => {
+    let lastCount: StockLevel['lastCount'];
+    for (const count of sortedCounts) {
+      const line = count.lines.find((entry) => entry.ingredientId === ingredient.id);
+      if (!line) continue;
+      lastCount = {
+        countedAt: new Date(count.countedAt),
+        countedQuantity: line.countedQuantity,
+        theoreticalQuantity: line.theoreticalQuantity,
+      };
+      break;
+    }
+
+    const since = lastCount?.countedAt.getTime() ?? Number.NEGATIVE_INFINITY;
+    let inputQuantity = 0;
+    let outputQuantity = 0;
+    for (const movement of movementsByIngredient.get(ingredient.id) ?? []) {
+      if (movement.date.getTime() <= since) continue;
+      if (movement.quantity >= 0) inputQuantity += movement.quantity;
+      else outputQuantity -= movement.quantity;
+    }
+
+    const unitPrice = getEffectiveUnitPrice(ingredient);
+    const theoreticalQuantity = roundQuantity((lastCount?.countedQuantity ?? 0) + inputQuantity - outputQuantity);
+    return {
+      ingredient,
+      theoreticalQuantity,
+      inputQuantity: roundQuantity(inputQuantity),
+      outputQuantity: roundQuantity(outputQuantity),
+      lastCount,
+      unitPrice,
+      stockValue: roundMoney(Math.max(0, theoreticalQuantity) * unitPrice),
+    };
+  });
+}
+
+export function createStockCountLine(level: StockLevel, countedQuantity: number): StockCountLine {
+  return {
+    ingredientId: level.ingredient.id,
+    ingredientName: level.ingredient.name,
+    unit: level.ingredient.unit,
+    theoreticalQuantity: level.theoreticalQuantity,
+    countedQuantity,
+    unitPrice: level.unitPrice,
+  };
+}
+
+/** Negative gaps are missing stock (waste, theft, unrecorded production). */
+export function summarizeStockCount(count: StockCount): StockCountSummary {
+  const lines = count.lines
+    .map((line) => {
+      const gap = roundQuantity(line.countedQuantity - line.theoreticalQuantity);
+      return { ...line, gap, gapValue: roundMoney(gap * line.unitPrice) };
+    })
+    .sort((a, b) => a.gapValue - b.gapValue);
+
+  return {
+    lines,
+    totalGapValue: roundMoney(lines.reduce((sum, line) => sum + line.gapValue, 0)),
+    lossValue: roundMoney(lines.reduce((sum, line) => sum + Math.min(0, line.gapValue), 0)),
+  };
+}
@@ -160,6 +160,11 @@ export function buildProductPhotoPath(productId: string, blob: Blob): string {
   return `${SUPABASE_WORKSPACE_ID}/products/${productId}/${Date.now()}.${ext}`;
 }
 
+export function buildRecipePhotoPath(recipeId: string, blob: Blob): string {
+  const ext = getFileExtension(blob);
+  return `${SUPABASE_WORKSPACE_ID}/recipes/${recipeId}/${Date.now()}.${ext}`;
+}
+
 export function buildInvoiceImagePath(invoiceId: string, index: number, blob: Blob): string {
   const ext = getFileExtension(blob);
   return `${SUPABASE_WORKSPACE_ID}/invoices/${invoiceId}/${index}-${Date.now()}.${ext}`;
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import type { Supplier } from '../types';
+import {
+  checkOrderAgainstSupplier,
+  findSupplierByName,
+  getNextDeliveryDate,
+  getOrderDeadline,
+} from './supplierDirectory';
+
+function makeSupplier(overrides: Partial<Supplier> = {}): Supplier {
+  return {
+    id: 'sup-1',
+    name: 'Transgourmet',
+    deliveryDays: [2, 5],
+    orderCutoffTime: '14:00',
+    leadTimeDays: 1,
+    minimumOrderHT: 150,
+    francoHT: 300,
+    createdAt: new Date('2026-01-01T00:00:00'),
+    updatedAt: new Date('2026-01-01T00:00:00'),
+    ...overrides,
+  };
+}
+
+describe('supplier directory', () => {
+  it('matches free-text supplier names through their canonical key', () => {
+    const suppliers = [makeSupplier(), makeSupplier({ id: 'sup-2', name: 'Toute la Maree' })];
+    expect(findSupplierByName(suppliers, 'TRANSGOURMET FRANCE SAS')?.id).toBe('sup-1');
+    expect(findSupplierByName(suppliers, 'TLM')?.id).toBe('sup-2');
+    expect(findSupplierByName(suppliers, 'Metro')).toBeUndefined();
+    expect(findSupplierByName(suppliers, '  ')).toBeUndefined();
+  });
+
+  it('computes the order deadline from cutoff time and lead time', () => {
+    const deadline = getOrderDeadline(makeSupplier(), new Date('2026-10-20T00:00:00'));
+    expect(deadline?.getTime()).toBe(new Date('2026-10-19T14:00:00').getTime());
+    expect(getOrderDeadline(makeSupplier({ orderCutoffTime: undefined }), new Date('2026-10-20T00:00:00'))).toBeNull();
+  });
+
+  it('warns when the order is below the minimum and the franco de port', () => {
+    const warnings = checkOrderAgainstSupplier(
+      { totalHT: 120, status: 'draft', expectedDeliveryDate: undefined },
+      makeSupplier(),
+    );
+    expect(warnings.map((warning) => [warning.kind, warning.severity])).toEqual([
+      ['below_minimum', 'warning'],
+      ['below_franco', 'info'],
+    ]);
+    expect(
+      checkOrderAgainstSupplier({ totalHT: 0, status: 'draft', expectedDeliveryDate: undefined }, makeSupplier()),
+    ).toEqual([]);
+  });
+
+  it('flags a missed cutoff and proposes the next reachable delivery day', () => {
+    const now = new Date('2026-10-19T15:00:00');
+    const warnings = checkOrderAgainstSupplier(
+      { totalHT: 400, status: 'draft', expectedDeliveryDate: new Date('2026-10-20T00:00:00') },
+      makeSupplier(),
+      now,
+    );
+    expect(warnings.map((warning) => warning.kind)).toEqual(['cutoff_missed']);
+    expect(warnings[0].message).toContain('Ven 23/10');
+    expect(getNextDeliveryDate(makeSupplier(), now)?.getDate()).toBe(23);
+
+    const onTime = checkOrderAgainstSupplier(
+      { totalHT: 400, status: 'draft', expectedDeliveryDate: new Date('2026-10-20T00:00:00') },
+      makeSupplier(),
+      new Date('2026-10-19T13:30:00'),
+    );
+    expect(onTime).toEqual([]);
+  });
+
+  it('flags delivery dates outside the supplier schedule, only for drafts', () => {
+    const order = { totalHT: 400, status: 'draft' as const, expectedDeliveryDate: new Date('2026-10-21T00:00:00') };
+    const now = new Date('2026-10-18T10:00:00');
+    expect(checkOrderAgainstSupplier(order, makeSupplier(), now).map((warning) => warning.kind)).toEqual([
+      'no_delivery_day',
+    ]);
+    expect(checkOrderAgainstSupplier({ ...order, status: 'sent' }, makeSupplier(), now)).toEqual([]);
+    expect(checkOrderAgainstSupplier(order, makeSupplier({ deliveryDays: [] }), now)).toEqual([]);
+  });
+});
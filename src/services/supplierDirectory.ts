@@ -0,0 +1,123 @@
+import type { Order, Supplier, SupplierOrderWarning } from '../types';
+import { canonicalizeSupplierName, normalizeSupplierKey } from './suppliers';
+
+export const DEFAULT_SUPPLIER_LEAD_TIME_DAYS = 1;
+export const WEEKDAY_LABELS = ['Dim', 'Lun', 'Mar', 'Mer', 'Jeu', 'Ven', 'Sam'];
+/** Monday first, as printed on supplier delivery schedules. */
+export const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+const MAX_DELIVERY_LOOKAHEAD_DAYS = 14;
+
+function supplierKey(value: string): string {
+  return normalizeSupplierKey(canonicalizeSupplierName(value));
+}
+
+function formatDay(date: Date): string {
+  const day = String(date.getDate()).padStart(2, '0');
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  return `${WEEKDAY_LABELS[date.getDay()]} ${day}/${month}`;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/** Directory entry for a free-text supplier name (order, invoice or product trace). */
+export function findSupplierByName(suppliers: Supplier[], name: string): Supplier | undefined {
+  const key = supplierKey(name);
+  if (!key) return undefined;
+  return suppliers.find((supplier) => supplierKey(supplier.name) === key);
+}
+
+export function formatDeliveryDays(days: number[]): string {
+  if (days.length === 0) return 'Tous les jours';
+  return WEEKDAY_ORDER.filter((day) => days.includes(day))
+    .map((day) => WEEKDAY_LABELS[day])
+    .join(', ');
+}
+
+export function isDeliveryDay(supplier: Supplier, date: Date): boolean {
+  return supplier.deliveryDays.length === 0 || supplier.deliveryDays.includes(date.getDay());
+}
+
+/**
+ * Last moment to order for a delivery on `deliveryDate`: the cutoff time,
+ * lead-time days earlier. Null when the supplier has no cutoff.
+ */
+export function getOrderDeadline(supplier: Supplier, deliveryDate: Date): Date | null {
+  if (!supplier.orderCutoffTime) return null;
+  const [hours, minutes] = supplier.orderCutoffTime.split(':').map(Number);
+  if (!Number.isFinite(hours) || !Number.isFinite(minutes)) return null;
+  const deadline = startOfDay(deliveryDate);
+  deadline.setDate(deadline.getDate() - (supplier.leadTimeDays ?? DEFAULT_SUPPLIER_LEAD_TIME_DAYS));
+  deadline.setHours(hours, minutes, 0, 0);
+  return deadline;
+}
+
+/** Earliest delivery day still reachable when ordering at `now`. */
+export function getNextDeliveryDate(supplier: Supplier, now: Date): Date | null {
+  const leadTime = supplier.orderCutoffTime ? 0 : supplier.leadTimeDays ?? DEFAULT_SUPPLIER_LEAD_TIME_DAYS;
+  for (let offset = leadTime; offset <= MAX_DELIVERY_LOOKAHEAD_DAYS; offset++) {
+    const candidate = startOfDay(now);
+    candidate.setDate(candidate.getDate() + offset);
+    if (!isDeliveryDay(supplier, candidate)) continue;
+    const deadline = getOrderDeadline(supplier, candidate);
+    if (deadline && deadline.getTime() < now.getTime()) continue;
+    return candidate;
+  }
+  return null;
+}
+
+/**
+ * Supplier conditions the order breaks: minimum amount and delivery schedule.
+ * Amounts are only checked once the order has prices; the schedule only when
+ * a delivery date is set and the order is still to be sent.
+ */
+export function checkOrderAgainstSupplier(
+  order: Pick<Order, 'totalHT' | 'expectedDeliveryDate' | 'status'>,
+  supplier: Supplier,
+  now: Date = new Date(),
+): SupplierOrderWarning[] {
+  const warnings: SupplierOrderWarning[] = [];
+  const total = order.totalHT;
+
+  if (total > 0 && supplier.minimumOrderHT && total < supplier.minimumOrderHT) {
+    warnings.push({
+      kind: 'below_minimum',
+      severity: 'warning',
+      message: `Minimum de commande ${supplier.minimumOrderHT.toFixed(2)} EUR HT non atteint (${total.toFixed(2)} EUR HT).`,
+    });
+  }
+  if (total > 0 && supplier.francoHT && total < supplier.francoHT) {
+    warnings.push({
+      kind: 'below_franco',
+      severity: 'info',
+      message: `Franco de port a ${supplier.francoHT.toFixed(2)} EUR HT: encore ${(supplier.francoHT - total).toFixed(2)} EUR pour eviter les frais de port.`,
+    });
+  }
+
+  if (order.status !== 'draft' || !order.expectedDeliveryDate) return warnings;
+  const deliveryDate = new Date(order.expectedDeliveryDate);
+  if (!Number.isFinite(deliveryDate.getTime())) return warnings;
+
+  if (!isDeliveryDay(supplier, deliveryDate)) {
+    warnings.push({
+      kind: 'no_delivery_day',
+      severity: 'warning',
+      message: `${supplier.name} ne livre pas le ${formatDay(deliveryDate)} (livraisons: ${formatDeliveryDays(supplier.deliveryDays)}).`,
+    });
+  }
+
+  const deadline = getOrderDeadline(supplier, deliveryDate);
+  if (deadline && deadline.getTime() < now.getTime()) {
+    const next = getNextDeliveryDate(supplier, now);
+    warnings.push({
+      kind: 'cutoff_missed',
+      severity: 'warning',
+      message:
+        `Heure limite depassee: commander avant ${formatDay(deadline)} ${supplier.orderCutoffTime} pour une livraison le ${formatDay(deliveryDate)}.` +
+        (next ? ` Prochaine livraison possible: ${formatDay(next)}.` : ''),
+    });
+  }
+
+  return warnings;
+}
@@ -58,7 +58,8 @@ function diceScore(left: Set<string>, right: Set<string>): number {
   return (2 * intersection) / (left.size + right.size);
 }
 
-function similarityScore(source: string, target: string): number {
+/** Token and character similarity between two supplier labels (0..1). */
+export function similarityScore(source: string, target: string): number {
   const sourceTokens = toTokenSet(source);
   const targetTokens = toTokenSet(target);
   const tokenScore = jaccardScore(sourceTokens, targetTokens);
@@ -88,7 +89,7 @@ export async function resolveSupplierLine(line: SupplierLineInput): Promise<Supp
         ? undefined
         : await db.supplierProductMappings.where('[supplierId+supplierSku]').equals([GLOBAL_SUPPLIER_KEY, sku]).first();
     const skuMatch = exactBySku || exactBySkuGlobal;
-    if (skuMatch) {
+    if (skuMatch?.templateRecipeId) {
       return {
         templateRecipeId: skuMatch.templateRecipeId,
         quantityRatio: skuMatch.quantityRatio,
@@ -110,7 +111,7 @@ export async function resolveSupplierLine(line: SupplierLineInput): Promise<Supp
           .equals([GLOBAL_SUPPLIER_KEY, normalizedLabel])
           .first();
   const labelMatch = exactByLabel || exactByLabelGlobal;
-  if (labelMatch) {
+  if (labelMatch?.templateRecipeId) {
     return {
       templateRecipeId: labelMatch.templateRecipeId,
       quantityRatio: labelMatch.quantityRatio,
@@ -162,6 +163,7 @@ export async function upsertSupplierProductMapping(input: UpsertMappingInput): P
   }
 
   const payload: SupplierProductMapping = {
+    ...existing,
     id: existing?.id || crypto.randomUUID(),
     supplierId,
     supplierSku,
@@ -173,3 +175,63 @@ export async function upsertSupplierProductMapping(input: UpsertMappingInput): P
 
   await db.supplierProductMappings.put(payload);
 }
+
+async function findLabelMapping(supplierId: string, label: string): Promise<SupplierProductMapping | undefined> {
+  return db.supplierProductMappings
+    .where('[supplierId+supplierLabelNormalized]')
+    .equals([supplierId, label])
+    .first();
+}
+
+/** Ingredient learned for a supplier label, and the ingredients refused for it. */
+export async function resolveIngredientMapping(
+  supplier: string | undefined,
+  label: string,
+): Promise<{ ingredientId?: string; rejectedIngredientIds: string[] }> {
+  const supplierId = supplier?.trim() || GLOBAL_SUPPLIER_KEY;
+  const normalizedLabel = normalizeSupplierLabel(label);
+  if (!normalizedLabel) return { rejectedIngredientIds: [] };
+  const mapping = await findLabelMapping(supplierId, normalizedLabel);
+  return {
+    ingredientId: mapping?.ingredientId,
+    rejectedIngredientIds: mapping?.rejectedIngredientIds ?? [],
+  };
+}
+
+/**
+ * Records a reviewed supplier label / ingredient pair. An approved pair becomes
+ * the trusted match, a rejected one is excluded from future fuzzy matches.
+ */
+export async function trainIngredientMapping(input: {
+  supplier?: string;
+  label: string;
+  ingredientId: string;
+  approved: boolean;
+}): Promise<void> {
+  const supplierId = input.supplier?.trim() || GLOBAL_SUPPLIER_KEY;
+  const supplierLabelNormalized = normalizeSupplierLabel(input.label);
+  if (!supplierLabelNormalized || !input.ingredientId) return;
+
+  const existing = await findLabelMapping(supplierId, supplierLabelNormalized);
+  const rejected = new Set(existing?.rejectedIngredientIds ?? []);
+  let ingredientId = existing?.ingredientId;
+  if (input.approved) {
+    rejected.delete(input.ingredientId);
+    ingredientId = input.ingredientId;
+  } else {
+    rejected.add(input.ingredientId);
+    if (ingredientId === input.ingredientId) ingredientId = undefined;
+  }
+
+  await db.supplierProductMappings.put({
+    id: existing?.id || crypto.randomUUID(),
+    supplierId,
+    supplierSku: existing?.supplierSku,
+    supplierLabelNormalized,
+    templateRecipeId: existing?.templateRecipeId ?? '',
+    quantityRatio: existing?.quantityRatio ?? 1,
+    confidence: input.approved ? 1 : existing?.confidence ?? 0,
+    ingredientId,
+    rejectedIngredientIds: [...rejected],
+  });
+}
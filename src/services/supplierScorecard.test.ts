@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import type { Invoice, Order, PriceHistory, SupplierNonConformity } from '../types';
+import { buildSupplierScorecards, buildSupplierTrend, getScorecardPeriod } from './supplierScorecard';
+
+function makeOrder(overrides: Partial<Order> = {}): Order {
+  return {
+    id: 'o-1',
+    orderNumber: 'CMD-2026-001',
+    supplier: 'Metro',
+    status: 'received',
+    items: [{ id: 'i-1', productName: 'Saumon', quantity: 5, unit: 'kg', unitPriceHT: 20, totalPriceHT: 100 }],
+    orderDate: new Date(2026, 8, 1),
+    expectedDeliveryDate: new Date(2026, 8, 3),
+    actualDeliveryDate: new Date(2026, 8, 3, 9),
+    totalHT: 100,
+    createdAt: new Date(2026, 8, 1),
+    updatedAt: new Date(2026, 8, 1),
+    ...overrides,
+  };
+}
+
+function makeInvoice(overrides: Partial<Invoice> = {}): Invoice {
+  return {
+    id: 'inv-1',
+    images: [],
+    supplier: 'Metro',
+    invoiceNumber: 'F-1',
+    invoiceDate: new Date(2026, 8, 5),
+    items: [{ designation: 'Saumon', quantity: 5, unitPriceHT: 20, totalPriceHT: 100 }],
+    totalHT: 100,
+    totalTVA: 5.5,
+    totalTTC: 105.5,
+    ocrText: '',
+    tags: [],
+    scannedAt: new Date(2026, 8, 5),
+    ...overrides,
+  };
+}
+
+const priceHistory: PriceHistory[] = [
+  {
+    id: 'p-1',
+    itemName: 'Saumon',
+    supplier: 'METRO',
+    prices: [
+      // Before the period, ignored
+      { date: new Date(2025, 0, 10), price: 10 },
+      { date: new Date(2026, 8, 5), price: 18 },
+      { date: new Date(2026, 9, 5), price: 22 },
+    ],
+    averagePrice: 16.67,
+    minPrice: 10,
+    maxPrice: 22,
+  },
+];
+
+const nonConformity: SupplierNonConformity = {
+  id: 'nc-1',
+  supplier: 'Metro',
+  orderId: 'o-2',
+  orderNumber: 'CMD-2026-002',
+  orderItemId: 'i-1',
+  productName: 'Saumon',
+  type: 'rejected',
+  orderedQuantity: 5,
+  receivedQuantity: 0,
+  unit: 'kg',
+  createdAt: new Date(2026, 9, 4),
+};
+
+describe('supplier scorecard', () => {
+  const period = getScorecardPeriod('3m', new Date(2026, 9, 18));
+
+  it('scores delivery, prices, spend, discrepancies and non-conformities per supplier', () => {
+    const scorecards = buildSupplierScorecards(
+      {
+        orders: [
+          makeOrder(),
+          makeOrder({
+            id: 'o-2',
+            orderDate: new Date(2026, 9, 1),
+            expectedDeliveryDate: new Date(2026, 9, 2),
+            actualDeliveryDate: new Date(2026, 9, 4),
+            status: 'invoiced',
+            invoiceId: 'inv-2',
+            reception: {
+              receivedAt: new Date(2026, 9, 4),
+              lines: [
+                {
+                  orderItemId: 'i-1',
+                  productName: 'Saumon',
+                  orderedQuantity: 5,
+                  receivedQuantity: 5,
+                  unit: 'kg',
+                  packaging: 'damaged',
+                  decision: 'rejected',
+                },
+              ],
+            },
+          }),
+          makeOrder({ id: 'o-3', supplier: 'Pomona', expectedDeliveryDate: undefined }),
+          // Outside the period
+          makeOrder({ id: 'o-4', orderDate: new Date(2026, 2, 1), actualDeliveryDate: new Date(2026, 2, 9) }),
+        ],
+        invoices: [
+          makeInvoice(),
+          makeInvoice({
+            id: 'inv-2',
+            invoiceDate: new Date(2026, 9, 6),
+            items: [{ designation: 'Saumon', quantity: 5, unitPriceHT: 22, totalPriceHT: 110 }],
+            totalHT: 110,
+          }),
+          makeInvoice({ id: 'inv-3', supplier: 'Pomona', totalHT: 90 }),
+        ],
+        priceHistory,
+        nonConformities: [nonConformity],
+      },
+      period,
+    );
+
+    expect(scorecards.map((row) => row.supplier)).toEqual(['Metro', 'Pomona']);
+    const [metro, pomona] = scorecards;
+    expect(metro).toMatchObject({
+      orders: 2,
+      measuredDeliveries: 2,
+      onTimeDeliveries: 1,
+      onTimeRate: 0.5,
+      averageLatenessDays: 2,
+      priceVolatility: 20,
+      spendHT: 210,
+      spendShare: 0.7,
+      reconciledOrders: 1,
+      discrepantOrders: 1,
+      disputeTotal: 110,
+      nonConformities: 1,
+      rejectedLines: 1,
+      fillRate: 0,
+    });
+    expect(pomona).toMatchObject({ measuredDeliveries: 0, onTimeRate: null, priceVolatility: null, spendShare: 0.3 });
+  });
+
+  it('builds a monthly trend for one supplier', () => {
+    const trend = buildSupplierTrend(
+      {
+        orders: [makeOrder()],
+        invoices: [makeInvoice(), makeInvoice({ id: 'inv-2', invoiceDate: new Date(2026, 9, 6), totalHT: 40 })],
+        priceHistory,
+        nonConformities: [nonConformity],
+      },
+      'metro',
+      period,
+    );
+
+    expect(trend.map((point) => point.month)).toEqual(['08/26', '09/26', '10/26']);
+    expect(trend.map((point) => point.spendHT)).toEqual([0, 100, 40]);
+    expect(trend.map((point) => point.onTimeRate)).toEqual([null, 100, null]);
+    expect(trend.map((point) => point.nonConformities)).toEqual([0, 0, 1]);
+  });
+});
@@ -0,0 +1,231 @@
+import { differenceInCalendarDays, endOfMonth, format, startOfMonth, subMonths } from 'date-fns';
+import type { Invoice, Order, PriceHistory, SupplierNonConformity } from '../types';
+import { computePriceVariation } from './analyticsEngine';
+import { computeSupplierFillRates } from './orderReception';
+import { reconcileOrderWithInvoice } from './orderReconciliation';
+import { canonicalizeSupplierName, normalizeSupplierKey } from './suppliers';
+
+export type ScorecardPeriodPreset = '1m' | '3m' | '6m' | '12m';
+
+export const SCORECARD_PERIOD_LABELS: Record<ScorecardPeriodPreset, string> = {
+  '1m': 'Mois en cours',
+  '3m': '3 mois',
+  '6m': '6 mois',
+  '12m': '12 mois',
+};
+
+export interface ScorecardPeriod {
+  from: Date;
+  to: Date;
+}
+
+export interface ScorecardInput {
+  orders: Order[];
+  invoices: Invoice[];
+  priceHistory: PriceHistory[];
+  nonConformities: SupplierNonConformity[];
+}
+
+export interface SupplierScorecard {
+  key: string;
+  supplier: string;
+  /** Orders placed in the period. */
+  orders: number;
+  /** Deliveries with both an expected and an actual date. */
+  measuredDeliveries: number;
+  onTimeDeliveries: number;
+  /** From 0 to 1, null without measured deliveries. */
+  onTimeRate: number | null;
+  /** Average delay of the late deliveries, in days. */
+  averageLatenessDays: number | null;
+  /** Mean price variation of the products invoiced at least twice in the period, in %. */
+  priceVolatility: number | null;
+  spendHT: number;
+  /** Share of the period spend, from 0 to 1. */
+  spendShare: number;
+  /** Invoiced orders checked against their invoice. */
+  reconciledOrders: number;
+  discrepantOrders: number;
+  disputeTotal: number;
+  nonConformities: number;
+  rejectedLines: number;
+  /** Share of the ordered quantities accepted at reception, from 0 to 1. */
+  fillRate: number | null;
+}
+
+export interface SupplierTrendPoint {
+  month: string;
+  spendHT: number;
+  /** In %, null when no delivery was measured that month. */
+  onTimeRate: number | null;
+  priceVolatility: number | null;
+  nonConformities: number;
+  disputeTotal: number;
+}
+
+const PRESET_MONTHS: Record<ScorecardPeriodPreset, number> = { '1m': 1, '3m': 3, '6m': 6, '12m': 12 };
+
+export function getScorecardPeriod(preset: ScorecardPeriodPreset, now: Date = new Date()): ScorecardPeriod {
+  return { from: startOfMonth(subMonths(now, PRESET_MONTHS[preset] - 1)), to: now };
+}
+
+export function getSupplierKey(value: string): string {
+  return normalizeSupplierKey(canonicalizeSupplierName(value));
+}
+
+function inPeriod(value: Date | string | undefined, period: ScorecardPeriod): boolean {
+  if (!value) return false;
+  const time = new Date(value).getTime();
+  return time >= period.from.getTime() && time <= period.to.getTime();
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+/** Price history restricted to the period, so that old tariffs do not count as volatility. */
+function getPeriodVariation(entry: PriceHistory, period: ScorecardPeriod): number | null {
+  const prices = entry.prices.filter((price) => inPeriod(price.date, period) && price.price > 0);
+  if (prices.length < 2) return null;
+  const values = prices.map((price) => price.price);
+  return computePriceVariation({
+    ...entry,
+    prices,
+    averagePrice: values.reduce((sum, value) => sum + value, 0) / values.length,
+    minPrice: Math.min(...values),
+    maxPrice: Math.max(...values),
+  });
+}
+
+type ScorecardAccumulator = Omit<SupplierScorecard, 'onTimeRate' | 'averageLatenessDays' | 'priceVolatility' | 'spendShare' | 'fillRate'> & {
+  latenessDays: number[];
+  variations: number[];
+};
+
+/** One scorecard per supplier active in the period, biggest spend first. */
+export function buildSupplierScorecards(input: ScorecardInput, period: ScorecardPeriod): SupplierScorecard[] {
+  const groups = new Map<string, ScorecardAccumulator>();
+  const groupFor = (name: string): ScorecardAccumulator | null => {
+    const key = getSupplierKey(name);
+    if (!key) return null;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        key,
+        supplier: canonicalizeSupplierName(name),
+        orders: 0,
+        measuredDeliveries: 0,
+        onTimeDeliveries: 0,
+        spendHT: 0,
+        reconciledOrders: 0,
+        discrepantOrders: 0,
+        disputeTotal: 0,
+        nonConformities: 0,
+        rejectedLines: 0,
+        latenessDays: [],
+        variations: [],
+      };
+      groups.set(key, group);
+    }
+    return group;
+  };
+
+  const invoiceMap = new Map(input.invoices.map((invoice) => [invoice.id, invoice]));
+  const deliveredOrders: Order[] = [];
+
+  for (const order of input.orders) {
+    if (inPeriod(order.orderDate, period)) {
+      const group = groupFor(order.supplier);
+      if (group) group.orders += 1;
+    }
+
+    if (order.actualDeliveryDate && inPeriod(order.actualDeliveryDate, period)) {
+      deliveredOrders.push(order);
+      const group = groupFor(order.supplier);
+      if (group && order.expectedDeliveryDate) {
+        const lateness = differenceInCalendarDays(new Date(order.actualDeliveryDate), new Date(order.expectedDeliveryDate));
+        group.measuredDeliveries += 1;
+        if (lateness <= 0) group.onTimeDeliveries += 1;
+        else group.latenessDays.push(lateness);
+      }
+    }
+
+    const invoice = order.status === 'invoiced' && order.invoiceId ? invoiceMap.get(order.invoiceId) : undefined;
+    if (invoice && inPeriod(invoice.invoiceDate, period)) {
+      const group = groupFor(order.supplier);
+      if (group) {
+        const reconciliation = reconcileOrderWithInvoice(order, invoice);
+        group.reconciledOrders += 1;
+        if (reconciliation.issueCount > 0) group.discrepantOrders += 1;
+        group.disputeTotal += reconciliation.disputeTotal;
+      }
+    }
+  }
+
+  for (const invoice of input.invoices) {
+    if (!inPeriod(invoice.invoiceDate, period)) continue;
+    const group = groupFor(invoice.supplier);
+    if (group) group.spendHT += Number.isFinite(invoice.totalHT) ? invoice.totalHT : 0;
+  }
+
+  for (const entry of input.priceHistory) {
+    const variation = getPeriodVariation(entry, period);
+    if (variation === null) continue;
+    groupFor(entry.supplier)?.variations.push(variation);
+  }
+
+  for (const row of input.nonConformities) {
+    if (!inPeriod(row.createdAt, period)) continue;
+    const group = groupFor(row.supplier);
+    if (!group) continue;
+    group.nonConformities += 1;
+    if (row.type === 'rejected') group.rejectedLines += 1;
+  }
+
+  const fillRates = new Map(
+    computeSupplierFillRates(deliveredOrders).map((rate) => [getSupplierKey(rate.supplier), rate.fillRate]),
+  );
+  const totalSpend = Array.from(groups.values()).reduce((sum, group) => sum + group.spendHT, 0);
+
+  return Array.from(groups.values())
+    .map(({ latenessDays, variations, ...group }) => ({
+      ...group,
+      spendHT: roundMoney(group.spendHT),
+      spendShare: totalSpend > 0 ? group.spendHT / totalSpend : 0,
+      disputeTotal: roundMoney(group.disputeTotal),
+      onTimeRate: group.measuredDeliveries > 0 ? group.onTimeDeliveries / group.measuredDeliveries : null,
+      averageLatenessDays: average(latenessDays),
+      priceVolatility: average(variations),
+      fillRate: fillRates.get(group.key) ?? null,
+    }))
+    .sort((a, b) => b.spendHT - a.spendHT || a.supplier.localeCompare(b.supplier));
+}
+
+/** Month by month scorecard of one supplier over the period. */
+export function buildSupplierTrend(
+  input: ScorecardInput,
+  supplierKey: string,
+  period: ScorecardPeriod,
+): SupplierTrendPoint[] {
+  const points: SupplierTrendPoint[] = [];
+  for (let month = startOfMonth(period.from); month.getTime() <= period.to.getTime(); month = startOfMonth(subMonths(month, -1))) {
+    const monthEnd = endOfMonth(month);
+    const scorecard = buildSupplierScorecards(input, {
+      from: month,
+      to: monthEnd.getTime() < period.to.getTime() ? monthEnd : period.to,
+    }).find((row) => row.key === supplierKey);
+    points.push({
+      month: format(month, 'MM/yy'),
+      spendHT: scorecard?.spendHT ?? 0,
+      onTimeRate: scorecard?.onTimeRate != null ? Math.round(scorecard.onTimeRate * 100) : null,
+      priceVolatility: scorecard?.priceVolatility != null ? Math.round(scorecard.priceVolatility * 10) / 10 : null,
+      nonConformities: scorecard?.nonConformities ?? 0,
+      disputeTotal: scorecard?.disputeTotal ?? 0,
+    });
+  }
+  return points;
+}
@@ -1,21 +1,28 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { db, initDefaultData } from '../services/db';
 import { useAppStore } from './appStore';
-import type { Equipment, Invoice, ProductTrace, Task } from '../types';
+import type { Equipment, Invoice, Order, ProductTrace, Recipe, Task } from '../types';
 
 beforeEach(async () => {
   // Clear all tables before each test
   await db.equipment.clear();
   await db.temperatureRecords.clear();
+  await db.correctiveActions.clear();
+  await db.processTemperatureLogs.clear();
   await db.tasks.clear();
   await db.productTraces.clear();
   await db.invoices.clear();
   await db.orders.clear();
+  await db.supplierNonConformities.clear();
+  await db.suppliers.clear();
+  await db.standingOrders.clear();
   await db.priceHistory.clear();
   await db.settings.clear();
   await db.ingredients.clear();
   await db.recipes.clear();
   await db.recipeIngredients.clear();
+  await db.recipeOutputs.clear();
+  await db.stockCounts.clear();
   await db.supplierProductMappings.clear();
   await db.backupSnapshots.clear();
 
@@ -147,6 +154,90 @@ describe('temperature records', () => {
     expect(filtered.length).toBe(1);
     expect(filtered[0].equipmentId).toBe('eq-1');
   });
+
+  it('resolves pending corrective actions on the next reading', async () => {
+    const store = useAppStore.getState();
+    const anomalyAt = new Date(Date.now() - 60 * 60 * 1000);
+    await store.addTemperatureRecord({
+      id: 'r-anomaly',
+      equipmentId: 'eq-1',
+      temperature: 9,
+      timestamp: anomalyAt,
+      isCompliant: false,
+    });
+    await store.addCorrectiveAction({
+      id: 'ca-1',
+      temperatureRecordId: 'r-anomaly',
+      equipmentId: 'eq-1',
+      action: 'product_moved',
+      createdAt: anomalyAt,
+      recheckDueAt: new Date(anomalyAt.getTime() + 30 * 60 * 1000),
+    });
+
+    await store.addTemperatureRecord({
+      id: 'r-recheck',
+      equipmentId: 'eq-1',
+      temperature: 3,
+      timestamp: new Date(),
+      isCompliant: true,
+    });
+
+    const [action] = await store.getCorrectiveActions();
+    expect(action.resolvedByRecordId).toBe('r-recheck');
+    expect(action.resolvedAt).toBeInstanceOf(Date);
+  });
+
+  it('keeps the corrective action open after a non-compliant re-check', async () => {
+    const store = useAppStore.getState();
+    const anomalyAt = new Date(Date.now() - 60 * 60 * 1000);
+    await store.addTemperatureRecord({
+      id: 'r-anomaly',
+      equipmentId: 'eq-1',
+      temperature: 9,
+      timestamp: anomalyAt,
+      isCompliant: false,
+    });
+    // The re-check is scheduled even though no corrective action form was submitted.
+    const [scheduled] = await store.getCorrectiveActions();
+    expect(scheduled).toMatchObject({ temperatureRecordId: 'r-anomaly', action: 'recheck_scheduled', automatic: true });
+    expect(scheduled.resolvedAt).toBeUndefined();
+
+    await store.addTemperatureRecord({
+      id: 'r-recheck',
+      equipmentId: 'eq-1',
+      temperature: 8,
+      timestamp: new Date(),
+      isCompliant: false,
+    });
+
+    const actions = await store.getCorrectiveActions();
+    expect(actions).toHaveLength(2);
+    expect(actions.every((action) => action.resolvedAt === undefined)).toBe(true);
+    expect(actions[0]).toMatchObject({ temperatureRecordId: 'r-recheck' });
+    expect(new Date(actions[0].recheckDueAt).getTime()).toBeGreaterThan(Date.now());
+  });
+});
+
+describe('process temperature logs', () => {
+  it('stores compliance when a process is closed', async () => {
+    const store = useAppStore.getState();
+    const startedAt = new Date(Date.now() - 90 * 60 * 1000);
+    const open = await store.saveProcessTemperatureLog({
+      id: 'p-1',
+      processType: 'cooling',
+      productName: 'Blanquette',
+      startedAt,
+      startTemperature: 68,
+    });
+    expect(open.isCompliant).toBeUndefined();
+
+    await store.saveProcessTemperatureLog({ ...open, endedAt: new Date(), endTemperature: 12 });
+
+    const logs = await store.getProcessTemperatureLogs(undefined, undefined, 'cooling');
+    expect(logs).toHaveLength(1);
+    expect(logs[0].isCompliant).toBe(false);
+    expect(await store.getProcessTemperatureLogs(undefined, undefined, 'reheating')).toHaveLength(0);
+  });
 });
 
 describe('tasks', () => {
@@ -282,6 +373,129 @@ describe('invoices', () => {
   });
 });
 
+describe('order reception', () => {
+  it('records a short delivery with a backorder, traces accepted lines and logs non-conformities', async () => {
+    const store = useAppStore.getState();
+    const order: Order = {
+      id: 'order-1',
+      orderNumber: 'CMD-2026-001',
+      supplier: 'Metro',
+      status: 'sent',
+      items: [
+        { id: 'a', productName: 'Saumon', quantity: 5, unit: 'kg' },
+        { id: 'b', productName: 'Creme', quantity: 6, unit: 'l' },
+      ],
+      orderDate: new Date(),
+      totalHT: 0,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    await store.addOrder(order);
+
+    const receivedAt = new Date();
+    const received = await store.receiveOrder(order, {
+      receivedAt,
+      lines: [
+        {
+          orderItemId: 'a',
+          productName: 'Saumon',
+          orderedQuantity: 5,
+          receivedQuantity: 4,
+          unit: 'kg',
+          packaging: 'ok',
+          expirationDate: new Date(Date.now() + 3 * 86400000),
+          category: 'Poisson',
+          decision: 'accepted',
+        },
+        {
+          orderItemId: 'b',
+          productName: 'Creme',
+          orderedQuantity: 6,
+          receivedQuantity: 6,
+          unit: 'l',
+          packaging: 'damaged',
+          decision: 'rejected',
+          rejectionReason: 'Emballage perce',
+        },
+      ],
+    });
+
+    expect(received.status).toBe('partially_received');
+    expect(received.items.map((item) => item.receivedQuantity)).toEqual([4, 0]);
+    expect(received.reception?.lines[0].productTraceId).toBeDefined();
+
+    const traces = await db.productTraces.toArray();
+    expect(traces.map((trace) => trace.productName)).toEqual(['Saumon']);
+
+    const nonConformities = await store.getSupplierNonConformities('Metro');
+    expect(nonConformities.map((row) => row.type).sort()).toEqual(['quantity_gap', 'rejected']);
+    expect((await db.orders.get('order-1'))?.status).toBe('partially_received');
+
+    const backorder = received.backorder ? await db.orders.get(received.backorder.id) : undefined;
+    expect(backorder).toMatchObject({ status: 'sent', backorderOf: { id: 'order-1' } });
+    expect(backorder?.items.map((item) => [item.productName, item.quantity])).toEqual([['Saumon', 1]]);
+  });
+
+  it('drops the non-conformities a corrected reception no longer reports', async () => {
+    const store = useAppStore.getState();
+    const order: Order = {
+      id: 'order-1',
+      orderNumber: 'CMD-2026-001',
+      supplier: 'Metro',
+      status: 'sent',
+      items: [{ id: 'a', productName: 'Saumon', quantity: 5, unit: 'kg' }],
+      orderDate: new Date(),
+      totalHT: 0,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    await store.addOrder(order);
+    const line = {
+      orderItemId: 'a',
+      productName: 'Saumon',
+      orderedQuantity: 5,
+      receivedQuantity: 6,
+      unit: 'kg' as const,
+      packaging: 'ok' as const,
+      expirationDate: new Date(Date.now() + 3 * 86400000),
+      decision: 'accepted' as const,
+    };
+    const received = await store.receiveOrder(order, { receivedAt: new Date(), lines: [line] });
+    expect(await store.getSupplierNonConformities('Metro')).toHaveLength(1);
+
+    await store.receiveOrder(received, {
+      ...received.reception!,
+      lines: received.reception!.lines.map((row) => ({ ...row, receivedQuantity: 5 })),
+    });
+    expect(await store.getSupplierNonConformities('Metro')).toHaveLength(0);
+  });
+});
+
+describe('suppliers', () => {
+  it('saves a sanitized supplier and lists suppliers by name', async () => {
+    const store = useAppStore.getState();
+    const now = new Date();
+    await store.saveSupplier({
+      id: 'sup-b',
+      name: 'Pomona',
+      deliveryDays: [5, 2, 2, 9],
+      orderCutoffTime: '14h',
+      minimumOrderHT: -10,
+      email: '  ',
+      createdAt: now,
+      updatedAt: now,
+    });
+    await store.saveSupplier({ id: 'sup-a', name: 'Metro', deliveryDays: [], createdAt: now, updatedAt: now });
+
+    const suppliers = await store.getSuppliers();
+    expect(suppliers.map((supplier) => supplier.name)).toEqual(['Metro', 'Pomona']);
+    expect(suppliers[1]).toMatchObject({ deliveryDays: [2, 5], orderCutoffTime: undefined, minimumOrderHT: undefined, email: undefined });
+
+    await store.deleteSupplier('sup-a');
+    expect(await db.suppliers.count()).toBe(1);
+  });
+});
+
 describe('processRecurringTasks', () => {
   it('recreates daily recurring task from archived completed', async () => {
     const store = useAppStore.getState();
@@ -406,3 +620,75 @@ describe('price history', () => {
     expect(history[0].maxPrice).toBe(4.00);
   });
 });
+
+describe('sub-recipes', () => {
+  it('propagates sub-recipe allergens to the recipes using it', async () => {
+    const store = useAppStore.getState();
+    const now = new Date(2026, 9, 1);
+    const pastry: Recipe = { id: 'pastry', title: 'Pate brisee', portions: 1, createdAt: now, updatedAt: now };
+    const tart: Recipe = { id: 'tart', title: 'Tarte fine', portions: 6, createdAt: now, updatedAt: now };
+    await db.ingredients.bulkAdd([
+      { id: 'flour', name: 'Farine T55', unit: 'kg', unitPrice: 1 },
+      { id: 'butter', name: 'Beurre doux', unit: 'kg', unitPrice: 9 },
+    ]);
+
+    await store.saveRecipeWithIngredients(pastry, [
+      { id: 'p1', recipeId: 'pastry', ingredientId: 'flour', requiredQuantity: 1, requiredUnit: 'kg' },
+    ]);
+    await store.saveRecipeWithIngredients(tart, [
+      { id: 't1', recipeId: 'tart', ingredientId: '', subRecipeId: 'pastry', requiredQuantity: 1, requiredUnit: 'unite' },
+    ]);
+    expect((await db.recipes.get('tart'))?.allergens).toEqual(['Gluten']);
+
+    await store.saveRecipeWithIngredients({ ...pastry, allergens: ['Gluten'] }, [
+      { id: 'p1', recipeId: 'pastry', ingredientId: 'flour', requiredQuantity: 1, requiredUnit: 'kg' },
+      { id: 'p2', recipeId: 'pastry', ingredientId: 'butter', requiredQuantity: 0.5, requiredUnit: 'kg' },
+    ]);
+    expect((await db.recipes.get('tart'))?.allergens).toEqual(['Gluten', 'Lait']);
+
+    // The editor lists these parents in its confirmation before deleting.
+    expect((await store.getParentRecipes('pastry')).map((recipe) => recipe.title)).toEqual(['Tarte fine']);
+    expect(await store.getParentRecipes('tart')).toEqual([]);
+
+    await store.deleteRecipe('pastry');
+    expect(await db.recipeIngredients.where('recipeId').equals('tart').count()).toBe(0);
+    expect(await store.getParentRecipes('pastry')).toEqual([]);
+  });
+});
+
+describe('processStandingOrders', () => {
+  it('creates one numbered draft per occurrence of an active standing order', async () => {
+    const store = useAppStore.getState();
+    const year = new Date().getFullYear();
+    await store.addOrder({
+      id: 'existing',
+      orderNumber: `CMD-${year}-007`,
+      supplier: 'Metro',
+      status: 'sent',
+      items: [{ id: 'a', productName: 'Beurre', quantity: 2, unit: 'kg' }],
+      orderDate: new Date(),
+      totalHT: 0,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    const base = {
+      supplier: 'Boulangerie Martin',
+      items: [{ id: 'i', productName: 'Baguette', quantity: 40, unit: 'unite' as const, unitPriceHT: 0.9 }],
+      weekdays: [0, 1, 2, 3, 4, 5, 6],
+      cutoffTime: '23:59',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    await store.saveStandingOrder({ ...base, id: 'so-1', name: 'Pain', active: true });
+    await store.saveStandingOrder({ ...base, id: 'so-2', name: 'Pain pause', active: false });
+
+    const drafts = await store.processStandingOrders();
+    expect(drafts.map((order) => [order.orderNumber, order.status, order.totalHT])).toEqual([
+      [`CMD-${year}-008`, 'draft', 36],
+    ]);
+    expect(drafts[0].standingOrder).toMatchObject({ standingOrderId: 'so-1', name: 'Pain' });
+
+    expect(await store.processStandingOrders()).toEqual([]);
+    expect(await db.orders.count()).toBe(2);
+  });
+});
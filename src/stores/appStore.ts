@@ -1,16 +1,27 @@
 import { create } from 'zustand';
 import type {
   AppSettings,
+  CorrectiveAction,
+  DeliveryReception,
   Equipment,
   Ingredient,
   Invoice,
+  InvoiceDuplicateGroup,
+  InvoiceDuplicateMatch,
   Order,
   OrderFilters,
   OilChangeRecord,
+  PosDishMapping,
   PriceHistory,
+  ProcessTemperatureLog,
   ProductTrace,
   Recipe,
   RecipeIngredient,
+  RecipeOutput,
+  StandingOrder,
+  StockCount,
+  Supplier,
+  SupplierNonConformity,
   Task,
   TemperatureRecord,
 } from '../types';
@@ -19,6 +30,9 @@ import { createOrderSlice } from './orderSlice';
 import { createProductSlice } from './productSlice';
 import { createRecipeSlice } from './recipeSlice';
 import { createSettingsSlice } from './settingsSlice';
+import { createStandingOrderSlice } from './standingOrderSlice';
+import { createStockSlice } from './stockSlice';
+import { createSupplierSlice } from './supplierSlice';
 import { createTaskSlice } from './taskSlice';
 import { createTemperatureSlice } from './temperatureSlice';
 
@@ -44,9 +58,18 @@ export interface AppState {
     endDate?: Date,
     equipmentId?: string,
   ) => Promise<TemperatureRecord[]>;
+  addCorrectiveAction: (a: CorrectiveAction) => Promise<void>;
+  getCorrectiveActions: (startDate?: Date, endDate?: Date, equipmentId?: string) => Promise<CorrectiveAction[]>;
   addOilChangeRecord: (r: OilChangeRecord) => Promise<void>;
   removeOilChangeRecord: (id: string) => Promise<void>;
   getOilChangeRecords: (startDate?: Date, endDate?: Date, fryerId?: string) => Promise<OilChangeRecord[]>;
+  saveProcessTemperatureLog: (log: ProcessTemperatureLog) => Promise<ProcessTemperatureLog>;
+  removeProcessTemperatureLog: (id: string) => Promise<void>;
+  getProcessTemperatureLogs: (
+    startDate?: Date,
+    endDate?: Date,
+    processType?: ProcessTemperatureLog['processType'],
+  ) => Promise<ProcessTemperatureLog[]>;
 
   getTasks: (includeArchived?: boolean) => Promise<Task[]>;
   addTask: (t: Task) => Promise<void>;
@@ -58,6 +81,18 @@ export interface AppState {
   updateOrder: (o: Order) => Promise<void>;
   deleteOrder: (id: string) => Promise<void>;
   generateOrderNumber: () => Promise<string>;
+  receiveOrder: (o: Order, reception: DeliveryReception) => Promise<Order>;
+  getSupplierNonConformities: (supplier?: string) => Promise<SupplierNonConformity[]>;
+
+  getSuppliers: () => Promise<Supplier[]>;
+  saveSupplier: (s: Supplier) => Promise<Supplier>;
+  deleteSupplier: (id: string) => Promise<void>;
+
+  getStandingOrders: () => Promise<StandingOrder[]>;
+  saveStandingOrder: (s: StandingOrder) => Promise<StandingOrder>;
+  deleteStandingOrder: (id: string) => Promise<void>;
+  /** Creates the drafts of standing orders whose next occurrence has none yet; returns them. */
+  processStandingOrders: () => Promise<Order[]>;
 
   getProducts: (options?: { limit?: number; offset?: number }) => Promise<ProductTrace[]>;
   getLatestProductByBarcode: (barcode: string) => Promise<ProductTrace | null>;
@@ -70,6 +105,10 @@ export interface AppState {
   addInvoice: (i: Invoice) => Promise<void>;
   updateInvoice: (i: Invoice) => Promise<void>;
   deleteInvoice: (id: string) => Promise<void>;
+  findInvoiceDuplicates: (i: Invoice) => Promise<InvoiceDuplicateMatch[]>;
+  findDuplicateInvoiceGroups: () => Promise<InvoiceDuplicateGroup[]>;
+  /** Folds `source` into the stored invoice `targetId`; `source` is deleted if it was stored. Caller rebuilds price history. */
+  mergeInvoices: (targetId: string, source: Invoice) => Promise<Invoice | null>;
 
   getIngredients: () => Promise<Ingredient[]>;
   addIngredient: (i: Ingredient) => Promise<void>;
@@ -79,8 +118,20 @@ export interface AppState {
   getRecipes: () => Promise<Recipe[]>;
   getRecipeIngredients: (recipeId: string) => Promise<RecipeIngredient[]>;
   saveRecipeWithIngredients: (recipe: Recipe, lines: RecipeIngredient[]) => Promise<void>;
+  /** Recipes using this one as a sub-recipe, which lose that line when it is deleted. */
+  getParentRecipes: (recipeId: string) => Promise<Recipe[]>;
   deleteRecipe: (recipeId: string) => Promise<void>;
 
+  getRecipeOutputs: () => Promise<RecipeOutput[]>;
+  addRecipeOutput: (o: RecipeOutput) => Promise<void>;
+  addRecipeOutputs: (outputs: RecipeOutput[]) => Promise<void>;
+  deleteRecipeOutput: (id: string) => Promise<void>;
+  getStockCounts: () => Promise<StockCount[]>;
+  saveStockCount: (c: StockCount) => Promise<void>;
+  deleteStockCount: (id: string) => Promise<void>;
+  getPosDishMappings: () => Promise<PosDishMapping[]>;
+  savePosDishMappings: (mappings: PosDishMapping[]) => Promise<void>;
+
   processRecurringTasks: () => Promise<void>;
 
   updatePriceHistory: (invoice: Invoice) => Promise<void>;
@@ -95,7 +146,10 @@ export const useAppStore = create<AppState>()((...args) => ({
   ...createTemperatureSlice(...args),
   ...createTaskSlice(...args),
   ...createOrderSlice(...args),
+  ...createSupplierSlice(...args),
+  ...createStandingOrderSlice(...args),
   ...createProductSlice(...args),
   ...createInvoiceSlice(...args),
   ...createRecipeSlice(...args),
+  ...createStockSlice(...args),
 }));
@@ -7,6 +7,12 @@ import {
   replaceRemotePriceHistory,
   upsertRemoteInvoice,
 } from '../../services/cloudSync';
+import {
+  computeImageHash,
+  findDuplicateCandidates,
+  groupInvoiceDuplicates,
+  mergeInvoiceRecords,
+} from '../../services/invoiceDuplicates';
 import { sanitize } from '../../utils';
 import type { AppState } from '../appStore';
 import { runCloudRead, runCloudTask } from './cloudUtils';
@@ -19,6 +25,9 @@ type InvoiceSlice = Pick<
   | 'addInvoice'
   | 'updateInvoice'
   | 'deleteInvoice'
+  | 'findInvoiceDuplicates'
+  | 'findDuplicateInvoiceGroups'
+  | 'mergeInvoices'
   | 'updatePriceHistory'
   | 'rebuildPriceHistory'
   | 'getPriceHistory'
@@ -36,7 +45,13 @@ function mergeInvoiceMedia(remote: Invoice, local?: Invoice): Invoice {
   };
 }
 
-export const createInvoiceSlice: StateCreator<AppState, [], [], InvoiceSlice> = () => ({
+async function hashFirstImage(invoice: Invoice): Promise<string | undefined> {
+  if (invoice.imageHash) return invoice.imageHash;
+  const firstImage = invoice.images[0];
+  return firstImage ? computeImageHash(firstImage) : undefined;
+}
+
+export const createInvoiceSlice: StateCreator<AppState, [], [], InvoiceSlice> = (_set, get) => ({
   getInvoices: async (options) => {
     const limit = options?.limit;
     const offset = options?.offset ?? 0;
@@ -99,6 +114,7 @@ export const createInvoiceSlice: StateCreator<AppState, [], [], InvoiceSlice> =
       ocrText: sanitize(invoice.ocrText),
       tags: invoice.tags.map(sanitize),
       items: invoice.items.map((item) => ({ ...item, designation: sanitize(item.designation) })),
+      imageHash: await hashFirstImage(invoice),
     };
     await db.invoices.add(payload);
     const remoteSaved = await runCloudRead('invoices:add', async () => upsertRemoteInvoice(payload));
@@ -117,6 +133,7 @@ export const createInvoiceSlice: StateCreator<AppState, [], [], InvoiceSlice> =
       ocrText: sanitize(invoice.ocrText),
       tags: invoice.tags.map(sanitize),
       items: invoice.items.map((item) => ({ ...item, designation: sanitize(item.designation) })),
+      imageHash: await hashFirstImage(invoice),
     };
     await db.invoices.put(payload);
     const remoteSaved = await runCloudRead('invoices:update', async () => upsertRemoteInvoice(payload));
@@ -132,6 +149,36 @@ export const createInvoiceSlice: StateCreator<AppState, [], [], InvoiceSlice> =
     });
   },
 
+  findInvoiceDuplicates: async (invoice) => {
+    const candidate = { ...invoice, imageHash: await hashFirstImage(invoice) };
+    const stored = await db.invoices.toArray();
+    return findDuplicateCandidates(candidate, stored);
+  },
+
+  findDuplicateInvoiceGroups: async () => {
+    const stored = await db.invoices.toArray();
+    // Invoices saved before hashing existed get one now, as long as the local photo is still there.
+    for (const invoice of stored) {
+      if (invoice.imageHash || invoice.images.length === 0) continue;
+      const imageHash = await computeImageHash(invoice.images[0]);
+      if (!imageHash) continue;
+      invoice.imageHash = imageHash;
+      await db.invoices.update(invoice.id, { imageHash });
+    }
+    return groupInvoiceDuplicates(stored);
+  },
+
+  mergeInvoices: async (targetId, source) => {
+    const target = await db.invoices.get(targetId);
+    if (!target) return null;
+    const merged = mergeInvoiceRecords(target, source);
+    await get().updateInvoice(merged);
+    if (source.id !== targetId && (await db.invoices.get(source.id))) {
+      await get().deleteInvoice(source.id);
+    }
+    return merged;
+  },
+
   updatePriceHistory: async (invoice) => {
     for (const item of invoice.items) {
       const itemName = sanitize(item.designation).trim();
@@ -2,17 +2,34 @@ import type { StateCreator } from 'zustand';
 import { db } from '../../services/db';
 import {
   deleteRemoteOrder,
+  deleteRemoteSupplierNonConformity,
   fetchRemoteOrders,
+  fetchRemoteSupplierNonConformities,
   upsertRemoteOrder,
+  upsertRemoteSupplierNonConformities,
 } from '../../services/cloudSync';
+import {
+  applyReceivedQuantities,
+  buildBackorder,
+  buildNonConformities,
+  buildReceptionTrace,
+  getClearedNonConformityIds,
+  getReceptionStatus,
+} from '../../services/orderReception';
 import { sanitize } from '../../utils';
 import type { AppState } from '../appStore';
-import type { Order, OrderFilters, OrderStatus } from '../../types';
+import type { Order, OrderFilters, OrderStatus, ReceptionLine, SupplierNonConformity } from '../../types';
 import { runCloudRead, runCloudTask } from './cloudUtils';
 
 type OrderSlice = Pick<
   AppState,
-  'getOrders' | 'addOrder' | 'updateOrder' | 'deleteOrder' | 'generateOrderNumber'
+  | 'getOrders'
+  | 'addOrder'
+  | 'updateOrder'
+  | 'deleteOrder'
+  | 'generateOrderNumber'
+  | 'receiveOrder'
+  | 'getSupplierNonConformities'
 >;
 
 function applyOrderFilters(orders: Order[], filters?: OrderFilters): Order[] {
@@ -53,13 +70,26 @@ function sanitizeOrder(value: Order): Order {
     supplier: sanitize(value.supplier),
     notes: value.notes ? sanitize(value.notes) : undefined,
     items: sanitizedItems,
+    reception: value.reception
+      ? {
+          ...value.reception,
+          operator: value.reception.operator ? sanitize(value.reception.operator) : undefined,
+          notes: value.reception.notes ? sanitize(value.reception.notes) : undefined,
+          lines: value.reception.lines.map((line) => ({
+            ...line,
+            productName: sanitize(line.productName),
+            lotNumber: line.lotNumber ? sanitize(line.lotNumber) : undefined,
+            rejectionReason: line.rejectionReason ? sanitize(line.rejectionReason) : undefined,
+          })),
+        }
+      : undefined,
     totalHT: Math.round(
       sanitizedItems.reduce((sum, item) => sum + (item.totalPriceHT ?? 0), 0) * 100,
     ) / 100,
   };
 }
 
-export const createOrderSlice: StateCreator<AppState, [], [], OrderSlice> = () => ({
+export const createOrderSlice: StateCreator<AppState, [], [], OrderSlice> = (_set, get) => ({
   getOrders: async (filters) => {
     const remoteOrders = await runCloudRead('orders:list', fetchRemoteOrders);
     if (remoteOrders) {
@@ -124,4 +154,72 @@ export const createOrderSlice: StateCreator<AppState, [], [], OrderSlice> = () =
 
     return `CMD-${year}-${String(maxSeq + 1).padStart(3, '0')}`;
   },
+
+  receiveOrder: async (order, reception) => {
+    // Accepted lines feed the traceability register right away.
+    const lines: ReceptionLine[] = [];
+    for (const line of reception.lines) {
+      const trace = line.productTraceId ? null : buildReceptionTrace(order, line, reception.receivedAt);
+      if (trace) await get().addProduct(trace);
+      lines.push(trace ? { ...line, productTraceId: trace.id } : line);
+    }
+    const savedReception = { ...reception, lines };
+
+    const nonConformities = buildNonConformities(order, savedReception);
+    if (nonConformities.length > 0) {
+      await db.supplierNonConformities.bulkPut(nonConformities);
+      await runCloudTask('non-conformities:add', async () => {
+        await upsertRemoteSupplierNonConformities(nonConformities);
+      });
+    }
+    // A corrected reception drops the non-conformities of the lines now found conform.
+    if (order.reception) {
+      const clearedIds = getClearedNonConformityIds(order, nonConformities);
+      await db.supplierNonConformities.bulkDelete(clearedIds);
+      await runCloudTask('non-conformities:delete', async () => {
+        for (const id of clearedIds) await deleteRemoteSupplierNonConformity(id);
+      });
+    }
+
+    // Missing quantities are reordered once; the backorder carries its own reception.
+    const backorder = order.backorder ? null : buildBackorder(order, savedReception);
+    if (backorder) await get().addOrder(backorder);
+
+    const received: Order = {
+      ...order,
+      status: getReceptionStatus(savedReception),
+      items: applyReceivedQuantities(order, savedReception),
+      actualDeliveryDate: reception.receivedAt,
+      reception: savedReception,
+      backorder: backorder ? { id: backorder.id, orderNumber: backorder.orderNumber } : order.backorder,
+      updatedAt: new Date(),
+    };
+    await get().updateOrder(received);
+    return sanitizeOrder(received);
+  },
+
+  getSupplierNonConformities: async (supplier) => {
+    const remoteRows = await runCloudRead('non-conformities:list', fetchRemoteSupplierNonConformities);
+    let rows: SupplierNonConformity[];
+    if (remoteRows) {
+      if (remoteRows.length > 0) {
+        await db.supplierNonConformities.bulkPut(remoteRows);
+        rows = remoteRows;
+      } else {
+        rows = await db.supplierNonConformities.toArray();
+        if (rows.length > 0) {
+          await runCloudTask('non-conformities:seed', async () => {
+            await upsertRemoteSupplierNonConformities(rows);
+          });
+        }
+      }
+    } else {
+      rows = await db.supplierNonConformities.toArray();
+    }
+
+    const supplierFilter = supplier?.trim().toLowerCase();
+    return rows
+      .filter((row) => !supplierFilter || row.supplier.trim().toLowerCase() === supplierFilter)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  },
 });
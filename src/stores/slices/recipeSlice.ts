@@ -15,7 +15,8 @@ import type { AppState } from '../appStore';
 import { runCloudRead, runCloudTask } from './cloudUtils';
 import { sanitizeAllergens } from './sliceUtils';
 import { computeAutoRecipeAllergens, mergeRecipeAllergens } from '../../services/recipeAllergens';
-import type { Ingredient } from '../../types';
+import { buildSubRecipeContext } from '../../services/recipeCost';
+import type { Ingredient, Recipe } from '../../types';
 
 type RecipeSlice = Pick<
   AppState,
@@ -26,6 +27,7 @@ type RecipeSlice = Pick<
   | 'getRecipes'
   | 'getRecipeIngredients'
   | 'saveRecipeWithIngredients'
+  | 'getParentRecipes'
   | 'deleteRecipe'
 >;
 
@@ -38,6 +40,11 @@ function toIngredientMap(values: Array<Ingredient | undefined>): Map<string, Ing
   return map;
 }
 
+async function getParentRecipeIds(recipeId: string): Promise<string[]> {
+  const lines = await db.recipeIngredients.filter((line) => line.subRecipeId === recipeId).toArray();
+  return Array.from(new Set(lines.map((line) => line.recipeId)));
+}
+
 export const createRecipeSlice: StateCreator<AppState, [], [], RecipeSlice> = () => ({
   getIngredients: async () => {
     const remoteIngredients = await runCloudRead('ingredients:list', fetchRemoteIngredients);
@@ -95,8 +102,18 @@ export const createRecipeSlice: StateCreator<AppState, [], [], RecipeSlice> = ()
     const remoteRecipes = await runCloudRead('recipes:list', fetchRemoteRecipes);
     if (remoteRecipes) {
       if (remoteRecipes.length > 0) {
+        // Photos whose upload failed only exist locally: keep them until the next save.
+        const localPhotos = new Map(
+          (await db.recipes.toArray())
+            .filter((recipe) => recipe.photo)
+            .map((recipe) => [recipe.id, recipe.photo]),
+        );
+        const merged = remoteRecipes.map((recipe) =>
+          !recipe.photoUrl && localPhotos.has(recipe.id) ? { ...recipe, photo: localPhotos.get(recipe.id) } : recipe,
+        );
         await db.recipes.clear();
-        await db.recipes.bulkPut(remoteRecipes);
+        await db.recipes.bulkPut(merged);
+        return merged;
       } else {
         const localRecipes = await db.recipes.orderBy('updatedAt').reverse().toArray();
         if (localRecipes.length > 0) {
@@ -141,17 +158,56 @@ export const createRecipeSlice: StateCreator<AppState, [], [], RecipeSlice> = ()
     const ingredientIds = Array.from(
       new Set(sanitizedLines.map((line) => line.ingredientId).filter(Boolean)),
     );
-    const linkedIngredients = ingredientIds.length > 0 ? await db.ingredients.bulkGet(ingredientIds) : [];
-    const ingredientMap = toIngredientMap(linkedIngredients);
-    const autoDetectedAllergens = computeAutoRecipeAllergens(ingredientIds, ingredientMap);
+    const subRecipeIds = Array.from(
+      new Set(sanitizedLines.map((line) => line.subRecipeId ?? '').filter(Boolean)),
+    );
+    const [allIngredients, allRecipes, allLines] = await Promise.all([
+      db.ingredients.toArray(),
+      db.recipes.toArray(),
+      db.recipeIngredients.toArray(),
+    ]);
+    const ingredientMap = toIngredientMap(allIngredients);
+    const context = buildSubRecipeContext(
+      allRecipes,
+      [...allLines.filter((line) => line.recipeId !== recipe.id), ...sanitizedLines],
+    );
+    const autoDetectedAllergens = computeAutoRecipeAllergens(ingredientIds, ingredientMap, subRecipeIds, context);
     const manualAllergens = sanitizeAllergens(recipe.allergens) ?? [];
     const mergedAllergens = mergeRecipeAllergens(autoDetectedAllergens, manualAllergens);
 
+    const steps = (recipe.steps ?? [])
+      .map((step) => ({ ...step, instruction: sanitize(step.instruction).trim() }))
+      .filter((step) => step.instruction.length > 0);
     const sanitizedRecipe = {
       ...recipe,
       title: sanitize(recipe.title),
       allergens: mergedAllergens.length > 0 ? mergedAllergens : undefined,
+      steps: steps.length > 0 ? steps : undefined,
+      platingNotes: recipe.platingNotes ? sanitize(recipe.platingNotes).trim() || undefined : undefined,
+      storageNotes: recipe.storageNotes ? sanitize(recipe.storageNotes).trim() || undefined : undefined,
     };
+    context.recipeMap.set(sanitizedRecipe.id, sanitizedRecipe);
+
+    // Recipes using this one as a sub-recipe inherit its allergens, up the whole tree.
+    const updatedParents: Recipe[] = [];
+    const pending = [sanitizedRecipe.id];
+    const visited = new Set<string>(pending);
+    while (pending.length > 0) {
+      const childId = pending.pop()!;
+      const child = context.recipeMap.get(childId);
+      for (const [parentId, parentLines] of context.linesByRecipe) {
+        if (visited.has(parentId) || !parentLines.some((line) => line.subRecipeId === childId)) continue;
+        visited.add(parentId);
+        pending.push(parentId);
+        const parent = context.recipeMap.get(parentId);
+        if (!parent || !child?.allergens?.length) continue;
+        const parentAllergens = mergeRecipeAllergens(child.allergens, parent.allergens ?? []);
+        if (parentAllergens.length === (parent.allergens ?? []).length) continue;
+        const updatedParent = { ...parent, allergens: parentAllergens };
+        context.recipeMap.set(parentId, updatedParent);
+        updatedParents.push(updatedParent);
+      }
+    }
 
     await db.transaction('rw', db.recipes, db.recipeIngredients, async () => {
       await db.recipes.put(sanitizedRecipe);
@@ -159,21 +215,39 @@ export const createRecipeSlice: StateCreator<AppState, [], [], RecipeSlice> = ()
       if (sanitizedLines.length > 0) {
         await db.recipeIngredients.bulkAdd(sanitizedLines);
       }
+      if (updatedParents.length > 0) await db.recipes.bulkPut(updatedParents);
     });
 
     await runCloudTask('recipes:save', async () => {
-      await upsertRemoteRecipe(sanitizedRecipe);
+      const remoteSaved = await upsertRemoteRecipe(sanitizedRecipe);
+      await db.recipes.put(remoteSaved);
       await replaceRemoteRecipeIngredients(sanitizedRecipe.id, sanitizedLines);
+      for (const parent of updatedParents) await upsertRemoteRecipe(parent);
     });
   },
 
+  getParentRecipes: async (recipeId) => {
+    const parentIds = await getParentRecipeIds(recipeId);
+    const parents = await db.recipes.bulkGet(parentIds);
+    return parents
+      .filter((parent): parent is Recipe => Boolean(parent))
+      .sort((a, b) => a.title.localeCompare(b.title));
+  },
+
   deleteRecipe: async (recipeId) => {
+    const parentIds = await getParentRecipeIds(recipeId);
     await db.transaction('rw', db.recipes, db.recipeIngredients, async () => {
       await db.recipes.delete(recipeId);
       await db.recipeIngredients.where('recipeId').equals(recipeId).delete();
+      await db.recipeIngredients.filter((line) => line.subRecipeId === recipeId).delete();
     });
     await runCloudTask('recipes:delete', async () => {
       await deleteRemoteRecipe(recipeId);
+      // Recipes that used it as a sub-recipe lose that line remotely too.
+      for (const parentId of parentIds) {
+        const parentLines = await db.recipeIngredients.where('recipeId').equals(parentId).toArray();
+        await replaceRemoteRecipeIngredients(parentId, parentLines);
+      }
     });
   },
 });
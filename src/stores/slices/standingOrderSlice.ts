@@ -0,0 +1,96 @@
+import type { StateCreator } from 'zustand';
+import { db } from '../../services/db';
+import {
+  deleteRemoteStandingOrder,
+  fetchRemoteStandingOrders,
+  upsertRemoteStandingOrder,
+} from '../../services/cloudSync';
+import { buildStandingOrderDraft, getDueStandingOrderCutoff } from '../../services/standingOrders';
+import { sanitize } from '../../utils';
+import type { AppState } from '../appStore';
+import type { Order, StandingOrder } from '../../types';
+import { runCloudRead, runCloudTask } from './cloudUtils';
+
+type StandingOrderSlice = Pick<
+  AppState,
+  'getStandingOrders' | 'saveStandingOrder' | 'deleteStandingOrder' | 'processStandingOrders'
+>;
+
+function sanitizeStandingOrder(value: StandingOrder): StandingOrder {
+  return {
+    ...value,
+    name: sanitize(value.name).trim(),
+    supplier: sanitize(value.supplier).trim(),
+    items: value.items
+      .filter((item) => item.productName.trim().length > 0 && item.quantity > 0)
+      .map((item) => ({
+        ...item,
+        productName: sanitize(item.productName),
+        notes: item.notes ? sanitize(item.notes) : undefined,
+        totalPriceHT: Math.round(item.quantity * (item.unitPriceHT ?? 0) * 100) / 100,
+        receivedQuantity: undefined,
+      })),
+    weekdays: Array.from(new Set(value.weekdays))
+      .filter((day) => Number.isInteger(day) && day >= 0 && day <= 6)
+      .sort((a, b) => a - b),
+  };
+}
+
+function sortByName(standingOrders: StandingOrder[]): StandingOrder[] {
+  return [...standingOrders].sort((a, b) => a.name.localeCompare(b.name, 'fr'));
+}
+
+export const createStandingOrderSlice: StateCreator<AppState, [], [], StandingOrderSlice> = (_set, get) => ({
+  getStandingOrders: async () => {
+    const remoteStandingOrders = await runCloudRead('standing-orders:list', fetchRemoteStandingOrders);
+    if (remoteStandingOrders) {
+      if (remoteStandingOrders.length > 0) {
+        await db.standingOrders.clear();
+        await db.standingOrders.bulkPut(remoteStandingOrders);
+      } else {
+        const localStandingOrders = await db.standingOrders.toArray();
+        if (localStandingOrders.length > 0) {
+          await runCloudTask('standing-orders:seed', async () => {
+            for (const item of localStandingOrders) await upsertRemoteStandingOrder(item);
+          });
+          return sortByName(localStandingOrders);
+        }
+      }
+      return sortByName(remoteStandingOrders);
+    }
+    return sortByName(await db.standingOrders.toArray());
+  },
+
+  saveStandingOrder: async (standingOrder) => {
+    const payload = sanitizeStandingOrder({ ...standingOrder, updatedAt: new Date() });
+    await db.standingOrders.put(payload);
+    await runCloudTask('standing-orders:save', async () => {
+      await upsertRemoteStandingOrder(payload);
+    });
+    return payload;
+  },
+
+  deleteStandingOrder: async (id) => {
+    await db.standingOrders.delete(id);
+    await runCloudTask('standing-orders:delete', async () => {
+      await deleteRemoteStandingOrder(id);
+    });
+  },
+
+  processStandingOrders: async () => {
+    const now = new Date();
+    const created: Order[] = [];
+    for (const standingOrder of await get().getStandingOrders()) {
+      const cutoffAt = getDueStandingOrderCutoff(standingOrder, now);
+      if (!cutoffAt || standingOrder.items.length === 0) continue;
+
+      // Numbers are taken one at a time so that each draft sees the previous one.
+      const orderNumber = await get().generateOrderNumber();
+      const draft = buildStandingOrderDraft(standingOrder, orderNumber, cutoffAt, now);
+      await get().addOrder(draft);
+      await get().saveStandingOrder({ ...standingOrder, lastGeneratedFor: cutoffAt });
+      created.push(draft);
+    }
+    return created;
+  },
+});
@@ -0,0 +1,155 @@
+import type { StateCreator } from 'zustand';
+import { db } from '../../services/db';
+import {
+  deleteRemoteRecipeOutput,
+  deleteRemoteStockCount,
+  fetchRemotePosDishMappings,
+  fetchRemoteRecipeOutputs,
+  fetchRemoteStockCounts,
+  upsertRemotePosDishMappings,
+  upsertRemoteRecipeOutput,
+  upsertRemoteRecipeOutputs,
+  upsertRemoteStockCount,
+} from '../../services/cloudSync';
+import { sanitize } from '../../utils';
+import type { AppState } from '../appStore';
+import { runCloudRead, runCloudTask } from './cloudUtils';
+
+type StockSlice = Pick<
+  AppState,
+  | 'getRecipeOutputs'
+  | 'addRecipeOutput'
+  | 'addRecipeOutputs'
+  | 'deleteRecipeOutput'
+  | 'getStockCounts'
+  | 'saveStockCount'
+  | 'deleteStockCount'
+  | 'getPosDishMappings'
+  | 'savePosDishMappings'
+>;
+
+export const createStockSlice: StateCreator<AppState, [], [], StockSlice> = () => ({
+  getRecipeOutputs: async () => {
+    const remoteOutputs = await runCloudRead('recipe-outputs:list', fetchRemoteRecipeOutputs);
+    if (remoteOutputs) {
+      if (remoteOutputs.length > 0) {
+        await db.recipeOutputs.clear();
+        await db.recipeOutputs.bulkPut(remoteOutputs);
+      } else {
+        const localOutputs = await db.recipeOutputs.orderBy('date').reverse().toArray();
+        if (localOutputs.length > 0) {
+          await runCloudTask('recipe-outputs:seed', async () => {
+            await upsertRemoteRecipeOutputs(localOutputs);
+          });
+          return localOutputs;
+        }
+      }
+      return remoteOutputs;
+    }
+    return db.recipeOutputs.orderBy('date').reverse().toArray();
+  },
+
+  addRecipeOutput: async (output) => {
+    const payload = {
+      ...output,
+      recipeTitle: sanitize(output.recipeTitle),
+      portions: Math.max(0, output.portions),
+      notes: output.notes ? sanitize(output.notes) : undefined,
+    };
+    await db.recipeOutputs.put(payload);
+    await runCloudTask('recipe-outputs:add', async () => {
+      await upsertRemoteRecipeOutput(payload);
+    });
+  },
+
+  addRecipeOutputs: async (outputs) => {
+    const payload = outputs.map((output) => ({
+      ...output,
+      recipeTitle: sanitize(output.recipeTitle),
+      portions: Math.max(0, output.portions),
+      notes: output.notes ? sanitize(output.notes) : undefined,
+    }));
+    await db.recipeOutputs.bulkPut(payload);
+    await runCloudTask('recipe-outputs:bulk-add', async () => {
+      await upsertRemoteRecipeOutputs(payload);
+    });
+  },
+
+  deleteRecipeOutput: async (id) => {
+    await db.recipeOutputs.delete(id);
+    await runCloudTask('recipe-outputs:delete', async () => {
+      await deleteRemoteRecipeOutput(id);
+    });
+  },
+
+  getStockCounts: async () => {
+    const remoteCounts = await runCloudRead('stock-counts:list', fetchRemoteStockCounts);
+    if (remoteCounts) {
+      if (remoteCounts.length > 0) {
+        await db.stockCounts.clear();
+        await db.stockCounts.bulkPut(remoteCounts);
+      } else {
+        const localCounts = await db.stockCounts.orderBy('countedAt').reverse().toArray();
+        if (localCounts.length > 0) {
+          await runCloudTask('stock-counts:seed', async () => {
+            for (const item of localCounts) await upsertRemoteStockCount(item);
+          });
+          return localCounts;
+        }
+      }
+      return remoteCounts;
+    }
+    return db.stockCounts.orderBy('countedAt').reverse().toArray();
+  },
+
+  saveStockCount: async (count) => {
+    const payload = {
+      ...count,
+      operator: count.operator ? sanitize(count.operator) : undefined,
+      notes: count.notes ? sanitize(count.notes) : undefined,
+      lines: count.lines
+        .filter((line) => Number.isFinite(line.countedQuantity) && line.countedQuantity >= 0)
+        .map((line) => ({ ...line, ingredientName: sanitize(line.ingredientName) })),
+    };
+    await db.stockCounts.put(payload);
+    await runCloudTask('stock-counts:save', async () => {
+      await upsertRemoteStockCount(payload);
+    });
+  },
+
+  deleteStockCount: async (id) => {
+    await db.stockCounts.delete(id);
+    await runCloudTask('stock-counts:delete', async () => {
+      await deleteRemoteStockCount(id);
+    });
+  },
+
+  getPosDishMappings: async () => {
+    const remoteMappings = await runCloudRead('pos-dish-mappings:list', fetchRemotePosDishMappings);
+    if (remoteMappings) {
+      if (remoteMappings.length > 0) {
+        await db.posDishMappings.clear();
+        await db.posDishMappings.bulkPut(remoteMappings);
+      } else {
+        const localMappings = await db.posDishMappings.toArray();
+        if (localMappings.length > 0) {
+          await runCloudTask('pos-dish-mappings:seed', async () => {
+            await upsertRemotePosDishMappings(localMappings);
+          });
+          return localMappings;
+        }
+      }
+      return remoteMappings;
+    }
+    return db.posDishMappings.toArray();
+  },
+
+  savePosDishMappings: async (mappings) => {
+    const payload = mappings.map((mapping) => ({ ...mapping, dishLabel: sanitize(mapping.dishLabel) }));
+    if (payload.length === 0) return;
+    await db.posDishMappings.bulkPut(payload);
+    await runCloudTask('pos-dish-mappings:save', async () => {
+      await upsertRemotePosDishMappings(payload);
+    });
+  },
+});
@@ -0,0 +1,103 @@
+import type { StateCreator } from 'zustand';
+import { db } from '../../services/db';
+import {
+  deleteRemoteSupplier,
+  fetchRemoteSuppliers,
+  upsertRemoteSupplier,
+} from '../../services/cloudSync';
+import { sanitize } from '../../utils';
+import type { AppState } from '../appStore';
+import type { Supplier, SupplierParLevel } from '../../types';
+import { runCloudRead, runCloudTask } from './cloudUtils';
+
+type SupplierSlice = Pick<AppState, 'getSuppliers' | 'saveSupplier' | 'deleteSupplier'>;
+
+function optionalText(value?: string): string | undefined {
+  const cleaned = value ? sanitize(value).trim() : '';
+  return cleaned || undefined;
+}
+
+function optionalAmount(value?: number): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.round(value * 100) / 100 : undefined;
+}
+
+/** Keeps one level per ingredient, with a target never below the reorder point. */
+function sanitizeParLevels(levels: SupplierParLevel[] = []): SupplierParLevel[] {
+  const byIngredient = new Map<string, SupplierParLevel>();
+  for (const level of levels) {
+    if (!level.ingredientId || !Number.isFinite(level.minQuantity) || !Number.isFinite(level.targetQuantity)) continue;
+    const minQuantity = Math.max(0, level.minQuantity);
+    byIngredient.set(level.ingredientId, {
+      ingredientId: level.ingredientId,
+      productName: optionalText(level.productName),
+      minQuantity,
+      targetQuantity: Math.max(minQuantity, level.targetQuantity),
+    });
+  }
+  return Array.from(byIngredient.values());
+}
+
+function sanitizeSupplier(value: Supplier): Supplier {
+  return {
+    ...value,
+    name: sanitize(value.name).trim(),
+    contactName: optionalText(value.contactName),
+    email: optionalText(value.email),
+    phone: optionalText(value.phone),
+    customerAccountNumber: optionalText(value.customerAccountNumber),
+    deliveryDays: Array.from(new Set(value.deliveryDays))
+      .filter((day) => Number.isInteger(day) && day >= 0 && day <= 6)
+      .sort((a, b) => a - b),
+    orderCutoffTime: value.orderCutoffTime && /^\d{2}:\d{2}$/.test(value.orderCutoffTime) ? value.orderCutoffTime : undefined,
+    leadTimeDays:
+      typeof value.leadTimeDays === 'number' && Number.isFinite(value.leadTimeDays)
+        ? Math.max(0, Math.round(value.leadTimeDays))
+        : undefined,
+    minimumOrderHT: optionalAmount(value.minimumOrderHT),
+    francoHT: optionalAmount(value.francoHT),
+    notes: optionalText(value.notes),
+    parLevels: sanitizeParLevels(value.parLevels),
+  };
+}
+
+function sortByName(suppliers: Supplier[]): Supplier[] {
+  return [...suppliers].sort((a, b) => a.name.localeCompare(b.name, 'fr'));
+}
+
+export const createSupplierSlice: StateCreator<AppState, [], [], SupplierSlice> = () => ({
+  getSuppliers: async () => {
+    const remoteSuppliers = await runCloudRead('suppliers:list', fetchRemoteSuppliers);
+    if (remoteSuppliers) {
+      if (remoteSuppliers.length > 0) {
+        await db.suppliers.clear();
+        await db.suppliers.bulkPut(remoteSuppliers);
+      } else {
+        const localSuppliers = await db.suppliers.toArray();
+        if (localSuppliers.length > 0) {
+          await runCloudTask('suppliers:seed', async () => {
+            for (const item of localSuppliers) await upsertRemoteSupplier(item);
+          });
+          return sortByName(localSuppliers);
+        }
+      }
+      return sortByName(remoteSuppliers);
+    }
+    return sortByName(await db.suppliers.toArray());
+  },
+
+  saveSupplier: async (supplier) => {
+    const payload = sanitizeSupplier({ ...supplier, updatedAt: new Date() });
+    await db.suppliers.put(payload);
+    await runCloudTask('suppliers:save', async () => {
+      await upsertRemoteSupplier(payload);
+    });
+    return payload;
+  },
+
+  deleteSupplier: async (id) => {
+    await db.suppliers.delete(id);
+    await runCloudTask('suppliers:delete', async () => {
+      await deleteRemoteSupplier(id);
+    });
+  },
+});
@@ -3,13 +3,20 @@ import { db } from '../../services/db';
 import {
   deleteRemoteEquipment,
   deleteRemoteOilChangeRecord,
+  deleteRemoteProcessTemperatureLog,
+  fetchRemoteCorrectiveActions,
   fetchRemoteEquipment,
   fetchRemoteOilChangeRecords,
+  fetchRemoteProcessTemperatureLogs,
   fetchRemoteTemperatureRecords,
+  upsertRemoteCorrectiveAction,
   upsertRemoteEquipment,
   upsertRemoteOilChangeRecord,
+  upsertRemoteProcessTemperatureLog,
   upsertRemoteTemperatureRecord,
 } from '../../services/cloudSync';
+import { evaluateProcessLog } from '../../services/processTemperature';
+import { DEFAULT_RECHECK_DELAY_MINUTES } from '../../types';
 import type { AppState } from '../appStore';
 import { runCloudRead, runCloudTask } from './cloudUtils';
 import { sanitize } from '../../utils';
@@ -23,9 +30,14 @@ type TemperatureSlice = Pick<
   | 'deleteEquipment'
   | 'addTemperatureRecord'
   | 'getTemperatureRecords'
+  | 'addCorrectiveAction'
+  | 'getCorrectiveActions'
   | 'addOilChangeRecord'
   | 'removeOilChangeRecord'
   | 'getOilChangeRecords'
+  | 'saveProcessTemperatureLog'
+  | 'removeProcessTemperatureLog'
+  | 'getProcessTemperatureLogs'
 >;
 
 export const createTemperatureSlice: StateCreator<AppState, [], [], TemperatureSlice> = (set) => ({
@@ -90,6 +102,41 @@ export const createTemperatureSlice: StateCreator<AppState, [], [], TemperatureS
     await runCloudTask('temperature:add', async () => {
       await upsertRemoteTemperatureRecord(record);
     });
+
+    const recordTime = new Date(record.timestamp).getTime();
+    if (!record.isCompliant) {
+      // The re-check is scheduled right away, even if the operator skips the corrective action form.
+      // Earlier pending actions stay open: a failed re-check does not clear them.
+      const action = {
+        id: crypto.randomUUID(),
+        temperatureRecordId: record.id,
+        equipmentId: record.equipmentId,
+        action: 'recheck_scheduled' as const,
+        automatic: true,
+        createdAt: new Date(record.timestamp),
+        recheckDueAt: new Date(recordTime + DEFAULT_RECHECK_DELAY_MINUTES * 60 * 1000),
+      };
+      await db.correctiveActions.put(action);
+      await runCloudTask('corrective-action:add', async () => {
+        await upsertRemoteCorrectiveAction(action);
+      });
+      return;
+    }
+
+    // A compliant follow-up reading on the same equipment closes its pending re-checks.
+    const pendingActions = await db.correctiveActions
+      .where('equipmentId')
+      .equals(record.equipmentId)
+      .filter((action) => !action.resolvedAt && new Date(action.createdAt).getTime() <= recordTime)
+      .toArray();
+    for (const action of pendingActions) {
+      if (action.temperatureRecordId === record.id) continue;
+      const resolved = { ...action, resolvedAt: new Date(record.timestamp), resolvedByRecordId: record.id };
+      await db.correctiveActions.put(resolved);
+      await runCloudTask('corrective-action:resolve', async () => {
+        await upsertRemoteCorrectiveAction(resolved);
+      });
+    }
   },
 
   getTemperatureRecords: async (startDate, endDate, equipmentId) => {
@@ -136,6 +183,47 @@ export const createTemperatureSlice: StateCreator<AppState, [], [], TemperatureS
     return db.temperatureRecords.orderBy('timestamp').reverse().toArray();
   },
 
+  addCorrectiveAction: async (action) => {
+    // Replaces the re-check opened when the reading was saved, rather than adding a second one.
+    const existing = await db.correctiveActions.where('temperatureRecordId').equals(action.temperatureRecordId).first();
+    const payload = {
+      ...action,
+      id: existing?.id ?? action.id,
+      resolvedAt: existing?.resolvedAt ?? action.resolvedAt,
+      resolvedByRecordId: existing?.resolvedByRecordId ?? action.resolvedByRecordId,
+      notes: action.notes ? sanitize(action.notes) : undefined,
+      operator: action.operator ? sanitize(action.operator) : undefined,
+    };
+    await db.correctiveActions.put(payload);
+    await runCloudTask('corrective-action:add', async () => {
+      await upsertRemoteCorrectiveAction(payload);
+    });
+  },
+
+  getCorrectiveActions: async (startDate, endDate, equipmentId) => {
+    const remoteActions = await runCloudRead('corrective-action:list', async () =>
+      fetchRemoteCorrectiveActions({ startDate, endDate, equipmentId }),
+    );
+    if (remoteActions) {
+      if (remoteActions.length > 0) return remoteActions;
+
+      const localAll = await db.correctiveActions.toArray();
+      if (localAll.length > 0) {
+        await runCloudTask('corrective-action:seed', async () => {
+          for (const item of localAll) await upsertRemoteCorrectiveAction(item);
+        });
+      }
+      return remoteActions;
+    }
+
+    const minDate = startDate ?? new Date(0);
+    const maxDate = endDate ?? new Date(8640000000000000);
+    const actions = await db.correctiveActions.where('createdAt').between(minDate, maxDate, true, true).toArray();
+    return actions
+      .filter((action) => !equipmentId || action.equipmentId === equipmentId)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  },
+
   addOilChangeRecord: async (record) => {
     await db.oilChangeRecords.add(record);
     await runCloudTask('oil-change:add', async () => {
@@ -193,4 +281,51 @@ export const createTemperatureSlice: StateCreator<AppState, [], [], TemperatureS
 
     return db.oilChangeRecords.orderBy('changedAt').reverse().toArray();
   },
+
+  saveProcessTemperatureLog: async (log) => {
+    const closed = log.endedAt !== undefined && log.endTemperature !== undefined;
+    const payload = {
+      ...log,
+      productName: sanitize(log.productName),
+      operator: log.operator ? sanitize(log.operator) : undefined,
+      notes: log.notes ? sanitize(log.notes) : undefined,
+      isCompliant: closed ? evaluateProcessLog(log).status === 'compliant' : undefined,
+    };
+    await db.processTemperatureLogs.put(payload);
+    await runCloudTask('process-temperature:save', async () => {
+      await upsertRemoteProcessTemperatureLog(payload);
+    });
+    return payload;
+  },
+
+  removeProcessTemperatureLog: async (id) => {
+    await db.processTemperatureLogs.delete(id);
+    await runCloudTask('process-temperature:delete', async () => {
+      await deleteRemoteProcessTemperatureLog(id);
+    });
+  },
+
+  getProcessTemperatureLogs: async (startDate, endDate, processType) => {
+    const remoteLogs = await runCloudRead('process-temperature:list', async () =>
+      fetchRemoteProcessTemperatureLogs({ startDate, endDate, processType }),
+    );
+    if (remoteLogs) {
+      if (remoteLogs.length > 0) return remoteLogs;
+
+      const localAll = await db.processTemperatureLogs.toArray();
+      if (localAll.length > 0) {
+        await runCloudTask('process-temperature:seed', async () => {
+          for (const item of localAll) await upsertRemoteProcessTemperatureLog(item);
+        });
+      }
+      return remoteLogs;
+    }
+
+    const minDate = startDate ?? new Date(0);
+    const maxDate = endDate ?? new Date(8640000000000000);
+    const logs = await db.processTemperatureLogs.where('startedAt').between(minDate, maxDate, true, true).toArray();
+    return logs
+      .filter((log) => !processType || log.processType === processType)
+      .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime());
+  },
 });
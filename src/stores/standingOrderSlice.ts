@@ -0,0 +1 @@
+export { createStandingOrderSlice } from './slices/standingOrderSlice';
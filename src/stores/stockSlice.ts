@@ -0,0 +1 @@
+export { createStockSlice } from './slices/stockSlice';
@@ -0,0 +1 @@
+export { createSupplierSlice } from './slices/supplierSlice';
@@ -1,3 +1,13 @@
+export interface EquipmentCheckSlot {
+  /** Heure du controle au format HH:mm */
+  time: string;
+  label?: string;
+}
+
+export type EquipmentCheckSchedule =
+  | { mode: 'per_day'; timesPerDay: number }
+  | { mode: 'slots'; slots: EquipmentCheckSlot[] };
+
 export interface Equipment {
   id: string;
   name: string;
@@ -5,6 +15,7 @@ export interface Equipment {
   minTemp: number;
   maxTemp: number;
   order: number;
+  checkSchedule?: EquipmentCheckSchedule;
 }
 
 export interface TemperatureRecord {
@@ -16,6 +27,39 @@ export interface TemperatureRecord {
   signature?: string;
 }
 
+export type CorrectiveActionType = 'product_moved' | 'discarded' | 'technician_called' | 'recheck_scheduled';
+
+export interface CorrectiveAction {
+  id: string;
+  temperatureRecordId: string;
+  equipmentId: string;
+  action: CorrectiveActionType;
+  notes?: string;
+  operator?: string;
+  /** Re-check opened by the app when the reading was saved, before any operator decision. */
+  automatic?: boolean;
+  createdAt: Date;
+  recheckDueAt: Date;
+  resolvedAt?: Date;
+  resolvedByRecordId?: string;
+}
+
+export type ProcessTemperatureType = 'cooling' | 'hot_holding' | 'reheating';
+
+export interface ProcessTemperatureLog {
+  id: string;
+  processType: ProcessTemperatureType;
+  productName: string;
+  startedAt: Date;
+  startTemperature: number;
+  endedAt?: Date;
+  endTemperature?: number;
+  /** Renseigne a la cloture du process (sonde de fin). */
+  isCompliant?: boolean;
+  operator?: string;
+  notes?: string;
+}
+
 export interface OilChangeRecord {
   id: string;
   fryerId: string;
@@ -62,7 +106,7 @@ export interface Task {
   order: number;
 }
 
-export type OrderStatus = 'draft' | 'sent' | 'received' | 'invoiced';
+export type OrderStatus = 'draft' | 'sent' | 'partially_received' | 'received' | 'invoiced';
 
 export interface OrderItem {
   id: string;
@@ -72,6 +116,40 @@ export interface OrderItem {
   unitPriceHT?: number;
   totalPriceHT?: number;
   notes?: string;
+  /** Accepted quantity once the delivery was checked (0 when the line was refused). */
+  receivedQuantity?: number;
+}
+
+export type PackagingState = 'ok' | 'damaged' | 'opened';
+export type ReceptionDecision = 'accepted' | 'rejected';
+
+export interface ReceptionLine {
+  orderItemId: string;
+  productName: string;
+  orderedQuantity: number;
+  receivedQuantity: number;
+  unit: IngredientUnit;
+  /** Temperature produit mesuree a la livraison (°C). */
+  temperature?: number;
+  packaging: PackagingState;
+  expirationDate?: Date;
+  lotNumber?: string;
+  category?: string;
+  decision: ReceptionDecision;
+  rejectionReason?: string;
+  productTraceId?: string;
+}
+
+export interface DeliveryReception {
+  receivedAt: Date;
+  operator?: string;
+  notes?: string;
+  lines: ReceptionLine[];
+}
+
+export interface OrderRef {
+  id: string;
+  orderNumber: string;
 }
 
 export interface Order {
@@ -86,10 +164,112 @@ export interface Order {
   totalHT: number;
   notes?: string;
   invoiceId?: string;
+  reception?: DeliveryReception;
+  /** Every time the purchase order went out, oldest first. */
+  sendLog?: OrderSendLogEntry[];
+  /** Order created for the quantities missing from this delivery. */
+  backorder?: OrderRef;
+  /** Set on a backorder: the partially delivered order it completes. */
+  backorderOf?: OrderRef;
+  /** Set on drafts created from a standing order. */
+  standingOrder?: StandingOrderOccurrence;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/** Order placed again and again on the same weekdays, with the same lines. */
+export interface StandingOrder {
+  id: string;
+  name: string;
+  supplier: string;
+  items: OrderItem[];
+  /** Days the order is placed (0 = dimanche, as Date.getDay()). */
+  weekdays: number[];
+  /** 'HH:mm' on the order day, after which the supplier no longer takes it. */
+  cutoffTime: string;
+  active: boolean;
+  /** Cutoff of the last occurrence a draft was created for. */
+  lastGeneratedFor?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface StandingOrderOccurrence {
+  standingOrderId: string;
+  name: string;
+  cutoffAt: Date;
+  /** First time the draft was saved or sent from the editor. */
+  reviewedAt?: Date;
+}
+
+export type OrderSendChannel = 'pdf' | 'email' | 'share' | 'whatsapp' | 'text';
+
+export interface OrderSendLogEntry {
+  sentAt: Date;
+  channel: OrderSendChannel;
+  /** Email address or phone number when the channel has one. */
+  recipient?: string;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  customerAccountNumber?: string;
+  /** Days the supplier delivers, as Date#getDay() (0 = dimanche). Empty means every day. */
+  deliveryDays: number[];
+  /** Latest order time ('HH:mm') on the ordering day. */
+  orderCutoffTime?: string;
+  /** Days between the order cutoff and the delivery (1 = order before the cutoff the day before). */
+  leadTimeDays?: number;
+  minimumOrderHT?: number;
+  francoHT?: number;
+  notes?: string;
+  /** Stock levels that drive the order suggestions for this supplier. */
+  parLevels?: SupplierParLevel[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Par level of one ingredient bought from a supplier, quantities in the ingredient unit. */
+export interface SupplierParLevel {
+  ingredientId: string;
+  /** Label on the order line (supplier reference...); defaults to the ingredient name. */
+  productName?: string;
+  /** Reorder point: a line is suggested once the stock is at or below it. */
+  minQuantity: number;
+  /** Stock to get back to with the order. */
+  targetQuantity: number;
+}
+
+export type SupplierOrderWarningKind = 'below_minimum' | 'below_franco' | 'no_delivery_day' | 'cutoff_missed';
+
+export interface SupplierOrderWarning {
+  kind: SupplierOrderWarningKind;
+  /** Warnings break a supplier condition; infos are hints (e.g. franco de port not reached). */
+  severity: 'warning' | 'info';
+  message: string;
+}
+
+export type NonConformityType = 'quantity_gap' | 'rejected';
+
+export interface SupplierNonConformity {
+  id: string;
+  supplier: string;
+  orderId: string;
+  orderNumber: string;
+  orderItemId: string;
+  productName: string;
+  type: NonConformityType;
+  orderedQuantity: number;
+  receivedQuantity: number;
+  unit: IngredientUnit;
+  reason?: string;
+  createdAt: Date;
+}
+
 export interface OrderFilters {
   status?: OrderStatus | OrderStatus[];
   supplier?: string;
@@ -111,6 +291,50 @@ export interface Invoice {
   ocrText: string;
   tags: string[];
   scannedAt: Date;
+  /** Recipes whose cost moved when this invoice updated ingredient prices. */
+  priceImpact?: RecipePriceImpact[];
+  /** Perceptual hash (hex) of the first page, used to spot the same paper scanned twice. */
+  imageHash?: string;
+  /** Totals per VAT rate, as printed at the bottom of French invoices. */
+  vatBreakdown?: InvoiceVatLine[];
+}
+
+export interface InvoiceVatLine {
+  /** Percentage (5.5, 10, 20...). */
+  rate: number;
+  baseHT: number;
+  vat: number;
+}
+
+export type InvoiceDuplicateReason = 'same_number' | 'same_amount' | 'same_image';
+
+export const INVOICE_DUPLICATE_REASON_LABELS: Record<InvoiceDuplicateReason, string> = {
+  same_number: 'Meme numero',
+  same_amount: 'Meme date et montant',
+  same_image: 'Meme photo',
+};
+
+export interface InvoiceDuplicateMatch {
+  invoice: Invoice;
+  reasons: InvoiceDuplicateReason[];
+}
+
+export interface InvoiceDuplicateGroup {
+  /** Oldest scan first: it is the one kept by default. */
+  invoices: Invoice[];
+  reasons: InvoiceDuplicateReason[];
+}
+
+export interface RecipePriceImpact {
+  recipeId: string;
+  recipeTitle: string;
+  oldCost: number;
+  newCost: number;
+  oldFoodCostRate: number;
+  newFoodCostRate: number;
+  warningLevel: RecipeCostSummary['warningLevel'];
+  /** The warning level got worse (ok to warning, warning to danger...). */
+  crossedThreshold: boolean;
 }
 
 export interface InvoiceItem {
@@ -120,6 +344,8 @@ export interface InvoiceItem {
   totalPriceHT: number;
   conditioningQuantity?: number;
   conditioningUnit?: IngredientUnit;
+  /** Percentage (5.5, 10, 20...). */
+  vatRate?: number;
 }
 
 export interface PriceHistory {
@@ -133,6 +359,9 @@ export interface PriceHistory {
   unit?: IngredientUnit;
 }
 
+/** How suggested menu prices TTC are rounded up. */
+export type PriceRoundingRule = 'none' | 'ten_cents' | 'fifty_ninety' | 'whole';
+
 export interface AppSettings {
   id: string;
   establishmentName: string;
@@ -140,6 +369,32 @@ export interface AppSettings {
   onboardingDone: boolean;
   priceAlertThreshold: number;
   geminiApiKey?: string;
+  /** Target food cost (0-1), 0.3 when unset. */
+  targetFoodCostRate?: number;
+  /** Target food cost per recipe category, overrides the global one. */
+  categoryFoodCostTargets?: Record<string, number>;
+  /** VAT applied to menu prices, in % (10 when unset). */
+  menuVatRate?: number;
+  priceRounding?: PriceRoundingRule;
+  /** Accounting export: purchase journal code ('HA' when unset). */
+  accountingJournalCode?: string;
+  /** Default charge account for purchases (607000 when unset). */
+  purchaseAccount?: string;
+  /** Deductible VAT account (445660 when unset). */
+  vatDeductibleAccount?: string;
+  /** Collective supplier account (401000 when unset). */
+  supplierAccount?: string;
+  accountMappings?: AccountMappingRule[];
+}
+
+export type AccountMappingKind = 'supplier' | 'category';
+
+/** Sends an invoice to another charge account, by supplier or by invoice tag. Supplier rules win. */
+export interface AccountMappingRule {
+  id: string;
+  kind: AccountMappingKind;
+  match: string;
+  account: string;
 }
 
 export type IngredientUnit = 'kg' | 'g' | 'l' | 'ml' | 'unite';
@@ -152,24 +407,54 @@ export interface Ingredient {
   unitPrice: number;
   conditioningQuantity?: number;
   supplierId?: string;
+  /** Average weight of one piece, for lines counted in `unite`. */
+  pieceWeightGrams?: number;
+  /** Density for liquids, so that volumes convert to weights (1 = water). */
+  densityGramsPerMl?: number;
+  /** Usable share after trimming/peeling, in % of the purchased weight (ex: 45 for a whole fish). */
+  usableYieldPercent?: number;
+}
+
+/** One step of the method, in display order. */
+export interface RecipeStep {
+  id: string;
+  instruction: string;
+  /** Minuteur de l'etape, en minutes. */
+  durationMinutes?: number;
+  temperatureCelsius?: number;
 }
 
 export interface Recipe {
   id: string;
   title: string;
+  /** Menu category (entree, plat, dessert...), used for the target food cost. */
+  category?: string;
   portions: number;
   salePriceHT?: number;
+  /** Quantity produced by the whole recipe when it is used as a sub-recipe (ex: 5 l de fond brun). */
+  yieldQuantity?: number;
+  yieldUnit?: RecipeUnit;
   createdAt: Date;
   updatedAt: Date;
   allergens?: string[];
+  steps?: RecipeStep[];
+  photo?: Blob;
+  photoUrl?: string;
+  platingNotes?: string;
+  storageNotes?: string;
 }
 
 export interface RecipeIngredient {
   id: string;
   recipeId: string;
+  /** Empty when the line points to a sub-recipe. */
   ingredientId: string;
+  subRecipeId?: string;
+  /** Net quantity, as used in the dish. */
   requiredQuantity: number;
   requiredUnit: RecipeUnit;
+  /** Overrides the ingredient usable yield for this line only. */
+  usableYieldPercent?: number;
 }
 
 export interface RecipeCostSummary {
@@ -177,6 +462,50 @@ export interface RecipeCostSummary {
   grossMargin: number;
   foodCostRate: number;
   warningLevel: 'ok' | 'warning' | 'danger';
+  /** Lines left out of totalCost because their unit cannot be converted to the ingredient unit. */
+  unconvertibleLines?: string[];
+}
+
+export type RecipeOutputKind = 'production' | 'sale';
+
+/** Production ou vente enregistree : decremente le stock theorique des ingredients de la fiche. */
+export interface RecipeOutput {
+  id: string;
+  recipeId: string;
+  recipeTitle: string;
+  kind: RecipeOutputKind;
+  portions: number;
+  date: Date;
+  notes?: string;
+  createdAt: Date;
+}
+
+/** Correspondance memorisee entre un libelle de caisse et une fiche technique. */
+export interface PosDishMapping {
+  /** Libelle normalise (cle stable entre deux imports). */
+  id: string;
+  dishLabel: string;
+  recipeId: string;
+  updatedAt: Date;
+}
+
+export interface StockCountLine {
+  ingredientId: string;
+  ingredientName: string;
+  unit: IngredientUnit;
+  /** Stock theorique au moment du comptage. */
+  theoreticalQuantity: number;
+  countedQuantity: number;
+  /** Prix unitaire effectif fige au moment du comptage. */
+  unitPrice: number;
+}
+
+export interface StockCount {
+  id: string;
+  countedAt: Date;
+  operator?: string;
+  notes?: string;
+  lines: StockCountLine[];
 }
 
 export interface SupplierProductMapping {
@@ -187,8 +516,44 @@ export interface SupplierProductMapping {
   templateRecipeId: string;
   quantityRatio: number;
   confidence: number;
+  /** Ingredient confirmed for this supplier label when reviewing invoice prices. */
+  ingredientId?: string;
+  /** Ingredients refused for this supplier label, never proposed again. */
+  rejectedIngredientIds?: string[];
+}
+
+export type PriceReviewReason = 'low_confidence' | 'price_jump' | 'conditioning_change';
+
+export type PriceReviewStatus = 'pending' | 'approved' | 'rejected';
+
+/**
+ * Mise a jour de prix ingredient issue d'une facture, en attente de validation.
+ * File locale a l'appareil qui a saisi la facture : sauvegardee, mais pas synchronisee.
+ */
+export interface IngredientPriceReview {
+  id: string;
+  invoiceId: string;
+  supplier: string;
+  designation: string;
+  ingredientId: string;
+  ingredientName: string;
+  matchScore: number;
+  reasons: PriceReviewReason[];
+  previousUnitPrice: number;
+  proposedUnitPrice: number;
+  previousConditioningQuantity?: number;
+  proposedConditioningQuantity?: number;
+  status: PriceReviewStatus;
+  createdAt: Date;
+  resolvedAt?: Date;
 }
 
+export const PRICE_REVIEW_REASON_LABELS: Record<PriceReviewReason, string> = {
+  low_confidence: 'Correspondance incertaine',
+  price_jump: 'Variation de prix forte',
+  conditioning_change: 'Conditionnement modifie',
+};
+
 export interface SupplierLineInput {
   supplierId?: string;
   supplierSku?: string;
@@ -202,6 +567,11 @@ export interface SupplierLineResolution {
   source: 'exact' | 'fuzzy';
 }
 
+export const RECIPE_OUTPUT_LABELS: Record<RecipeOutputKind, string> = {
+  production: 'Production',
+  sale: 'Vente',
+};
+
 export const CATEGORIES: Record<TaskCategory, string> = {
   entrees: 'Entrées',
   plats: 'Plats',
@@ -214,6 +584,7 @@ export const CATEGORIES: Record<TaskCategory, string> = {
 export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
   draft: 'Brouillon',
   sent: 'Envoyee',
+  partially_received: 'Partielle',
   received: 'Recue',
   invoiced: 'Facturee',
 };
@@ -221,10 +592,30 @@ export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
 export const ORDER_STATUS_COLORS: Record<OrderStatus, string> = {
   draft: '#64748B',
   sent: '#2563EB',
+  partially_received: '#D97706',
   received: '#16A34A',
   invoiced: '#7C3AED',
 };
 
+export const ORDER_SEND_CHANNEL_LABELS: Record<OrderSendChannel, string> = {
+  pdf: 'PDF telecharge',
+  email: 'Email',
+  share: 'Partage',
+  whatsapp: 'WhatsApp',
+  text: 'Texte copie',
+};
+
+export const PACKAGING_STATE_LABELS: Record<PackagingState, string> = {
+  ok: 'Intact',
+  damaged: 'Abime',
+  opened: 'Ouvert',
+};
+
+export const NON_CONFORMITY_LABELS: Record<NonConformityType, string> = {
+  quantity_gap: 'Ecart de quantite',
+  rejected: 'Refus a reception',
+};
+
 export const PRODUCT_CATEGORIES = [
   'Viande',
   'Poisson',
@@ -260,6 +651,25 @@ export const EQUIPMENT_TYPES: Record<Equipment['type'], string> = {
   cold_room: 'Chambre froide',
 };
 
+export const CORRECTIVE_ACTION_LABELS: Record<CorrectiveActionType, string> = {
+  product_moved: 'Produits deplaces',
+  discarded: 'Produits jetes',
+  technician_called: 'Technicien appele',
+  recheck_scheduled: 'Controle reprogramme',
+};
+
+/** Shown instead of the action label while the operator has not recorded one. */
+export const PENDING_CORRECTIVE_ACTION_LABEL = "En attente d'action";
+
+/** Re-check deadline of an out-of-range reading until the operator picks another one. */
+export const DEFAULT_RECHECK_DELAY_MINUTES = 60;
+
+export const PROCESS_TEMPERATURE_LABELS: Record<ProcessTemperatureType, string> = {
+  cooling: 'Refroidissement',
+  hot_holding: 'Maintien au chaud',
+  reheating: 'Remise en temperature',
+};
+
 export const PRIORITY_COLORS: Record<TaskPriority, string> = {
   high: '#EF4444',
   normal: '#F59E0B',